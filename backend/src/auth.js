@@ -0,0 +1,213 @@
+/**
+ * Registration, sign-in and request authentication
+ *
+ * Passwords are hashed with scrypt and a per-user salt. Signing in returns a
+ * JWT that clients send as a Bearer token on REST calls and as `auth.token`
+ * in the Socket.IO handshake. Tokens carry only the user ID; the role is
+ * read from the database on every check, so demoting an admin takes effect
+ * straight away.
+ */
+
+const crypto = require('crypto');
+const { promisify } = require('util');
+const jwt = require('jsonwebtoken');
+const { UserStore } = require('./users');
+
+const scrypt = promisify(crypto.scrypt);
+
+const SCRYPT_KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 256;
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+class AuthError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {number} status - HTTP status code
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Hash a password with a fresh salt
+ * @param {string} password - Plain-text password
+ * @returns {Promise<string>} "scrypt$salt$hash", both hex encoded
+ */
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ * @param {string} password - Plain-text password
+ * @param {string} stored - Hash from hashPassword
+ * @returns {Promise<boolean>} True if the password matches
+ */
+async function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+class AuthService {
+  /**
+   * @param {Object} options - Service options
+   * @param {UserStore} options.users - User store
+   * @param {string} options.secret - Key tokens are signed with
+   * @param {string|number} [options.tokenTtl] - Token lifetime (jsonwebtoken `expiresIn`)
+   */
+  constructor({ users, secret, tokenTtl = '7d' }) {
+    this.users = users;
+    this.secret = secret;
+    this.tokenTtl = tokenTtl;
+  }
+
+  /**
+   * Create a user and sign them in
+   * @param {string} username - Username
+   * @param {string} password - Password
+   * @returns {Promise<Object>} { user, token }
+   */
+  async register(username, password) {
+    if (!UserStore.isValidUsername(username)) {
+      throw new AuthError('Usernames are 3-32 letters, digits, dashes or underscores', 400);
+    }
+    validatePassword(password);
+
+    const user = this.users.createUser({ username, passwordHash: await hashPassword(password) });
+    if (!user) {
+      throw new AuthError(`Username ${username} is taken`, 409);
+    }
+    console.log(`User ${user.username} registered`);
+    return { user, token: this.issueToken(user) };
+  }
+
+  /**
+   * Sign a user in
+   * @param {string} username - Username
+   * @param {string} password - Password
+   * @returns {Promise<Object>} { user, token }
+   */
+  async login(username, password) {
+    const credentials = typeof username === 'string' ? this.users.findCredentials(username) : null;
+    if (!credentials || typeof password !== 'string' || !(await verifyPassword(password, credentials.passwordHash))) {
+      throw new AuthError('Invalid username or password', 401);
+    }
+    const { passwordHash, ...user } = credentials;
+    return { user, token: this.issueToken(user) };
+  }
+
+  /**
+   * Make sure an admin account exists with this password, creating or
+   * promoting the user as needed
+   * @param {string} username - Admin username
+   * @param {string} password - Admin password
+   * @returns {Promise<Object>} Admin user
+   */
+  async ensureAdmin(username, password) {
+    validatePassword(password);
+    const passwordHash = await hashPassword(password);
+    const existing = this.users.findCredentials(username);
+    if (!existing) {
+      return this.users.createUser({ username, passwordHash, role: 'admin' });
+    }
+    this.users.setRole(existing.id, 'admin');
+    this.users.setPassword(existing.id, passwordHash);
+    return this.users.findById(existing.id);
+  }
+
+  /**
+   * Sign a token for a user
+   * @param {Object} user - User
+   * @returns {string} JWT
+   */
+  issueToken(user) {
+    return jwt.sign({ sub: user.id }, this.secret, { expiresIn: this.tokenTtl });
+  }
+
+  /**
+   * Resolve a token to its user
+   * @param {string} token - JWT
+   * @returns {Object|null} User, or null if the token is invalid, expired or the user is gone
+   */
+  verifyToken(token) {
+    if (typeof token !== 'string' || !token) return null;
+    try {
+      const { sub } = jwt.verify(token, this.secret);
+      return this.users.findById(sub);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Express middleware that requires a valid Bearer token and sets req.user
+   * @returns {Function} Middleware
+   */
+  requireUser() {
+    return (req, res, next) => {
+      const [scheme, token] = (req.headers.authorization || '').split(' ');
+      const user = scheme === 'Bearer' ? this.verifyToken(token) : null;
+      if (!user) {
+        res.status(401).json({ error: 'Sign in required' });
+        return;
+      }
+      req.user = user;
+      next();
+    };
+  }
+
+  /**
+   * Express middleware that only lets admins through; use after requireUser
+   * @returns {Function} Middleware
+   */
+  requireAdmin() {
+    return (req, res, next) => {
+      if (req.user?.role !== 'admin') {
+        res.status(403).json({ error: 'Admin only' });
+        return;
+      }
+      next();
+    };
+  }
+
+  /**
+   * Socket.IO middleware that requires a valid `auth.token` in the
+   * handshake and sets socket.data.user
+   * @returns {Function} Middleware
+   */
+  socketMiddleware() {
+    return (socket, next) => {
+      const user = this.verifyToken(socket.handshake.auth?.token);
+      if (!user) {
+        next(new Error('Sign in required'));
+        return;
+      }
+      socket.data.user = user;
+      next();
+    };
+  }
+}
+
+/**
+ * Reject passwords that are too short or too long
+ * @param {*} password - Candidate password
+ */
+function validatePassword(password) {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    throw new AuthError(`Passwords are ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters`, 400);
+  }
+}
+
+module.exports = { AuthService, AuthError, hashPassword, verifyPassword };
@@ -0,0 +1,100 @@
+const fs = require('fs');
+const path = require('path');
+const { SeededRandom } = require('./random');
+const { createPriceModel, resolvePriceModelParams } = require('./priceModels');
+
+/**
+ * Check that the server's price models still match the client's
+ *
+ * The price models exist twice, here and in frontend/src/utils/priceModels.ts.
+ * Both copies must reproduce the reference paths in
+ * frontend/src/utils/testing/priceModelReference.json: the frontend tests
+ * check the client copy, and this script checks the server copy. After
+ * changing a model on purpose, change both copies, regenerate the paths
+ * with --write and run both checks.
+ */
+
+const REFERENCE_FILE = path.join(__dirname, '../../frontend/src/utils/testing/priceModelReference.json');
+
+const MODEL_TYPES = ['gbm', 'garch', 'regimeSwitching', 'jumpDiffusion', 'ornsteinUhlenbeck'];
+
+// Settings the reference paths are generated with
+const REFERENCE_SETTINGS = {
+  seed: 7,
+  ticks: 60,
+  deltaTime: 0.25,
+  volatility: 0.002,
+  initialPrice: 100,
+  // Short regimes, frequent jumps and a mean away from the start, so every
+  // branch of the models is taken within the path
+  params: {
+    calmDuration: 2,
+    trendDuration: 2,
+    crashDuration: 1,
+    jumpIntensity: 1,
+    meanReversion: 0.5,
+    meanPrice: 101
+  }
+};
+
+/**
+ * Log-price moves of a model over the reference ticks. Each tick draws its
+ * shock from the same generator the model draws from, as the simulator does.
+ * @param {string} type - Model type
+ * @param {Object} settings - Reference settings
+ * @returns {number[]} Move of each tick
+ */
+function generatePath(type, settings) {
+  const random = new SeededRandom(settings.seed);
+  const model = createPriceModel(type, random);
+  const params = resolvePriceModelParams(settings.params);
+  const moves = [];
+  let price = settings.initialPrice;
+  for (let i = 0; i < settings.ticks; i++) {
+    const move = model.step({
+      deltaTime: settings.deltaTime,
+      shock: random.normal(),
+      volatility: settings.volatility,
+      price,
+      initialPrice: settings.initialPrice
+    }, params);
+    price *= Math.exp(move);
+    moves.push(move);
+  }
+  return moves;
+}
+
+/**
+ * Reference paths of every model
+ * @param {Object} settings - Reference settings
+ * @returns {Object} The settings and { paths: { [type]: moves } }
+ */
+function generateReference(settings) {
+  const paths = {};
+  for (const type of MODEL_TYPES) {
+    paths[type] = generatePath(type, settings);
+  }
+  return { ...settings, paths };
+}
+
+// Run standalone: node src/checkPriceModels.js [--write]
+if (require.main === module) {
+  if (process.argv.includes('--write')) {
+    fs.writeFileSync(REFERENCE_FILE, `${JSON.stringify(generateReference(REFERENCE_SETTINGS), null, 2)}\n`);
+    console.log(`Wrote ${path.relative(process.cwd(), REFERENCE_FILE)}`);
+  } else {
+    const reference = JSON.parse(fs.readFileSync(REFERENCE_FILE, 'utf8'));
+    const mismatched = MODEL_TYPES.filter((type) => {
+      const moves = generatePath(type, reference);
+      const expected = reference.paths[type] ?? [];
+      return moves.length !== expected.length || moves.some((move, i) => move !== expected[i]);
+    });
+    if (mismatched.length > 0) {
+      console.error(`Price models differ from the reference paths: ${mismatched.join(', ')}`);
+      process.exit(1);
+    }
+    console.log('Price models match the reference paths');
+  }
+}
+
+module.exports = { generatePath, generateReference };
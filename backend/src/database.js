@@ -0,0 +1,26 @@
+/**
+ * Shared SQLite database for accounts, users and their data
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+
+const DATABASE_FILE = process.env.DATABASE_FILE || path.join(__dirname, '..', 'data', 'tradestick.db');
+
+/**
+ * Open (and create if needed) the database
+ * @param {string} [file] - SQLite file (':memory:' for a throwaway database)
+ * @returns {Database} Open database
+ */
+function openDatabase(file = DATABASE_FILE) {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+module.exports = { openDatabase };
@@ -0,0 +1,49 @@
+/**
+ * Trading fees for the server's market simulator
+ *
+ * The same maker/taker schedule as the client (frontend/src/utils/fees.ts),
+ * so a session charges what the single-player market would with the same
+ * settings. Orders that fill at a limit price pay the maker fee; everything
+ * else takes liquidity and pays the taker fee. Fees are quoted as a share of
+ * the trade's value ('percent') or as cash per unit of size ('perLot'), and a
+ * trade never pays less than the minimum commission.
+ *
+ * Funding is not charged on the server; only local accounts pay it.
+ */
+
+const DEFAULT_FEE_SCHEDULE = {
+  model: 'percent',
+  makerFee: 0.0002,
+  takerFee: 0.0005,
+  minCommission: 0
+};
+
+/**
+ * Fee schedule from a simulator config, filling in defaults
+ * @param {Object} config - Simulator config
+ * @returns {Object} { model, makerFee, takerFee, minCommission }
+ */
+function getFeeSchedule(config) {
+  return {
+    model: config.feeModel ?? DEFAULT_FEE_SCHEDULE.model,
+    makerFee: config.makerFee ?? DEFAULT_FEE_SCHEDULE.makerFee,
+    takerFee: config.takerFee ?? DEFAULT_FEE_SCHEDULE.takerFee,
+    minCommission: config.minCommission ?? DEFAULT_FEE_SCHEDULE.minCommission
+  };
+}
+
+/**
+ * Commission on a fill
+ * @param {Object} schedule - Fee schedule (see getFeeSchedule)
+ * @param {number} size - Fill size in lots
+ * @param {number} value - Cash value of the fill
+ * @param {'maker'|'taker'} liquidity - Whether the fill made or took liquidity
+ * @returns {number} Fee
+ */
+function getTradeFee(schedule, size, value, liquidity) {
+  const rate = liquidity === 'maker' ? schedule.makerFee : schedule.takerFee;
+  const fee = schedule.model === 'percent' ? Math.abs(value) * rate : Math.abs(size) * rate;
+  return Math.max(fee, schedule.minCommission);
+}
+
+module.exports = { DEFAULT_FEE_SCHEDULE, getFeeSchedule, getTradeFee };
@@ -2,12 +2,28 @@ const express = require('express');
 const http = require('http');
 const { Server } = require('socket.io');
 const cors = require('cors');
-const { MarketSimulator } = require('./marketSimulator');
+const crypto = require('crypto');
+const { PROTOCOL_VERSION } = require('./marketDataProtocol');
+const { SessionManager } = require('./sessionManager');
+const { CANDLE_INTERVALS } = require('./marketSimulator');
+const { openDatabase } = require('./database');
+const { Ledger } = require('./ledger');
+const { UserStore, USER_DATA_KEYS, MAX_USER_DATA_SIZE } = require('./users');
+const { AuthService } = require('./auth');
+const { Leaderboard } = require('./leaderboard');
+const { loadRoomResults, saveRoomResult } = require('./roomResults');
+
+// Browser origins allowed to call the API (the Vite dev server by default).
+// Same-origin deployments don't need an entry.
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:5173')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
 
 // Create Express app
 const app = express();
 app.use(cors({
-  origin: '*',
+  origin: CORS_ORIGINS,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
@@ -26,7 +42,7 @@ const server = http.createServer(app);
 // Create Socket.IO server
 const io = new Server(server, {
   cors: {
-    origin: '*',
+    origin: CORS_ORIGINS,
     methods: ['GET', 'POST']
   },
   transports: ['websocket', 'polling'],
@@ -38,7 +54,7 @@ console.log('Socket.IO server created');
 
 /**
 * Default market configuration, including amplitude (volatility) guarantees for each interval.
-* Amplitude settings are editable via the /api/amplitude-settings endpoint.
+* New sessions start from it; it is editable via the /api/config and /api/amplitude-settings endpoints.
 */
 const defaultConfig = {
  initialPrice: 1.10000, // EUR/USD starting price
@@ -51,6 +67,13 @@ const defaultConfig = {
  candleInterval: 1000,  // Default to 1 second candles
  tradeSizeStep: 0.1,    // Default trade size step
  initialBalance: 10000, // Default initial balance
+ symbol: 'EURUSD',      // Instrument positions are booked under in the ledger
+ permanentImpact: 0.001, // Relative price move for taking the whole visible side of the book
+ feeModel: 'percent',   // Fees as a share of trade value, or 'perLot' for cash per unit of size
+ makerFee: 0.0002,      // Fee on fills at a working order's limit price
+ takerFee: 0.0005,      // Fee on fills that take liquidity
+ minCommission: 0,      // Smallest fee charged on a fill
+ seed: process.env.MARKET_SEED !== undefined ? Number(process.env.MARKET_SEED) : undefined, // PRNG seed (random if unset)
 
  // Amplitude (volatility) guarantees for each interval (percent)
  priceChangeThreshold15s: 0.2,
@@ -59,41 +82,269 @@ const defaultConfig = {
  priceChangeThreshold1h: 3.0
 };
 
+// Keys of the amplitude (volatility) guarantees within a configuration
+const AMPLITUDE_KEYS = [
+ 'priceChangeThreshold15s',
+ 'priceChangeThreshold1m',
+ 'priceChangeThreshold15m',
+ 'priceChangeThreshold1h'
+];
+
+/**
+* Pick the amplitude settings out of a configuration
+* @param {Object} config - Configuration or request body
+* @returns {Object} Numeric amplitude settings found in it
+*/
+const pickAmplitudeSettings = (config) => {
+ const settings = {};
+ for (const key of AMPLITUDE_KEYS) {
+   if (typeof config[key] === 'number') {
+     settings[key] = config[key];
+   }
+ }
+ return settings;
+};
+
+// Config a player may change over the socket, with a check for each value.
+// These only change how the market is shown. Anything that moves the price
+// or the trading rules is set by an admin or by a room owner's preset.
+const PLAYER_CONFIG_KEYS = {
+ candleInterval: (value) => CANDLE_INTERVALS.includes(value)
+};
+
+/**
+* Pick the settings a player may change out of a config update
+* @param {Object} config - Config update sent by a client
+* @returns {Object} Valid player settings found in it
+*/
+const pickPlayerConfig = (config) => {
+ const settings = {};
+ for (const [key, isValid] of Object.entries(PLAYER_CONFIG_KEYS)) {
+   if (config?.[key] !== undefined && isValid(config[key])) {
+     settings[key] = config[key];
+   }
+ }
+ return settings;
+};
+
+// Socket.IO rooms for a session: everyone in it, and the two market data
+// feeds (full updates for clients that don't speak the incremental protocol,
+// snapshots plus deltas for those that do)
+const sessionRoom = (session) => `session:${session.id}`;
+const fullFeedRoom = (session) => `session:${session.id}:full`;
+const deltaFeedRoom = (session) => `session:${session.id}:delta`;
+
+// Users, their data and their ledger accounts share one database
+const db = openDatabase();
+const users = new UserStore({ db });
+
+// Accounts, positions and trade history (see ledger.js). Accounts open with
+// the default initial balance the first time a user trades or connects.
+const ledger = new Ledger({ db, initialBalance: defaultConfig.initialBalance });
+const leaderboard = new Leaderboard({ db });
+
+// Tokens signed with a random key stop working when the server restarts
+if (!process.env.JWT_SECRET) {
+  console.warn('JWT_SECRET is not set; using a random key, so sign-ins end when the server restarts');
+}
+const auth = new AuthService({
+  users,
+  secret: process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex'),
+  tokenTtl: process.env.TOKEN_TTL || '7d'
+});
+const requireUser = auth.requireUser();
+const requireAdmin = [requireUser, auth.requireAdmin()];
+
+// Make sure the configured admin can sign in
+if (process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD) {
+  auth.ensureAdmin(process.env.ADMIN_USERNAME, process.env.ADMIN_PASSWORD)
+    .then(admin => console.log(`Admin user ${admin.username} ready`))
+    .catch(error => console.error('Failed to set up the admin user:', error.message));
+}
+
+// Socket.IO room for every connection trading one account
+const accountRoom = (accountId) => `account:${accountId}`;
+
 /**
-* Shared amplitude settings object.
-* These values are editable via the /api/amplitude-settings endpoint and used by the market simulator.
+* Push an account's state to every connection trading it. Each connection
+* also gets the instrument of its own market, so it can pick its position.
+* @param {string} accountId - Account ID
 */
-const amplitudeSettings = {
- priceChangeThreshold15s: defaultConfig.priceChangeThreshold15s,
- priceChangeThreshold1m: defaultConfig.priceChangeThreshold1m,
- priceChangeThreshold15m: defaultConfig.priceChangeThreshold15m,
- priceChangeThreshold1h: defaultConfig.priceChangeThreshold1h
+const pushAccount = (accountId) => {
+ const account = ledger.getAccount(accountId);
+ for (const socketId of io.sockets.adapter.rooms.get(accountRoom(accountId)) ?? []) {
+   const socket = io.sockets.sockets.get(socketId);
+   socket?.emit('account', { ...account, symbol: socket.data.session.simulator.getConfig().symbol });
+ }
 };
 
-// Create market simulator
-const marketSimulator = new MarketSimulator(defaultConfig);
+// Every client trades in its own simulator session (see sessionManager.js)
+const sessions = new SessionManager({
+  defaults: defaultConfig,
+  idleTimeout: Number(process.env.SESSION_IDLE_TIMEOUT) || 5 * 60 * 1000,
+  maxSessions: Number(process.env.MAX_SESSIONS) || 100,
+  onTick: (session, marketData, delta) => {
+    io.to(deltaFeedRoom(session)).emit('marketDelta', delta);
+    if (io.sockets.adapter.rooms.get(fullFeedRoom(session))?.size) {
+      io.to(fullFeedRoom(session)).emit('marketData', marketData);
+    }
+
+    if (session.room) {
+      const now = Date.now();
+      const result = session.room.update(now, marketData.price);
+      if (result) {
+        io.to(sessionRoom(session)).emit('room:finished', result);
+        saveRoomResult(result).catch(error => console.error('Failed to save room result:', error));
+      }
+      if (session.room.takeStateDue(now)) {
+        io.to(sessionRoom(session)).emit('room:state', session.room.getState(marketData.price));
+      }
+    }
+  },
+  onDestroy: (session) => {
+    io.to(sessionRoom(session)).emit('sessionClosed', { id: session.id });
+    io.in(sessionRoom(session)).disconnectSockets(true);
+  }
+});
+sessions.startCleanup();
+
+// Every socket belongs to a signed-in user
+io.use(auth.socketMiddleware());
 
 // Socket.IO connection handler
 io.on('connection', (socket) => {
   console.log('Client connected:', socket.id);
 
+  // Join the session named in the handshake, or a private one
+  let session;
+  try {
+    session = sessions.join(socket.id, socket.handshake.auth?.session || socket.handshake.query.session);
+  } catch (error) {
+    socket.emit('sessionError', { message: error.message });
+    socket.disconnect(true);
+    return;
+  }
+  socket.join(sessionRoom(session));
+  socket.data.session = session;
+  socket.emit('session', session.describe());
+
+  // The signed-in user is the player, in rooms and in the ledger
+  const { id: playerId, username: playerName } = socket.data.user;
+  if (session.room) {
+    session.room.addPlayer(playerId, playerName);
+  }
+
+  // The user's ledger account is the only balance the client shows
+  socket.join(accountRoom(playerId));
+  pushAccount(playerId);
+
   // Send current configuration to client
-  console.log('Sending config to client:', marketSimulator.getConfig());
-  socket.emit('config', marketSimulator.getConfig());
+  console.log(`Sending session ${session.id} config to client`);
+  socket.emit('config', session.simulator.getConfig());
+
+  // Join the feed the client asked for in the handshake and resync it straight
+  // away instead of waiting for the next tick
+  const snapshot = session.encoder.snapshot();
+  if (Number(socket.handshake.query.protocol) === PROTOCOL_VERSION) {
+    socket.join(deltaFeedRoom(session));
+    if (snapshot) {
+      socket.emit('marketSnapshot', snapshot);
+    }
+  } else {
+    socket.join(fullFeedRoom(session));
+    if (snapshot) {
+      socket.emit('marketData', snapshot.data);
+    }
+  }
+
+  // Send a fresh snapshot to a client that missed a delta
+  socket.on('resync', () => {
+    const snapshot = session.encoder.snapshot();
+    if (snapshot) {
+      socket.emit('marketSnapshot', snapshot);
+    }
+  });
 
-  // Handle configuration updates
+  // Handle configuration updates; they only change this session's market.
+  // Admins may change anything. Players may change display settings, and in
+  // a room only the owner may, since everyone there shares the market.
   socket.on('updateConfig', (config) => {
-    console.log('Updating configuration:', config);
-    marketSimulator.updateConfig(config);
-    io.emit('config', marketSimulator.getConfig());
+    const isAdmin = socket.data.user.role === 'admin';
+    if (session.room && !isAdmin && playerId !== session.room.ownerId) {
+      socket.emit('roomError', { message: 'Only the room owner can change the market' });
+      return;
+    }
+
+    const changes = isAdmin ? config : pickPlayerConfig(config);
+    if (!changes || Object.keys(changes).length === 0) {
+      socket.emit('configError', { message: `Players can only change ${Object.keys(PLAYER_CONFIG_KEYS).join(', ')}` });
+      return;
+    }
+    console.log(`Updating session ${session.id} configuration:`, changes);
+    session.simulator.updateConfig(changes);
+    io.to(sessionRoom(session)).emit('config', session.simulator.getConfig());
   });
 
-  // Handle trade execution
+  // Handle trade execution. The client's requestId is echoed back so it can
+  // match the result to the order it sent.
   socket.on('executeTrade', (trade) => {
     console.log('Executing trade:', trade);
-    const result = marketSimulator.executeTrade(trade);
+    // A listener that throws takes the socket server down, so check the
+    // payload before reading anything off it
+    if (typeof trade !== 'object' || trade === null) {
+      socket.emit('tradeResult', { success: false, message: 'Invalid trade', requestId: trade?.requestId });
+      return;
+    }
+    session.lastActivity = Date.now();
+
+    // The player's account, and in rooms their match account too, has to
+    // cover the fill the order would get
+    const symbol = session.simulator.getConfig().symbol;
+    const result = session.simulator.executeTrade(
+      { side: trade.side, size: trade.size, limitPrice: trade.limitPrice, ownerId: playerId },
+      (fill) => session.room?.checkTrade(playerId, fill.side, fill.size, fill.price, fill.fee)
+        || ledger.checkTrade(playerId, { symbol, ...fill })
+    );
     console.log('Trade result:', result);
-    socket.emit('tradeResult', result);
+
+    // Book the fill before answering, so the account update arrives first.
+    // It keeps the trade's market-clock time, which tracks wall time, so the
+    // history lines up with the candles and the daily and weekly boards.
+    if (result.success) {
+      try {
+        ledger.bookTrade(playerId, { symbol, sessionId: session.id, trade: result.trade });
+        pushAccount(playerId);
+      } catch (error) {
+        console.error('Failed to book trade:', error);
+      }
+    }
+    socket.emit('tradeResult', { ...result, requestId: trade.requestId });
+
+    // Everyone in the room sees fills as they happen
+    if (session.room && result.success) {
+      io.to(sessionRoom(session)).emit('room:fill', session.room.recordFill(playerId, result.trade));
+    }
+  });
+
+  // Room owners pick the next match's preset or scenario and its length, then start it
+  socket.on('room:configure', (options) => {
+    const result = session.room
+      ? session.room.configure(playerId, options ?? {})
+      : { success: false, message: 'Not in a room' };
+    if (!result.success) {
+      socket.emit('roomError', { message: result.message });
+    }
+  });
+
+  socket.on('room:start', () => {
+    const result = session.room
+      ? session.room.start(playerId)
+      : { success: false, message: 'Not in a room' };
+    if (!result.success) {
+      socket.emit('roomError', { message: result.message });
+    } else {
+      io.to(sessionRoom(session)).emit('config', session.simulator.getConfig());
+    }
   });
 
   // Handle error
@@ -104,21 +355,47 @@ io.on('connection', (socket) => {
   // Handle disconnection
   socket.on('disconnect', (reason) => {
     console.log('Client disconnected:', socket.id, 'Reason:', reason);
+    sessions.leave(socket.id, session.id);
+    session.room?.removePlayer(playerId);
   });
 });
 
-// Start market simulation
-console.log('Starting market simulation...');
-marketSimulator.start((marketData) => {
-  // Log every 100th update to avoid flooding the console
-  if (marketData.timestamp % 1000 < 10) {
-    console.log('Market data update:', {
-      timestamp: marketData.timestamp,
-      price: marketData.price,
-      candles: marketData.candles.length
-    });
-  }
-  io.emit('marketData', marketData);
+/**
+* Look up the session named in the route, answering 404 if there is none
+* @param {Object} req - Express request with an `id` route parameter
+* @param {Object} res - Express response
+* @returns {Object|undefined} Session
+*/
+const findSession = (req, res) => {
+ const session = sessions.getSession(req.params.id);
+ if (!session) {
+   res.status(404).json({ error: `Session ${req.params.id} not found` });
+ }
+ return session;
+};
+
+/**
+* Look up the user named in the route, answering 404 if there is none
+* @param {Object} req - Express request with an `id` route parameter
+* @param {Object} res - Express response
+* @returns {Object|null} User
+*/
+const findUser = (req, res) => {
+ const user = users.findById(req.params.id);
+ if (!user) {
+   res.status(404).json({ error: `User ${req.params.id} not found` });
+ }
+ return user;
+};
+
+/**
+* Paging options for trade history from the query string
+* @param {Object} req - Express request with optional `limit` and `before` queries
+* @returns {Object} { limit, before } for Ledger.getTrades
+*/
+const pageOptions = (req) => ({
+ limit: Number(req.query.limit) || undefined,
+ before: req.query.before !== undefined ? Number(req.query.before) : undefined
 });
 
 // API routes
@@ -127,8 +404,142 @@ app.get('/', (req, res) => {
 });
 
 /**
-* @api {get} /api/amplitude-settings Get amplitude (volatility) guarantee settings
-* @apiSuccess {Object} settings Current amplitude settings for 15s, 1m, 15m, 1h intervals (percent).
+* @api {post} /api/auth/register Create a user and sign in
+* @apiBody {string} username 3-32 letters, digits, dashes or underscores
+* @apiBody {string} password 8-256 characters
+* @apiSuccess (201) {Object} result { user, token }; send the token as `Authorization: Bearer <token>`.
+*/
+app.post('/api/auth/register', async (req, res) => {
+ try {
+   res.status(201).json(await auth.register(req.body.username, req.body.password));
+ } catch (error) {
+   res.status(error.status || 500).json({ error: error.message });
+ }
+});
+
+/**
+* @api {post} /api/auth/login Sign in
+* @apiBody {string} username Username
+* @apiBody {string} password Password
+* @apiSuccess {Object} result { user, token }
+*/
+app.post('/api/auth/login', async (req, res) => {
+ try {
+   res.json(await auth.login(req.body.username, req.body.password));
+ } catch (error) {
+   res.status(error.status || 500).json({ error: error.message });
+ }
+});
+
+/**
+* @api {get} /api/me Get the signed-in user
+* @apiSuccess {Object} user id, username, role, createdAt
+*/
+app.get('/api/me', requireUser, (req, res) => {
+ res.json(req.user);
+});
+
+/**
+* @api {get} /api/me/account Get the signed-in user's ledger account
+* @apiSuccess {Object} account Cash, realized P&L, initial balance and open positions.
+*/
+app.get('/api/me/account', requireUser, (req, res) => {
+ res.json(ledger.getAccount(req.user.id));
+});
+
+/**
+* @api {get} /api/me/trades Get the signed-in user's trade history, newest first
+* @apiQuery {number} [limit=100] Maximum number of trades (up to 500)
+* @apiQuery {number} [before] Only trades with a lower ID, for paging
+* @apiSuccess {Object[]} trades Booked trades with their fee, the realized P&L, cash and position after each.
+*/
+app.get('/api/me/trades', requireUser, (req, res) => {
+ res.json(ledger.getTrades(req.user.id, pageOptions(req)));
+});
+
+/**
+* @api {get} /api/me/data/:key Get one of the signed-in user's documents
+* @apiParam {string} key xpProfile or settings
+* @apiSuccess {Object} document { value, updatedAt }; 404 if never saved.
+*/
+app.get('/api/me/data/:key', requireUser, (req, res) => {
+ if (!USER_DATA_KEYS.includes(req.params.key)) {
+   res.status(404).json({ error: `Unknown document ${req.params.key}` });
+   return;
+ }
+ const document = users.getData(req.user.id, req.params.key);
+ if (!document) {
+   res.status(404).json({ error: `No ${req.params.key} saved` });
+   return;
+ }
+ res.json(document);
+});
+
+/**
+* @api {put} /api/me/data/:key Save one of the signed-in user's documents
+* @apiParam {string} key xpProfile or settings
+* @apiBody {Object} value Document to store (up to 64 KB of JSON)
+* @apiSuccess {Object} document { value, updatedAt } as saved.
+*/
+app.put('/api/me/data/:key', requireUser, (req, res) => {
+ if (!USER_DATA_KEYS.includes(req.params.key)) {
+   res.status(404).json({ error: `Unknown document ${req.params.key}` });
+   return;
+ }
+ const value = req.body?.value;
+ if (value === null || typeof value !== 'object') {
+   res.status(400).json({ error: 'Send the document as { "value": { ... } }' });
+   return;
+ }
+ if (JSON.stringify(value).length > MAX_USER_DATA_SIZE) {
+   res.status(413).json({ error: 'Document too large' });
+   return;
+ }
+ const saved = users.setData(req.user.id, req.params.key, value);
+ if (req.params.key === 'xpProfile') {
+   leaderboard.recordProfile(req.user.id, value, saved.updatedAt);
+ }
+ res.json(saved);
+});
+
+/**
+* @api {get} /api/leaderboard Get a page of a leaderboard
+* @apiQuery {string} [period=global] global, weekly (since Monday 00:00 UTC) or daily (since 00:00 UTC)
+* @apiQuery {string} [metric=profit] profit, winRate or streak
+* @apiQuery {string} [symbol] Only trades in this symbol
+* @apiQuery {number} [offset=0] Index of the first entry
+* @apiQuery {number} [limit=20] Entries per page (up to 100)
+* @apiQuery {string} [around] `me` to center the page on the signed-in user
+* @apiSuccess {Object} board { period, metric, symbol, since, total, offset, entries, me }; entries and `me`
+*   hold { rank, userId, username, value, level, trades, updatedAt }.
+*/
+app.get('/api/leaderboard', requireUser, (req, res) => {
+ try {
+   res.json(leaderboard.getBoard({
+     period: req.query.period,
+     metric: req.query.metric,
+     symbol: req.query.symbol,
+     offset: Number(req.query.offset) || 0,
+     limit: Number(req.query.limit) || undefined,
+     around: req.query.around === 'me' ? req.user.id : undefined,
+     userId: req.user.id
+   }));
+ } catch (error) {
+   res.status(error.status || 500).json({ error: error.message });
+ }
+});
+
+/**
+* @api {get} /api/leaderboard/symbols List symbols with per-symbol boards
+* @apiSuccess {string[]} symbols Symbols that have been traded.
+*/
+app.get('/api/leaderboard/symbols', requireUser, (req, res) => {
+ res.json(leaderboard.getSymbols());
+});
+
+/**
+* @api {get} /api/amplitude-settings Get the amplitude (volatility) guarantee settings new sessions start with (admin only)
+* @apiSuccess {Object} settings Default amplitude settings for 15s, 1m, 15m, 1h intervals (percent).
 * Example response:
 *   {
 *     "priceChangeThreshold15s": 0.2,
@@ -137,65 +548,167 @@ app.get('/', (req, res) => {
 *     "priceChangeThreshold1h": 3.0
 *   }
 */
-app.get('/api/amplitude-settings', (req, res) => {
- res.json({ ...amplitudeSettings });
+app.get('/api/amplitude-settings', requireAdmin, (req, res) => {
+ res.json(pickAmplitudeSettings(sessions.getDefaults()));
 });
 
 /**
-* @api {post} /api/amplitude-settings Update amplitude (volatility) guarantee settings
+* @api {post} /api/amplitude-settings Update the amplitude settings new sessions start with (admin only)
 * @apiBody {Object} settings New amplitude settings (any/all of: priceChangeThreshold15s, priceChangeThreshold1m, priceChangeThreshold15m, priceChangeThreshold1h)
-* @apiSuccess {Object} settings Updated amplitude settings.
+* @apiSuccess {Object} settings Updated default amplitude settings.
+* Running sessions keep their own settings; change those with POST /api/sessions/:id/config.
 * Example request body:
 *   {
 *     "priceChangeThreshold15m": 2.0,
 *     "priceChangeThreshold1h": 4.0
 *   }
 */
-app.post('/api/amplitude-settings', (req, res) => {
- // Only update known keys
- const allowedKeys = [
-   'priceChangeThreshold15s',
-   'priceChangeThreshold1m',
-   'priceChangeThreshold15m',
-   'priceChangeThreshold1h'
- ];
- let changed = false;
- for (const key of allowedKeys) {
-   if (typeof req.body[key] === 'number') {
-     amplitudeSettings[key] = req.body[key];
-     changed = true;
+app.post('/api/amplitude-settings', requireAdmin, (req, res) => {
+ res.json(pickAmplitudeSettings(sessions.updateDefaults(pickAmplitudeSettings(req.body))));
+});
+
+/**
+* @api {get} /api/config Get the configuration new sessions start with (admin only)
+* @apiSuccess {Object} config Default configuration, including the `seed` new markets use (random if unset).
+*/
+app.get('/api/config', requireAdmin, (req, res) => {
+ res.json(sessions.getDefaults());
+});
+
+/**
+* @api {post} /api/config Update the configuration new sessions start with (admin only)
+* @apiBody {Object} config Configuration values to change
+* @apiSuccess {Object} config Updated default configuration. Running sessions are not affected.
+*/
+app.post('/api/config', requireAdmin, (req, res) => {
+ res.json(sessions.updateDefaults(req.body));
+});
+
+/**
+* @api {get} /api/market-data Get the current market data of a session
+* @apiQuery {string} session Session ID
+* @apiSuccess {Object} marketData Latest market data of the session.
+*/
+app.get('/api/market-data', requireUser, (req, res) => {
+ const session = sessions.getSession(req.query.session);
+ const snapshot = session?.encoder.snapshot();
+ if (!snapshot) {
+   res.status(404).json({ error: 'No market data for this session' });
+   return;
+ }
+ res.json(snapshot.data);
+});
+
+/**
+* @api {get} /api/sessions List running sessions
+* @apiSuccess {Object[]} sessions Session summaries (id, name, kind, clients, createdAt, lastActivity, seed).
+*/
+app.get('/api/sessions', requireUser, (req, res) => {
+ res.json(sessions.listSessions().map(session => session.describe()));
+});
+
+/**
+* @api {post} /api/sessions Create a session (room) that clients can join by ID
+* @apiBody {string} [id] Session ID (random if omitted)
+* @apiBody {string} [name] Display name
+* @apiBody {Object} [config] Overrides for the default configuration. Admins may override anything;
+*   other users only the display settings players can change (candleInterval).
+* @apiSuccess (201) {Object} session The new session, including its configuration.
+*/
+app.post('/api/sessions', requireUser, (req, res) => {
+ try {
+   const { id, name, config = {} } = req.body;
+   if (config === null || typeof config !== 'object') {
+     res.status(400).json({ error: 'config must be an object' });
+     return;
+   }
+
+   // Rooms trade into the shared ledger and leaderboards, so only admins
+   // pick their market and trading rules
+   const overrides = req.user.role === 'admin' ? config : pickPlayerConfig(config);
+   const refused = Object.keys(config).filter(key => !(key in overrides));
+   if (refused.length > 0) {
+     res.status(403).json({ error: `Only admins can set ${refused.join(', ')}` });
+     return;
    }
+
+   const session = sessions.createSession({ id, name, config: overrides });
+   res.status(201).json(session.describe(true));
+ } catch (error) {
+   res.status(error.status || 500).json({ error: error.message });
  }
- if (changed) {
-   // Update the simulator config so new settings take effect immediately
-   marketSimulator.updateConfig({ ...amplitudeSettings });
+});
+
+/**
+* @api {get} /api/sessions/:id Get a session
+* @apiSuccess {Object} session Session summary including its configuration.
+*/
+app.get('/api/sessions/:id', requireUser, (req, res) => {
+ const session = findSession(req, res);
+ if (session) {
+   res.json(session.describe(true));
  }
- res.json({ ...amplitudeSettings });
 });
 
-app.get('/api/config', (req, res) => {
- res.json(marketSimulator.getConfig());
+/**
+* @api {post} /api/sessions/:id/config Update a running session's configuration (admin only)
+* @apiBody {Object} config Configuration values to change, including amplitude settings
+* @apiSuccess {Object} config Updated session configuration.
+*/
+app.post('/api/sessions/:id/config', requireAdmin, (req, res) => {
+ const session = findSession(req, res);
+ if (session) {
+   session.simulator.updateConfig(req.body);
+   io.to(sessionRoom(session)).emit('config', session.simulator.getConfig());
+   res.json(session.simulator.getConfig());
+ }
 });
 
-app.post('/api/config', (req, res) => {
- marketSimulator.updateConfig(req.body);
- // If amplitude settings are included, update the shared object as well
- const allowedKeys = [
-   'priceChangeThreshold15s',
-   'priceChangeThreshold1m',
-   'priceChangeThreshold15m',
-   'priceChangeThreshold1h'
- ];
- for (const key of allowedKeys) {
-   if (typeof req.body[key] === 'number') {
-     amplitudeSettings[key] = req.body[key];
-   }
+/**
+* @api {get} /api/accounts/:id Get any user's account from the ledger (admin only)
+* @apiSuccess {Object} account Cash, realized P&L, initial balance and open positions (symbol, size, avgPrice).
+*/
+app.get('/api/accounts/:id', requireAdmin, (req, res) => {
+ if (findUser(req, res)) {
+   res.json(ledger.getAccount(req.params.id));
+ }
+});
+
+/**
+* @api {get} /api/accounts/:id/trades Get any user's trade history, newest first (admin only)
+* @apiQuery {number} [limit=100] Maximum number of trades (up to 500)
+* @apiQuery {number} [before] Only trades with a lower ID, for paging
+* @apiSuccess {Object[]} trades Booked trades with their fee, the realized P&L, cash and position after each.
+*/
+app.get('/api/accounts/:id/trades', requireAdmin, (req, res) => {
+ if (findUser(req, res)) {
+   res.json(ledger.getTrades(req.params.id, pageOptions(req)));
  }
- res.json(marketSimulator.getConfig());
 });
 
-app.get('/api/market-data', (req, res) => {
- res.json(marketSimulator.generateMarketData());
+/**
+* @api {get} /api/rooms/results Final standings of finished room matches
+* @apiQuery {string} [room] Only results from this room
+* @apiSuccess {Object[]} results Match results, newest first.
+*/
+app.get('/api/rooms/results', requireUser, async (req, res) => {
+ try {
+   const results = await loadRoomResults();
+   res.json(results.filter(result => !req.query.room || result.roomId === req.query.room).reverse());
+ } catch (error) {
+   res.status(500).json({ error: error.message });
+ }
+});
+
+/**
+* @api {delete} /api/sessions/:id Destroy a session and disconnect its clients (admin only)
+* @apiSuccess (204) No content
+*/
+app.delete('/api/sessions/:id', requireAdmin, (req, res) => {
+ if (findSession(req, res)) {
+   sessions.destroySession(req.params.id);
+   res.status(204).end();
+ }
 });
 
 // Start server
@@ -207,7 +720,8 @@ server.listen(PORT, () => {
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log('Shutting down server...');
-  marketSimulator.stop();
+  sessions.stop();
+  db.close();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
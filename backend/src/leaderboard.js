@@ -0,0 +1,225 @@
+/**
+ * Leaderboards
+ *
+ * Boards rank users over a period (all time, this week, today) by one metric.
+ * Every metric comes from the ledger and can be narrowed to one symbol.
+ * Closing trades (sells) count: profit sums their realized P&L, winRate is
+ * the share that made money (at least MIN_CLOSING_TRADES are needed to be
+ * ranked) and streak is the longest run of winners.
+ *
+ * XP and patterns detected are reported by the client, which the server
+ * can't check, so they aren't ranked. Saves of the XP profile are kept as
+ * snapshots only to show each user's level next to their entry.
+ *
+ * Ties go to whoever reached the value first (the earlier `updatedAt`),
+ * then to the alphabetically first username, so every rank is unique.
+ */
+
+const PERIODS = ['global', 'weekly', 'daily'];
+const METRICS = ['profit', 'winRate', 'streak'];
+
+// Closing trades a user needs before they appear on the win rate board
+const MIN_CLOSING_TRADES = 5;
+
+const MAX_PAGE_SIZE = 100;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS xp_snapshots (
+    user_id TEXT NOT NULL REFERENCES users(id),
+    timestamp INTEGER NOT NULL,
+    total_xp REAL NOT NULL,
+    level INTEGER NOT NULL,
+    patterns_detected INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS xp_snapshots_by_user ON xp_snapshots (user_id, timestamp);
+`;
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+class LeaderboardError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {number} status - HTTP status code
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'LeaderboardError';
+    this.status = status;
+  }
+}
+
+/**
+ * When a period started
+ * @param {string} period - One of PERIODS
+ * @param {number} now - Current time
+ * @returns {number} Start time (0 for all time); days and weeks start at UTC midnight, weeks on Monday
+ */
+function periodStart(period, now) {
+  if (period === 'global') return 0;
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  if (period === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start.getTime();
+}
+
+class Leaderboard {
+  /**
+   * @param {Object} options - Leaderboard options
+   * @param {Database} options.db - Open database with the users and trades tables
+   */
+  constructor({ db }) {
+    this.db = db;
+    this.db.exec(SCHEMA);
+
+    this.statements = {
+      lastSnapshot: this.db.prepare(`
+        SELECT total_xp, level, patterns_detected FROM xp_snapshots WHERE user_id = ? ORDER BY timestamp DESC LIMIT 1
+      `),
+      insertSnapshot: this.db.prepare(`
+        INSERT INTO xp_snapshots (user_id, timestamp, total_xp, level, patterns_detected)
+        VALUES (@userId, @timestamp, @totalXP, @level, @patternsDetected)
+      `),
+      closingTrades: this.db.prepare(`
+        SELECT t.account_id, u.username, t.realized_pnl, t.timestamp
+        FROM trades t JOIN users u ON u.id = t.account_id
+        WHERE t.side = 'sell' AND t.timestamp >= @since AND (@symbol IS NULL OR t.symbol = @symbol)
+        ORDER BY t.account_id, t.id
+      `),
+      latestLevels: this.db.prepare(`
+        SELECT s.user_id, s.level FROM xp_snapshots s
+        WHERE s.rowid = (SELECT rowid FROM xp_snapshots WHERE user_id = s.user_id ORDER BY timestamp DESC, rowid DESC LIMIT 1)
+      `),
+      symbols: this.db.prepare('SELECT DISTINCT symbol FROM trades ORDER BY symbol')
+    };
+  }
+
+  /**
+   * Record a saved XP profile, keeping a snapshot when its totals changed.
+   * Only the level is shown, next to the user's board entries.
+   * @param {string} userId - User ID
+   * @param {Object} profile - XP profile from the client
+   * @param {number} now - Save time
+   */
+  recordProfile(userId, profile, now = Date.now()) {
+    const totalXP = Number(profile?.totalXP);
+    const level = Number(profile?.level);
+    const patternsDetected = Number(profile?.stats?.patternsDetected);
+    if (![totalXP, level, patternsDetected].every(value => Number.isFinite(value) && value >= 0)) {
+      return;
+    }
+
+    const last = this.statements.lastSnapshot.get(userId);
+    if (last && last.total_xp === totalXP && last.level === level && last.patterns_detected === patternsDetected) {
+      return;
+    }
+    this.statements.insertSnapshot.run({ userId, timestamp: now, totalXP, level, patternsDetected });
+  }
+
+  /**
+   * Symbols that have been traded, for per-symbol boards
+   * @returns {string[]} Symbols
+   */
+  getSymbols() {
+    return this.statements.symbols.all().map(row => row.symbol);
+  }
+
+  /**
+   * One page of a board
+   * @param {Object} query - Board query
+   * @param {string} [query.period] - One of PERIODS
+   * @param {string} [query.metric] - One of METRICS
+   * @param {string} [query.symbol] - Only trades in this symbol
+   * @param {number} [query.offset] - Index of the first entry
+   * @param {number} [query.limit] - Entries per page (1-100)
+   * @param {string} [query.around] - User ID to center the page on instead of using offset
+   * @param {string} [query.userId] - User whose own rank to report
+   * @param {number} [query.now] - Current time
+   * @returns {Object} { period, metric, symbol, since, total, offset, entries, me }
+   */
+  getBoard({ period = 'global', metric = 'profit', symbol, offset = 0, limit = 20, around, userId, now = Date.now() } = {}) {
+    if (!PERIODS.includes(period)) {
+      throw new LeaderboardError(`Unknown period ${period}; use ${PERIODS.join(', ')}`, 400);
+    }
+    if (!METRICS.includes(metric)) {
+      throw new LeaderboardError(`Unknown metric ${metric}; use ${METRICS.join(', ')}`, 400);
+    }
+
+    const since = periodStart(period, now);
+    const ranked = this.computeValues(metric, since, symbol || null)
+      .sort((a, b) => b.value - a.value
+        || a.updatedAt - b.updatedAt
+        || a.username.localeCompare(b.username, undefined, { sensitivity: 'base' }))
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(limit) || 20));
+    let start = Math.max(0, Math.floor(offset) || 0);
+    if (around) {
+      const index = ranked.findIndex(entry => entry.userId === around);
+      if (index !== -1) {
+        start = Math.max(0, Math.min(index - Math.floor(pageSize / 2), ranked.length - pageSize));
+      }
+    }
+
+    return {
+      period,
+      metric,
+      symbol: symbol || null,
+      since,
+      total: ranked.length,
+      offset: start,
+      entries: ranked.slice(start, start + pageSize),
+      me: ranked.find(entry => entry.userId === userId) ?? null
+    };
+  }
+
+  /**
+   * Every ranked user's value for a metric over a period
+   * @param {string} metric - One of METRICS
+   * @param {number} since - Period start
+   * @param {string|null} symbol - Symbol filter
+   * @returns {Object[]} Unsorted entries ({ userId, username, value, level, trades, updatedAt })
+   */
+  computeValues(metric, since, symbol) {
+    // Walk each user's closing trades in order
+    const users = new Map();
+    for (const trade of this.statements.closingTrades.all({ since, symbol })) {
+      let user = users.get(trade.account_id);
+      if (!user) {
+        user = { userId: trade.account_id, username: trade.username, profit: 0, wins: 0, trades: 0, run: 0, streak: 0, streakAt: 0, updatedAt: 0 };
+        users.set(trade.account_id, user);
+      }
+      user.profit += trade.realized_pnl;
+      user.trades++;
+      user.updatedAt = trade.timestamp;
+      if (trade.realized_pnl > 0) {
+        user.wins++;
+        user.run++;
+        if (user.run > user.streak) {
+          user.streak = user.run;
+          user.streakAt = trade.timestamp;
+        }
+      } else {
+        user.run = 0;
+      }
+    }
+
+    const levels = new Map(this.statements.latestLevels.all().map(row => [row.user_id, row.level]));
+    return [...users.values()]
+      .filter(user => metric !== 'winRate' || user.trades >= MIN_CLOSING_TRADES)
+      .filter(user => metric !== 'streak' || user.streak > 0)
+      .map(user => ({
+        userId: user.userId,
+        username: user.username,
+        value: metric === 'profit' ? user.profit : metric === 'winRate' ? user.wins / user.trades : user.streak,
+        level: levels.get(user.userId) ?? null,
+        trades: user.trades,
+        updatedAt: metric === 'streak' ? user.streakAt : user.updatedAt
+      }));
+  }
+}
+
+module.exports = { Leaderboard, LeaderboardError, PERIODS, METRICS, MIN_CLOSING_TRADES };
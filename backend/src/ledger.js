@@ -0,0 +1,263 @@
+/**
+ * Server-side account ledger
+ *
+ * Accounts, positions and trade history live in the SQLite database, so the
+ * balance a player sees is whatever the server booked rather than anything a
+ * client claims. Every fill is checked against the account before it reaches
+ * the order book and booked in one transaction afterwards. A fill's fee comes
+ * out of cash and is part of its price: it adds to the average cost of a buy
+ * and comes off the P&L a sell realizes, so realized P&L is net of fees. The trade history
+ * is append-only: the database refuses updates and deletes on it.
+ */
+
+// Position sizes below this are rounding noise, not holdings
+const POSITION_EPSILON = 1e-9;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY,
+    cash REAL NOT NULL,
+    realized_pnl REAL NOT NULL DEFAULT 0,
+    initial_balance REAL NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS positions (
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    symbol TEXT NOT NULL,
+    size REAL NOT NULL,
+    avg_price REAL NOT NULL,
+    PRIMARY KEY (account_id, symbol)
+  );
+
+  CREATE TABLE IF NOT EXISTS trades (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id TEXT NOT NULL REFERENCES accounts(id),
+    session_id TEXT,
+    symbol TEXT NOT NULL,
+    side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    size REAL NOT NULL,
+    price REAL NOT NULL,
+    value REAL NOT NULL,
+    fee REAL NOT NULL DEFAULT 0,
+    realized_pnl REAL NOT NULL,
+    cash_after REAL NOT NULL,
+    position_after REAL NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS trades_by_account ON trades (account_id, id);
+
+  CREATE TRIGGER IF NOT EXISTS trades_no_update BEFORE UPDATE ON trades
+  BEGIN SELECT RAISE(ABORT, 'Trade history is append-only'); END;
+
+  CREATE TRIGGER IF NOT EXISTS trades_no_delete BEFORE DELETE ON trades
+  BEGIN SELECT RAISE(ABORT, 'Trade history is append-only'); END;
+`;
+
+class Ledger {
+  /**
+   * @param {Object} options - Ledger options
+   * @param {Database} options.db - Open database (see database.js)
+   * @param {number} [options.initialBalance] - Cash new accounts open with
+   */
+  constructor({ db, initialBalance = 10000 }) {
+    this.db = db;
+    this.db.exec(SCHEMA);
+    // Databases from before fees were charged have no fee column
+    if (!this.db.pragma('table_info(trades)').some(column => column.name === 'fee')) {
+      this.db.exec('ALTER TABLE trades ADD COLUMN fee REAL NOT NULL DEFAULT 0');
+    }
+    this.initialBalance = initialBalance;
+
+    this.statements = {
+      getAccount: this.db.prepare('SELECT * FROM accounts WHERE id = ?'),
+      openAccount: this.db.prepare(`
+        INSERT INTO accounts (id, cash, initial_balance, created_at, updated_at)
+        VALUES (@id, @cash, @cash, @now, @now)
+      `),
+      updateAccount: this.db.prepare(`
+        UPDATE accounts SET cash = @cash, realized_pnl = @realizedPnl, updated_at = @now WHERE id = @id
+      `),
+      getPositions: this.db.prepare('SELECT symbol, size, avg_price FROM positions WHERE account_id = ? ORDER BY symbol'),
+      getPosition: this.db.prepare('SELECT size, avg_price FROM positions WHERE account_id = ? AND symbol = ?'),
+      upsertPosition: this.db.prepare(`
+        INSERT INTO positions (account_id, symbol, size, avg_price) VALUES (@accountId, @symbol, @size, @avgPrice)
+        ON CONFLICT (account_id, symbol) DO UPDATE SET size = excluded.size, avg_price = excluded.avg_price
+      `),
+      deletePosition: this.db.prepare('DELETE FROM positions WHERE account_id = ? AND symbol = ?'),
+      insertTrade: this.db.prepare(`
+        INSERT INTO trades (account_id, session_id, symbol, side, size, price, value, fee, realized_pnl, cash_after, position_after, timestamp)
+        VALUES (@accountId, @sessionId, @symbol, @side, @size, @price, @value, @fee, @realizedPnl, @cashAfter, @positionAfter, @timestamp)
+      `),
+      getTrades: this.db.prepare(`
+        SELECT * FROM trades WHERE account_id = @accountId AND id < @before ORDER BY id DESC LIMIT @limit
+      `)
+    };
+
+    this.bookTransaction = this.db.transaction((accountId, entry) => this.applyTrade(accountId, entry));
+  }
+
+  /**
+   * Get an account, opening it with the initial balance on first use
+   * @param {string} accountId - Account ID
+   * @returns {Object} Account with its positions
+   */
+  getAccount(accountId) {
+    let row = this.statements.getAccount.get(accountId);
+    if (!row) {
+      this.statements.openAccount.run({ id: accountId, cash: this.initialBalance, now: Date.now() });
+      row = this.statements.getAccount.get(accountId);
+    }
+
+    return {
+      id: row.id,
+      cash: row.cash,
+      realizedPnl: row.realized_pnl,
+      initialBalance: row.initial_balance,
+      positions: this.statements.getPositions.all(accountId).map(position => ({
+        symbol: position.symbol,
+        size: position.size,
+        avgPrice: position.avg_price
+      })),
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Reject fills the account can't cover
+   * @param {string} accountId - Account ID
+   * @param {Object} fill - Expected fill
+   * @param {string} fill.symbol - Instrument
+   * @param {'buy'|'sell'} fill.side - Trade side
+   * @param {number} fill.size - Size in lots
+   * @param {number} fill.value - Cash value of the fill
+   * @param {number} [fill.fee] - Fee on the fill
+   * @returns {string|null} Rejection reason, or null if the trade may go ahead
+   */
+  checkTrade(accountId, { symbol, side, size, value, fee = 0 }) {
+    const account = this.getAccount(accountId);
+    if (side === 'buy' && value + fee > account.cash) {
+      return `Insufficient balance (${account.cash.toFixed(2)}) for trade value (${value.toFixed(2)})${fee > 0 ? ` plus fee (${fee.toFixed(2)})` : ''}`;
+    }
+    if (side === 'sell') {
+      const held = this.statements.getPosition.get(accountId, symbol)?.size ?? 0;
+      if (size > held + POSITION_EPSILON) {
+        return `Insufficient position (${held.toFixed(2)}) for sell amount (${size.toFixed(2)})`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Book an executed trade: move cash and charge its fee, update the position
+   * at average cost, realize P&L on sells and append the trade to the history
+   * @param {string} accountId - Account ID
+   * @param {Object} entry - Trade to book
+   * @param {string} entry.symbol - Instrument
+   * @param {string} [entry.sessionId] - Session the trade was executed in
+   * @param {Object} entry.trade - Executed trade from the simulator
+   * @returns {Object} { account, entry } after booking
+   */
+  bookTrade(accountId, entry) {
+    return this.bookTransaction(accountId, entry);
+  }
+
+  /**
+   * Trade history, newest first
+   * @param {string} accountId - Account ID
+   * @param {Object} [options] - Paging options
+   * @param {number} [options.limit] - Maximum number of trades (1-500)
+   * @param {number} [options.before] - Only trades with a lower ID
+   * @returns {Object[]} Trades
+   */
+  getTrades(accountId, { limit = 100, before } = {}) {
+    return this.statements.getTrades
+      .all({
+        accountId,
+        before: Number.isFinite(before) ? before : Number.MAX_SAFE_INTEGER,
+        limit: Math.min(500, Math.max(1, Math.floor(limit) || 100))
+      })
+      .map(toTradeEntry);
+  }
+
+  /**
+   * Book a trade; runs inside the booking transaction
+   * @param {string} accountId - Account ID
+   * @param {Object} entry - Trade to book (see bookTrade)
+   * @returns {Object} { account, entry } after booking
+   */
+  applyTrade(accountId, { symbol, sessionId = null, trade }) {
+    const account = this.getAccount(accountId);
+    const position = this.statements.getPosition.get(accountId, symbol) ?? { size: 0, avg_price: 0 };
+
+    let cash = account.cash;
+    let size = position.size;
+    let avgPrice = position.avg_price;
+    let realizedPnl = 0;
+    const fee = trade.fee ?? 0;
+
+    if (trade.side === 'buy') {
+      cash -= trade.value + fee;
+      avgPrice = (size * avgPrice + trade.size * trade.price + fee) / (size + trade.size);
+      size += trade.size;
+    } else {
+      cash += trade.value - fee;
+      realizedPnl = (trade.price - avgPrice) * trade.size - fee;
+      size -= trade.size;
+    }
+
+    const now = Date.now();
+    if (Math.abs(size) < POSITION_EPSILON) {
+      size = 0;
+      this.statements.deletePosition.run(accountId, symbol);
+    } else {
+      this.statements.upsertPosition.run({ accountId, symbol, size, avgPrice });
+    }
+    this.statements.updateAccount.run({ id: accountId, cash, realizedPnl: account.realizedPnl + realizedPnl, now });
+
+    const entry = {
+      accountId,
+      sessionId,
+      symbol,
+      side: trade.side,
+      size: trade.size,
+      price: trade.price,
+      value: trade.value,
+      fee,
+      realizedPnl,
+      cashAfter: cash,
+      positionAfter: size,
+      timestamp: trade.timestamp ?? now
+    };
+    const { lastInsertRowid } = this.statements.insertTrade.run(entry);
+
+    return { account: this.getAccount(accountId), entry: { id: Number(lastInsertRowid), ...entry } };
+  }
+}
+
+/**
+ * Convert a trades row to the shape sent to clients
+ * @param {Object} row - Row from the trades table
+ * @returns {Object} Trade entry
+ */
+function toTradeEntry(row) {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    sessionId: row.session_id,
+    symbol: row.symbol,
+    side: row.side,
+    size: row.size,
+    price: row.price,
+    value: row.value,
+    fee: row.fee,
+    realizedPnl: row.realized_pnl,
+    cashAfter: row.cash_after,
+    positionAfter: row.position_after,
+    timestamp: row.timestamp
+  };
+}
+
+module.exports = { Ledger };
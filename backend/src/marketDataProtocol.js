@@ -0,0 +1,162 @@
+/**
+ * Incremental market data protocol for the Socket.IO feed
+ *
+ * Clients opt in with the `protocol` handshake query. They get one
+ * `marketSnapshot` with the full market state, then a `marketDelta` per tick
+ * with only what changed: the quote, order book levels that moved, new
+ * trades, and the candles from the last one they have onward. Every message
+ * carries a sequence number; a client that sees a gap emits `resync` and
+ * gets a fresh snapshot.
+ */
+
+const PROTOCOL_VERSION = 1;
+
+/**
+ * Book side as a price -> [price, volume, orders] map
+ * @param {Object[]} levels - Order book levels
+ * @returns {Map<number, number[]>} Levels by price
+ */
+function levelsByPrice(levels) {
+  return new Map(levels.map(level => [level.price, [level.price, level.volume, level.orders]]));
+}
+
+/**
+ * Levels that were added, changed or removed between two views of a book side
+ * Removed levels are sent with zero volume and orders.
+ * @param {Map<number, number[]>} previous - Previous levels by price
+ * @param {Map<number, number[]>} next - Current levels by price
+ * @returns {number[][]} Changed levels as [price, volume, orders]
+ */
+function diffLevels(previous, next) {
+  const changes = [];
+  next.forEach((level, price) => {
+    const old = previous.get(price);
+    if (!old || old[1] !== level[1] || old[2] !== level[2]) {
+      changes.push(level);
+    }
+  });
+  previous.forEach((level, price) => {
+    if (!next.has(price)) {
+      changes.push([price, 0, 0]);
+    }
+  });
+  return changes;
+}
+
+/**
+ * Check whether two candles hold the same values
+ * @param {Object} a - Candle
+ * @param {Object} b - Candle
+ * @returns {boolean} True when nothing differs
+ */
+function sameCandle(a, b) {
+  return a.timestamp === b.timestamp && a.open === b.open && a.high === b.high
+    && a.low === b.low && a.close === b.close && a.volume === b.volume;
+}
+
+/**
+ * Turns the simulator's per-tick market data into snapshots and deltas.
+ * One encoder serves every subscribed client, so each tick is diffed once.
+ */
+class MarketDataEncoder {
+  constructor() {
+    this.seq = 0;
+    this.current = null;
+    this.bids = new Map();
+    this.asks = new Map();
+    this.tradeSet = new Set();
+    this.candleTimestamps = [];
+    this.lastCandle = null; // Copy, since the simulator updates the open candle in place
+  }
+
+  /**
+   * Full state for a client that is (re)joining the feed
+   * @returns {Object|null} Snapshot message, or null before the first tick
+   */
+  snapshot() {
+    if (!this.current) return null;
+    return { v: PROTOCOL_VERSION, seq: this.seq, data: this.current };
+  }
+
+  /**
+   * Record a tick and describe how it differs from the previous one
+   * @param {Object} marketData - Market data from the simulator
+   * @returns {Object} Delta message
+   */
+  encode(marketData) {
+    this.seq++;
+    const delta = {
+      v: PROTOCOL_VERSION,
+      seq: this.seq,
+      ts: marketData.timestamp,
+      p: marketData.price,
+      b: marketData.bid,
+      a: marketData.ask
+    };
+
+    const bids = levelsByPrice(marketData.orderBook.bids);
+    const asks = levelsByPrice(marketData.orderBook.asks);
+    const bidChanges = diffLevels(this.bids, bids);
+    const askChanges = diffLevels(this.asks, asks);
+    if (bidChanges.length > 0 || askChanges.length > 0) {
+      delta.ob = {};
+      if (bidChanges.length > 0) delta.ob.b = bidChanges;
+      if (askChanges.length > 0) delta.ob.a = askChanges;
+    }
+
+    // Trades are only ever appended, so anything not seen last tick is new
+    const newTrades = marketData.trades.filter(trade => !this.tradeSet.has(trade));
+    if (newTrades.length > 0) {
+      delta.tr = newTrades;
+      delta.tn = marketData.trades.length;
+    }
+
+    const candles = this.encodeCandles(marketData.candles);
+    if (candles) {
+      Object.assign(delta, candles);
+    }
+
+    this.current = marketData;
+    this.bids = bids;
+    this.asks = asks;
+    this.tradeSet = new Set(marketData.trades);
+    this.candleTimestamps = marketData.candles.map(candle => candle.timestamp);
+    const last = marketData.candles[marketData.candles.length - 1];
+    this.lastCandle = last ? { ...last } : null;
+
+    return delta;
+  }
+
+  /**
+   * Candle fields of a delta: the candles from the previous last candle
+   * onward, or the whole history when it was rewritten (e.g. the candle
+   * interval changed)
+   * @param {Object[]} candles - Current candle history
+   * @returns {Object|null} { c, cn } or { c, cn, cr: 1 }, null when unchanged
+   */
+  encodeCandles(candles) {
+    const previous = this.candleTimestamps;
+    const replace = { c: candles, cn: candles.length, cr: 1 };
+    if (previous.length === 0) {
+      return candles.length > 0 ? replace : null;
+    }
+
+    const lastTimestamp = previous[previous.length - 1];
+    const start = candles.findIndex(candle => candle.timestamp >= lastTimestamp);
+    const head = start === -1 ? candles.length : start;
+
+    // Everything before the tail must line up with the end of the previous history
+    const offset = previous.length - 1 - head;
+    if (offset < 0 || candles[head]?.timestamp !== lastTimestamp) return replace;
+    for (let i = 0; i < head; i++) {
+      if (candles[i].timestamp !== previous[offset + i]) return replace;
+    }
+
+    // The old last candle only needs resending if it changed
+    const from = sameCandle(candles[head], this.lastCandle) ? head + 1 : head;
+    if (from >= candles.length) return null;
+    return { c: candles.slice(from), cn: candles.length };
+  }
+}
+
+module.exports = { MarketDataEncoder, PROTOCOL_VERSION };
@@ -1,30 +1,72 @@
+const { SeededRandom, generateSeed } = require('./random');
+const { LimitOrderBook } = require('./orderBook');
+const { getFeeSchedule, getTradeFee } = require('./fees');
+const { DEFAULT_PRICE_MODEL, createPriceModel, resolvePriceModelParams } = require('./priceModels');
+const { ScenarioTimeline } = require('./scenario');
+
+// Owner ID used for resting orders placed by synthetic liquidity providers
+const LIQUIDITY_PROVIDER_ID = 'liquidity-provider';
+
+// Candle intervals kept for every market, in milliseconds
+const CANDLE_INTERVALS = [10, 100, 1000, 5000];
+
 /**
  * Market Simulator for Forex Trading
- * Generates synthetic market data using Geometric Brownian Motion
+ * Generates synthetic market data with a price model (see priceModels.js),
+ * Geometric Brownian Motion unless `priceModel` picks another
  */
 class MarketSimulator {
   constructor(config) {
+    // Always run on a seed so any session can be reproduced later
+    const seed = config.seed !== undefined ? config.seed : generateSeed();
+    this.random = new SeededRandom(seed);
+
     // Set default candle interval to 1000ms (1 second) if not provided
     this.config = {
       ...config,
-      candleInterval: config.candleInterval || 1000
+      candleInterval: config.candleInterval || 1000,
+      seed: this.random.getSeed()
     };
     this.currentPrice = config.initialPrice;
-    this.lastUpdateTime = Date.now();
+
+    // Random part of each price move
+    this.priceModel = createPriceModel(this.config.priceModel ?? DEFAULT_PRICE_MODEL, this.random);
+
+    // Persistent order book, quoted by synthetic liquidity providers and
+    // consumed by player market orders
+    this.orderBook = new LimitOrderBook({ tickSize: this.getTickSize() });
+
+    // The market advances on a fixed updateInterval clock, aligned to the
+    // largest candle interval so candle boundaries fall identically on every run
+    this.clock = Math.floor(Date.now() / 5000) * 5000;
+    this.lastUpdateTime = this.clock;
     this.intervalId = null;
     this.trades = [];
     this.candles = [];
     this.lastCandleTime = 0;
     this.currentCandle = null;
-    this.lastTradeTime = 0;
+    this.lastTradeTimes = new Map(); // ownerId -> time of their last trade
+    this.tradeSequence = 0; // Numbers trades; players in a room can fill in the same millisecond
+
+    // Pattern presets steer the drift over patternDuration from where they started
+    this.patternStartTime = this.clock;
+    this.patternBasePrice = this.currentPrice;
+
+    // Scripted scenario playing instead of the configured pattern (see scenario.js)
+    this.scenario = null;
+
+    // Start with a populated book rather than waiting for providers to quote
+    for (let i = 0; i < 50; i++) {
+      this.updateLiquidity(this.clock);
+    }
 
     // Trackers for distributed amplitude enforcement
     // Each key: { startTime, startPrice, minPrice, maxPrice }
     this.priceChangeTrackers = {
-      '15s': { startTime: Date.now(), startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice },
-      '1m': { startTime: Date.now(), startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice },
-      '15m': { startTime: Date.now(), startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice },
-      '1h': { startTime: Date.now(), startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice }
+      '15s': { startTime: this.clock, startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice },
+      '1m': { startTime: this.clock, startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice },
+      '15m': { startTime: this.clock, startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice },
+      '1h': { startTime: this.clock, startPrice: this.currentPrice, minPrice: this.currentPrice, maxPrice: this.currentPrice }
     };
 
     // Store candles for different intervals
@@ -91,18 +133,99 @@ class MarketSimulator {
    * @param {Object} newConfig - New configuration values
    */
   updateConfig(newConfig) {
+    let modelStale = 'priceModel' in newConfig && newConfig.priceModel !== this.config.priceModel;
     this.config = { ...this.config, ...newConfig };
+
+    // A new seed restarts the random sequence, and the price model with it
+    if (newConfig.seed !== undefined && newConfig.seed !== this.random.getSeed()) {
+      this.random = new SeededRandom(newConfig.seed);
+      this.config.seed = this.random.getSeed();
+      modelStale = true;
+    }
+    if (modelStale) {
+      this.priceModel = createPriceModel(this.config.priceModel ?? DEFAULT_PRICE_MODEL, this.random);
+    }
+
+    // A new pattern starts from the current price, unless a scenario is steering the pattern
+    if (newConfig.patternType !== undefined && !this.scenario?.getSegment()) {
+      this.restartPattern();
+    }
+  }
+
+  /**
+   * Play a scenario from its first segment, or stop the one playing
+   * @param {Object|null} scenario - Validated scenario (see validateScenario)
+   */
+  setScenario(scenario) {
+    this.scenario = scenario && scenario.segments.length > 0 ? new ScenarioTimeline(scenario, this.clock) : null;
+    this.restartPattern();
   }
 
   /**
-   * Generate market data using Geometric Brownian Motion
+   * Where the scenario playing is up to
+   * @returns {Object|null} Scenario status, or null without one
+   */
+  getScenarioStatus() {
+    return this.scenario?.getStatus() ?? null;
+  }
+
+  /**
+   * Pattern, volatility and spread in force: the scenario segment's while one
+   * plays, otherwise the configured ones
+   * @returns {Object} { patternType, patternStrength, patternDuration, volatility, spread }
+   */
+  activeSettings() {
+    const segment = this.scenario?.getSegment();
+    if (!segment) return this.config;
+    return {
+      patternType: segment.pattern,
+      patternStrength: segment.strength,
+      patternDuration: segment.duration * 1000,
+      volatility: segment.volatility ?? this.config.volatility,
+      spread: segment.spread ?? this.config.spread
+    };
+  }
+
+  /**
+   * Start the active pattern over from the current price
+   */
+  restartPattern() {
+    this.patternStartTime = this.clock;
+    this.patternBasePrice = this.currentPrice;
+  }
+
+  /**
+   * Get the seed driving this simulator
+   * @returns {number} Seed
+   */
+  getSeed() {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Generate market data, moving the price with the price model
    * @returns {Object} Market data including price, bid, ask, and order book
    */
   generateMarketData() {
-    const now = Date.now();
+    // Timers fire late under load. Rather than fall ever further behind wall
+    // time, the clock skips ahead by whole intervals once it lags by more than
+    // one, so trades, candles and the ledger history share one time
+    const interval = this.config.updateInterval;
+    this.clock += interval;
+    const lag = Date.now() - this.clock;
+    if (lag > interval) {
+      this.clock += Math.floor(lag / interval) * interval;
+    }
+    const now = this.clock;
     const deltaTime = (now - this.lastUpdateTime) / 1000; // Convert to seconds
     this.lastUpdateTime = now;
 
+    // A scenario moving on to its next segment starts that segment's pattern
+    if (this.scenario?.advance(now)) {
+      this.restartPattern();
+    }
+    const settings = this.activeSettings();
+
     // --- Distributed amplitude enforcement logic ---
     // For each timeframe, track min/max and dynamically adjust volatility if needed
     // This avoids single-candle jumps and distributes volatility over the interval.
@@ -154,31 +277,42 @@ class MarketSimulator {
       }
     }
 
-    // Generate new price using Geometric Brownian Motion with reduced mean reversion
-    // dS = μS dt + σS dW, where μ is a small drift to allow for more extreme movements
-    // Higher volatility settings will now allow for more extreme price movements
+    // Generate the new price: the price model's random move on top of the drift
     // --- Stochastic price simulation with distributed amplitude enforcement ---
-    // The volatility is dynamically boosted if amplitude is lagging in any interval.
+    // The volatility the model is given is boosted if amplitude is lagging in any interval.
     // This ensures amplitude guarantees are met in a natural, distributed way.
-    const drift = this.config.volatility > 0.05 ? 0.01 * this.normalRandom() : 0; // Add small random drift for high volatility
-    const volatility = this.config.volatility;
+    let drift = settings.volatility > 0.05 ? 0.01 * this.normalRandom() : 0; // Add small random drift for high volatility
+    if (settings.patternType) {
+      drift += this.getPatternDrift(now, settings);
+    }
 
     // Use a more extreme random component for higher volatility settings
-    const randomFactor = this.config.volatility > 0.1 ? 1.5 : 1.0;
-    const randomComponent = this.normalRandom() * Math.sqrt(deltaTime) * randomFactor * volatilityMultiplier;
-
-    const priceChange = drift * deltaTime + volatility * randomComponent;
+    const randomFactor = settings.volatility > 0.1 ? 1.5 : 1.0;
+    const randomComponent = this.priceModel.step(
+      {
+        deltaTime,
+        shock: this.normalRandom(),
+        volatility: settings.volatility * randomFactor * volatilityMultiplier,
+        price: this.currentPrice,
+        initialPrice: this.config.initialPrice
+      },
+      resolvePriceModelParams(this.config.priceModelParams)
+    );
+
+    const priceChange = drift * deltaTime + randomComponent;
 
     // Update price with less constraint to allow for more extreme movements
     this.currentPrice *= Math.exp(priceChange);
 
-    // Calculate bid and ask prices
-    const halfSpread = this.config.spread / 2;
-    const bidPrice = this.currentPrice - halfSpread;
-    const askPrice = this.currentPrice + halfSpread;
+    // Let liquidity providers requote around the new price
+    this.updateLiquidity(now, settings.spread);
 
-    // Generate order book
-    const orderBook = this.generateOrderBook(bidPrice, askPrice);
+    // Bid and ask come from the top of the book, falling back to the quoted
+    // spread around the price when a side has been swept clean
+    const halfSpread = settings.spread / 2;
+    const bidPrice = this.orderBook.bestBid() ?? this.currentPrice - halfSpread;
+    const askPrice = this.orderBook.bestAsk() ?? this.currentPrice + halfSpread;
+    const orderBook = this.orderBook.getDepth(this.config.orderBookLevels);
 
     // Limit the number of candles sent to the frontend to improve performance
     const maxCandlesToSend = 150; // Only send the most recent 150 candles
@@ -201,30 +335,118 @@ class MarketSimulator {
   }
 
   /**
-   * Generate synthetic order book
-   * @param {number} bidPrice - Current bid price
-   * @param {number} askPrice - Current ask price
-   * @returns {Object} Order book with bids and asks
+   * Drift added by the active pattern preset, per second
+   * Mirrors the client-side simulator's patterns so presets look the same on both.
+   * @param {number} now - Current market time
+   * @param {Object} settings - Pattern settings in force (see activeSettings)
+   * @returns {number} Drift
    */
-  generateOrderBook(bidPrice, askPrice) {
-    const bids = [];
-    const asks = [];
-
-    // Generate bid levels
-    for (let i = 0; i < this.config.orderBookLevels; i++) {
-      const price = bidPrice - (i * this.config.spread * 0.2);
-      const volume = Math.floor(Math.random() * 10 + 1) * 100000; // Random volume between 100K and 1M
-      bids.push({ price, volume });
+  getPatternDrift(now, settings) {
+    const progress = Math.min(1, (now - this.patternStartTime) / (settings.patternDuration || 30000));
+    const strength = (settings.patternStrength || 0.5) * 0.01; // Scale down for reasonable movements
+    const meanReversion = (this.patternBasePrice - this.currentPrice) * 0.01;
+
+    switch (settings.patternType) {
+      case 'uptrend':
+        return strength;
+      case 'downtrend':
+        return -strength;
+      case 'volatile':
+        return this.normalRandom() * strength * 3;
+      case 'sideways':
+        return meanReversion * strength;
+      case 'breakout_up':
+        return progress < 0.7 ? meanReversion : strength * 3;
+      case 'breakout_down':
+        return progress < 0.7 ? meanReversion : -strength * 3;
+      case 'head_and_shoulders':
+        if (progress < 0.25) return strength; // First shoulder up
+        if (progress < 0.3) return -strength;
+        if (progress < 0.5) return strength * 1.5; // Head up (higher)
+        if (progress < 0.55) return -strength * 1.5;
+        if (progress < 0.75) return strength; // Second shoulder up
+        return -strength * 2; // Final breakdown
+      case 'double_top':
+        if (progress < 0.3) return strength;
+        if (progress < 0.4) return -strength;
+        if (progress < 0.7) return strength;
+        return -strength * 2;
+      case 'double_bottom':
+        if (progress < 0.3) return -strength;
+        if (progress < 0.4) return strength;
+        if (progress < 0.7) return -strength;
+        return strength * 2;
+      default:
+        return 0; // Random walk
     }
+  }
+
+  /**
+   * Get the price increment of the order book
+   * @returns {number} Tick size
+   */
+  getTickSize() {
+    return this.config.tickSize || this.config.spread / 10;
+  }
+
+  /**
+   * Get the distance between liquidity provider quote levels
+   * @returns {number} Level spacing in price
+   */
+  getLevelSpacing() {
+    return this.config.spread * 0.2;
+  }
 
-    // Generate ask levels
-    for (let i = 0; i < this.config.orderBookLevels; i++) {
-      const price = askPrice + (i * this.config.spread * 0.2);
-      const volume = Math.floor(Math.random() * 10 + 1) * 100000; // Random volume between 100K and 1M
-      asks.push({ price, volume });
+  /**
+   * Simulate synthetic liquidity providers for one tick.
+   * Providers pull quotes that the price has moved through or away from,
+   * randomly cancel a few resting orders, and refill thin levels near the
+   * price. Levels consumed by player orders therefore recover gradually
+   * instead of being regenerated on every tick.
+   * @param {number} now - Current market time
+   * @param {number} [spread] - Quoted spread; the configured one by default
+   */
+  updateLiquidity(now, spread = this.config.spread) {
+    const levels = this.config.orderBookLevels;
+    const halfSpread = spread / 2;
+    const spacing = this.getLevelSpacing();
+    const maxDistance = halfSpread + (levels + 1) * spacing;
+    const cancelRate = this.config.liquidityCancelRate ?? 0.005;
+    const refillRate = this.config.liquidityRefillRate ?? 0.1;
+
+    // Cancel stale, crossed or randomly pulled quotes
+    for (const order of this.orderBook.getOrders(LIQUIDITY_PROVIDER_ID)) {
+      const distance = order.side === 'buy'
+        ? this.currentPrice - order.price
+        : order.price - this.currentPrice;
+      if (distance <= 0 || distance > maxDistance || this.random.next() < cancelRate) {
+        this.orderBook.cancelOrder(order.id);
+      }
     }
 
-    return { bids, asks };
+    // Refill levels that are thinner than their target depth
+    for (let i = 0; i < levels; i++) {
+      const offset = halfSpread + i * spacing;
+      const quotes = [
+        { side: 'buy', price: this.currentPrice - offset },
+        { side: 'sell', price: this.currentPrice + offset }
+      ];
+
+      for (const quote of quotes) {
+        if (this.random.next() >= refillRate) continue;
+
+        const targetVolume = (levels - i) * 200000;
+        if (this.orderBook.volumeAt(quote.side, quote.price) >= targetVolume) continue;
+
+        this.orderBook.addLimitOrder({
+          side: quote.side,
+          price: quote.price,
+          size: (this.random.int(10) + 1) * 100000, // Random size between 100K and 1M
+          ownerId: LIQUIDITY_PROVIDER_ID,
+          timestamp: now
+        });
+      }
+    }
   }
 
   /**
@@ -235,7 +457,7 @@ class MarketSimulator {
     const now = marketData.timestamp;
 
     // Update candles for all intervals
-    [10, 100, 1000, 5000].forEach(interval => {
+    CANDLE_INTERVALS.forEach(interval => {
       this.updateCandleForInterval(interval, now, marketData.price);
     });
 
@@ -272,7 +494,7 @@ class MarketSimulator {
         high: price,
         low: price,
         close: price,
-        volume: Math.floor(Math.random() * 100000) // Initial random volume
+        volume: this.random.int(100000) // Initial random volume
       };
 
       this.lastCandleTimes[interval] = intervalStart;
@@ -281,37 +503,101 @@ class MarketSimulator {
       this.currentCandles[interval].high = Math.max(this.currentCandles[interval].high, price);
       this.currentCandles[interval].low = Math.min(this.currentCandles[interval].low, price);
       this.currentCandles[interval].close = price;
-      this.currentCandles[interval].volume += Math.floor(Math.random() * 10000); // Add random volume
+      this.currentCandles[interval].volume += this.random.int(10000); // Add random volume
     }
   }
 
   /**
    * Execute a trade
-   * @param {Object} trade - Trade details
+   * @param {Object} trade - Trade details ({ side, size, limitPrice?, ownerId }); a limit price
+   *   caps how far the order walks the book
+   * @param {Function} [validate] - Called with the expected fill ({ side, size, price, value, fee },
+   *   size in lots) before the order reaches the book; returns a rejection reason or null
    * @returns {Object} Trade result
    */
-  executeTrade(trade) {
+  executeTrade(trade, validate) {
     const now = Date.now();
 
-    // Check if we're within the rate limit
-    if (now - this.lastTradeTime < 1000 / this.config.maxTradesPerSecond) {
+    // Check if we're within the rate limit; each trader has their own budget
+    if (now - (this.lastTradeTimes.get(trade.ownerId) ?? 0) < 1000 / this.config.maxTradesPerSecond) {
       return { success: false, message: 'Rate limit exceeded' };
     }
 
+    // Trades come straight from clients, so check the shape before anything else
+    if ((trade.side !== 'buy' && trade.side !== 'sell') || !(Math.abs(trade.size) > 0)) {
+      return { success: false, message: 'Invalid trade' };
+    }
+
+    if (trade.limitPrice !== undefined && !(Number.isFinite(trade.limitPrice) && trade.limitPrice > 0)) {
+      return { success: false, message: 'Invalid limit price' };
+    }
+
     // Check if trade size is valid
     if (Math.abs(trade.size) > this.config.maxTradeSize) {
       return { success: false, message: 'Trade size exceeds maximum' };
     }
 
-    // Execute the trade
-    const price = trade.side === 'buy' ? this.currentPrice + (this.config.spread / 2) : this.currentPrice - (this.config.spread / 2);
+    // Trade sizes are in lots; book volume is in units
+    const contractSize = this.config.contractSize || 100000;
+
+    // Orders resting at a limit price make liquidity; everything else takes it
+    const liquidity = trade.limitPrice === undefined ? 'taker' : 'maker';
+    const feeSchedule = getFeeSchedule(this.config);
+
+    // Let the caller check the account can cover the fill the order would get
+    if (validate) {
+      const quote = this.orderBook.quoteMarketOrder(trade.side, Math.abs(trade.size) * contractSize, trade.limitPrice);
+      if (quote.filledSize > 0) {
+        const size = quote.filledSize / contractSize;
+        const value = size * quote.avgPrice;
+        const fee = getTradeFee(feeSchedule, size, value, liquidity);
+        const rejection = validate({ side: trade.side, size, price: quote.avgPrice, value, fee });
+        if (rejection) {
+          return { success: false, message: rejection };
+        }
+      }
+    }
+
+    // Execute the trade as a market order against the book, going no further
+    // than its limit price if it has one
+    const referencePrice = trade.side === 'buy' ? this.orderBook.bestAsk() : this.orderBook.bestBid();
+    const depth = this.orderBook.getDepth(this.config.orderBookLevels);
+    const visibleVolume = (trade.side === 'buy' ? depth.asks : depth.bids)
+      .reduce((sum, level) => sum + level.volume, 0);
+    const execution = this.orderBook.marketOrder({
+      side: trade.side,
+      size: Math.abs(trade.size) * contractSize,
+      limitPrice: trade.limitPrice,
+      ownerId: trade.ownerId,
+      timestamp: this.clock
+    });
+
+    if (execution.filledSize <= 0) {
+      return {
+        success: false,
+        message: trade.limitPrice === undefined ? 'No liquidity available' : 'No liquidity within the limit price'
+      };
+    }
+
+    // Orders move the price in proportion to the share of visible depth they
+    // take, so liquidity providers requote around the new level
+    const impact = (this.config.permanentImpact || 0) * Math.min(1, execution.filledSize / visibleVolume);
+    this.currentPrice *= trade.side === 'buy' ? 1 + impact : 1 - impact;
+
+    const size = execution.filledSize / contractSize;
+    const price = execution.avgPrice;
     const executedTrade = {
-      id: Date.now().toString(),
-      timestamp: now,
+      id: `${trade.ownerId}-${++this.tradeSequence}`,
+      timestamp: this.clock, // Stamp trades on the market clock
       side: trade.side,
-      size: trade.size,
+      size,
       price,
-      value: Math.abs(trade.size) * price
+      value: size * price,
+      avgPrice: price,
+      slippage: trade.side === 'buy' ? price - referencePrice : referencePrice - price,
+      fills: this.aggregateFills(execution.fills, contractSize),
+      fee: getTradeFee(feeSchedule, size, size * price, liquidity),
+      liquidity
     };
 
     // Add to trades list
@@ -323,22 +609,38 @@ class MarketSimulator {
     }
 
     // Update last trade time
-    this.lastTradeTime = now;
+    this.lastTradeTimes.set(trade.ownerId, now);
 
     return { success: true, trade: executedTrade };
   }
 
+  /**
+   * Collapse book fills into one entry per price level, sized in lots
+   * @param {Object[]} fills - Fills from the order book
+   * @param {number} contractSize - Units per lot
+   * @returns {Object[]} Per-level fills ({ price, size })
+   */
+  aggregateFills(fills, contractSize) {
+    const levels = [];
+    for (const fill of fills) {
+      const last = levels[levels.length - 1];
+      if (last && last.price === fill.price) {
+        last.size += fill.size / contractSize;
+      } else {
+        levels.push({ price: fill.price, size: fill.size / contractSize });
+      }
+    }
+    return levels;
+  }
+
   /**
    * Generate a random number from a normal distribution
-   * Using Box-Muller transform
+   * Drawn from the seeded generator so runs are reproducible
    * @returns {number} Random number from normal distribution
    */
   normalRandom() {
-    let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
-    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+    return this.random.normal();
   }
 }
 
-module.exports = { MarketSimulator };
+module.exports = { MarketSimulator, CANDLE_INTERVALS };
@@ -0,0 +1,473 @@
+const express = require('express');
+const http = require('http');
+const cors = require('cors');
+const { WebSocketServer } = require('ws');
+const { SeededRandom } = require('./random');
+
+/**
+ * Mock Binance exchange
+ * Reproduces the public spot market data formats (REST depth snapshot and
+ * klines, @depth diff stream, @aggTrade and @kline_1s) from a seeded random market,
+ * so the live source can be exercised locally without network access.
+ * The frontend's source tests run a copy of the market half
+ * (frontend/src/sources/testing/mockExchange.ts); keep the two in step.
+ */
+class MockExchange {
+  /**
+   * @param {Object} options - Exchange options
+   * @param {string} [options.symbol] - Symbol in Binance format, e.g. ETHUSDT
+   * @param {number} [options.initialPrice] - Starting mid price
+   * @param {number} [options.tickSize] - Minimum price increment
+   * @param {number} [options.volatility] - Per-tick log return standard deviation
+   * @param {number} [options.levels] - Price levels quoted on each side
+   * @param {number} [options.tradeRate] - Probability of a trade per tick
+   * @param {number} [options.gapRate] - Probability of dropping a depth update, to test resyncs
+   * @param {number} [options.seed] - PRNG seed
+   */
+  constructor({
+    symbol = 'ETHUSDT',
+    initialPrice = 2000,
+    tickSize = 0.01,
+    volatility = 0.00001,
+    levels = 50,
+    tradeRate = 0.3,
+    gapRate = 0,
+    seed = 1
+  } = {}) {
+    this.symbol = symbol.toUpperCase();
+    this.tickSize = tickSize;
+    this.decimals = Math.max(0, Math.round(-Math.log10(tickSize)));
+    this.volatility = volatility;
+    this.levels = levels;
+    this.tradeRate = tradeRate;
+    this.gapRate = gapRate;
+    this.random = new SeededRandom(seed);
+
+    this.mid = initialPrice;
+    this.bids = new Map(); // tick -> quantity
+    this.asks = new Map();
+    this.lastUpdateId = 1000;
+    this.nextTradeId = 1;
+    this.kline = null;
+    this.closedKlines = [];
+
+    // Quote the full book before the first tick so snapshots are never empty
+    this.requote(new Map(), new Map());
+  }
+
+  /**
+   * Get a REST depth snapshot
+   * @param {number} limit - Levels per side
+   * @returns {Object} Snapshot in /api/v3/depth format
+   */
+  getDepthSnapshot(limit = 100) {
+    return {
+      lastUpdateId: this.lastUpdateId,
+      bids: this.sortedLevels(this.bids, 'desc').slice(0, limit),
+      asks: this.sortedLevels(this.asks, 'asc').slice(0, limit)
+    };
+  }
+
+  /**
+   * Get 1s klines in /api/v3/klines format, including the open kline
+   * @param {Object} [params] - Query parameters
+   * @param {number} [params.startTime] - Earliest open time
+   * @param {number} [params.endTime] - Latest open time
+   * @param {number} [params.limit] - Maximum number of klines (the most recent unless startTime is set)
+   * @returns {Array[]} Kline rows
+   */
+  getKlines({ startTime, endTime, limit = 500 } = {}) {
+    let klines = this.kline ? [...this.closedKlines, this.kline] : [...this.closedKlines];
+    if (startTime !== undefined) {
+      klines = klines.filter(kline => kline.t >= startTime);
+    }
+    if (endTime !== undefined) {
+      klines = klines.filter(kline => kline.t <= endTime);
+    }
+    klines = startTime !== undefined ? klines.slice(0, limit) : klines.slice(-limit);
+
+    return klines.map(kline => [
+      kline.t,
+      kline.o.toFixed(this.decimals),
+      kline.h.toFixed(this.decimals),
+      kline.l.toFixed(this.decimals),
+      kline.c.toFixed(this.decimals),
+      kline.v.toFixed(4),
+      kline.T,
+      (kline.v * kline.c).toFixed(4),
+      kline.n,
+      '0',
+      '0',
+      '0'
+    ]);
+  }
+
+  /**
+   * Run the market over a past window so REST history is available at startup
+   * @param {number} now - Current time
+   * @param {number} seconds - Length of history to generate
+   * @param {number} tickInterval - Milliseconds between ticks
+   */
+  seedHistory(now, seconds, tickInterval) {
+    for (let time = now - seconds * 1000; time < now; time += tickInterval) {
+      this.tick(time);
+    }
+  }
+
+  /**
+   * Advance the market by one tick
+   * @param {number} now - Event time in milliseconds
+   * @returns {Object[]} Stream events as { stream, data } in the order they occurred
+   */
+  tick(now) {
+    const events = [];
+    const bidChanges = new Map();
+    const askChanges = new Map();
+
+    // A trade hits the top of the book before the quotes move
+    if (this.random.next() < this.tradeRate) {
+      const trade = this.trade(now, bidChanges, askChanges);
+      if (trade) {
+        events.push({ stream: `${this.symbol.toLowerCase()}@aggTrade`, data: trade });
+      }
+    }
+
+    this.mid *= Math.exp(this.volatility * this.random.normal());
+    this.requote(bidChanges, askChanges);
+
+    if (bidChanges.size > 0 || askChanges.size > 0) {
+      const firstUpdateId = this.lastUpdateId + 1;
+      this.lastUpdateId += bidChanges.size + askChanges.size;
+      const update = {
+        e: 'depthUpdate',
+        E: now,
+        s: this.symbol,
+        U: firstUpdateId,
+        u: this.lastUpdateId,
+        b: this.formatLevels(bidChanges),
+        a: this.formatLevels(askChanges)
+      };
+
+      // Dropped updates leave a hole in the sequence, as a lossy connection would
+      if (this.random.next() >= this.gapRate) {
+        events.push({ stream: `${this.symbol.toLowerCase()}@depth@100ms`, data: update });
+      }
+    }
+
+    events.push(...this.updateKline(now));
+    return events;
+  }
+
+  /**
+   * Take liquidity from the best bid or ask
+   * @param {number} now - Trade time
+   * @param {Map} bidChanges - Changed bid levels, updated in place
+   * @param {Map} askChanges - Changed ask levels, updated in place
+   * @returns {Object|null} aggTrade event or null when that side is empty
+   */
+  trade(now, bidChanges, askChanges) {
+    const buyerIsMaker = this.random.next() < 0.5;
+    const levels = buyerIsMaker ? this.bids : this.asks;
+    const changes = buyerIsMaker ? bidChanges : askChanges;
+    const ticks = [...levels.keys()];
+    if (ticks.length === 0) {
+      return null;
+    }
+
+    const bestTick = buyerIsMaker ? Math.max(...ticks) : Math.min(...ticks);
+    const available = levels.get(bestTick);
+    const quantity = Math.min(available, this.round(0.01 + this.random.next() * 2, 4));
+    const remaining = this.round(available - quantity, 4);
+    if (remaining > 0) {
+      levels.set(bestTick, remaining);
+    } else {
+      levels.delete(bestTick);
+    }
+    changes.set(bestTick, remaining);
+
+    const price = this.toPrice(bestTick);
+    this.recordTrade(price, quantity);
+
+    const tradeId = this.nextTradeId++;
+    return {
+      e: 'aggTrade',
+      E: now,
+      s: this.symbol,
+      a: tradeId,
+      p: price.toFixed(this.decimals),
+      q: quantity.toFixed(4),
+      f: tradeId,
+      l: tradeId,
+      T: now,
+      m: buyerIsMaker,
+      M: true
+    };
+  }
+
+  /**
+   * Re-quote both sides around the current mid. Levels that would cross the
+   * mid are pulled, missing levels are added and a few resting sizes change.
+   * @param {Map} bidChanges - Changed bid levels, updated in place
+   * @param {Map} askChanges - Changed ask levels, updated in place
+   */
+  requote(bidChanges, askChanges) {
+    const midTick = this.mid / this.tickSize;
+    const bestBidTick = Math.ceil(midTick) - 1;
+    const bestAskTick = Math.floor(midTick) + 1;
+
+    this.requoteSide(this.bids, bidChanges, bestBidTick, -1);
+    this.requoteSide(this.asks, askChanges, bestAskTick, 1);
+  }
+
+  /**
+   * Re-quote one side of the book
+   * @param {Map} levels - Side to quote
+   * @param {Map} changes - Changed levels, updated in place
+   * @param {number} bestTick - Best tick allowed on this side
+   * @param {number} direction - -1 for bids, 1 for asks
+   */
+  requoteSide(levels, changes, bestTick, direction) {
+    const worstTick = bestTick + direction * (this.levels - 1);
+    const inRange = tick => direction < 0
+      ? tick <= bestTick && tick >= worstTick
+      : tick >= bestTick && tick <= worstTick;
+
+    for (const tick of [...levels.keys()]) {
+      if (!inRange(tick)) {
+        levels.delete(tick);
+        changes.set(tick, 0);
+      }
+    }
+
+    for (let i = 0; i < this.levels; i++) {
+      const tick = bestTick + direction * i;
+      if (!levels.has(tick) || this.random.next() < 0.05) {
+        const quantity = this.round(0.1 + this.random.next() * 10 * (1 + i / 10), 4);
+        levels.set(tick, quantity);
+        changes.set(tick, quantity);
+      }
+    }
+  }
+
+  /**
+   * Fold the latest price into the running 1s kline
+   * @param {number} now - Event time
+   * @returns {Object[]} Kline events: a closing event when a second rolls over, then the open kline
+   */
+  updateKline(now) {
+    const events = [];
+    const openTime = Math.floor(now / 1000) * 1000;
+
+    if (this.kline && this.kline.t !== openTime) {
+      this.closedKlines.push(this.kline);
+      if (this.closedKlines.length > 10000) {
+        this.closedKlines.shift();
+      }
+      events.push(this.klineEvent(now, this.kline, true));
+      this.kline = null;
+    }
+
+    if (!this.kline) {
+      const price = this.round(this.mid, this.decimals);
+      this.kline = { t: openTime, T: openTime + 999, o: price, h: price, l: price, c: price, v: 0, n: 0 };
+    }
+
+    events.push(this.klineEvent(now, this.kline, false));
+    return events;
+  }
+
+  /**
+   * Record a trade in the running kline
+   * @param {number} price - Trade price
+   * @param {number} quantity - Trade quantity
+   */
+  recordTrade(price, quantity) {
+    if (!this.kline) return;
+    this.kline.h = Math.max(this.kline.h, price);
+    this.kline.l = Math.min(this.kline.l, price);
+    this.kline.c = price;
+    this.kline.v = this.round(this.kline.v + quantity, 4);
+    this.kline.n += 1;
+  }
+
+  /**
+   * Wrap a kline in a stream event
+   * @param {number} now - Event time
+   * @param {Object} kline - Kline state
+   * @param {boolean} closed - Whether the kline is final
+   * @returns {Object} { stream, data } kline event
+   */
+  klineEvent(now, kline, closed) {
+    return {
+      stream: `${this.symbol.toLowerCase()}@kline_1s`,
+      data: {
+        e: 'kline',
+        E: now,
+        s: this.symbol,
+        k: {
+          t: kline.t,
+          T: kline.T,
+          s: this.symbol,
+          i: '1s',
+          o: kline.o.toFixed(this.decimals),
+          c: kline.c.toFixed(this.decimals),
+          h: kline.h.toFixed(this.decimals),
+          l: kline.l.toFixed(this.decimals),
+          v: kline.v.toFixed(4),
+          n: kline.n,
+          x: closed
+        }
+      }
+    };
+  }
+
+  /**
+   * Format changed levels as [price, quantity] string pairs
+   * @param {Map} levels - Levels keyed by tick
+   * @returns {string[][]} Levels
+   */
+  formatLevels(levels) {
+    return [...levels.entries()].map(([tick, quantity]) => [
+      this.toPrice(tick).toFixed(this.decimals),
+      quantity.toFixed(4)
+    ]);
+  }
+
+  /**
+   * Sort a side of the book into [price, quantity] string pairs
+   * @param {Map} levels - Levels keyed by tick
+   * @param {'asc'|'desc'} order - Sort order
+   * @returns {string[][]} Levels
+   */
+  sortedLevels(levels, order) {
+    const ticks = [...levels.keys()].sort((a, b) => order === 'asc' ? a - b : b - a);
+    return this.formatLevels(new Map(ticks.map(tick => [tick, levels.get(tick)])));
+  }
+
+  /**
+   * Convert a tick index to a price
+   * @param {number} tick - Tick index
+   * @returns {number} Price
+   */
+  toPrice(tick) {
+    return this.round(tick * this.tickSize, this.decimals);
+  }
+
+  /**
+   * Round away floating point noise
+   * @param {number} value - Value to round
+   * @param {number} decimals - Decimal places
+   * @returns {number} Rounded value
+   */
+  round(value, decimals) {
+    return Number(value.toFixed(decimals));
+  }
+}
+
+/**
+ * Start an HTTP + WebSocket server that speaks the Binance market data API
+ * @param {Object} options - MockExchange options plus server options
+ * @param {number} [options.port] - Port to listen on (0 for a random port)
+ * @param {number} [options.tickInterval] - Milliseconds between market ticks
+ * @param {number} [options.historySeconds] - Seconds of kline history generated at startup
+ * @returns {Promise<Object>} { server, exchange, port, close }
+ */
+function startMockExchangeServer({ port = 9443, tickInterval = 100, historySeconds = 300, ...exchangeOptions } = {}) {
+  const exchange = new MockExchange(exchangeOptions);
+  exchange.seedHistory(Date.now(), historySeconds, tickInterval);
+  const app = express();
+  app.use(cors());
+
+  // GET /api/v3/depth?symbol=ETHUSDT&limit=1000
+  app.get('/api/v3/depth', (req, res) => {
+    if (String(req.query.symbol || '').toUpperCase() !== exchange.symbol) {
+      return res.status(400).json({ code: -1121, msg: 'Invalid symbol.' });
+    }
+    res.json(exchange.getDepthSnapshot(Number(req.query.limit) || 100));
+  });
+
+  // GET /api/v3/klines?symbol=ETHUSDT&interval=1s&limit=100[&startTime=...&endTime=...]
+  app.get('/api/v3/klines', (req, res) => {
+    if (String(req.query.symbol || '').toUpperCase() !== exchange.symbol) {
+      return res.status(400).json({ code: -1121, msg: 'Invalid symbol.' });
+    }
+    if (req.query.interval !== '1s') {
+      return res.status(400).json({ code: -1120, msg: 'Invalid interval.' });
+    }
+    res.json(exchange.getKlines({
+      startTime: req.query.startTime !== undefined ? Number(req.query.startTime) : undefined,
+      endTime: req.query.endTime !== undefined ? Number(req.query.endTime) : undefined,
+      limit: Math.min(Number(req.query.limit) || 500, 1000)
+    }));
+  });
+
+  const server = http.createServer(app);
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Raw streams (/ws/<stream>) receive bare payloads, combined streams
+  // (/stream?streams=a/b) receive { stream, data } wrappers
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url, 'http://localhost');
+    let streams;
+    let combined;
+    if (url.pathname === '/stream') {
+      streams = (url.searchParams.get('streams') || '').split('/').filter(Boolean);
+      combined = true;
+    } else if (url.pathname.startsWith('/ws/')) {
+      streams = url.pathname.slice(4).split('/').filter(Boolean);
+      combined = false;
+    } else {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      ws.subscription = { streams: new Set(streams.map(stream => stream.toLowerCase())), combined };
+      wss.emit('connection', ws, req);
+    });
+  });
+
+  const timer = setInterval(() => {
+    const events = exchange.tick(Date.now());
+    for (const client of wss.clients) {
+      const { streams, combined } = client.subscription;
+      for (const event of events) {
+        if (streams.has(event.stream.toLowerCase())) {
+          client.send(JSON.stringify(combined ? event : event.data));
+        }
+      }
+    }
+  }, tickInterval);
+
+  const close = () => new Promise((resolve) => {
+    clearInterval(timer);
+    for (const client of wss.clients) {
+      client.terminate();
+    }
+    wss.close();
+    server.close(() => resolve());
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, () => {
+      resolve({ server, exchange, port: server.address().port, close });
+    });
+  });
+}
+
+// Run standalone: node src/mockExchange.js
+if (require.main === module) {
+  startMockExchangeServer({
+    port: Number(process.env.MOCK_EXCHANGE_PORT) || 9443,
+    symbol: process.env.MOCK_EXCHANGE_SYMBOL || 'ETHUSDT',
+    seed: process.env.MARKET_SEED !== undefined ? Number(process.env.MARKET_SEED) : 1,
+    gapRate: Number(process.env.MOCK_EXCHANGE_GAP_RATE) || 0
+  }).then(({ port, exchange }) => {
+    console.log(`Mock exchange for ${exchange.symbol} listening on http://localhost:${port}`);
+    console.log(`  REST:      http://localhost:${port}/api/v3/depth?symbol=${exchange.symbol}`);
+    console.log(`             http://localhost:${port}/api/v3/klines?symbol=${exchange.symbol}&interval=1s`);
+    console.log(`  WebSocket: ws://localhost:${port}/stream?streams=${exchange.symbol.toLowerCase()}@depth@100ms`);
+  });
+}
+
+module.exports = { MockExchange, startMockExchangeServer };
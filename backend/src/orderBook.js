@@ -0,0 +1,340 @@
+/**
+ * Limit Order Book with price-time priority matching
+ * Prices are bucketed into integer ticks so levels can be compared exactly.
+ */
+class LimitOrderBook {
+  /**
+   * @param {Object} options - Book options
+   * @param {number} options.tickSize - Minimum price increment
+   */
+  constructor({ tickSize }) {
+    this.tickSize = tickSize;
+    this.nextOrderId = 1;
+    this.orders = new Map();  // orderId -> order
+    this.bidLevels = new Map(); // tick -> FIFO array of orders
+    this.askLevels = new Map();
+    this.bidTicks = []; // Sorted best-first (descending)
+    this.askTicks = []; // Sorted best-first (ascending)
+  }
+
+  /**
+   * Convert a price to its tick index
+   * @param {number} price - Price
+   * @returns {number} Tick index
+   */
+  toTick(price) {
+    return Math.round(price / this.tickSize);
+  }
+
+  /**
+   * Worst tick an order may fill at without crossing its limit price. A limit
+   * between ticks keeps to the side that doesn't cross it.
+   * @param {'buy'|'sell'} side - Order side
+   * @param {number} price - Limit price
+   * @returns {number} Tick index
+   */
+  limitTick(side, price) {
+    const exact = price / this.tickSize;
+    const tick = Math.round(exact);
+    if (Math.abs(exact - tick) < 1e-6) {
+      return tick;
+    }
+    return side === 'buy' ? Math.floor(exact) : Math.ceil(exact);
+  }
+
+  /**
+   * Convert a tick index back to a price
+   * @param {number} tick - Tick index
+   * @returns {number} Price
+   */
+  toPrice(tick) {
+    // Round away floating point noise from the multiplication
+    return Number((tick * this.tickSize).toFixed(12));
+  }
+
+  /**
+   * Get the best bid price
+   * @returns {number|null} Best bid or null when there are no bids
+   */
+  bestBid() {
+    return this.bidTicks.length > 0 ? this.toPrice(this.bidTicks[0]) : null;
+  }
+
+  /**
+   * Get the best ask price
+   * @returns {number|null} Best ask or null when there are no asks
+   */
+  bestAsk() {
+    return this.askTicks.length > 0 ? this.toPrice(this.askTicks[0]) : null;
+  }
+
+  /**
+   * Get resting orders, optionally filtered by owner
+   * @param {string} [ownerId] - Only return orders from this owner
+   * @returns {Object[]} Resting orders
+   */
+  getOrders(ownerId) {
+    const orders = [...this.orders.values()];
+    return ownerId === undefined ? orders : orders.filter(order => order.ownerId === ownerId);
+  }
+
+  /**
+   * Total resting volume at a price level
+   * @param {'buy'|'sell'} side - Book side
+   * @param {number} price - Level price
+   * @returns {number} Resting volume
+   */
+  volumeAt(side, price) {
+    const level = this.levelsFor(side).get(this.toTick(price));
+    return level ? level.reduce((sum, order) => sum + order.remaining, 0) : 0;
+  }
+
+  /**
+   * Place a limit order. Any part that crosses the book is matched
+   * immediately; the remainder rests at its price behind earlier orders.
+   * @param {Object} params - Order parameters
+   * @param {'buy'|'sell'} params.side - Order side
+   * @param {number} params.price - Limit price
+   * @param {number} params.size - Order size
+   * @param {string} [params.ownerId] - Owner of the order
+   * @param {number} [params.timestamp] - Placement time
+   * @returns {Object} { order, fills } where order is null if fully filled
+   */
+  addLimitOrder({ side, price, size, ownerId = 'anonymous', timestamp = Date.now() }) {
+    const tick = this.toTick(price);
+    const fills = this.match(side, size, tick, ownerId, timestamp);
+    const filled = fills.reduce((sum, fill) => sum + fill.size, 0);
+    const remaining = size - filled;
+
+    if (remaining <= 0) {
+      return { order: null, fills };
+    }
+
+    const order = {
+      id: String(this.nextOrderId++),
+      side,
+      price: this.toPrice(tick),
+      size,
+      remaining,
+      ownerId,
+      timestamp
+    };
+    this.rest(order, tick);
+    return { order, fills };
+  }
+
+  /**
+   * Execute a market order against the opposite side of the book. With a
+   * limit price, only levels up to it are taken and the rest goes unfilled
+   * rather than resting.
+   * @param {Object} params - Order parameters
+   * @param {'buy'|'sell'} params.side - Order side
+   * @param {number} params.size - Order size
+   * @param {number} [params.limitPrice] - Worst price to fill at
+   * @param {string} [params.ownerId] - Owner of the order
+   * @param {number} [params.timestamp] - Execution time
+   * @returns {Object} { fills, filledSize, remaining, avgPrice }
+   */
+  marketOrder({ side, size, limitPrice, ownerId = 'anonymous', timestamp = Date.now() }) {
+    const limit = limitPrice === undefined ? null : this.limitTick(side, limitPrice);
+    const fills = this.match(side, size, limit, ownerId, timestamp);
+    const filledSize = fills.reduce((sum, fill) => sum + fill.size, 0);
+    const notional = fills.reduce((sum, fill) => sum + fill.size * fill.price, 0);
+
+    return {
+      fills,
+      filledSize,
+      remaining: size - filledSize,
+      avgPrice: filledSize > 0 ? notional / filledSize : null
+    };
+  }
+
+  /**
+   * Price a market order without touching the book
+   * @param {'buy'|'sell'} side - Order side
+   * @param {number} size - Order size
+   * @param {number} [limitPrice] - Worst price to fill at
+   * @returns {Object} { filledSize, avgPrice } the order would get right now
+   */
+  quoteMarketOrder(side, size, limitPrice) {
+    const oppositeTicks = side === 'buy' ? this.askTicks : this.bidTicks;
+    const oppositeLevels = this.levelsFor(side === 'buy' ? 'sell' : 'buy');
+    const limit = limitPrice === undefined ? null : this.limitTick(side, limitPrice);
+    let remaining = size;
+    let notional = 0;
+
+    for (const tick of oppositeTicks) {
+      if (remaining <= 0) break;
+      if (limit !== null && (side === 'buy' ? tick > limit : tick < limit)) break;
+      const volume = oppositeLevels.get(tick).reduce((sum, order) => sum + order.remaining, 0);
+      const fillSize = Math.min(remaining, volume);
+      notional += fillSize * this.toPrice(tick);
+      remaining -= fillSize;
+    }
+
+    const filledSize = size - remaining;
+    return { filledSize, avgPrice: filledSize > 0 ? notional / filledSize : null };
+  }
+
+  /**
+   * Cancel a resting order
+   * @param {string} orderId - Order ID
+   * @returns {boolean} Whether an order was cancelled
+   */
+  cancelOrder(orderId) {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return false;
+    }
+
+    const tick = this.toTick(order.price);
+    const levels = this.levelsFor(order.side);
+    const level = levels.get(tick);
+    const index = level.indexOf(order);
+    if (index !== -1) {
+      level.splice(index, 1);
+    }
+    if (level.length === 0) {
+      this.removeLevel(order.side, tick);
+    }
+    this.orders.delete(orderId);
+    return true;
+  }
+
+  /**
+   * Aggregate the book into price levels
+   * @param {number} levels - Number of levels per side
+   * @returns {Object} Order book with bids and asks
+   */
+  getDepth(levels) {
+    const aggregate = (side, ticks) => ticks.slice(0, levels).map(tick => {
+      const orders = this.levelsFor(side).get(tick);
+      return {
+        price: this.toPrice(tick),
+        volume: orders.reduce((sum, order) => sum + order.remaining, 0),
+        orders: orders.length
+      };
+    });
+
+    return {
+      bids: aggregate('buy', this.bidTicks),
+      asks: aggregate('sell', this.askTicks)
+    };
+  }
+
+  /**
+   * Match an incoming order against the opposite side
+   * Fills the best price first and, within a level, the oldest order first.
+   * @param {'buy'|'sell'} side - Incoming order side
+   * @param {number} size - Incoming order size
+   * @param {number|null} limitTick - Worst acceptable tick, null for market orders
+   * @param {string} takerId - Owner of the incoming order
+   * @param {number} timestamp - Execution time
+   * @returns {Object[]} Fills
+   */
+  match(side, size, limitTick, takerId, timestamp) {
+    const fills = [];
+    const oppositeSide = side === 'buy' ? 'sell' : 'buy';
+    const oppositeTicks = side === 'buy' ? this.askTicks : this.bidTicks;
+    const oppositeLevels = this.levelsFor(oppositeSide);
+    let remaining = size;
+
+    while (remaining > 0 && oppositeTicks.length > 0) {
+      const tick = oppositeTicks[0];
+      if (limitTick !== null && (side === 'buy' ? tick > limitTick : tick < limitTick)) {
+        break;
+      }
+
+      const level = oppositeLevels.get(tick);
+      while (remaining > 0 && level.length > 0) {
+        const maker = level[0];
+        const fillSize = Math.min(remaining, maker.remaining);
+        maker.remaining -= fillSize;
+        remaining -= fillSize;
+
+        fills.push({
+          price: this.toPrice(tick),
+          size: fillSize,
+          makerOrderId: maker.id,
+          makerId: maker.ownerId,
+          takerId,
+          timestamp
+        });
+
+        if (maker.remaining <= 0) {
+          level.shift();
+          this.orders.delete(maker.id);
+        }
+      }
+
+      if (level.length === 0) {
+        this.removeLevel(oppositeSide, tick);
+      }
+    }
+
+    return fills;
+  }
+
+  /**
+   * Add an order to the back of its price level
+   * @param {Object} order - Order to rest
+   * @param {number} tick - Order tick
+   */
+  rest(order, tick) {
+    const levels = this.levelsFor(order.side);
+    if (!levels.has(tick)) {
+      levels.set(tick, []);
+      this.insertTick(order.side, tick);
+    }
+    levels.get(tick).push(order);
+    this.orders.set(order.id, order);
+  }
+
+  /**
+   * Get the level map for a side
+   * @param {'buy'|'sell'} side - Book side
+   * @returns {Map} Levels keyed by tick
+   */
+  levelsFor(side) {
+    return side === 'buy' ? this.bidLevels : this.askLevels;
+  }
+
+  /**
+   * Insert a tick into the sorted tick list for a side
+   * @param {'buy'|'sell'} side - Book side
+   * @param {number} tick - Tick to insert
+   */
+  insertTick(side, tick) {
+    const ticks = side === 'buy' ? this.bidTicks : this.askTicks;
+    const better = side === 'buy' ? (a, b) => a > b : (a, b) => a < b;
+
+    // Binary search for the insertion point
+    let low = 0;
+    let high = ticks.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (better(ticks[mid], tick)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    ticks.splice(low, 0, tick);
+  }
+
+  /**
+   * Remove an empty price level
+   * @param {'buy'|'sell'} side - Book side
+   * @param {number} tick - Tick to remove
+   */
+  removeLevel(side, tick) {
+    const ticks = side === 'buy' ? this.bidTicks : this.askTicks;
+    const index = ticks.indexOf(tick);
+    if (index !== -1) {
+      ticks.splice(index, 1);
+    }
+    this.levelsFor(side).delete(tick);
+  }
+}
+
+module.exports = { LimitOrderBook };
@@ -0,0 +1,18 @@
+/**
+ * Market pattern presets room owners can pick from
+ * Same keys and parameters as MARKET_PATTERN_PRESETS in the frontend simulator.
+ */
+const PATTERN_PRESETS = {
+  RANDOM_WALK: { patternType: 'random_walk', volatility: 0.0001, patternStrength: 0.5, patternDuration: 30000 },
+  UPTREND: { patternType: 'uptrend', volatility: 0.0005, patternStrength: 0.6, patternDuration: 60000 },
+  DOWNTREND: { patternType: 'downtrend', volatility: 0.0005, patternStrength: 0.6, patternDuration: 60000 },
+  VOLATILE: { patternType: 'volatile', volatility: 0.002, patternStrength: 0.8, patternDuration: 45000 },
+  SIDEWAYS: { patternType: 'sideways', volatility: 0.0003, patternStrength: 0.7, patternDuration: 60000 },
+  BREAKOUT_UP: { patternType: 'breakout_up', volatility: 0.0008, patternStrength: 0.9, patternDuration: 45000 },
+  BREAKOUT_DOWN: { patternType: 'breakout_down', volatility: 0.0008, patternStrength: 0.9, patternDuration: 45000 },
+  HEAD_AND_SHOULDERS: { patternType: 'head_and_shoulders', volatility: 0.0006, patternStrength: 0.8, patternDuration: 90000 },
+  DOUBLE_TOP: { patternType: 'double_top', volatility: 0.0006, patternStrength: 0.8, patternDuration: 75000 },
+  DOUBLE_BOTTOM: { patternType: 'double_bottom', volatility: 0.0006, patternStrength: 0.8, patternDuration: 75000 }
+};
+
+module.exports = { PATTERN_PRESETS };
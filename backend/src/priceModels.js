@@ -0,0 +1,221 @@
+/**
+ * Price models for the server's market simulator
+ *
+ * The same models as the client simulator (frontend/src/utils/priceModels.ts),
+ * so a session behaves like the single-player market with the same settings.
+ * Keep the two copies identical: `npm run check-models` checks this one
+ * against the reference paths the frontend tests check the other against.
+ * A price model turns each tick's standard normal shock into the random part
+ * of the log-price move; the simulator adds its drift and pattern drift on
+ * top. Every model is scaled by the volatility it is given (per √second).
+ *
+ * - gbm: geometric Brownian motion. Constant volatility, smooth noise.
+ * - garch: GARCH(1,1) in continuous time; large moves raise the variance for
+ *   a while, so calm and turbulent stretches cluster.
+ * - regimeSwitching: a Markov chain between calm, trending and crash regimes,
+ *   each with its own volatility and drift.
+ * - jumpDiffusion: Merton jump-diffusion, with the drift compensated so the
+ *   jumps don't bias the expected price.
+ * - ornsteinUhlenbeck: the log price reverts to a mean level.
+ */
+
+const DEFAULT_PRICE_MODEL = 'gbm';
+
+const DEFAULT_PRICE_MODEL_PARAMS = {
+  garchAlpha: 0.1,
+  garchBeta: 0.85,
+  calmDuration: 60,
+  trendDuration: 40,
+  crashDuration: 8,
+  trendDrift: 0.0005,
+  crashDrift: -0.002,
+  crashVolatility: 3,
+  jumpIntensity: 0.02,
+  jumpMean: -0.001,
+  jumpVolatility: 0.004,
+  meanReversion: 0.02,
+  meanPrice: 0
+};
+
+// Volatility multiple of each regime, besides the crash one which is configured
+const REGIME_VOLATILITY = {
+  calm: 0.6,
+  trending: 1
+};
+
+// Chance of moving to each regime when the current one ends
+const REGIME_TRANSITIONS = {
+  calm: [['trending', 0.85], ['crash', 0.15]],
+  trending: [['calm', 0.75], ['crash', 0.25]],
+  crash: [['calm', 0.5], ['trending', 0.5]]
+};
+
+// Cap on the GARCH variance as a multiple of the long-run one
+const MAX_VARIANCE_MULTIPLE = 100;
+
+// Most jumps counted in one tick
+const MAX_JUMPS_PER_TICK = 10;
+
+/**
+ * Model parameters, filling in defaults
+ * @param {Object} [params] - Parameters set in the config
+ * @returns {Object} Every parameter
+ */
+function resolvePriceModelParams(params) {
+  return { ...DEFAULT_PRICE_MODEL_PARAMS, ...params };
+}
+
+class GbmModel {
+  /**
+   * Random log-price move over a tick
+   * @param {Object} tick - { deltaTime, shock, volatility, price, initialPrice }
+   * @returns {number} Log-price move
+   */
+  step(tick) {
+    return tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility;
+  }
+}
+
+class GarchModel {
+  constructor() {
+    this.variance = null; // Per second; starts at the long-run variance
+  }
+
+  step(tick, params) {
+    const longRun = tick.volatility * tick.volatility;
+    const variance = this.variance ?? longRun;
+    const move = tick.shock * Math.sqrt(variance * tick.deltaTime);
+
+    // Keep the process stationary: α and β non-negative, α + β below 1
+    const alpha = Math.max(0, params.garchAlpha);
+    const beta = Math.max(0, Math.min(params.garchBeta, 0.999 - alpha));
+    const dt = Math.min(tick.deltaTime, 1);
+    const next = variance
+      + (1 - alpha - beta) * dt * (longRun - variance)
+      + alpha * Math.sqrt(dt) * (tick.shock * tick.shock - 1) * variance;
+    this.variance = Math.min(Math.max(next, 0), longRun * MAX_VARIANCE_MULTIPLE);
+    return move;
+  }
+}
+
+class RegimeSwitchingModel {
+  constructor(random) {
+    this.random = random;
+    this.regime = 'calm';
+    this.trendDirection = 1;
+  }
+
+  step(tick, params) {
+    const duration = {
+      calm: params.calmDuration,
+      trending: params.trendDuration,
+      crash: params.crashDuration
+    }[this.regime];
+    if (duration <= 0 || this.random.next() < 1 - Math.exp(-tick.deltaTime / duration)) {
+      this.switchRegime();
+    }
+
+    const diffusion = tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility;
+    switch (this.regime) {
+      case 'trending':
+        return diffusion * REGIME_VOLATILITY.trending + this.trendDirection * params.trendDrift * tick.deltaTime;
+      case 'crash':
+        return diffusion * params.crashVolatility + params.crashDrift * tick.deltaTime;
+      default:
+        return diffusion * REGIME_VOLATILITY.calm;
+    }
+  }
+
+  switchRegime() {
+    const previous = this.regime;
+    const draw = this.random.next();
+    let cumulative = 0;
+    for (const [regime, probability] of REGIME_TRANSITIONS[this.regime]) {
+      cumulative += probability;
+      if (draw < cumulative) {
+        this.regime = regime;
+        break;
+      }
+    }
+    // A trend out of a crash is the rebound; any other goes either way
+    if (this.regime === 'trending') {
+      this.trendDirection = previous === 'crash' || this.random.next() < 0.5 ? 1 : -1;
+    }
+  }
+}
+
+class JumpDiffusionModel {
+  constructor(random) {
+    this.random = random;
+  }
+
+  step(tick, params) {
+    const intensity = Math.max(0, params.jumpIntensity);
+    const { jumpMean, jumpVolatility } = params;
+
+    // Subtract the jumps' expected relative move so they don't bias the price
+    const compensation = intensity * (Math.exp(jumpMean + (jumpVolatility * jumpVolatility) / 2) - 1) * tick.deltaTime;
+    const diffusion = tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility - compensation;
+
+    // Jumps in the tick: Poisson with mean intensity·dt, by inverse transform
+    const expected = intensity * tick.deltaTime;
+    let probability = Math.exp(-expected);
+    let cumulative = probability;
+    const draw = this.random.next();
+    let jumps = 0;
+    while (draw > cumulative && jumps < MAX_JUMPS_PER_TICK) {
+      jumps++;
+      probability *= expected / jumps;
+      cumulative += probability;
+    }
+    if (jumps === 0) return diffusion;
+
+    // The sum of n log-normal jump sizes has mean n·μ and spread √n·σ
+    return diffusion + jumps * jumpMean + Math.sqrt(jumps) * jumpVolatility * this.random.normal();
+  }
+}
+
+class OrnsteinUhlenbeckModel {
+  step(tick, params) {
+    const reversion = params.meanReversion;
+    if (reversion <= 0 || tick.price <= 0) {
+      return tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility;
+    }
+
+    const mean = Math.log(params.meanPrice > 0 ? params.meanPrice : tick.initialPrice);
+    const deviation = Math.log(tick.price) - mean;
+    const decay = Math.exp(-reversion * tick.deltaTime);
+    const spread = tick.volatility * Math.sqrt((1 - decay * decay) / (2 * reversion));
+    return -deviation * (1 - decay) + spread * tick.shock;
+  }
+}
+
+/**
+ * New price model of a type; unknown types get plain GBM. Models that draw
+ * their own random numbers take them from the simulator's generator so a
+ * seed reproduces them.
+ * @param {string} [type] - Model type
+ * @param {SeededRandom} random - Simulator's generator
+ * @returns {Object} Model with a step(tick, params) method
+ */
+function createPriceModel(type, random) {
+  switch (type) {
+    case 'garch':
+      return new GarchModel();
+    case 'regimeSwitching':
+      return new RegimeSwitchingModel(random);
+    case 'jumpDiffusion':
+      return new JumpDiffusionModel(random);
+    case 'ornsteinUhlenbeck':
+      return new OrnsteinUhlenbeckModel();
+    default:
+      return new GbmModel();
+  }
+}
+
+module.exports = {
+  DEFAULT_PRICE_MODEL,
+  DEFAULT_PRICE_MODEL_PARAMS,
+  createPriceModel,
+  resolvePriceModelParams
+};
@@ -0,0 +1,72 @@
+/**
+ * Seedable pseudo-random number generation for the market simulator.
+ * Every random draw in a simulated market goes through a SeededRandom so
+ * that the same seed (and the same config) reproduces the same market.
+ */
+
+/**
+ * Generate a fresh 32-bit seed for sessions that don't specify one
+ * @returns {number} Unsigned 32-bit seed
+ */
+function generateSeed() {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Normalize any numeric seed into an unsigned 32-bit integer
+ * @param {number} seed - Seed value
+ * @returns {number} Unsigned 32-bit seed
+ */
+function normalizeSeed(seed) {
+  if (!Number.isFinite(seed)) return 0;
+  return Math.floor(Math.abs(seed)) >>> 0;
+}
+
+class SeededRandom {
+  constructor(seed) {
+    this.seed = normalizeSeed(seed);
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the seed this generator was created with
+   * @returns {number} Seed
+   */
+  getSeed() {
+    return this.seed;
+  }
+
+  /**
+   * Uniform random number in [0, 1) (mulberry32)
+   * @returns {number} Random number
+   */
+  next() {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Standard normal random number (Box-Muller transform)
+   * @returns {number} Random number from normal distribution
+   */
+  normal() {
+    let u = 0, v = 0;
+    while (u === 0) u = this.next();
+    while (v === 0) v = this.next();
+    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  }
+
+  /**
+   * Random integer in [0, max)
+   * @param {number} max - Exclusive upper bound
+   * @returns {number} Random integer
+   */
+  int(max) {
+    return Math.floor(this.next() * max);
+  }
+}
+
+module.exports = { SeededRandom, generateSeed, normalizeSeed };
@@ -0,0 +1,43 @@
+/**
+ * Final standings of finished room matches, kept in a JSON file
+ */
+
+const fs = require('fs/promises');
+const path = require('path');
+
+const RESULTS_FILE = process.env.ROOM_RESULTS_FILE || path.join(__dirname, '..', 'data', 'room-results.json');
+
+/**
+ * Read every saved result
+ * @returns {Promise<Object[]>} Results, oldest first
+ */
+async function loadRoomResults() {
+  try {
+    return JSON.parse(await fs.readFile(RESULTS_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Saves are chained so concurrent matches ending together don't overwrite each other
+let pendingSave = Promise.resolve();
+
+/**
+ * Append a finished match to the results file
+ * @param {Object} result - Match result from TradingRoom.update
+ * @returns {Promise<void>} Resolves once written
+ */
+function saveRoomResult(result) {
+  pendingSave = pendingSave
+    .catch(() => {})
+    .then(async () => {
+      const results = await loadRoomResults();
+      results.push(result);
+      await fs.mkdir(path.dirname(RESULTS_FILE), { recursive: true });
+      await fs.writeFile(RESULTS_FILE, JSON.stringify(results, null, 2));
+    });
+  return pendingSave;
+}
+
+module.exports = { loadRoomResults, saveRoomResult };
@@ -0,0 +1,147 @@
+/**
+ * Scripted market scenarios for the server's market simulator
+ *
+ * The same format as the client's scenarios (frontend/src/utils/scenario.ts):
+ * a timeline of segments, each running one pattern for a set number of
+ * seconds with its own strength, volatility and spread. A room owner can set
+ * one for the next match, so everyone in the room races on the same script.
+ */
+
+const SCENARIO_PATTERNS = [
+  'random_walk',
+  'uptrend',
+  'downtrend',
+  'volatile',
+  'sideways',
+  'breakout_up',
+  'breakout_down',
+  'head_and_shoulders',
+  'double_top',
+  'double_bottom'
+];
+
+// Scenarios come from clients, so keep them to a sensible size
+const MAX_SEGMENTS = 100;
+const MAX_SEGMENT_DURATION = 60 * 60; // Seconds
+
+const isFiniteNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check a scenario sent by a client and keep only the fields it may set
+ * @param {Object} raw - Scenario as received
+ * @returns {Object} Scenario ({ name, description?, loop, segments })
+ * @throws {Error} Describing the first problem found
+ */
+function validateScenario(raw) {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Scenario must be an object');
+  }
+  if (!Array.isArray(raw.segments) || raw.segments.length === 0) {
+    throw new Error('Scenario needs a non-empty "segments" list');
+  }
+  if (raw.segments.length > MAX_SEGMENTS) {
+    throw new Error(`Scenarios have at most ${MAX_SEGMENTS} segments`);
+  }
+
+  const segments = raw.segments.map((entry, index) => {
+    const segment = typeof entry === 'object' && entry !== null ? entry : {};
+    const where = `Segment ${index + 1}`;
+    if (!SCENARIO_PATTERNS.includes(segment.pattern)) {
+      throw new Error(`${where}: unknown pattern "${String(segment.pattern)}"`);
+    }
+    if (!isFiniteNumber(segment.duration) || segment.duration <= 0 || segment.duration > MAX_SEGMENT_DURATION) {
+      throw new Error(`${where}: duration must be a positive number of seconds, at most ${MAX_SEGMENT_DURATION}`);
+    }
+    if (segment.strength !== undefined && (!isFiniteNumber(segment.strength) || segment.strength < 0 || segment.strength > 1)) {
+      throw new Error(`${where}: strength must be between 0 and 1`);
+    }
+    for (const key of ['volatility', 'spread']) {
+      if (segment[key] !== undefined && (!isFiniteNumber(segment[key]) || segment[key] < 0)) {
+        throw new Error(`${where}: ${key} must be a non-negative number`);
+      }
+    }
+    return {
+      pattern: segment.pattern,
+      duration: segment.duration,
+      strength: segment.strength,
+      volatility: segment.volatility,
+      spread: segment.spread
+    };
+  });
+
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name.trim().slice(0, 100) : 'Untitled scenario',
+    description: typeof raw.description === 'string' ? raw.description.slice(0, 500) : undefined,
+    loop: raw.loop === true,
+    segments
+  };
+}
+
+/**
+ * Plays a scenario's segments on the market clock
+ */
+class ScenarioTimeline {
+  /**
+   * @param {Object} scenario - Validated scenario
+   * @param {number} startTime - Market time the first segment starts
+   */
+  constructor(scenario, startTime) {
+    this.scenario = scenario;
+    this.index = 0;
+    this.segmentStart = startTime;
+    this.loops = 0;
+    this.finished = false;
+  }
+
+  /**
+   * Move past every segment that has run out by now
+   * @param {number} now - Market time
+   * @returns {boolean} Whether a different segment is playing, or the scenario ended
+   */
+  advance(now) {
+    let changed = false;
+    while (!this.finished && now >= this.segmentEndsAt()) {
+      this.segmentStart = this.segmentEndsAt();
+      changed = true;
+      if (this.index + 1 < this.scenario.segments.length) {
+        this.index++;
+      } else if (this.scenario.loop) {
+        this.index = 0;
+        this.loops++;
+      } else {
+        this.finished = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Segment playing now
+   * @returns {Object|null} Segment, or null once the scenario has ended
+   */
+  getSegment() {
+    return this.finished ? null : this.scenario.segments[this.index];
+  }
+
+  /**
+   * Where the scenario is up to, as the client simulator reports it
+   * @returns {Object} { name, segmentIndex, segmentCount, segment, segmentEndsAt, loops, finished }
+   */
+  getStatus() {
+    return {
+      name: this.scenario.name,
+      segmentIndex: this.index,
+      segmentCount: this.scenario.segments.length,
+      segment: this.getSegment(),
+      segmentEndsAt: this.finished ? null : this.segmentEndsAt(),
+      loops: this.loops,
+      finished: this.finished
+    };
+  }
+
+  segmentEndsAt() {
+    return this.segmentStart + this.scenario.segments[this.index].duration * 1000;
+  }
+}
+
+module.exports = { ScenarioTimeline, validateScenario };
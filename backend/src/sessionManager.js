@@ -0,0 +1,273 @@
+/**
+ * Simulator sessions
+ *
+ * Every client trades in a session with its own MarketSimulator, config and
+ * amplitude settings, so changing one market never touches another. A client
+ * that doesn't ask for a session gets a private one; clients that name the
+ * same session share a market (a room). Sessions nobody is connected to are
+ * destroyed once they have been idle for a while.
+ */
+
+const crypto = require('crypto');
+const { MarketSimulator } = require('./marketSimulator');
+const { MarketDataEncoder } = require('./marketDataProtocol');
+const { TradingRoom } = require('./tradingRoom');
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Error with the HTTP status a route should answer with
+ */
+class SessionError extends Error {
+  /**
+   * @param {string} message - Error message
+   * @param {number} status - HTTP status code
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'SessionError';
+    this.status = status;
+  }
+}
+
+/**
+ * One market: a simulator plus the encoder for its delta feed, and for
+ * rooms the players' match
+ */
+class SimulatorSession {
+  /**
+   * @param {Object} options - Session options
+   * @param {string} options.id - Session ID
+   * @param {string} options.name - Display name
+   * @param {'client'|'room'} options.kind - Private client market or shared room
+   * @param {Object} options.config - Simulator configuration
+   * @param {number} options.now - Creation time
+   */
+  constructor({ id, name, kind, config, now }) {
+    this.id = id;
+    this.name = name;
+    this.kind = kind;
+    this.simulator = new MarketSimulator(config);
+    this.encoder = new MarketDataEncoder();
+    this.room = kind === 'room' ? new TradingRoom({ id, name, simulator: this.simulator }) : null;
+    this.clients = new Set();
+    this.createdAt = now;
+    this.lastActivity = now;
+  }
+
+  /**
+   * Start the market
+   * @param {Function} onTick - Called with (session, marketData, delta) on each update
+   */
+  start(onTick) {
+    this.simulator.start((marketData) => {
+      const delta = this.encoder.encode(marketData);
+      onTick(this, marketData, delta);
+    });
+  }
+
+  /**
+   * Stop the market
+   */
+  stop() {
+    this.simulator.stop();
+  }
+
+  /**
+   * Public summary of the session
+   * @param {boolean} includeConfig - Add the simulator configuration
+   * @returns {Object} Session description
+   */
+  describe(includeConfig = false) {
+    const description = {
+      id: this.id,
+      name: this.name,
+      kind: this.kind,
+      clients: this.clients.size,
+      createdAt: this.createdAt,
+      lastActivity: this.lastActivity,
+      seed: this.simulator.getSeed()
+    };
+    if (this.room) {
+      description.status = this.room.status;
+      description.players = this.room.players.size;
+    }
+    if (includeConfig) {
+      description.config = this.simulator.getConfig();
+    }
+    return description;
+  }
+}
+
+/**
+ * Creates, looks up and cleans up simulator sessions
+ */
+class SessionManager {
+  /**
+   * @param {Object} options - Manager options
+   * @param {Object} options.defaults - Configuration new sessions start from
+   * @param {number} options.idleTimeout - Milliseconds an empty session is kept
+   * @param {number} options.maxSessions - Upper bound on concurrent sessions
+   * @param {Function} options.onTick - Called with (session, marketData, delta) on each update
+   * @param {Function} options.onDestroy - Called with the session after it was stopped
+   */
+  constructor({ defaults, idleTimeout = 5 * 60 * 1000, maxSessions = 100, onTick = () => {}, onDestroy = () => {} }) {
+    this.defaults = { ...defaults };
+    this.idleTimeout = idleTimeout;
+    this.maxSessions = maxSessions;
+    this.onTick = onTick;
+    this.onDestroy = onDestroy;
+    this.sessions = new Map();
+    this.cleanupId = null;
+  }
+
+  /**
+   * Get the configuration new sessions start from
+   * @returns {Object} Default configuration
+   */
+  getDefaults() {
+    return { ...this.defaults };
+  }
+
+  /**
+   * Change the configuration new sessions start from; running sessions keep theirs
+   * @param {Object} config - Configuration values to change
+   * @returns {Object} Updated default configuration
+   */
+  updateDefaults(config) {
+    this.defaults = { ...this.defaults, ...config };
+    return this.getDefaults();
+  }
+
+  /**
+   * Create and start a session
+   * @param {Object} options - Session options
+   * @param {string} [options.id] - Session ID (random if omitted)
+   * @param {string} [options.name] - Display name (defaults to the ID)
+   * @param {'client'|'room'} [options.kind] - Private client market or shared room
+   * @param {Object} [options.config] - Overrides for the default configuration
+   * @returns {SimulatorSession} New session
+   */
+  createSession({ id, name, kind = 'room', config = {} } = {}) {
+    if (id !== undefined && (typeof id !== 'string' || !SESSION_ID_PATTERN.test(id))) {
+      throw new SessionError('Session IDs are 1-64 letters, digits, dashes or underscores', 400);
+    }
+    if (id !== undefined && this.sessions.has(id)) {
+      throw new SessionError(`Session ${id} already exists`, 409);
+    }
+    if (this.sessions.size >= this.maxSessions) {
+      throw new SessionError('Too many sessions', 503);
+    }
+
+    const sessionId = id ?? crypto.randomBytes(6).toString('hex');
+    const session = new SimulatorSession({
+      id: sessionId,
+      name: name || sessionId,
+      kind,
+      config: { ...this.defaults, ...config },
+      now: Date.now()
+    });
+    this.sessions.set(sessionId, session);
+    session.start(this.onTick);
+    console.log(`Session ${sessionId} created (${kind})`);
+    return session;
+  }
+
+  /**
+   * Look up a session
+   * @param {string} id - Session ID
+   * @returns {SimulatorSession|undefined} Session
+   */
+  getSession(id) {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * All running sessions
+   * @returns {SimulatorSession[]} Sessions
+   */
+  listSessions() {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Stop and remove a session
+   * @param {string} id - Session ID
+   * @returns {boolean} True if the session existed
+   */
+  destroySession(id) {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+
+    session.stop();
+    this.sessions.delete(id);
+    console.log(`Session ${id} destroyed`);
+    this.onDestroy(session);
+    return true;
+  }
+
+  /**
+   * Add a client to a session. Without a session ID the client gets a
+   * private market; an unknown ID opens a room under that name.
+   * @param {string} clientId - Client (socket) ID
+   * @param {string} [sessionId] - Session to join
+   * @returns {SimulatorSession} Joined session
+   */
+  join(clientId, sessionId) {
+    let session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session) {
+      session = this.createSession({ id: sessionId || undefined, kind: sessionId ? 'room' : 'client' });
+    }
+    session.clients.add(clientId);
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * Remove a client from its session. The session is kept until it has been
+   * idle for the timeout, so a reconnecting client finds its market again.
+   * @param {string} clientId - Client (socket) ID
+   * @param {string} sessionId - Session ID
+   */
+  leave(clientId, sessionId) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    session.clients.delete(clientId);
+    session.lastActivity = Date.now();
+  }
+
+  /**
+   * Destroy sessions that have had no clients for longer than the idle timeout
+   * @param {number} now - Current time
+   * @returns {string[]} IDs of the destroyed sessions
+   */
+  sweep(now = Date.now()) {
+    const idle = this.listSessions()
+      .filter(session => session.clients.size === 0 && now - session.lastActivity >= this.idleTimeout)
+      .map(session => session.id);
+    idle.forEach(id => this.destroySession(id));
+    return idle;
+  }
+
+  /**
+   * Sweep idle sessions periodically
+   * @param {number} interval - Milliseconds between sweeps
+   */
+  startCleanup(interval = Math.min(30000, this.idleTimeout)) {
+    if (this.cleanupId) return;
+    this.cleanupId = setInterval(() => this.sweep(), interval);
+  }
+
+  /**
+   * Stop the cleanup timer and every session
+   */
+  stop() {
+    if (this.cleanupId) {
+      clearInterval(this.cleanupId);
+      this.cleanupId = null;
+    }
+    this.listSessions().forEach(session => session.stop());
+  }
+}
+
+module.exports = { SessionManager, SimulatorSession, SessionError };
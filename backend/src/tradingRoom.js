@@ -0,0 +1,298 @@
+/**
+ * Multiplayer matches in a room session
+ *
+ * Everyone in a room trades the same simulated market. The room keeps an
+ * account per player, ranks players by equity and, while a match runs,
+ * counts down to its end. The first player in the room owns it: the owner
+ * picks the pattern preset or a scripted scenario and the match length, and
+ * starts the match, which resets every account to the starting balance.
+ */
+
+const { PATTERN_PRESETS } = require('./patternPresets');
+const { validateScenario } = require('./scenario');
+
+const MIN_MATCH_DURATION = 30 * 1000;
+const MAX_MATCH_DURATION = 60 * 60 * 1000;
+const DEFAULT_MATCH_DURATION = 5 * 60 * 1000;
+
+// How often standings are rebroadcast while nothing else changes
+const STANDINGS_INTERVAL = 1000;
+
+class TradingRoom {
+  /**
+   * @param {Object} options - Room options
+   * @param {string} options.id - Room (session) ID
+   * @param {string} options.name - Display name
+   * @param {MarketSimulator} options.simulator - The room's shared market
+   */
+  constructor({ id, name, simulator }) {
+    this.id = id;
+    this.name = name;
+    this.simulator = simulator;
+    this.players = new Map(); // playerId -> { id, name, cash, position, trades, connections }
+    this.ownerId = null;
+    this.status = 'lobby'; // 'lobby' | 'running' | 'finished'
+    this.preset = 'RANDOM_WALK';
+    this.scenario = null; // Scripted scenario played instead of the preset
+    this.duration = DEFAULT_MATCH_DURATION;
+    this.startedAt = null;
+    this.endsAt = null;
+    this.dirty = true;
+    this.lastBroadcast = 0;
+  }
+
+  /**
+   * Starting balance of every account
+   * @returns {number} Balance
+   */
+  getInitialBalance() {
+    return this.simulator.getConfig().initialBalance || 10000;
+  }
+
+  /**
+   * Add a connection for a player, creating their account on first join
+   * @param {string} playerId - Player ID
+   * @param {string} name - Display name
+   */
+  addPlayer(playerId, name) {
+    let player = this.players.get(playerId);
+    if (!player) {
+      player = { id: playerId, name, cash: this.getInitialBalance(), position: 0, trades: 0, connections: 0 };
+      this.players.set(playerId, player);
+    }
+    player.name = name;
+    player.connections++;
+    if (!this.ownerId || !this.isConnected(this.ownerId)) {
+      this.ownerId = playerId;
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * Drop a connection. Accounts stay so the player keeps their place in the
+   * standings; ownership passes on if the owner has no connections left.
+   * @param {string} playerId - Player ID
+   */
+  removePlayer(playerId) {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    player.connections = Math.max(0, player.connections - 1);
+    if (playerId === this.ownerId && player.connections === 0) {
+      const next = [...this.players.values()].find(other => other.connections > 0);
+      this.ownerId = next ? next.id : null;
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * Check whether a player has an open connection
+   * @param {string} playerId - Player ID
+   * @returns {boolean} True if connected
+   */
+  isConnected(playerId) {
+    return (this.players.get(playerId)?.connections ?? 0) > 0;
+  }
+
+  /**
+   * Choose the preset or scenario and the length of the next match (owner
+   * only, between matches)
+   * @param {string} playerId - Player asking
+   * @param {Object} options - Match options
+   * @param {string} [options.preset] - Key of PATTERN_PRESETS
+   * @param {Object|null} [options.scenario] - Scenario to play from the start of the match; null for none
+   * @param {number} [options.duration] - Match length in milliseconds
+   * @returns {Object} { success, message? }
+   */
+  configure(playerId, { preset, scenario, duration } = {}) {
+    if (playerId !== this.ownerId) {
+      return { success: false, message: 'Only the room owner can change the match' };
+    }
+    if (this.status === 'running') {
+      return { success: false, message: 'The match is already running' };
+    }
+    if (preset !== undefined && !PATTERN_PRESETS[preset]) {
+      return { success: false, message: `Unknown preset ${preset}` };
+    }
+    if (duration !== undefined && !(duration >= MIN_MATCH_DURATION && duration <= MAX_MATCH_DURATION)) {
+      return { success: false, message: 'Matches last between 30 seconds and 60 minutes' };
+    }
+    let validScenario = this.scenario;
+    if (scenario !== undefined) {
+      try {
+        validScenario = scenario === null ? null : validateScenario(scenario);
+      } catch (error) {
+        return { success: false, message: error.message };
+      }
+    }
+
+    this.preset = preset ?? this.preset;
+    this.scenario = validScenario;
+    this.duration = duration ?? this.duration;
+    this.dirty = true;
+    return { success: true };
+  }
+
+  /**
+   * Start a match: reset accounts and switch the market to the chosen preset,
+   * playing the scenario from its first segment if there is one
+   * @param {string} playerId - Player asking
+   * @param {number} now - Current time
+   * @returns {Object} { success, message? }
+   */
+  start(playerId, now = Date.now()) {
+    if (playerId !== this.ownerId) {
+      return { success: false, message: 'Only the room owner can start the match' };
+    }
+    if (this.status === 'running') {
+      return { success: false, message: 'The match is already running' };
+    }
+
+    const initialBalance = this.getInitialBalance();
+    for (const player of this.players.values()) {
+      player.cash = initialBalance;
+      player.position = 0;
+      player.trades = 0;
+    }
+    this.simulator.updateConfig(PATTERN_PRESETS[this.preset]);
+    this.simulator.setScenario(this.scenario);
+    this.status = 'running';
+    this.startedAt = now;
+    this.endsAt = now + this.duration;
+    this.dirty = true;
+    return { success: true };
+  }
+
+  /**
+   * Reject trades the player's room account can't cover
+   * @param {string} playerId - Player ID
+   * @param {'buy'|'sell'} side - Trade side
+   * @param {number} size - Trade size in lots
+   * @param {number} price - Expected fill price
+   * @param {number} [fee] - Expected fee
+   * @returns {string|null} Rejection reason, or null if the trade may go ahead
+   */
+  checkTrade(playerId, side, size, price, fee = 0) {
+    const player = this.players.get(playerId);
+    if (!player) {
+      return 'You are not in this room';
+    }
+    if (this.status === 'finished') {
+      return 'The match is over; wait for the owner to start the next one';
+    }
+    if (side === 'buy' && size * price + fee > player.cash) {
+      return 'Insufficient balance';
+    }
+    if (side === 'sell' && size > player.position) {
+      return 'Insufficient position';
+    }
+    return null;
+  }
+
+  /**
+   * Book a fill against the player's account
+   * @param {string} playerId - Player ID
+   * @param {Object} trade - Executed trade from the simulator
+   * @returns {Object} Fill to broadcast to the room
+   */
+  recordFill(playerId, trade) {
+    const player = this.players.get(playerId);
+    player.cash += (trade.side === 'buy' ? -trade.value : trade.value) - (trade.fee ?? 0);
+    player.position += trade.side === 'buy' ? trade.size : -trade.size;
+    player.trades++;
+    this.dirty = true;
+
+    return {
+      playerId,
+      name: player.name,
+      side: trade.side,
+      size: trade.size,
+      price: trade.price,
+      timestamp: trade.timestamp
+    };
+  }
+
+  /**
+   * Players ranked by equity at a price
+   * @param {number} price - Mark price for open positions
+   * @returns {Object[]} Standings, best first
+   */
+  getStandings(price) {
+    const initialBalance = this.getInitialBalance();
+    return [...this.players.values()]
+      .map(player => {
+        const equity = player.cash + player.position * price;
+        return {
+          playerId: player.id,
+          name: player.name,
+          equity,
+          pnl: equity - initialBalance,
+          cash: player.cash,
+          position: player.position,
+          trades: player.trades,
+          connected: player.connections > 0
+        };
+      })
+      .sort((a, b) => b.equity - a.equity)
+      .map((standing, index) => ({ rank: index + 1, ...standing }));
+  }
+
+  /**
+   * Room state as sent to clients
+   * @param {number} price - Mark price for open positions
+   * @returns {Object} Room state
+   */
+  getState(price) {
+    return {
+      id: this.id,
+      name: this.name,
+      status: this.status,
+      ownerId: this.ownerId,
+      preset: this.preset,
+      scenario: this.scenario?.name ?? null,
+      scenarioStatus: this.simulator.getScenarioStatus(),
+      duration: this.duration,
+      startedAt: this.startedAt,
+      endsAt: this.endsAt,
+      standings: this.getStandings(price)
+    };
+  }
+
+  /**
+   * Advance the match clock
+   * @param {number} now - Current time
+   * @param {number} price - Current market price
+   * @returns {Object|null} Final result when the match just ended
+   */
+  update(now, price) {
+    if (this.status !== 'running' || now < this.endsAt) return null;
+
+    this.status = 'finished';
+    this.dirty = true;
+    return {
+      roomId: this.id,
+      roomName: this.name,
+      preset: this.preset,
+      scenario: this.scenario?.name ?? null,
+      duration: this.duration,
+      startedAt: this.startedAt,
+      endedAt: now,
+      closingPrice: price,
+      standings: this.getStandings(price)
+    };
+  }
+
+  /**
+   * Whether clients should get a fresh state: something changed, or
+   * standings are due for a refresh as prices move
+   * @param {number} now - Current time
+   * @returns {boolean} True if state should be broadcast now
+   */
+  takeStateDue(now) {
+    if (!this.dirty && now - this.lastBroadcast < STANDINGS_INTERVAL) return false;
+    this.dirty = false;
+    this.lastBroadcast = now;
+    return true;
+  }
+}
+
+module.exports = { TradingRoom, MIN_MATCH_DURATION, MAX_MATCH_DURATION };
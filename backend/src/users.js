@@ -0,0 +1,159 @@
+/**
+ * Registered users and the data they own
+ *
+ * Users sign in with a username and a hashed password (see auth.js). Their
+ * ledger account is keyed by user ID, and anything else the client keeps
+ * per player (XP profile, settings) is stored as JSON documents under the
+ * user.
+ */
+
+const crypto = require('crypto');
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+// Documents a user may store, and the largest one accepted
+const USER_DATA_KEYS = ['xpProfile', 'settings'];
+const MAX_USER_DATA_SIZE = 64 * 1024;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS user_data (
+    user_id TEXT NOT NULL REFERENCES users(id),
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, key)
+  );
+`;
+
+class UserStore {
+  /**
+   * @param {Object} options - Store options
+   * @param {Database} options.db - Open database (see database.js)
+   */
+  constructor({ db }) {
+    this.db = db;
+    this.db.exec(SCHEMA);
+
+    this.statements = {
+      insertUser: this.db.prepare(`
+        INSERT INTO users (id, username, password_hash, role, created_at)
+        VALUES (@id, @username, @passwordHash, @role, @createdAt)
+      `),
+      getById: this.db.prepare('SELECT * FROM users WHERE id = ?'),
+      getByUsername: this.db.prepare('SELECT * FROM users WHERE username = ?'),
+      setRole: this.db.prepare('UPDATE users SET role = ? WHERE id = ?'),
+      setPassword: this.db.prepare('UPDATE users SET password_hash = ? WHERE id = ?'),
+      getData: this.db.prepare('SELECT value, updated_at FROM user_data WHERE user_id = ? AND key = ?'),
+      setData: this.db.prepare(`
+        INSERT INTO user_data (user_id, key, value, updated_at) VALUES (@userId, @key, @value, @updatedAt)
+        ON CONFLICT (user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `)
+    };
+  }
+
+  /**
+   * Check a username is acceptable
+   * @param {*} username - Candidate username
+   * @returns {boolean} True if valid
+   */
+  static isValidUsername(username) {
+    return typeof username === 'string' && USERNAME_PATTERN.test(username);
+  }
+
+  /**
+   * Add a user
+   * @param {Object} user - New user
+   * @param {string} user.username - Unique username (case-insensitive)
+   * @param {string} user.passwordHash - Hashed password
+   * @param {'user'|'admin'} [user.role] - Role
+   * @returns {Object|null} Created user, or null if the username is taken
+   */
+  createUser({ username, passwordHash, role = 'user' }) {
+    if (this.statements.getByUsername.get(username)) {
+      return null;
+    }
+    const id = crypto.randomUUID();
+    this.statements.insertUser.run({ id, username, passwordHash, role, createdAt: Date.now() });
+    return this.findById(id);
+  }
+
+  /**
+   * Look up a user by ID
+   * @param {string} id - User ID
+   * @returns {Object|null} User (without the password hash)
+   */
+  findById(id) {
+    return toUser(this.statements.getById.get(id));
+  }
+
+  /**
+   * Look up a user by username, including the password hash for sign-in
+   * @param {string} username - Username
+   * @returns {Object|null} User with passwordHash
+   */
+  findCredentials(username) {
+    const row = this.statements.getByUsername.get(username);
+    return row ? { ...toUser(row), passwordHash: row.password_hash } : null;
+  }
+
+  /**
+   * Change a user's role
+   * @param {string} id - User ID
+   * @param {'user'|'admin'} role - New role
+   */
+  setRole(id, role) {
+    this.statements.setRole.run(role, id);
+  }
+
+  /**
+   * Change a user's password
+   * @param {string} id - User ID
+   * @param {string} passwordHash - New hashed password
+   */
+  setPassword(id, passwordHash) {
+    this.statements.setPassword.run(passwordHash, id);
+  }
+
+  /**
+   * Read one of a user's documents
+   * @param {string} userId - User ID
+   * @param {string} key - One of USER_DATA_KEYS
+   * @returns {Object|null} { value, updatedAt } or null if never saved
+   */
+  getData(userId, key) {
+    const row = this.statements.getData.get(userId, key);
+    return row ? { value: JSON.parse(row.value), updatedAt: row.updated_at } : null;
+  }
+
+  /**
+   * Save one of a user's documents
+   * @param {string} userId - User ID
+   * @param {string} key - One of USER_DATA_KEYS
+   * @param {*} value - JSON-serializable document
+   * @returns {Object} { value, updatedAt } as saved
+   */
+  setData(userId, key, value) {
+    const updatedAt = Date.now();
+    this.statements.setData.run({ userId, key, value: JSON.stringify(value), updatedAt });
+    return { value, updatedAt };
+  }
+}
+
+/**
+ * Convert a users row to the shape sent to clients
+ * @param {Object|undefined} row - Row from the users table
+ * @returns {Object|null} User
+ */
+function toUser(row) {
+  return row ? { id: row.id, username: row.username, role: row.role, createdAt: row.created_at } : null;
+}
+
+module.exports = { UserStore, USER_DATA_KEYS, MAX_USER_DATA_SIZE };
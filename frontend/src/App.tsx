@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import styled, { ThemeProvider } from 'styled-components';
 import './App.css';
 import TradingChart from './components/TradingChart';
@@ -6,21 +6,77 @@ import OrderBook from './components/OrderBook';
 import GamepadController from './components/GamepadController';
 import SimplifiedSettings from './components/SimplifiedSettings';
 import TradeBook from './components/TradeBook';
+import OpenOrders from './components/OpenOrders';
+import PositionsTable from './components/PositionsTable';
+import Watchlist from './components/Watchlist';
+import type { OrderEntry } from './components/OpenOrders';
 import Footer from './components/Footer';
 import AchievementSystem from './components/AchievementSystem';
 import PatternRecognition from './components/PatternRecognition';
-import type { MarketData, Trade, Config } from './types';
+import type { AuthSession, MarketData, Trade, Config, WorkingOrder } from './types';
 import { theme } from './theme';
 import {
   saveConfig,
   loadConfig,
-  saveBalance,
-  loadBalance,
-  saveAssetHoldings,
-  loadAssetHoldings,
-  clearAllSavedData
+  savePortfolio,
+  loadPortfolio,
+  clearAllSavedData,
+  saveAuthSession,
+  loadAuthSession,
+  clearAuthSession,
+  saveWorkingOrders,
+  loadWorkingOrders,
+  saveRiskState,
+  loadRiskState
 } from './utils/localStorage';
-import { MarketSimulator, MARKET_PATTERN_PRESETS } from './utils/marketSimulator';
+import { fetchUserData, saveUserData } from './utils/api';
+import { MARKET_PATTERN_PRESETS } from './utils/marketSimulator';
+import { createMarketDataSource, createTickerFeed, getMarketDataSource, MarketDataRecorder, serializeRecording } from './sources';
+import type {
+  AccountState,
+  MarketDataSource,
+  PlaybackControls,
+  RoomControls,
+  SourceStatus,
+  SourceStatusEvent,
+  TickerUpdate
+} from './sources';
+import { fillAgainstOrderBook } from './utils/execution';
+import { checkMarginTrade, getBorrowCost, getMarginSettings, getMarginStatus } from './utils/margin';
+import { getFeeSchedule, getFundingCharge, getTradeFee } from './utils/fees';
+import { checkLossLimits, checkRiskTrade, getRiskSettings, startRiskSession, updateRiskState } from './utils/riskLimits';
+import type { RiskState } from './utils/riskLimits';
+import {
+  cancelOrder,
+  completeOrder,
+  createBracketExits,
+  createOrder,
+  evaluateOrders,
+  markOrderPending,
+  getOrderLines,
+  isOrderActive,
+  modifyOrder,
+  validateOrderDraft
+} from './utils/orderManager';
+import type { BracketExits } from './utils/orderManager';
+import { DEFAULT_COST_BASIS, applyFill, createPositionBook, getAverageEntry, getUnrealizedPnl, seedPosition } from './utils/positionAccounting';
+import type { FillOutcome, PositionBook } from './utils/positionAccounting';
+import {
+  bookCarriedOver,
+  bookTrade,
+  chargeFunding,
+  getAccountPositionRows,
+  getHoldings,
+  getInstrumentId,
+  getPortfolioEquity,
+  getPositionBook,
+  getPositionRows,
+  parseInstrumentId,
+  recordMark
+} from './utils/portfolio';
+import type { Portfolio } from './utils/portfolio';
+import { describeSegment } from './utils/scenario';
+import type { ScenarioStatus } from './utils/scenario';
 import { initAudio, playSound, setSoundEnabled, isSoundEnabled } from './utils/soundEffects';
 import {
   XPProfile,
@@ -30,10 +86,15 @@ import {
   processTradeForXP,
   processAchievementForXP,
   processPatternForXP,
-  processSessionTimeForXP
+  processSessionTimeForXP,
+  upgradeXPProfile
 } from './utils/xpSystem';
 import XPProgressBar from './components/XPProgressBar';
+import PlaybackBar from './components/PlaybackBar';
+import RoomPanel from './components/RoomPanel';
 import Leaderboard from './components/Leaderboard';
+import SignInMenu from './components/SignInMenu';
+import RiskLockout from './components/RiskLockout';
 
 // Styled components
 const AppContainer = styled.div`
@@ -265,10 +326,35 @@ const PriceDisplay = styled.div`
   margin: 2rem 0;
 `;
 
+const TradeNotice = styled.div`
+  position: fixed;
+  bottom: 4rem;
+  left: 50%;
+  transform: translateX(-50%);
+  background-color: ${props => props.theme.colors.sell};
+  color: white;
+  padding: 0.5rem 1rem;
+  border-radius: 4px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+  font-size: 0.9rem;
+  z-index: 100;
+`;
+
+const SOURCE_STATUS_LABELS: Record<SourceStatus, string> = {
+  idle: 'Idle',
+  connecting: 'Connecting...',
+  live: 'Connected',
+  stale: 'Stale',
+  reconnecting: 'Reconnecting...',
+  error: 'Error',
+  disconnected: 'Disconnected'
+};
+
 function App() {
   const [marketData, setMarketData] = useState<MarketData | null>(null);
   const [trades, setTrades] = useState<Trade[]>([]);
-  const [isConnected, setIsConnected] = useState(false);
+  const [sourceStatus, setSourceStatus] = useState<SourceStatusEvent>({ status: 'idle', timestamp: Date.now() });
+  const isConnected = sourceStatus.status === 'live' || sourceStatus.status === 'stale';
   const [showSettings, setShowSettings] = useState(false);
 
   // Default configuration
@@ -293,11 +379,22 @@ function App() {
     symbol: 'ethusdt',  // Default to Ethereum/USDT
     patternType: 'random_walk',
     patternStrength: 0.5,
-    patternDuration: 30000
+    patternDuration: 30000,
+    marketImpact: false,
+    permanentImpact: 0.001,
+    temporaryImpact: 0.002,
+    impactDecay: 5000
   };
 
   // Load config from localStorage or use default
-  const [config, setConfig] = useState<Config>(() => loadConfig(defaultConfig));
+  const [config, setConfig] = useState<Config>(() => {
+    const loaded = loadConfig(defaultConfig);
+    // Fall back to the default source if the saved one is no longer registered
+    if (!getMarketDataSource(loaded.marketDataSource)) {
+      return { ...loaded, marketDataSource: defaultConfig.marketDataSource };
+    }
+    return loaded;
+  });
 
   // Mock wallet state
   const [walletConnected, setWalletConnected] = useState(true);
@@ -318,19 +415,94 @@ function App() {
     loadXPProfile('user123', walletAddress.substring(0, 6))
   );
 
+  // Backend sign-in
+  const [authSession, setAuthSession] = useState<AuthSession | null>(() => loadAuthSession());
+  const userId = authSession?.user.id ?? null;
+  // User whose server-side XP profile and settings have been loaded; saving
+  // waits for it so a fresh browser doesn't overwrite them
+  const [userDataOwner, setUserDataOwner] = useState<string | null>(null);
+
   // Session time tracking for XP
   const sessionStartTime = useRef(Date.now());
   const lastSessionXP = useRef(Date.now());
 
-  // Client-side simulator
-  const simulatorRef = useRef<MarketSimulator | null>(null);
-
-  // Balance tracking - load from localStorage or use default
-  const [balance, setBalance] = useState(() => loadBalance(config.initialBalance));
-  const [assetHoldings, setAssetHoldings] = useState(() => loadAssetHoldings(0)); // Track how much of the asset we own
+  // Active market data source
+  const sourceRef = useRef<MarketDataSource | null>(null);
+  const [sourceSeed, setSourceSeed] = useState<number | null>(null);
+  const [scenarioStatus, setScenarioStatus] = useState<ScenarioStatus | null>(null);
+  const [playback, setPlayback] = useState<PlaybackControls | null>(null);
+  const [room, setRoom] = useState<RoomControls | null>(null);
+  // Prices of every symbol, from sources that run several
+  const [tickers, setTickers] = useState<TickerUpdate[]>([]);
+
+  // Session recording
+  const recorderRef = useRef<MarketDataRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  // Local account: cash and a position book per instrument, kept across reloads
+  const instrumentId = getInstrumentId(config.marketDataSource, config.symbol);
+  const baseAsset = config.symbol.replace(/usdt?$/, '').toUpperCase();
+  const [portfolio, setPortfolio] = useState<Portfolio>(() => loadPortfolio(instrumentId, config.initialBalance));
+  const localHoldings = getHoldings(portfolio, instrumentId);
   const [portfolioValue, setPortfolioValue] = useState(0);
   const [totalValue, setTotalValue] = useState(config.initialBalance);
 
+  // Sources whose server keeps the books push the account; while connected to
+  // one, its ledger is the only balance shown and local storage is left alone
+  const [account, setAccount] = useState<AccountState | null>(null);
+  const balance = account ? account.cash : portfolio.cash;
+  const assetHoldings = account
+    ? account.positions.find(position => position.symbol === account.symbol)?.size ?? 0
+    : localHoldings;
+  const initialBalance = account ? account.initialBalance : config.initialBalance;
+
+  // Every position, the charted one at the chart's price and the rest at the
+  // last price seen for them
+  const livePrice = marketData?.price;
+  const positionRows = useMemo(() => {
+    const livePrices: Record<string, number> = livePrice !== undefined ? { [instrumentId]: livePrice } : {};
+    return account
+      ? getAccountPositionRows(account.positions, config.marketDataSource, livePrices)
+      : getPositionRows(portfolio, livePrices);
+  }, [account, portfolio, instrumentId, livePrice, config.marketDataSource]);
+  // Positions in other instruments count towards margin on the charted one
+  const otherPositionsValue = positionRows.reduce(
+    (total, row) => row.instrumentId === instrumentId ? total : total + (row.value ?? 0),
+    0
+  );
+
+  // Margin trading applies to the local account; server ledgers are cash accounts
+  const marginMode = (config.marginTrading ?? false) && !account;
+  const marginSettings = getMarginSettings(config);
+  const marginStatus = marginMode && marketData
+    ? getMarginStatus(portfolio.cash + otherPositionsValue, localHoldings, marketData.price, marginSettings)
+    : null;
+  const lastBorrowAccrual = useRef(Date.now());
+
+  // Commissions and funding for the local account. Server fills come back
+  // with the fee the server charged, and the server charges no funding.
+  const feeSchedule = getFeeSchedule(config);
+  const lastFunding = useRef(Date.now());
+
+  // Risk guardrails watch the equity of whichever account is shown
+  const riskSettings = getRiskSettings(config);
+  const [riskState, setRiskState] = useState<RiskState | null>(null);
+  const riskAccountKey = account ? account.id : 'local';
+  const equity = marketData ? getPortfolioEquity(balance, positionRows) : null;
+
+  // Position lots, realized P&L and round trips of the charted instrument. A
+  // server account gets a fresh book per connection, seeded from the
+  // ledger's position.
+  const [sessionBook, setSessionBook] = useState<PositionBook | null>(null);
+  const positionBook = account ? sessionBook ?? createPositionBook() : getPositionBook(portfolio, instrumentId);
+  const unrealizedPnl = marketData ? getUnrealizedPnl(positionBook, marketData.price) : 0;
+  const averageEntry = getAverageEntry(positionBook);
+
+  // Working orders (limit, stop, trailing...) managed in the browser
+  const [orders, setOrders] = useState<WorkingOrder[]>(() => loadWorkingOrders(instrumentId));
+  // Orders rest across symbol switches; only the charted instrument's are shown
+  const chartedOrders = orders.filter(order => order.instrumentId === instrumentId);
+
   // PnL tracking
   const [historicalValues, setHistoricalValues] = useState<{timestamp: number, value: number}[]>([]);
   const [rollingPnL, setRollingPnL] = useState(0);
@@ -352,151 +524,147 @@ function App() {
 
   // Trade rate limiting
   const lastTradeTime = useRef<number>(0);
+  // Numbers local trades so two in the same millisecond get distinct IDs
+  const tradeSequence = useRef(0);
 
-  // Initialize API connection
-  useEffect(() => {
-    let intervalId: number | null = null;
-    let ws: WebSocket | null = null;
-    let wsReconnectTimeout: number | null = null;
-    let isUnmounted = false;
+  // Most recent trade rejection, shown until it times out
+  const [tradeNotice, setTradeNotice] = useState<{ message: string; timestamp: number } | null>(null);
 
+  // Connect to the selected market data source. Sources that switch symbols
+  // in place keep running when the symbol changes.
+  const sourceDefinition = getMarketDataSource(config.marketDataSource);
+  const sourceSymbols = sourceDefinition?.getSymbols?.(config) ?? [];
+  const connectionSymbol = sourceDefinition?.switchesSymbols ? null : config.symbol;
+  useEffect(() => {
     // This effect should run whenever the market data source or symbol changes
     console.log(`Connecting to ${config.marketDataSource} with symbol ${config.symbol}`);
 
     // Reset chart data when data source or symbol changes
     resetChartData();
 
-    if (config.marketDataSource === 'simulator') {
-      // Initialize client-side simulator
-      if (!simulatorRef.current) {
-        simulatorRef.current = new MarketSimulator({
-          initialPrice: config.initialPrice,
-          volatility: config.volatility,
-          spread: config.spread,
-          updateInterval: config.updateInterval,
-          orderBookLevels: config.orderBookLevels,
-          patternType: config.patternType,
-          patternStrength: config.patternStrength,
-          patternDuration: config.patternDuration
-        });
-      } else {
-        // Update simulator config
-        simulatorRef.current.updateConfig({
-          volatility: config.volatility,
-          spread: config.spread,
-          updateInterval: config.updateInterval,
-          orderBookLevels: config.orderBookLevels,
-          patternType: config.patternType,
-          patternStrength: config.patternStrength,
-          patternDuration: config.patternDuration
-        });
+    const source = createMarketDataSource(config.marketDataSource, { config });
+    sourceRef.current = source;
+    setSourceSeed(source.getSeed?.() ?? null);
+    setPlayback(source.getPlayback?.() ?? null);
+    setRoom(source.getRoom?.() ?? null);
+    setAccount(null);
+    setSessionBook(null);
+    setTickers([]);
+    setScenarioStatus(null);
+
+    const unsubscribeData = source.on('data', data => {
+      setMarketData(data);
+      recorderRef.current?.record(data);
+    });
+    const unsubscribeAccount = source.on('account', setAccount);
+    const unsubscribeScenario = source.on('scenario', setScenarioStatus);
+    // Held symbols that aren't charted are marked about once a second
+    let lastTickerMark = 0;
+    const unsubscribeTickers = source.on('tickers', updates => {
+      setTickers(updates);
+      const now = Date.now();
+      if (now - lastTickerMark < 1000) return;
+      lastTickerMark = now;
+      setPortfolio(current => updates.reduce((next, update) => {
+        const id = getInstrumentId(source.id, update.symbol);
+        return getHoldings(next, id) !== 0 ? bookCarriedOver(recordMark(next, id, update.price, now), id, update.price, now) : next;
+      }, current));
+    });
+    const unsubscribeStatus = source.on('status', event => {
+      setSourceStatus(event);
+      if (event.status === 'error' || event.status === 'reconnecting') {
+        console.warn(`Market data source ${source.id}: ${event.status}${event.reason ? ` (${event.reason})` : ''}`);
       }
+    });
+    source.connect();
 
-      // Set up interval to generate market data
-      const generateMarketData = () => {
-        if (simulatorRef.current) {
-          const data = simulatorRef.current.generateMarketData();
-          setMarketData(data);
-          setIsConnected(true);
-        }
-      };
+    // Cleanup
+    return () => {
+      unsubscribeData();
+      unsubscribeAccount();
+      unsubscribeScenario();
+      unsubscribeTickers();
+      unsubscribeStatus();
+      source.disconnect();
+      if (sourceRef.current === source) {
+        sourceRef.current = null;
+      }
+    };
+  }, [config.marketDataSource, connectionSymbol, config.seed, config.scenario, config.backendRoom, authSession?.token]);
 
-      // Initial data generation
-      generateMarketData();
-
-      // Set up interval
-      intervalId = window.setInterval(generateMarketData, config.updateInterval);
-    } else if (config.marketDataSource === 'binance') {
-      // Connect to Binance WebSocket
-      const connectWS = () => {
-        // Use the user-specified symbol from config
-        const symbol = config.symbol.toLowerCase();
-        ws = new window.WebSocket(`wss://stream.binance.com:9443/ws/${symbol}@kline_1s`);
-        ws.onopen = () => {
-          if (isUnmounted) return;
-          setIsConnected(true);
-          console.log(`Connected to Binance WebSocket for ${symbol}`);
-        };
-        ws.onmessage = (event) => {
-          if (isUnmounted) return;
-          try {
-            const msg = JSON.parse(event.data);
-            if (msg.k) {
-              setMarketData(prev => {
-                // Always update price, timestamp, bid, ask
-                const base = {
-                  price: parseFloat(msg.k.c),
-                  timestamp: msg.k.T,
-                  bid: parseFloat(msg.k.c),
-                  ask: parseFloat(msg.k.c),
-                  orderBook: prev?.orderBook ?? { bids: [], asks: [] },
-                  trades: prev?.trades ?? []
-                };
-                // Only add a new candle if kline is closed
-                if (msg.k.x) {
-                  const newCandle = {
-                    open: parseFloat(msg.k.o),
-                    high: parseFloat(msg.k.h),
-                    low: parseFloat(msg.k.l),
-                    close: parseFloat(msg.k.c),
-                    volume: parseFloat(msg.k.v),
-                    timestamp: msg.k.T
-                  };
-                  return {
-                    ...base,
-                    candles: [
-                      ...(prev?.candles || []),
-                      newCandle
-                    ].slice(-100)
-                  };
-                } else {
-                  // Keep existing candles
-                  return {
-                    ...base,
-                    candles: prev?.candles || []
-                  };
-                }
-              });
+  // Signed-in users keep their XP profile and settings on the server
+  useEffect(() => {
+    setUserDataOwner(null);
+    if (!userId) return;
+
+    let cancelled = false;
+    Promise.all([fetchUserData<XPProfile>('xpProfile'), fetchUserData<Partial<Config>>('settings')])
+      .then(([profile, settings]) => {
+        if (cancelled) return;
+        if (profile) {
+          const upgraded = upgradeXPProfile(profile);
+          setXPProfile(upgraded);
+          saveXPProfile(upgraded);
+        }
+        if (settings) {
+          setConfig(current => {
+            const merged = { ...current, ...settings };
+            // The saved source may not exist in this build
+            if (!getMarketDataSource(merged.marketDataSource)) {
+              merged.marketDataSource = current.marketDataSource;
             }
-          } catch (err) {
-            console.error('Error parsing Binance message:', err);
-          }
-        };
-        ws.onclose = () => {
-          if (isUnmounted) return;
-          setIsConnected(false);
-          console.warn('Binance WebSocket closed, reconnecting...');
-          wsReconnectTimeout = setTimeout(connectWS, 2000);
-        };
-        ws.onerror = (err) => {
-          if (isUnmounted) return;
-          setIsConnected(false);
-          console.error('Binance WebSocket error:', err);
-          ws?.close();
-        };
-      };
-      connectWS();
-    } else {
-      // "Else" (WIP): set disconnected state, no data
-      setIsConnected(false);
-    }
+            saveConfig(merged);
+            return merged;
+          });
+        }
+        setUserDataOwner(userId);
+      })
+      .catch(error => console.error('Failed to load user data:', error));
 
-    // Cleanup
     return () => {
-      isUnmounted = true;
-      if (intervalId) clearInterval(intervalId);
-      if (ws) ws.close();
-      if (wsReconnectTimeout) clearTimeout(wsReconnectTimeout);
+      cancelled = true;
     };
-  }, [config.marketDataSource, config.symbol]);
+  }, [userId]);
+
+  // Save XP and settings back, batching bursts of changes
+  useEffect(() => {
+    if (!userId || userDataOwner !== userId) return;
+    const timeoutId = setTimeout(() => {
+      saveUserData('xpProfile', xpProfile).catch(error => console.error('Failed to save XP profile:', error));
+    }, 2000);
+    return () => clearTimeout(timeoutId);
+  }, [xpProfile, userId, userDataOwner]);
+
+  useEffect(() => {
+    if (!userId || userDataOwner !== userId) return;
+    const timeoutId = setTimeout(() => {
+      saveUserData('settings', config).catch(error => console.error('Failed to save settings:', error));
+    }, 2000);
+    return () => clearTimeout(timeoutId);
+  }, [config, userId, userDataOwner]);
+
+  const handleSignIn = (session: AuthSession) => {
+    saveAuthSession(session);
+    setAuthSession(session);
+  };
+
+  const handleSignOut = () => {
+    clearAuthSession();
+    setAuthSession(null);
+  };
+
+  // Pass settings changes through to the running source
+  useEffect(() => {
+    sourceRef.current?.updateConfig?.(config);
+  }, [config]);
 
   // Calculate portfolio value whenever asset holdings or market price changes
   useEffect(() => {
-    if (!marketData) return;
+    if (!marketData || equity === null) return;
 
-    // Calculate the value of current asset holdings
+    // Calculate the value of current asset holdings; the total marks every position
     const currentPositionValue = assetHoldings * marketData.price;
-    const newTotalValue = balance + currentPositionValue;
+    const newTotalValue = equity;
 
     setPortfolioValue(currentPositionValue);
     setTotalValue(newTotalValue);
@@ -541,7 +709,7 @@ function App() {
 
       return filtered;
     });
-  }, [assetHoldings, marketData, balance, config.pnlWindowTime]);
+  }, [assetHoldings, marketData, equity, config.pnlWindowTime]);
 
   // Initialize audio on first user interaction
   useEffect(() => {
@@ -577,104 +745,415 @@ function App() {
     return () => clearInterval(sessionInterval);
   }, [xpProfile]);
 
-  // Execute a trade
-  const executeTrade = (side: 'buy' | 'sell', size: number) => {
-    if (!isConnected || !marketData) return;
+  // Tell the player why a trade didn't go through
+  const rejectTrade = useCallback((reason: string) => {
+    console.log(`Trade rejected: ${reason}`);
+    playSound('error', 0.3);
+    setTradeNotice({ message: `Trade rejected: ${reason}`, timestamp: Date.now() });
+  }, []);
+
+  // Book an executed trade against the account and award XP. Server fills
+  // are already booked in its ledger, which sends the updated account.
+  const recordTrade = (trade: Trade) => {
+    if (!marketData) return;
+
+    // Book the fill against the position's lots, and locally against cash too
+    const costBasis = config.costBasis ?? DEFAULT_COST_BASIS;
+    let outcome: FillOutcome;
+    if (account) {
+      outcome = applyFill(positionBook, trade, costBasis);
+      setSessionBook(outcome.book);
+    } else {
+      const booked = bookTrade(portfolio, instrumentId, trade, costBasis);
+      outcome = booked.outcome;
+      setPortfolio(booked.portfolio);
+    }
+    const booked = outcome.realizedPnl !== null ? { ...trade, realizedPnl: outcome.realizedPnl } : trade;
+
+    // Update trade history
+    setTrades(prevTrades => [booked, ...prevTrades].slice(0, 100));
+
+    // Play sound effect
+    playSound(trade.side, 0.5);
+
+    // Process trade for XP; wins, losses and streaks come from the P&L it realized
+    const xpResult = processTradeForXP(xpProfile, booked, outcome.realizedPnl);
+    setXPProfile(xpResult.updatedProfile);
+    saveXPProfile(xpResult.updatedProfile);
+    setRecentXPGain(xpResult.xpGained);
+
+    console.log('Executed trade:', booked);
+  };
+
+  // Server fills arrive after later renders, so they are booked against the latest state
+  const recordTradeRef = useRef(recordTrade);
+  useEffect(() => {
+    recordTradeRef.current = recordTrade;
+  });
+
+  // Clear the trade notice after a few seconds
+  useEffect(() => {
+    if (!tradeNotice) return;
+    const timeoutId = setTimeout(() => setTradeNotice(null), 4000);
+    return () => clearTimeout(timeoutId);
+  }, [tradeNotice]);
+
+  // Execute a trade. Triggered working orders pass their ID, which exempts
+  // them from the rate limit, and a limit price the fill mustn't cross.
+  // Returns whether the trade passed the checks and was sent for execution.
+  // A venue's answer completes or cancels the working order itself.
+  const executeTrade = (
+    side: 'buy' | 'sell',
+    size: number,
+    order: { orderId?: string; limitPrice?: number } = {}
+  ): boolean => {
+    if (!isConnected || !marketData) {
+      rejectTrade('Not connected to market data');
+      return false;
+    }
 
     // Apply trade rate limiting
     const now = Date.now();
     const timeSinceLastTrade = now - lastTradeTime.current;
     const minTimeBetweenTrades = 1000 / config.maxTradesPerSecond;
 
-    if (timeSinceLastTrade < minTimeBetweenTrades) {
-      console.log(`Trade rejected: Rate limit (${config.maxTradesPerSecond} per second) exceeded`);
-      playSound('error', 0.3);
-      return;
+    if (!order.orderId && timeSinceLastTrade < minTimeBetweenTrades) {
+      rejectTrade(`Rate limit (${config.maxTradesPerSecond} per second) exceeded`);
+      return false;
     }
 
     // Round size to the nearest step
     const roundedSize = Math.round(size / config.tradeSizeStep) * config.tradeSizeStep;
 
-    // Check if we have enough balance for buying
-    const price = side === 'buy' ? marketData.ask : marketData.bid;
+    // Walk the visible book to find the fill, falling back to the quote
+    // when the source has no depth
+    const quotePrice = side === 'buy' ? marketData.ask : marketData.bid;
+    const fill = fillAgainstOrderBook(marketData.orderBook, side, Math.abs(roundedSize), quotePrice, order.limitPrice);
+    if (fill.filledSize <= 0) {
+      rejectTrade(order.limitPrice === undefined ? 'No liquidity in the order book' : 'No liquidity within the limit price');
+      return false;
+    }
+    if (fill.remainingSize > 0) {
+      console.log(`Partial fill: order book exhausted with ${fill.remainingSize.toFixed(4)} unfilled`);
+    }
+
+    const filledSize = fill.filledSize;
+    const price = fill.avgPrice;
 
     // Apply streak multiplier to trade size if active
     const effectiveMultiplier = Date.now() < multiplierExpiry ? streakMultiplier : 1;
-    const tradeValue = Math.abs(roundedSize) * price;
+    const tradeValue = filledSize * price;
+
+    // Orders resting at a limit price make liquidity; everything else takes it.
+    // The server checks its own fee against the account it holds.
+    const liquidity = order.limitPrice !== undefined ? 'maker' : 'taker';
+    const fee = account ? 0 : getTradeFee(feeSchedule, filledSize, tradeValue, liquidity);
+
+    // Risk guardrails go first, so a locked player is told about the lock
+    const riskReason = riskState ? checkRiskTrade(riskState, riskSettings, assetHoldings, side, filledSize, price, now) : null;
+    if (riskReason) {
+      rejectTrade(riskReason);
+      return false;
+    }
 
     // Validate the trade
-    if (side === 'buy') {
+    if (marginMode) {
+      const reason = checkMarginTrade(portfolio.cash + otherPositionsValue - fee, localHoldings, side, filledSize, price, marginSettings);
+      if (reason) {
+        rejectTrade(reason);
+        return false;
+      }
+    } else if (side === 'buy') {
       // Check if we have enough cash balance for buying
-      if (tradeValue > balance) {
-        console.log(`Trade rejected: Insufficient balance (${balance.toFixed(2)}) for trade value (${tradeValue.toFixed(2)})`);
-        return;
+      if (tradeValue + fee > balance) {
+        rejectTrade(`Insufficient balance (${balance.toFixed(2)}) for trade value (${tradeValue.toFixed(2)})${fee > 0 ? ` plus fee (${fee.toFixed(2)})` : ''}`);
+        return false;
       }
     } else {
       // Check if we have enough asset holdings for selling
-      if (roundedSize > assetHoldings) {
-        console.log(`Trade rejected: Insufficient asset holdings (${assetHoldings.toFixed(2)}) for sell amount (${roundedSize.toFixed(2)})`);
-        return;
+      if (filledSize > assetHoldings) {
+        rejectTrade(`Insufficient asset holdings (${assetHoldings.toFixed(2)}) for sell amount (${filledSize.toFixed(2)})`);
+        return false;
       }
     }
 
+    // Update last trade time for rate limiting
+    lastTradeTime.current = now;
+
+    // Sources with their own venue fill the order there; the local fill above
+    // only served to check the account can cover it
+    const source = sourceRef.current;
+    if (source?.executeTrade) {
+      source.executeTrade({ side, size: Math.abs(roundedSize), limitPrice: order.limitPrice }).then(result => {
+        if (result.success) {
+          recordTradeRef.current(order.orderId ? { ...result.trade, orderId: order.orderId } : result.trade);
+        } else {
+          rejectTrade(`${result.message} (server)`);
+        }
+        const { orderId } = order;
+        if (orderId) {
+          setOrders(current => result.success ? completeOrder(current, orderId) : cancelOrder(current, orderId));
+        }
+      });
+      return true;
+    }
+
     // Create the trade
     const trade: Trade = {
-      id: now.toString(),
+      id: `${now}-${++tradeSequence.current}`,
       timestamp: now,
       side,
-      size: roundedSize,
+      size: filledSize,
       price,
-      value: tradeValue
+      value: tradeValue,
+      avgPrice: fill.avgPrice,
+      slippage: fill.slippage,
+      fills: fill.fills,
+      orderId: order.orderId,
+      fee,
+      liquidity
     };
 
-    // Update balance and asset holdings
-    if (side === 'buy') {
-      const newBalance = balance - tradeValue;
-      const newHoldings = assetHoldings + roundedSize;
-      setBalance(newBalance);
-      setAssetHoldings(newHoldings);
-      // Save to localStorage
-      saveBalance(newBalance);
-      saveAssetHoldings(newHoldings);
-    } else {
-      const newBalance = balance + tradeValue;
-      const newHoldings = assetHoldings - roundedSize;
-      setBalance(newBalance);
-      setAssetHoldings(newHoldings);
-      // Save to localStorage
-      saveBalance(newBalance);
-      saveAssetHoldings(newHoldings);
+    recordTrade(trade);
+
+    // Let the source react to the trade (the simulator records it and applies impact)
+    source?.onTradeExecuted?.(trade, fill.depthConsumed);
+    return true;
+  };
+
+  // Orders trigger from an effect, so they call the latest executeTrade
+  const executeTradeRef = useRef(executeTrade);
+  useEffect(() => {
+    executeTradeRef.current = executeTrade;
+  });
+
+  // Trigger working orders against each quote. Only one fills per quote, so
+  // each is checked and booked against the account the previous one left.
+  // An order whose trade is rejected is cancelled along with its bracket exits.
+  // Orders sent to a venue wait as pending until it answers.
+  useEffect(() => {
+    if (!isConnected || !marketData || orders.length === 0) return;
+
+    const now = Date.now();
+    const result = evaluateOrders(orders, instrumentId, marketData, now);
+    if (!result.changed) return;
+
+    let next = result.orders;
+    const [fill] = result.fills;
+    if (fill) {
+      const executed = executeTradeRef.current(fill.order.side, fill.order.size, { orderId: fill.order.id, limitPrice: fill.limitPrice });
+      if (!executed) {
+        next = cancelOrder(next, fill.order.id);
+      } else if (sourceRef.current?.executeTrade) {
+        next = markOrderPending(next, fill.order.id, now);
+      } else {
+        next = completeOrder(next, fill.order.id);
+      }
     }
+    setOrders(next);
+  }, [isConnected, marketData, orders, instrumentId]);
 
-    // Update trade history
-    setTrades(prevTrades => [trade, ...prevTrades].slice(0, 100));
+  // Seed the book with positions it didn't see opened: the server ledger's
+  // position at its average price, or local holdings carried over from
+  // before the portfolio at the first mark price
+  const carriedOver = portfolio.carriedOver[instrumentId];
+  useEffect(() => {
+    if (account) {
+      if (!sessionBook) {
+        const position = account.positions.find(candidate => candidate.symbol === account.symbol);
+        setSessionBook(seedPosition(createPositionBook(), position?.size ?? 0, position?.avgPrice ?? 0, account.updatedAt));
+      }
+      return;
+    }
+    if (marketData && carriedOver !== undefined) {
+      setPortfolio(current => bookCarriedOver(current, instrumentId, marketData.price, Date.now()));
+    }
+  }, [account, sessionBook, marketData, carriedOver, instrumentId]);
 
-    // Update last trade time for rate limiting
-    lastTradeTime.current = now;
+  // Note the charted instrument's price about once a second while it is
+  // held, so it stays marked after switching away
+  const lastMarkRecorded = useRef(0);
+  useEffect(() => {
+    const now = Date.now();
+    if (account || !marketData || localHoldings === 0 || now - lastMarkRecorded.current < 1000) return;
+    lastMarkRecorded.current = now;
+    setPortfolio(current => recordMark(current, instrumentId, marketData.price, now));
+  }, [account, marketData, localHoldings, instrumentId]);
+
+  // Stream prices for held instruments that aren't charted. Instruments whose
+  // source can't price them off the chart keep the last price seen.
+  const watchedInstruments = positionRows
+    .filter(row => !account && row.instrumentId !== instrumentId)
+    .map(row => row.instrumentId)
+    .join(',');
+  useEffect(() => {
+    if (!watchedInstruments) return;
 
-    // Add trade to simulator if using simulator
-    if (config.marketDataSource === 'simulator' && simulatorRef.current) {
-      simulatorRef.current.addTrade(side, roundedSize, price);
+    const symbolsBySource = new Map<string, string[]>();
+    for (const watched of watchedInstruments.split(',')) {
+      const { source, symbol } = parseInstrumentId(watched);
+      symbolsBySource.set(source, [...(symbolsBySource.get(source) ?? []), symbol]);
     }
+    const feeds = [...symbolsBySource].flatMap(([source, symbols]) => {
+      const feed = createTickerFeed(source, { symbols });
+      if (!feed) return [];
+      feed.onTicker(update => {
+        const id = getInstrumentId(source, update.symbol);
+        setPortfolio(current => bookCarriedOver(recordMark(current, id, update.price, update.timestamp), id, update.price, update.timestamp));
+      });
+      return [feed];
+    });
+    return () => feeds.forEach(feed => feed.close());
+  }, [watchedInstruments]);
 
-    // Play sound effect
-    playSound(side, 0.5);
+  // Keep the local cash and positions across reloads
+  useEffect(() => {
+    savePortfolio(portfolio);
+  }, [portfolio]);
 
-    // Process trade for XP
-    const pnl = side === 'buy'
-      ? (marketData.price - price) * Math.abs(roundedSize)
-      : (price - marketData.price) * Math.abs(roundedSize);
+  // Keep working orders across reloads
+  useEffect(() => {
+    saveWorkingOrders(orders);
+  }, [orders]);
 
-    const currentStreak = pnl > 0 ? (xpProfile.stats.longestStreak + 1) : 0;
+  // Place an order from the Open Orders panel, with optional bracket exits
+  const handlePlaceOrder = (entry: OrderEntry, exits: BracketExits) => {
+    if (!marketData) return;
+    const now = Date.now();
+    const exitSide = entry.side === 'buy' ? 'sell' : 'buy';
 
-    const xpResult = processTradeForXP(xpProfile, trade, marketData.price, currentStreak);
-    setXPProfile(xpResult.updatedProfile);
-    saveXPProfile(xpResult.updatedProfile);
-    setRecentXPGain(xpResult.xpGained);
+    if (entry.type === 'market') {
+      if (executeTrade(entry.side, entry.size)) {
+        const bracket = createBracketExits(instrumentId, exitSide, entry.size, exits, marketData, now);
+        if (bracket.length > 0) setOrders(prev => [...prev, ...bracket]);
+      }
+      return;
+    }
+
+    const draft = { ...entry, type: entry.type };
+    const invalid = validateOrderDraft(draft);
+    if (invalid) {
+      rejectTrade(invalid);
+      return;
+    }
+    const order = createOrder(draft, instrumentId, marketData, now);
+    setOrders(prev => [...prev, order, ...createBracketExits(instrumentId, exitSide, entry.size, exits, marketData, now, order.id)]);
+  };
 
-    console.log('Executed trade:', trade);
+  // Attach take-profit and stop-loss exits to the open position
+  const handleProtectPosition = (exits: BracketExits) => {
+    if (!marketData || assetHoldings === 0) return;
+    const bracket = createBracketExits(
+      instrumentId,
+      assetHoldings > 0 ? 'sell' : 'buy',
+      Math.abs(assetHoldings),
+      exits,
+      marketData,
+      Date.now()
+    );
+    setOrders(prev => [...prev, ...bracket]);
   };
 
+  const handleModifyOrder = (orderId: string, changes: Parameters<typeof modifyOrder>[2]) => {
+    const result = modifyOrder(orders, orderId, changes, Date.now());
+    if (typeof result === 'string') {
+      rejectTrade(result);
+      return;
+    }
+    setOrders(result);
+  };
+
+  // Margin engine: liquidate the position when equity falls below the
+  // maintenance margin, otherwise charge borrow cost about once a second
+  useEffect(() => {
+    const now = Date.now();
+    if (!marginMode || !marketData || !marginStatus || sourceRef.current?.executeTrade) {
+      lastBorrowAccrual.current = now;
+      return;
+    }
+
+    if (localHoldings !== 0 && marginStatus.equity < marginStatus.maintenanceMargin) {
+      const side = localHoldings > 0 ? 'sell' : 'buy';
+      const fill = fillAgainstOrderBook(
+        marketData.orderBook,
+        side,
+        Math.abs(localHoldings),
+        side === 'buy' ? marketData.ask : marketData.bid
+      );
+      if (fill.filledSize <= 0) return;
+
+      const trade: Trade = {
+        id: `liquidation-${now}-${++tradeSequence.current}`,
+        timestamp: now,
+        side,
+        size: fill.filledSize,
+        price: fill.avgPrice,
+        value: fill.filledSize * fill.avgPrice,
+        avgPrice: fill.avgPrice,
+        slippage: fill.slippage,
+        fills: fill.fills,
+        liquidation: true,
+        fee: getTradeFee(feeSchedule, fill.filledSize, fill.filledSize * fill.avgPrice, 'taker'),
+        liquidity: 'taker'
+      };
+      recordTradeRef.current(trade);
+      sourceRef.current?.onTradeExecuted?.(trade, fill.depthConsumed);
+      setTradeNotice({
+        message: `Liquidated: equity (${marginStatus.equity.toFixed(2)}) fell below maintenance margin (${marginStatus.maintenanceMargin.toFixed(2)})`,
+        timestamp: now
+      });
+      return;
+    }
+
+    // Borrowed cash, and every short at its mark
+    const elapsed = now - lastBorrowAccrual.current;
+    if (elapsed < 1000) return;
+    lastBorrowAccrual.current = now;
+    const cost = positionRows.reduce(
+      (total, row) => row.markPrice !== null ? total + getBorrowCost(0, row.size, row.markPrice, marginSettings, elapsed) : total,
+      getBorrowCost(portfolio.cash, 0, 0, marginSettings, elapsed)
+    );
+    if (cost > 0) {
+      setPortfolio(current => ({ ...current, cash: current.cash - cost }));
+    }
+  }, [marginMode, marketData, marginStatus, marginSettings, feeSchedule, portfolio.cash, localHoldings, positionRows]);
+
+  // Funding: each local position pays (or receives) its side's rate at its
+  // mark every funding interval it stays open
+  useEffect(() => {
+    const now = Date.now();
+    if (account || !marketData || positionRows.length === 0) {
+      lastFunding.current = now;
+      return;
+    }
+    if (now - lastFunding.current < feeSchedule.fundingInterval) return;
+    lastFunding.current = now;
+
+    const charges = positionRows
+      .map(row => ({ instrumentId: row.instrumentId, amount: row.markPrice !== null ? getFundingCharge(feeSchedule, row.size, row.markPrice) : 0 }))
+      .filter(charge => charge.amount !== 0);
+    if (charges.length === 0) return;
+    setPortfolio(current => charges.reduce((next, charge) => chargeFunding(next, charge.instrumentId, charge.amount), current));
+  }, [account, marketData, positionRows, feeSchedule]);
+
+  // Roll the risk baselines with equity, and lock trading when a loss limit
+  // is breached. The lock survives reloads.
+  useEffect(() => {
+    if (equity === null) return;
+    const now = Date.now();
+    const current = riskState ?? startRiskSession(loadRiskState(), riskAccountKey, equity, now);
+    const updated = updateRiskState(current, riskAccountKey, equity, now);
+    const next = checkLossLimits(updated, equity, riskSettings, now);
+    if (next === riskState) return;
+
+    setRiskState(next);
+    saveRiskState(next);
+    if (next.lockedUntil !== updated.lockedUntil) {
+      playSound('error', 0.5);
+      setTradeNotice({ message: `Trading locked: ${next.lockReason}`, timestamp: now });
+    }
+  }, [equity, riskAccountKey, riskState, riskSettings]);
+
   // Handle achievement rewards
   const handleUnlockReward = (reward: { type: string; value: string | number; description: string }, achievementId: string, achievementName: string) => {
     console.log('Unlocked reward:', reward);
@@ -707,6 +1186,37 @@ function App() {
     }
   };
 
+  // Chart another symbol of the running source
+  const handleSelectSymbol = (symbol: string) => {
+    const updatedConfig = { ...config, symbol };
+    setConfig(updatedConfig);
+    saveConfig(updatedConfig);
+    resetChartData();
+  };
+
+  // Start recording the market data stream, or stop and download the recording
+  const toggleRecording = () => {
+    if (!recorderRef.current) {
+      recorderRef.current = new MarketDataRecorder(config.marketDataSource, config.symbol);
+      setIsRecording(true);
+      return;
+    }
+
+    const recording = recorderRef.current.finish();
+    recorderRef.current = null;
+    setIsRecording(false);
+
+    const startedAt = new Date(recording.header.startedAt).toISOString().replace(/[:.]/g, '-');
+    const blob = new Blob([serializeRecording(recording)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tradestick-${recording.header.source}-${recording.header.symbol}-${startedAt}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log(`Saved recording with ${recording.frames.length} frames`);
+  };
+
   // Toggle sound
   const toggleSound = () => {
     const newState = !soundEnabled;
@@ -774,34 +1284,73 @@ function App() {
 
               {/* Cash with progress bar - Moved to left side */}
               <BalanceMetric color="rgba(76, 175, 80, 0.3)" $isCash={true}>
-                <CashProgressBar $percentage={(balance / config.initialBalance) * 100} />
+                <CashProgressBar $percentage={Math.max(0, (balance / initialBalance) * 100)} />
                 <BalanceLabel>Cash</BalanceLabel>
                 <BalanceValue>${balance.toFixed(2)}</BalanceValue>
               </BalanceMetric>
+
+              {/* Margin level (equity over maintenance margin) and liquidation price */}
+              {marginStatus && (
+                <>
+                  <BalanceMetric color={marginStatus.marginLevel !== null && marginStatus.marginLevel < 2 ? "rgba(244, 67, 54, 0.3)" : "rgba(0, 188, 212, 0.3)"}>
+                    <BalanceLabel>Margin Level</BalanceLabel>
+                    <BalanceValue>
+                      {marginStatus.marginLevel !== null ? `${(marginStatus.marginLevel * 100).toFixed(0)}%` : '-'}
+                    </BalanceValue>
+                    <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '2px' }}>
+                      {marginSettings.leverage}x · equity ${marginStatus.equity.toFixed(2)}
+                    </div>
+                  </BalanceMetric>
+
+                  <BalanceMetric color="rgba(244, 67, 54, 0.2)">
+                    <BalanceLabel>Liq. Price</BalanceLabel>
+                    <BalanceValue>
+                      {marginStatus.liquidationPrice !== null ? marginStatus.liquidationPrice.toFixed(5) : '-'}
+                    </BalanceValue>
+                  </BalanceMetric>
+                </>
+              )}
             </div>
 
             <HeaderControls>
+              <SignInMenu session={authSession} onSignIn={handleSignIn} onSignOut={handleSignOut} />
               <BalanceDisplay>
                 <BalanceMetric color="rgba(33, 150, 243, 0.3)">
-                  <BalanceLabel>{config.symbol.slice(0, -4).toUpperCase()} Value</BalanceLabel>
-                  <BalanceValue>{assetHoldings.toFixed(8)} {config.symbol.slice(0, -4).toUpperCase()}</BalanceValue>
+                  <BalanceLabel>{baseAsset} Value</BalanceLabel>
+                  <BalanceValue>{assetHoldings.toFixed(8)} {baseAsset}</BalanceValue>
                 </BalanceMetric>
 
                 <BalanceMetric color="rgba(255, 152, 0, 0.3)">
                   <BalanceLabel>PnL</BalanceLabel>
                   <BalanceValue>
-                    {(totalValue - config.initialBalance >= 0 ? '+' : '') + (totalValue - config.initialBalance).toFixed(2)}$
+                    {(totalValue - initialBalance >= 0 ? '+' : '') + (totalValue - initialBalance).toFixed(2)}$
                   </BalanceValue>
                   <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '2px' }}>
-                    {config.initialBalance > 0
-                      ? ((totalValue - config.initialBalance) / config.initialBalance * 100).toFixed(2) + '%'
+                    {initialBalance > 0
+                      ? ((totalValue - initialBalance) / initialBalance * 100).toFixed(2) + '%'
                       : 'N/A'}
+                    {' · '}costs ${(positionBook.fees + positionBook.funding).toFixed(2)}
                   </div>
                 </BalanceMetric>
 
                 <BalanceMetric color="rgba(156, 39, 176, 0.3)">
-                  <BalanceLabel>{config.symbol.slice(0, -4).toUpperCase()} Holdings</BalanceLabel>
+                  <BalanceLabel>{baseAsset} Holdings</BalanceLabel>
                   <BalanceValue>{assetHoldings.toFixed(4)}</BalanceValue>
+                  {averageEntry !== null && (
+                    <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '2px' }}>
+                      avg {averageEntry.toFixed(5)}
+                    </div>
+                  )}
+                </BalanceMetric>
+
+                <BalanceMetric color={unrealizedPnl >= 0 ? "rgba(76, 175, 80, 0.3)" : "rgba(244, 67, 54, 0.3)"}>
+                  <BalanceLabel>Open PnL</BalanceLabel>
+                  <BalanceValue>
+                    {unrealizedPnl >= 0 ? '+' : ''}{unrealizedPnl.toFixed(2)}
+                  </BalanceValue>
+                  <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '2px' }}>
+                    realized {positionBook.realizedPnl >= 0 ? '+' : ''}{positionBook.realizedPnl.toFixed(2)}
+                  </div>
                 </BalanceMetric>
 
                 <BalanceMetric color={rollingPnL >= 0 ? "rgba(76, 175, 80, 0.3)" : "rgba(244, 67, 54, 0.3)"}>
@@ -838,6 +1387,7 @@ function App() {
             }}
             onClose={() => setShowSettings(false)}
             unlockedSimulators={unlockedSimulators}
+            serverAccount={account !== null}
           />
         )}
 
@@ -848,6 +1398,13 @@ function App() {
                 <TradingChart
                   marketData={marketData}
                   trades={trades}
+                  orderLines={chartedOrders.flatMap(order => getOrderLines(order).map(line => ({
+                    ...line,
+                    orderId: order.id,
+                    color: order.side === 'buy' ? '#4CAF50' : '#F44336',
+                    pending: !isOrderActive(order, chartedOrders)
+                  })))}
+                  onOrderLineMove={(orderId, field, price) => handleModifyOrder(orderId, { [field]: price })}
                 />
                 <PatternRecognition
                   marketData={marketData}
@@ -865,7 +1422,6 @@ function App() {
                 />
                 <AchievementSystem
                   trades={trades}
-                  currentPrice={marketData.price}
                   onUnlockReward={handleUnlockReward}
                 />
               </>
@@ -877,7 +1433,31 @@ function App() {
           <OrderBookContainer>
             {marketData && (
               <>
-                <TradeBook trades={trades} maxTrades={10} />
+                {tickers.length > 0 && (
+                  <Watchlist
+                    tickers={tickers}
+                    names={Object.fromEntries(sourceSymbols.map(entry => [entry.symbol, entry.name]))}
+                    chartedSymbol={config.symbol}
+                    onSelect={handleSelectSymbol}
+                  />
+                )}
+                <PositionsTable
+                  rows={positionRows}
+                  cash={balance}
+                  equity={equity ?? balance}
+                  chartedInstrumentId={instrumentId}
+                />
+                <TradeBook trades={trades} roundTrips={positionBook.roundTrips} marketTrades={marketData.trades} maxTrades={10} />
+                <OpenOrders
+                  orders={chartedOrders}
+                  position={assetHoldings}
+                  currentPrice={marketData.price}
+                  defaultSize={config.maxTradeSize}
+                  onPlace={handlePlaceOrder}
+                  onProtectPosition={handleProtectPosition}
+                  onCancel={(orderId) => setOrders(prev => cancelOrder(prev, orderId))}
+                  onModify={handleModifyOrder}
+                />
                 <OrderBook orderBook={marketData.orderBook} />
               </>
             )}
@@ -916,11 +1496,27 @@ function App() {
           maxTradeSize={config.maxTradeSize}
           tradeSizeStep={config.tradeSizeStep}
           currentPrice={marketData?.price || 0}
+          position={assetHoldings}
+          canShort={marginMode}
         />
 
+        {playback && <PlaybackBar playback={playback} />}
+
+        {room && <RoomPanel room={room} />}
+
+        {riskState?.lockedUntil && (
+          <RiskLockout key={riskState.lockedUntil} lockedUntil={riskState.lockedUntil} reason={riskState.lockReason} />
+        )}
+
+        {tradeNotice && (
+          <TradeNotice key={tradeNotice.timestamp} role="alert">
+            {tradeNotice.message}
+          </TradeNotice>
+        )}
+
         <StatusBar>
           <div>
-            Connection: {isConnected ? 'Connected' : 'Disconnected'} ({config.marketDataSource})
+            Connection: <span title={sourceStatus.reason}>{SOURCE_STATUS_LABELS[sourceStatus.status]}</span> ({getMarketDataSource(config.marketDataSource)?.label ?? config.marketDataSource})
           </div>
           <div>
             Symbol: <strong>{config.symbol.toUpperCase()}</strong>
@@ -934,6 +1530,22 @@ function App() {
           <div>
             Rate Limit: {config.maxTradesPerSecond}/sec
           </div>
+          {sourceSeed !== null && (
+            <div>
+              Seed: {sourceSeed}
+            </div>
+          )}
+          {scenarioStatus && (
+            <div title={scenarioStatus.loops > 0 ? `Looped ${scenarioStatus.loops}×` : undefined}>
+              Scenario: {scenarioStatus.name} · {scenarioStatus.segment && scenarioStatus.segmentEndsAt !== null
+                ? `${scenarioStatus.segmentIndex + 1}/${scenarioStatus.segmentCount} ${describeSegment(scenarioStatus.segment)}` +
+                  ` (${Math.max(0, Math.ceil((scenarioStatus.segmentEndsAt - (marketData?.timestamp ?? 0)) / 1000))}s left)`
+                : 'ended'}
+            </div>
+          )}
+          <div style={{ cursor: 'pointer' }} onClick={toggleRecording} title="Record the market data stream to an .ndjson file">
+            {isRecording ? '⏹ Stop Recording' : '⏺ Record'}
+          </div>
           <div style={{ cursor: 'pointer' }} onClick={toggleSound}>
             Sound: {soundEnabled ? '🔊 ON' : '🔇 OFF'}
           </div>
@@ -944,6 +1556,7 @@ function App() {
         {showLeaderboard && (
           <Leaderboard
             userProfile={xpProfile}
+            userId={authSession?.user.id ?? null}
             onClose={() => setShowLeaderboard(false)}
           />
         )}
@@ -23,7 +23,8 @@ export interface PlayerStats {
   totalTrades: number;
   successfulTrades: number;
   profitableTrades: number;
-  totalProfit: number;
+  closedTrades: number; // Trades that closed part of a position
+  totalProfit: number; // Net realized P&L
   largestProfit: number;
   largestLoss: number;
   currentStreak: number;
@@ -33,8 +34,7 @@ export interface PlayerStats {
 }
 
 interface AchievementSystemProps {
-  trades: Trade[];
-  currentPrice: number;
+  trades: Trade[]; // Most recent first; closing trades carry their realized P&L
   onUnlockReward: (reward: Reward, achievementId: string, achievementName: string) => void;
 }
 
@@ -187,7 +187,7 @@ const defaultAchievements: Achievement[] = [
   {
     id: 'first_profit',
     name: 'In The Green',
-    description: 'Make your first profitable trade',
+    description: 'Close a trade in profit',
     icon: '💰',
     condition: (stats: PlayerStats) => stats.profitableTrades >= 1,
     unlocked: false
@@ -195,7 +195,7 @@ const defaultAchievements: Achievement[] = [
   {
     id: 'streak_3',
     name: 'Hot Streak',
-    description: 'Make 3 profitable trades in a row',
+    description: 'Close 3 trades in profit in a row',
     icon: '🔥',
     condition: (stats: PlayerStats) => stats.currentStreak >= 3,
     reward: {
@@ -208,7 +208,7 @@ const defaultAchievements: Achievement[] = [
   {
     id: 'profit_100',
     name: 'Serious Trader',
-    description: 'Accumulate $100 in profit',
+    description: 'Realize $100 in net profit',
     icon: '💎',
     condition: (stats: PlayerStats) => stats.totalProfit >= 100,
     reward: {
@@ -221,9 +221,9 @@ const defaultAchievements: Achievement[] = [
   {
     id: 'win_rate_60',
     name: 'Consistent Performer',
-    description: 'Achieve a 60% win rate with at least 20 trades',
+    description: 'Achieve a 60% win rate over at least 20 closed trades',
     icon: '🏆',
-    condition: (stats: PlayerStats) => stats.winRate >= 60 && stats.totalTrades >= 20,
+    condition: (stats: PlayerStats) => stats.winRate >= 60 && stats.closedTrades >= 20,
     reward: {
       type: 'simulator',
       value: 'advanced',
@@ -233,12 +233,13 @@ const defaultAchievements: Achievement[] = [
   }
 ];
 
-const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, currentPrice, onUnlockReward }) => {
+const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, onUnlockReward }) => {
   const [achievements, setAchievements] = useState<Achievement[]>(defaultAchievements);
   const [stats, setStats] = useState<PlayerStats>({
     totalTrades: 0,
     successfulTrades: 0,
     profitableTrades: 0,
+    closedTrades: 0,
     totalProfit: 0,
     largestProfit: 0,
     largestLoss: 0,
@@ -255,6 +256,7 @@ const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, currentPr
     if (!trades.length) return;
 
     let profitableTrades = 0;
+    let closedTrades = 0;
     let totalProfit = 0;
     let largestProfit = 0;
     let largestLoss = 0;
@@ -262,17 +264,17 @@ const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, currentPr
     let longestStreak = 0;
     let tradeVolume = 0;
 
-    // Process trades to calculate stats
-    trades.forEach((trade, index) => {
-      const pnl = trade.side === 'buy'
-        ? (currentPrice - trade.price) * Math.abs(trade.size)
-        : (trade.price - currentPrice) * Math.abs(trade.size);
-
+    // Walk the trades oldest first; only closing trades win or lose
+    [...trades].reverse().forEach(trade => {
       tradeVolume += trade.value;
 
+      const pnl = trade.realizedPnl;
+      if (pnl === undefined) return;
+      closedTrades++;
+      totalProfit += pnl;
+
       if (pnl > 0) {
         profitableTrades++;
-        totalProfit += pnl;
         largestProfit = Math.max(largestProfit, pnl);
         currentStreak++;
         longestStreak = Math.max(longestStreak, currentStreak);
@@ -282,12 +284,13 @@ const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, currentPr
       }
     });
 
-    const winRate = trades.length > 0 ? (profitableTrades / trades.length) * 100 : 0;
+    const winRate = closedTrades > 0 ? (profitableTrades / closedTrades) * 100 : 0;
 
     setStats({
       totalTrades: trades.length,
       successfulTrades: trades.length, // All trades that executed successfully
       profitableTrades,
+      closedTrades,
       totalProfit,
       largestProfit,
       largestLoss,
@@ -296,7 +299,7 @@ const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, currentPr
       tradeVolume,
       winRate
     });
-  }, [trades, currentPrice]);
+  }, [trades]);
 
   // Check for newly unlocked achievements
   useEffect(() => {
@@ -377,6 +380,10 @@ const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, currentPr
             <StatLabel>Total Trades</StatLabel>
             <StatValue>{stats.totalTrades}</StatValue>
           </StatItem>
+          <StatItem>
+            <StatLabel>Closed Trades</StatLabel>
+            <StatValue>{stats.closedTrades}</StatValue>
+          </StatItem>
           <StatItem>
             <StatLabel>Win Rate</StatLabel>
             <StatValue $positive={stats.winRate > 50} $negative={stats.winRate < 50}>
@@ -384,7 +391,7 @@ const AchievementSystem: React.FC<AchievementSystemProps> = ({ trades, currentPr
             </StatValue>
           </StatItem>
           <StatItem>
-            <StatLabel>Total Profit</StatLabel>
+            <StatLabel>Realized P&amp;L</StatLabel>
             <StatValue $positive={stats.totalProfit > 0} $negative={stats.totalProfit < 0}>
               ${stats.totalProfit.toFixed(2)}
             </StatValue>
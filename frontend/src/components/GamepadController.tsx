@@ -3,10 +3,12 @@ import styled from 'styled-components';
 import type { GamepadState } from '../types';
 
 interface GamepadControllerProps {
-  executeTrade: (side: 'buy' | 'sell', size: number) => void;
+  executeTrade: (side: 'buy' | 'sell', size: number) => boolean; // Whether the trade went through
   maxTradeSize: number;
   tradeSizeStep?: number;
   currentPrice: number;
+  position?: number; // Current position; negative when short
+  canShort?: boolean; // Margin trading is on, so selling when flat opens a short
 }
 
 const GamepadContainer = styled.div`
@@ -152,7 +154,9 @@ const GamepadController: React.FC<GamepadControllerProps> = ({
   executeTrade,
   maxTradeSize,
   tradeSizeStep = 0.000000001,
-  currentPrice
+  currentPrice,
+  position = 0,
+  canShort = false
 }) => {
   const [gamepadState, setGamepadState] = useState<GamepadState>({
     connected: false,
@@ -353,14 +357,15 @@ const GamepadController: React.FC<GamepadControllerProps> = ({
             const rawSize = Math.max(tradeSizeStep, sizeCoefficient * maxTradeSize * previewMultiplier);
             const size = Math.max(tradeSizeStep, Math.round(rawSize / tradeSizeStep) * tradeSizeStep);
 
-            // Immediately execute a trade on direction start
-            setActiveTrade({
-              side: execSide,
-              size: sizeCoefficient
-            });
-            const now = Date.now();
-            setLastTradeExecuted(now);
-            executeTrade(execSide, size);
+            // Immediately execute a trade on direction start; rejected
+            // trades don't flash as executed
+            if (executeTrade(execSide, size)) {
+              setActiveTrade({
+                side: execSide,
+                size: sizeCoefficient
+              });
+              setLastTradeExecuted(Date.now());
+            }
 
             // Start interval for repeated trades while trigger is held
             tradeIntervalRef.current = setInterval(() => {
@@ -383,12 +388,13 @@ const GamepadController: React.FC<GamepadControllerProps> = ({
               const raw = Math.max(tradeSizeStep, coeff * maxTradeSize * multiplier);
               const sz = Math.max(tradeSizeStep, Math.round(raw / tradeSizeStep) * tradeSizeStep);
 
-              setActiveTrade({
-                side: execSide,
-                size: coeff
-              });
-              setLastTradeExecuted(Date.now());
-              executeTrade(execSide, sz);
+              if (executeTrade(execSide, sz)) {
+                setActiveTrade({
+                  side: execSide,
+                  size: coeff
+                });
+                setLastTradeExecuted(Date.now());
+              }
             }, TRADE_INTERVAL_MS);
           }
         } else {
@@ -438,7 +444,7 @@ const GamepadController: React.FC<GamepadControllerProps> = ({
 
       <GamepadInstructions>
         <div><strong>Step 1:</strong> Press and hold R2 to open trade window</div>
-        <div><strong>Step 2:</strong> While holding R2, move right joystick up (BUY) or down (SELL)</div>
+        <div><strong>Step 2:</strong> While holding R2, move right joystick up (BUY) or down (SELL{canShort ? ', or SHORT when flat' : ''})</div>
         <div>Multipliers: L1 (5x), L2 (10x), R1 (20x) - All can be combined!</div>
       </GamepadInstructions>
 
@@ -502,7 +508,7 @@ const GamepadController: React.FC<GamepadControllerProps> = ({
             {previewTrade.side === 'buy'
               ? 'BUY (Preview)'
               : previewTrade.side === 'sell'
-                ? 'SELL (Preview)'
+                ? canShort && position <= 0 ? 'SHORT (Preview)' : 'SELL (Preview)'
                 : 'NONE'}
           </div>
           <div>
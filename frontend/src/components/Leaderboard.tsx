@@ -1,128 +1,47 @@
 import React, { useState, useEffect } from 'react';
 import styled, { keyframes } from 'styled-components';
-import { XPProfile, LEVEL_DEFINITIONS, calculateXPProgress, getLevelTitle } from '../utils/xpSystem';
+import type { XPProfile } from '../utils/xpSystem';
+import { getLevelTitle } from '../utils/xpSystem';
+import type { LeaderboardEntry, LeaderboardMetric, LeaderboardPage, LeaderboardPeriod } from '../types';
+import { fetchLeaderboard, fetchLeaderboardSymbols } from '../utils/api';
 
 interface LeaderboardProps {
   userProfile: XPProfile;
+  userId: string | null; // Signed-in user; boards are only served to signed-in players
   onClose: () => void;
 }
 
-// Mock leaderboard data (in a real app, this would come from a server)
-const generateMockLeaderboard = (userProfile: XPProfile): XPProfile[] => {
-  const mockUsers: XPProfile[] = [
-    {
-      userId: 'user1',
-      username: 'TradingMaster',
-      totalXP: 24500,
-      level: 16,
-      currentLevelXP: 3500,
-      nextLevelXP: 4000,
-      recentActions: [],
-      joinDate: Date.now() - 90 * 24 * 60 * 60 * 1000, // 90 days ago
-      lastActive: Date.now() - 2 * 60 * 60 * 1000, // 2 hours ago
-      achievements: ['first_trade', 'ten_trades', 'first_profit', 'streak_3', 'profit_100', 'win_rate_60'],
-      stats: {
-        tradesExecuted: 1250,
-        profitableTrades: 820,
-        longestStreak: 12,
-        totalProfit: 5430,
-        patternsDetected: 145,
-        sessionsCompleted: 78
-      }
-    },
-    {
-      userId: 'user2',
-      username: 'PatternHunter',
-      totalXP: 18700,
-      level: 15,
-      currentLevelXP: 1700,
-      nextLevelXP: 4000,
-      recentActions: [],
-      joinDate: Date.now() - 120 * 24 * 60 * 60 * 1000,
-      lastActive: Date.now() - 1 * 24 * 60 * 60 * 1000,
-      achievements: ['first_trade', 'ten_trades', 'first_profit', 'streak_3', 'profit_100'],
-      stats: {
-        tradesExecuted: 980,
-        profitableTrades: 620,
-        longestStreak: 8,
-        totalProfit: 3200,
-        patternsDetected: 210,
-        sessionsCompleted: 65
-      }
-    },
-    {
-      userId: 'user3',
-      username: 'CryptoWhale',
-      totalXP: 31200,
-      level: 17,
-      currentLevelXP: 6200,
-      nextLevelXP: 5000,
-      recentActions: [],
-      joinDate: Date.now() - 200 * 24 * 60 * 60 * 1000,
-      lastActive: Date.now() - 5 * 60 * 60 * 1000,
-      achievements: ['first_trade', 'ten_trades', 'first_profit', 'streak_3', 'profit_100', 'win_rate_60'],
-      stats: {
-        tradesExecuted: 1850,
-        profitableTrades: 1230,
-        longestStreak: 15,
-        totalProfit: 8900,
-        patternsDetected: 180,
-        sessionsCompleted: 120
-      }
-    },
-    {
-      userId: 'user4',
-      username: 'TrendSurfer',
-      totalXP: 12400,
-      level: 12,
-      currentLevelXP: 3400,
-      nextLevelXP: 2500,
-      recentActions: [],
-      joinDate: Date.now() - 60 * 24 * 60 * 60 * 1000,
-      lastActive: Date.now() - 12 * 60 * 60 * 1000,
-      achievements: ['first_trade', 'ten_trades', 'first_profit', 'streak_3'],
-      stats: {
-        tradesExecuted: 720,
-        profitableTrades: 410,
-        longestStreak: 6,
-        totalProfit: 1800,
-        patternsDetected: 95,
-        sessionsCompleted: 42
-      }
-    },
-    {
-      userId: 'user5',
-      username: 'DayTraderPro',
-      totalXP: 9800,
-      level: 11,
-      currentLevelXP: 2800,
-      nextLevelXP: 2000,
-      recentActions: [],
-      joinDate: Date.now() - 45 * 24 * 60 * 60 * 1000,
-      lastActive: Date.now() - 8 * 60 * 60 * 1000,
-      achievements: ['first_trade', 'ten_trades', 'first_profit'],
-      stats: {
-        tradesExecuted: 520,
-        profitableTrades: 290,
-        longestStreak: 5,
-        totalProfit: 1200,
-        patternsDetected: 65,
-        sessionsCompleted: 30
-      }
-    }
-  ];
-  
-  // Add the current user to the leaderboard if not already there
-  if (!mockUsers.some(user => user.userId === userProfile.userId)) {
-    mockUsers.push(userProfile);
-  } else {
-    // Update the user's profile if it's already in the leaderboard
-    const index = mockUsers.findIndex(user => user.userId === userProfile.userId);
-    mockUsers[index] = userProfile;
+type LeaderboardTab = LeaderboardPeriod | 'stats';
+
+const PAGE_SIZE = 20;
+
+const PERIOD_TABS: { id: LeaderboardPeriod; label: string }[] = [
+  { id: 'global', label: 'All Time' },
+  { id: 'weekly', label: 'This Week' },
+  { id: 'daily', label: 'Today' }
+];
+
+// Every board is built from the trade ledger and can be narrowed to one symbol
+const METRIC_TABS: { id: LeaderboardMetric; label: string }[] = [
+  { id: 'profit', label: 'Realized Profit' },
+  { id: 'winRate', label: 'Win Rate' },
+  { id: 'streak', label: 'Longest Streak' }
+];
+
+// Format XP number with commas
+const formatXP = (xp: number): string => {
+  return Math.round(xp).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
+
+const formatValue = (metric: LeaderboardMetric, value: number): string => {
+  switch (metric) {
+    case 'profit':
+      return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+    case 'winRate':
+      return `${Math.round(value * 100)}%`;
+    case 'streak':
+      return `${value} win${value === 1 ? '' : 's'}`;
   }
-  
-  // Sort by total XP (descending)
-  return mockUsers.sort((a, b) => b.totalXP - a.totalXP);
 };
 
 // Animations
@@ -398,26 +317,240 @@ const StatCardValue = styled.div`
   font-weight: bold;
 `;
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ userProfile, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'global' | 'friends' | 'stats'>('global');
-  const [leaderboard, setLeaderboard] = useState<XPProfile[]>([]);
-  const [userRank, setUserRank] = useState(0);
-  
-  // Generate leaderboard data
+
+const MetricBar = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 15px;
+`;
+
+const MetricButton = styled.button<{ $active: boolean }>`
+  background-color: ${props => props.$active ? 'rgba(76, 175, 80, 0.3)' : 'rgba(255, 255, 255, 0.05)'};
+  color: white;
+  border: 1px solid ${props => props.$active ? '#4CAF50' : 'rgba(255, 255, 255, 0.1)'};
+  border-radius: 4px;
+  padding: 6px 10px;
+  cursor: pointer;
+  font-size: 0.85rem;
+`;
+
+const SymbolSelect = styled.select`
+  margin-left: auto;
+  background-color: #2A2A2A;
+  color: white;
+  border: 1px solid rgba(255, 255, 255, 0.1);
+  border-radius: 4px;
+  padding: 6px;
+`;
+
+const PageControls = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-top: 15px;
+  font-size: 0.9rem;
+`;
+
+const PageButton = styled.button`
+  background-color: rgba(255, 255, 255, 0.05);
+  color: white;
+  border: 1px solid rgba(255, 255, 255, 0.1);
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: default;
+  }
+`;
+
+const Notice = styled.div`
+  text-align: center;
+  padding: 40px 0;
+  opacity: 0.8;
+`;
+
+const RankBanner = styled.div`
+  margin-top: 20px;
+  text-align: center;
+  padding: 10px;
+  background-color: rgba(76, 175, 80, 0.1);
+  border-radius: 4px;
+`;
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ userProfile, userId, onClose }) => {
+  const [activeTab, setActiveTab] = useState<LeaderboardTab>('global');
+  const [metric, setMetric] = useState<LeaderboardMetric>('profit');
+  const [symbol, setSymbol] = useState('');
+  const [symbols, setSymbols] = useState<string[]>([]);
+  // Where the page starts; `around` asks the server to center it on the user instead
+  const [position, setPosition] = useState<{ offset: number; around: boolean }>({ offset: 0, around: false });
+  const [page, setPage] = useState<LeaderboardPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Symbols with per-symbol boards
   useEffect(() => {
-    const data = generateMockLeaderboard(userProfile);
-    setLeaderboard(data);
-    
-    // Find user's rank
-    const rank = data.findIndex(user => user.userId === userProfile.userId) + 1;
-    setUserRank(rank);
-  }, [userProfile]);
-  
-  // Format XP number with commas
-  const formatXP = (xp: number): string => {
-    return xp.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    if (!userId) return;
+    fetchLeaderboardSymbols()
+      .then(setSymbols)
+      .catch(err => console.error('Failed to fetch leaderboard symbols:', err));
+  }, [userId]);
+
+  // Fetch the board being viewed; the stats tab only needs the user's all-time profit rank
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    const query = activeTab === 'stats'
+      ? { period: 'global' as const, metric: 'profit' as const, limit: 1 }
+      : {
+          period: activeTab,
+          metric,
+          symbol: symbol || undefined,
+          offset: position.offset,
+          limit: PAGE_SIZE,
+          around: position.around
+        };
+
+    setLoading(true);
+    setError(null);
+    fetchLeaderboard(query)
+      .then(result => {
+        if (!cancelled) setPage(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, activeTab, metric, symbol, position]);
+
+  const selectTab = (tab: LeaderboardTab) => {
+    setActiveTab(tab);
+    setPosition({ offset: 0, around: false });
   };
-  
+
+  const selectMetric = (next: LeaderboardMetric) => {
+    setMetric(next);
+    setPosition({ offset: 0, around: false });
+  };
+
+  const selectSymbol = (next: string) => {
+    setSymbol(next);
+    setPosition({ offset: 0, around: false });
+  };
+
+  const pageStart = page?.offset ?? 0;
+  const periodLabel = PERIOD_TABS.find(tab => tab.id === activeTab)?.label.toLowerCase();
+  const metricLabel = METRIC_TABS.find(tab => tab.id === metric)?.label ?? '';
+
+  const renderRow = (entry: LeaderboardEntry) => {
+    const isUser = entry.userId === userId;
+    const level = entry.level ?? 0;
+
+    return (
+      <LeaderboardRow
+        key={entry.userId}
+        $isUser={isUser}
+        $isTop3={entry.rank <= 3}
+      >
+        <RankCell $rank={entry.rank}>
+          {entry.rank}
+        </RankCell>
+        <UserCell>
+          <UserAvatar $level={level}>
+            {entry.username.charAt(0).toUpperCase()}
+          </UserAvatar>
+          <UserInfo>
+            <Username>{entry.username}{isUser ? ' (you)' : ''}</Username>
+            <UserTitle>{entry.level !== null ? getLevelTitle(entry.level) : 'Unranked'}</UserTitle>
+          </UserInfo>
+        </UserCell>
+        <XPCell>
+          <XPValue>{formatValue(metric, entry.value)}</XPValue>
+          <XPProgress>{activeTab === 'global' ? 'all time' : periodLabel}</XPProgress>
+        </XPCell>
+        <LevelCell>
+          {entry.level ?? '-'}
+        </LevelCell>
+        <StatsCell>
+          <StatValue>{entry.trades}</StatValue>
+          <StatLabel>Closing Trades</StatLabel>
+        </StatsCell>
+      </LeaderboardRow>
+    );
+  };
+
+  const renderBoard = () => {
+    if (!page || page.period !== activeTab || page.metric !== metric) {
+      return <Notice>{loading ? 'Loading...' : error}</Notice>;
+    }
+
+    const me = page.me;
+    const meOnPage = me !== null && page.entries.some(entry => entry.userId === me.userId);
+
+    return (
+      <>
+        <LeaderboardTable>
+          <LeaderboardHeader2>
+            <div>Rank</div>
+            <div>Trader</div>
+            <div style={{ textAlign: 'right' }}>{metricLabel}</div>
+            <div style={{ textAlign: 'center' }}>Level</div>
+            <div style={{ textAlign: 'right' }}>Trades</div>
+          </LeaderboardHeader2>
+
+          {page.entries.length > 0
+            ? page.entries.map(renderRow)
+            : <Notice>Nobody is on this board yet</Notice>}
+        </LeaderboardTable>
+
+        <PageControls>
+          <PageButton
+            disabled={pageStart === 0 || loading}
+            onClick={() => setPosition({ offset: Math.max(0, pageStart - PAGE_SIZE), around: false })}
+          >
+            Previous
+          </PageButton>
+          <span>
+            {page.total > 0 ? `${pageStart + 1}-${pageStart + page.entries.length} of ${page.total}` : ''}
+          </span>
+          <PageButton
+            disabled={pageStart + PAGE_SIZE >= page.total || loading}
+            onClick={() => setPosition({ offset: pageStart + PAGE_SIZE, around: false })}
+          >
+            Next
+          </PageButton>
+        </PageControls>
+
+        <RankBanner>
+          {me ? (
+            <>
+              Your Rank: <strong>{me.rank}</strong> out of {page.total} traders ({formatValue(metric, me.value)})
+              {!meOnPage && (
+                <PageButton style={{ marginLeft: '10px' }} onClick={() => setPosition({ offset: 0, around: true })}>
+                  Find me
+                </PageButton>
+              )}
+            </>
+          ) : metric === 'winRate' ? (
+            'You need more closing trades in this period to be ranked on win rate'
+          ) : (
+            'You are not on this board yet'
+          )}
+        </RankBanner>
+      </>
+    );
+  };
+
   return (
     <LeaderboardContainer>
       <LeaderboardPanel>
@@ -427,162 +560,110 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ userProfile, onClose }) => {
           </LeaderboardTitle>
           <CloseButton onClick={onClose}>×</CloseButton>
         </LeaderboardHeader>
-        
+
         <TabContainer>
-          <Tab 
-            $active={activeTab === 'global'} 
-            onClick={() => setActiveTab('global')}
-          >
-            Global Rankings
-          </Tab>
-          <Tab 
-            $active={activeTab === 'friends'} 
-            onClick={() => setActiveTab('friends')}
-          >
-            Friends
-          </Tab>
-          <Tab 
-            $active={activeTab === 'stats'} 
-            onClick={() => setActiveTab('stats')}
+          {PERIOD_TABS.map(tab => (
+            <Tab
+              key={tab.id}
+              $active={activeTab === tab.id}
+              onClick={() => selectTab(tab.id)}
+            >
+              {tab.label}
+            </Tab>
+          ))}
+          <Tab
+            $active={activeTab === 'stats'}
+            onClick={() => selectTab('stats')}
           >
             Your Stats
           </Tab>
         </TabContainer>
-        
+
         <LeaderboardContent>
-          {activeTab === 'global' && (
+          {!userId && activeTab !== 'stats' && (
+            <Notice>Sign in to see the leaderboard and your rank</Notice>
+          )}
+
+          {userId && activeTab !== 'stats' && (
             <>
-              <LeaderboardTable>
-                <LeaderboardHeader2>
-                  <div>Rank</div>
-                  <div>Trader</div>
-                  <div style={{ textAlign: 'right' }}>XP</div>
-                  <div style={{ textAlign: 'center' }}>Level</div>
-                  <div style={{ textAlign: 'right' }}>Best Stat</div>
-                </LeaderboardHeader2>
-                
-                {leaderboard.map((user, index) => {
-                  const rank = index + 1;
-                  const isUser = user.userId === userProfile.userId;
-                  const isTop3 = rank <= 3;
-                  const xpProgress = calculateXPProgress(user.currentLevelXP, user.nextLevelXP);
-                  const bestStat = Math.max(
-                    user.stats.profitableTrades / Math.max(1, user.stats.tradesExecuted) * 100,
-                    user.stats.longestStreak,
-                    user.stats.totalProfit / 100
-                  );
-                  
-                  return (
-                    <LeaderboardRow 
-                      key={user.userId} 
-                      $isUser={isUser} 
-                      $isTop3={isTop3}
-                    >
-                      <RankCell $rank={rank}>
-                        {rank}
-                      </RankCell>
-                      <UserCell>
-                        <UserAvatar $level={user.level}>
-                          {user.username.charAt(0).toUpperCase()}
-                        </UserAvatar>
-                        <UserInfo>
-                          <Username>{user.username}</Username>
-                          <UserTitle>{getLevelTitle(user.level)}</UserTitle>
-                        </UserInfo>
-                      </UserCell>
-                      <XPCell>
-                        <XPValue>{formatXP(user.totalXP)} XP</XPValue>
-                        <XPProgress>{xpProgress}% to next</XPProgress>
-                      </XPCell>
-                      <LevelCell>
-                        {user.level}
-                      </LevelCell>
-                      <StatsCell>
-                        <StatValue>
-                          {user.stats.profitableTrades > 0 
-                            ? `${Math.round(user.stats.profitableTrades / Math.max(1, user.stats.tradesExecuted) * 100)}%` 
-                            : '0%'}
-                        </StatValue>
-                        <StatLabel>Win Rate</StatLabel>
-                      </StatsCell>
-                    </LeaderboardRow>
-                  );
-                })}
-              </LeaderboardTable>
-              
-              {userRank > 10 && (
-                <div style={{ marginTop: '20px', textAlign: 'center', padding: '10px', backgroundColor: 'rgba(76, 175, 80, 0.1)', borderRadius: '4px' }}>
-                  Your Rank: <strong>{userRank}</strong> out of {leaderboard.length} traders
-                </div>
-              )}
+              <MetricBar>
+                {METRIC_TABS.map(tab => (
+                  <MetricButton
+                    key={tab.id}
+                    $active={metric === tab.id}
+                    onClick={() => selectMetric(tab.id)}
+                  >
+                    {tab.label}
+                  </MetricButton>
+                ))}
+                <SymbolSelect value={symbol} onChange={(e) => selectSymbol(e.target.value)}>
+                  <option value="">All symbols</option>
+                  {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+                </SymbolSelect>
+              </MetricBar>
+              {renderBoard()}
             </>
           )}
-          
-          {activeTab === 'friends' && (
-            <div style={{ textAlign: 'center', padding: '40px 0' }}>
-              <div style={{ fontSize: '4rem', marginBottom: '20px' }}>👥</div>
-              <h3>Friends Leaderboard Coming Soon!</h3>
-              <p>Connect with other traders to compare your progress and compete for the top spot.</p>
-            </div>
-          )}
-          
+
           {activeTab === 'stats' && (
             <UserStatsContainer>
               <UserStatsTitle>Your Trading Stats</UserStatsTitle>
-              
+
               <StatsGrid>
                 <StatCard>
                   <StatCardTitle>Total XP</StatCardTitle>
                   <StatCardValue>{formatXP(userProfile.totalXP)}</StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
                   <StatCardTitle>Level</StatCardTitle>
                   <StatCardValue>{userProfile.level}</StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
-                  <StatCardTitle>Rank</StatCardTitle>
-                  <StatCardValue>#{userRank}</StatCardValue>
+                  <StatCardTitle>Profit Rank</StatCardTitle>
+                  <StatCardValue>
+                    {!userId ? 'Sign in' : page?.period === 'global' && page.metric === 'profit' && page.me ? `#${page.me.rank}` : '-'}
+                  </StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
                   <StatCardTitle>Trades Executed</StatCardTitle>
                   <StatCardValue>{userProfile.stats.tradesExecuted}</StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
                   <StatCardTitle>Win Rate</StatCardTitle>
                   <StatCardValue>
-                    {userProfile.stats.tradesExecuted > 0 
-                      ? `${Math.round(userProfile.stats.profitableTrades / userProfile.stats.tradesExecuted * 100)}%` 
+                    {userProfile.stats.closedTrades
+                      ? `${Math.round(userProfile.stats.profitableTrades / userProfile.stats.closedTrades * 100)}%`
                       : '0%'}
                   </StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
                   <StatCardTitle>Longest Streak</StatCardTitle>
                   <StatCardValue>{userProfile.stats.longestStreak}</StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
                   <StatCardTitle>Total Profit</StatCardTitle>
                   <StatCardValue>${userProfile.stats.totalProfit.toFixed(2)}</StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
                   <StatCardTitle>Patterns Detected</StatCardTitle>
                   <StatCardValue>{userProfile.stats.patternsDetected}</StatCardValue>
                 </StatCard>
-                
+
                 <StatCard>
                   <StatCardTitle>Achievements</StatCardTitle>
                   <StatCardValue>{userProfile.achievements.length}</StatCardValue>
                 </StatCard>
               </StatsGrid>
-              
+
               <div style={{ marginTop: '20px', textAlign: 'center', padding: '15px', backgroundColor: 'rgba(76, 175, 80, 0.1)', borderRadius: '4px' }}>
-                <strong>Next Level:</strong> {userProfile.level + 1} ({getLevelTitle(userProfile.level + 1)}) - 
+                <strong>Next Level:</strong> {userProfile.level + 1} ({getLevelTitle(userProfile.level + 1)}) -
                 Need {formatXP(userProfile.nextLevelXP - userProfile.currentLevelXP)} more XP
               </div>
             </UserStatsContainer>
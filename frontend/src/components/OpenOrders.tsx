@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import type { OrderType, WorkingOrder } from '../types';
+import type { BracketExits } from '../utils/orderManager';
+import { ORDER_TYPE_LABELS, isOrderActive } from '../utils/orderManager';
+
+// Order entry: a working order type, or 'market' to trade now
+export type OrderEntryType = OrderType | 'market';
+
+export interface OrderEntry {
+  type: OrderEntryType;
+  side: 'buy' | 'sell';
+  size: number;
+  price?: number;
+  stopPrice?: number;
+  trailDistance?: number;
+}
+
+type OrderChanges = Partial<Pick<WorkingOrder, 'size' | 'price' | 'stopPrice' | 'trailDistance'>>;
+
+interface OpenOrdersProps {
+  orders: WorkingOrder[];
+  position: number; // Current position; bracket exits for it close this much
+  currentPrice: number;
+  defaultSize: number;
+  onPlace: (entry: OrderEntry, exits: BracketExits) => void;
+  onProtectPosition: (exits: BracketExits) => void;
+  onCancel: (orderId: string) => void;
+  onModify: (orderId: string, changes: OrderChanges) => void;
+}
+
+const OpenOrdersContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  padding: 0.4rem;
+  background-color: ${props => props.theme.colors.chart.background};
+  border-radius: 4px;
+  margin-bottom: 0.25rem;
+`;
+
+const OpenOrdersTitle = styled.h3`
+  margin: 0 0 0.25rem 0;
+  font-size: 0.7rem;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: ${props => props.theme.colors.foreground};
+  border-bottom: 1px solid ${props => props.theme.colors.chart.grid};
+  padding-bottom: 0.2rem;
+`;
+
+const EntryForm = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 0.25rem;
+  margin-bottom: 0.4rem;
+  font-size: 0.65rem;
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 0.1rem;
+  color: ${props => props.theme.colors.chart.text};
+`;
+
+const CompactInput = styled.input`
+  width: 100%;
+  box-sizing: border-box;
+  padding: 0.15rem 0.25rem;
+  background-color: ${props => props.theme.colors.background};
+  border: 1px solid ${props => props.theme.colors.chart.grid};
+  border-radius: 2px;
+  color: ${props => props.theme.colors.foreground};
+  font-size: 0.65rem;
+  font-family: 'Roboto Mono', monospace;
+`;
+
+const CompactSelect = styled.select`
+  width: 100%;
+  padding: 0.15rem;
+  background-color: ${props => props.theme.colors.background};
+  border: 1px solid ${props => props.theme.colors.chart.grid};
+  border-radius: 2px;
+  color: ${props => props.theme.colors.foreground};
+  font-size: 0.65rem;
+`;
+
+const SideButton = styled.button<{ $side: 'buy' | 'sell' }>`
+  padding: 0.25rem;
+  background-color: ${props => props.$side === 'buy' ? props.theme.colors.buy : props.theme.colors.sell};
+  color: white;
+  border: none;
+  border-radius: 2px;
+  font-weight: bold;
+  font-size: 0.65rem;
+  cursor: pointer;
+`;
+
+const WideButton = styled.button`
+  grid-column: 1 / span 2;
+  padding: 0.2rem;
+  background: none;
+  color: ${props => props.theme.colors.accent};
+  border: 1px solid ${props => props.theme.colors.chart.grid};
+  border-radius: 2px;
+  font-size: 0.6rem;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: default;
+  }
+`;
+
+const OrderList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.1rem;
+  max-height: 140px;
+  overflow-y: auto;
+  font-family: 'Roboto Mono', monospace;
+`;
+
+const OrderItem = styled.div<{ $side: 'buy' | 'sell'; $pending: boolean }>`
+  display: grid;
+  grid-template-columns: 1fr auto auto;
+  align-items: center;
+  gap: 0.3rem;
+  padding: 0.1rem 0.3rem;
+  border-radius: 2px;
+  background-color: ${props =>
+    props.$side === 'buy'
+      ? `rgba(76, 175, 80, 0.05)`
+      : `rgba(244, 67, 54, 0.05)`
+  };
+  opacity: ${props => props.$pending ? 0.6 : 1};
+  font-size: 0.65rem;
+  line-height: 1.2;
+`;
+
+const OrderSide = styled.span<{ $side: 'buy' | 'sell' }>`
+  font-weight: 600;
+  color: ${props => props.$side === 'buy' ? props.theme.colors.buy : props.theme.colors.sell};
+`;
+
+const OrderDetails = styled.div`
+  color: ${props => props.theme.colors.chart.text};
+  font-size: 0.6rem;
+`;
+
+const IconButton = styled.button`
+  background: none;
+  border: none;
+  color: ${props => props.theme.colors.chart.text};
+  cursor: pointer;
+  font-size: 0.7rem;
+  padding: 0 0.2rem;
+
+  &:hover {
+    color: ${props => props.theme.colors.foreground};
+  }
+`;
+
+const EmptyState = styled.div`
+  color: ${props => props.theme.colors.chart.text};
+  font-size: 0.65rem;
+  text-align: center;
+  padding: 0.3rem;
+`;
+
+// Prices each entry type asks for
+const ENTRY_FIELDS: Record<OrderEntryType, { price: boolean; stop: boolean; trail: boolean }> = {
+  market: { price: false, stop: false, trail: false },
+  limit: { price: true, stop: false, trail: false },
+  stop: { price: false, stop: true, trail: false },
+  stopLimit: { price: true, stop: true, trail: false },
+  takeProfit: { price: true, stop: false, trail: false },
+  trailingStop: { price: false, stop: false, trail: true }
+};
+
+// Blank inputs are unset; anything else must parse
+const parseField = (value: string): number | undefined => value.trim() === '' ? undefined : parseFloat(value);
+
+const OpenOrders: React.FC<OpenOrdersProps> = ({
+  orders,
+  position,
+  currentPrice,
+  defaultSize,
+  onPlace,
+  onProtectPosition,
+  onCancel,
+  onModify
+}) => {
+  const [type, setType] = useState<OrderEntryType>('limit');
+  const [size, setSize] = useState(String(defaultSize));
+  const [price, setPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const [trailDistance, setTrailDistance] = useState('');
+  const [takeProfit, setTakeProfit] = useState('');
+  const [stopLoss, setStopLoss] = useState('');
+  const [editing, setEditing] = useState<{ id: string; size: string; price: string } | null>(null);
+
+  const fields = ENTRY_FIELDS[type];
+  const exits = (): BracketExits => ({ takeProfit: parseField(takeProfit), stopLoss: parseField(stopLoss) });
+
+  const handlePlace = (side: 'buy' | 'sell') => {
+    onPlace({
+      type,
+      side,
+      size: parseFloat(size),
+      price: fields.price ? parseField(price) : undefined,
+      stopPrice: fields.stop ? parseField(stopPrice) : undefined,
+      trailDistance: fields.trail ? parseField(trailDistance) : undefined
+    }, exits());
+  };
+
+  // The field an order's main price lives in, for inline edits
+  const priceField = (order: WorkingOrder): 'price' | 'stopPrice' =>
+    order.price !== undefined && (order.type !== 'stopLimit' || order.stopTriggered) ? 'price' : 'stopPrice';
+
+  const startEditing = (order: WorkingOrder) => {
+    setEditing({ id: order.id, size: String(order.size), price: String(order[priceField(order)] ?? '') });
+  };
+
+  const saveEditing = (order: WorkingOrder) => {
+    if (!editing) return;
+    onModify(order.id, { size: parseFloat(editing.size), [priceField(order)]: parseFloat(editing.price) });
+    setEditing(null);
+  };
+
+  const describe = (order: WorkingOrder): string => {
+    const parts: string[] = [];
+    if (order.stopPrice !== undefined) parts.push(`stop ${order.stopPrice.toFixed(5)}`);
+    if (order.price !== undefined) parts.push(`@ ${order.price.toFixed(5)}`);
+    if (order.trailDistance !== undefined) parts.push(`trail ${order.trailDistance.toFixed(5)}`);
+    if (!isOrderActive(order, orders)) parts.push('waits for entry');
+    if (order.pending) parts.push('sent');
+    if (order.ocoGroup) parts.push('OCO');
+    return parts.join(' · ');
+  };
+
+  return (
+    <OpenOrdersContainer>
+      <OpenOrdersTitle>Open Orders ({orders.length})</OpenOrdersTitle>
+
+      <EntryForm>
+        <Field>
+          Type
+          <CompactSelect value={type} onChange={(e) => setType(e.target.value as OrderEntryType)}>
+            <option value="market">Market</option>
+            {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map(orderType => (
+              <option key={orderType} value={orderType}>{ORDER_TYPE_LABELS[orderType]}</option>
+            ))}
+          </CompactSelect>
+        </Field>
+        <Field>
+          Size
+          <CompactInput type="number" min="0" step="any" value={size} onChange={(e) => setSize(e.target.value)} />
+        </Field>
+        {fields.stop && (
+          <Field>
+            Stop
+            <CompactInput type="number" step="any" placeholder={currentPrice.toFixed(5)} value={stopPrice} onChange={(e) => setStopPrice(e.target.value)} />
+          </Field>
+        )}
+        {fields.price && (
+          <Field>
+            Limit
+            <CompactInput type="number" step="any" placeholder={currentPrice.toFixed(5)} value={price} onChange={(e) => setPrice(e.target.value)} />
+          </Field>
+        )}
+        {fields.trail && (
+          <Field>
+            Trail by
+            <CompactInput type="number" min="0" step="any" value={trailDistance} onChange={(e) => setTrailDistance(e.target.value)} />
+          </Field>
+        )}
+        <Field>
+          Take profit
+          <CompactInput type="number" step="any" placeholder="optional" value={takeProfit} onChange={(e) => setTakeProfit(e.target.value)} />
+        </Field>
+        <Field>
+          Stop loss
+          <CompactInput type="number" step="any" placeholder="optional" value={stopLoss} onChange={(e) => setStopLoss(e.target.value)} />
+        </Field>
+        <SideButton $side="buy" onClick={() => handlePlace('buy')}>BUY</SideButton>
+        <SideButton $side="sell" onClick={() => handlePlace('sell')}>SELL</SideButton>
+        <WideButton
+          disabled={position === 0 || (takeProfit.trim() === '' && stopLoss.trim() === '')}
+          onClick={() => onProtectPosition(exits())}
+          title="Attach the take profit and stop loss to the open position as an OCO pair"
+        >
+          Bracket open position ({position.toFixed(4)})
+        </WideButton>
+      </EntryForm>
+
+      <OrderList>
+        {orders.map(order => (
+          <OrderItem key={order.id} $side={order.side} $pending={!isOrderActive(order, orders)}>
+            {editing?.id === order.id ? (
+              <>
+                <div style={{ display: 'flex', gap: '0.2rem' }}>
+                  <CompactInput type="number" step="any" value={editing.size} onChange={(e) => setEditing({ ...editing, size: e.target.value })} />
+                  <CompactInput type="number" step="any" value={editing.price} onChange={(e) => setEditing({ ...editing, price: e.target.value })} />
+                </div>
+                <IconButton onClick={() => saveEditing(order)} title="Save">✓</IconButton>
+                <IconButton onClick={() => setEditing(null)} title="Discard changes">↺</IconButton>
+              </>
+            ) : (
+              <>
+                <div>
+                  <OrderSide $side={order.side}>{order.side === 'buy' ? 'B' : 'S'} {order.size.toFixed(4)}</OrderSide>{' '}
+                  {ORDER_TYPE_LABELS[order.type]}
+                  <OrderDetails>{describe(order)}</OrderDetails>
+                </div>
+                <IconButton onClick={() => startEditing(order)} title="Modify">✎</IconButton>
+                <IconButton onClick={() => onCancel(order.id)} title="Cancel">×</IconButton>
+              </>
+            )}
+          </OrderItem>
+        ))}
+        {orders.length === 0 && (
+          <EmptyState>No working orders</EmptyState>
+        )}
+      </OrderList>
+    </OpenOrdersContainer>
+  );
+};
+
+export default OpenOrders;
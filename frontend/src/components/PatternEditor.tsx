@@ -0,0 +1,443 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import type { Candle, CustomPattern } from '../types';
+import { MarketSimulator } from '../utils/marketSimulator';
+import {
+  MAX_PATTERN_DURATION,
+  MIN_PATTERN_DURATION,
+  createCustomPatternId,
+  resampleSketch
+} from '../utils/customPatterns';
+
+interface PatternEditorProps {
+  pattern: CustomPattern | null; // Pattern to edit; null for a new one
+  onSave: (pattern: CustomPattern) => void;
+  onClose: () => void;
+}
+
+const CANVAS_WIDTH = 560;
+const CANVAS_HEIGHT = 220;
+
+// The sketch is kept as one level per column, so drawing over it replaces it
+const SKETCH_COLUMNS = 140;
+
+const DEFAULT_DURATION = 60000;
+const DEFAULT_VOLATILITY = 0.0008;
+const DEFAULT_RANGE = 0.05; // Canvas spans ±5% around the start
+
+// The gamepad pen crosses the canvas in GAMEPAD_SWEEP ms; the stick moves it
+// up to the full height of the canvas per second
+const GAMEPAD_SWEEP = 5000;
+const STICK_DEADZONE = 0.1;
+
+// Preview ticks, and most candles drawn
+const PREVIEW_INTERVAL = 100;
+const PREVIEW_CANDLES = 60;
+
+type Sketch = (number | null)[];
+
+const EditorOverlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background-color: rgba(0, 0, 0, 0.8);
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  z-index: 1000;
+`;
+
+const EditorPanel = styled.div`
+  background-color: #1E1E1E;
+  border-radius: 8px;
+  padding: 20px;
+  width: 90%;
+  max-width: 640px;
+  color: white;
+  box-shadow: 0 10px 25px rgba(0, 0, 0, 0.5);
+  border: 1px solid rgba(255, 255, 255, 0.1);
+`;
+
+const EditorHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 10px;
+`;
+
+const EditorTitle = styled.h2`
+  margin: 0;
+  font-size: 1.2rem;
+  color: #4CAF50;
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  color: white;
+  font-size: 1.5rem;
+  cursor: pointer;
+  opacity: 0.7;
+
+  &:hover {
+    opacity: 1;
+  }
+`;
+
+const Canvas = styled.svg`
+  width: 100%;
+  background-color: ${props => props.theme.colors.chart.background};
+  border: 1px solid ${props => props.theme.colors.chart.grid};
+  border-radius: 4px;
+  cursor: crosshair;
+  touch-action: none;
+`;
+
+const Hint = styled.div`
+  font-size: 0.8rem;
+  color: rgba(255, 255, 255, 0.6);
+  margin: 6px 0 12px 0;
+`;
+
+const FieldRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 12px;
+  margin-bottom: 12px;
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  font-size: 0.8rem;
+  opacity: 0.9;
+`;
+
+const FieldInput = styled.input`
+  background-color: rgba(255, 255, 255, 0.1);
+  color: white;
+  border: 1px solid rgba(255, 255, 255, 0.2);
+  border-radius: 4px;
+  padding: 6px 8px;
+  width: 110px;
+`;
+
+const NameInput = styled(FieldInput)`
+  width: 180px;
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: 10px;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  gap: 10px;
+`;
+
+const Button = styled.button<{ $variant?: 'primary' | 'active' }>`
+  padding: 8px 14px;
+  border-radius: 4px;
+  border: none;
+  cursor: pointer;
+  font-weight: bold;
+  background-color: ${props => props.$variant === 'primary' ? '#4CAF50' : props.$variant === 'active' ? '#2196F3' : '#555'};
+  color: white;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+// Columns of a stored path, and the vertical range that shows it with some room
+const sketchFromPattern = (pattern: CustomPattern | null): { sketch: Sketch; range: number } => {
+  if (!pattern) return { sketch: new Array<number | null>(SKETCH_COLUMNS).fill(null), range: DEFAULT_RANGE };
+  const last = pattern.path.length - 1;
+  const sketch = Array.from({ length: SKETCH_COLUMNS }, (_, column) => {
+    const position = (column / (SKETCH_COLUMNS - 1)) * last;
+    const index = Math.min(Math.floor(position), last - 1);
+    return pattern.path[index] + (pattern.path[index + 1] - pattern.path[index]) * (position - index);
+  });
+  const widest = Math.max(...pattern.path.map(level => Math.abs(level - 1)));
+  return { sketch, range: Math.max(0.01, Math.ceil(widest * 120) / 100) };
+};
+
+// Set the columns from one point to another, filling in between so fast strokes leave no gaps
+const drawSegment = (sketch: Sketch, from: { column: number; level: number }, to: { column: number; level: number }): Sketch => {
+  const next = [...sketch];
+  const steps = Math.abs(to.column - from.column);
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 1 : i / steps;
+    const column = Math.round(from.column + (to.column - from.column) * t);
+    next[column] = from.level + (to.level - from.level) * t;
+  }
+  return next;
+};
+
+// Candles from running the simulator along the sketch, merged down to PREVIEW_CANDLES
+const previewCandles = (path: number[], duration: number, volatility: number): Candle[] => {
+  const simulator = new MarketSimulator({
+    initialPrice: 1,
+    volatility,
+    drift: 0,
+    spread: 0,
+    updateInterval: PREVIEW_INTERVAL,
+    orderBookLevels: 1,
+    patternType: 'custom',
+    patternDuration: duration,
+    customPath: path
+  });
+
+  let candles: Candle[] = [];
+  for (let tick = 0; tick < duration / PREVIEW_INTERVAL; tick++) {
+    candles = simulator.generateMarketData().candles;
+  }
+
+  const perCandle = Math.max(1, Math.ceil(candles.length / PREVIEW_CANDLES));
+  const merged: Candle[] = [];
+  for (let i = 0; i < candles.length; i += perCandle) {
+    const group = candles.slice(i, i + perCandle);
+    merged.push({
+      timestamp: group[0].timestamp,
+      open: group[0].open,
+      high: Math.max(...group.map(candle => candle.high)),
+      low: Math.min(...group.map(candle => candle.low)),
+      close: group[group.length - 1].close,
+      volume: group.reduce((total, candle) => total + candle.volume, 0)
+    });
+  }
+  return merged;
+};
+
+// Sketch a price path and save it as a custom pattern
+const PatternEditor: React.FC<PatternEditorProps> = ({ pattern, onSave, onClose }) => {
+  const initial = sketchFromPattern(pattern);
+  const [sketch, setSketch] = useState<Sketch>(initial.sketch);
+  const [range, setRange] = useState(initial.range);
+  const [name, setName] = useState(pattern?.name ?? '');
+  const [duration, setDuration] = useState(pattern?.duration ?? DEFAULT_DURATION);
+  const [volatility, setVolatility] = useState(pattern?.volatility ?? DEFAULT_VOLATILITY);
+  const [candles, setCandles] = useState<Candle[] | null>(null);
+  const [gamepadDrawing, setGamepadDrawing] = useState(false);
+  const penRef = useRef<{ column: number; level: number } | null>(null);
+
+  const toY = (level: number) => CANVAS_HEIGHT / 2 - ((level - 1) / range) * (CANVAS_HEIGHT / 2);
+  const toX = (column: number) => (column / (SKETCH_COLUMNS - 1)) * CANVAS_WIDTH;
+
+  const drawTo = (point: { column: number; level: number }) => {
+    const from = penRef.current ?? point;
+    setSketch(current => drawSegment(current, from, point));
+    setCandles(null);
+    penRef.current = point;
+  };
+
+  const pointFromEvent = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    return { column: Math.round(x * (SKETCH_COLUMNS - 1)), level: 1 + (1 - 2 * y) * range };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (gamepadDrawing) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    penRef.current = null;
+    drawTo(pointFromEvent(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (penRef.current && !gamepadDrawing) drawTo(pointFromEvent(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!gamepadDrawing) penRef.current = null;
+  };
+
+  // Gamepad pen: sweeps left to right while the left stick steers it up and down
+  useEffect(() => {
+    if (!gamepadDrawing) return;
+
+    penRef.current = { column: 0, level: 1 };
+    setSketch(new Array<number | null>(SKETCH_COLUMNS).fill(null));
+    setCandles(null);
+    let last = performance.now();
+    let frame = requestAnimationFrame(function step(now) {
+      const elapsed = now - last;
+      last = now;
+      const gamepad = (navigator.getGamepads ? navigator.getGamepads() : []).find(pad => pad !== null);
+      const stick = gamepad?.axes[1] ?? 0;
+      const pen = penRef.current ?? { column: 0, level: 1 };
+      const next = {
+        column: Math.min(SKETCH_COLUMNS - 1, pen.column + (elapsed / GAMEPAD_SWEEP) * (SKETCH_COLUMNS - 1)),
+        level: Math.abs(stick) > STICK_DEADZONE
+          ? Math.min(1 + range, Math.max(1 - range, pen.level - stick * 2 * range * (elapsed / 1000)))
+          : pen.level
+      };
+      setSketch(current => drawSegment(current, { column: Math.round(pen.column), level: pen.level }, { column: Math.round(next.column), level: next.level }));
+      penRef.current = next;
+
+      if (next.column >= SKETCH_COLUMNS - 1) {
+        setGamepadDrawing(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      penRef.current = null;
+    };
+  }, [gamepadDrawing, range]);
+
+  const drawn = sketch.flatMap((level, column) => (level === null ? [] : [{ x: column / (SKETCH_COLUMNS - 1), y: level }]));
+  const canSave = drawn.length >= 2 && !gamepadDrawing;
+  const path = () => resampleSketch(drawn);
+
+  const handleSave = () => {
+    onSave({
+      id: pattern?.id ?? createCustomPatternId(),
+      name: name.trim() || 'My pattern',
+      path: path(),
+      duration,
+      volatility,
+      createdAt: pattern?.createdAt ?? Date.now()
+    });
+  };
+
+  // The preview shows the sketch scaled to its first point, as the simulator plays it
+  const start = drawn[0]?.y ?? 1;
+  const candleWidth = candles ? (CANVAS_WIDTH / candles.length) * 0.6 : 0;
+
+  return (
+    <EditorOverlay>
+      <EditorPanel>
+        <EditorHeader>
+          <EditorTitle>{pattern ? 'Edit Pattern' : 'New Pattern'}</EditorTitle>
+          <CloseButton onClick={onClose}>×</CloseButton>
+        </EditorHeader>
+
+        <Canvas
+          viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {[-1, -0.5, 0, 0.5, 1].map(share => (
+            <g key={share}>
+              <line x1={0} x2={CANVAS_WIDTH} y1={toY(1 + share * range)} y2={toY(1 + share * range)} stroke="rgba(255, 255, 255, 0.08)" />
+              <text x={4} y={toY(1 + share * range) - 2} fill="rgba(255, 255, 255, 0.4)" fontSize="9">
+                {share > 0 ? '+' : ''}{(share * range * 100).toFixed(1)}%
+              </text>
+            </g>
+          ))}
+
+          {candles?.map((candle, i) => {
+            const x = ((i + 0.5) / candles.length) * CANVAS_WIDTH;
+            const color = candle.close >= candle.open ? '#4CAF50' : '#F44336';
+            const top = toY(Math.max(candle.open, candle.close) * start);
+            const bottom = toY(Math.min(candle.open, candle.close) * start);
+            return (
+              <g key={candle.timestamp}>
+                <line x1={x} x2={x} y1={toY(candle.high * start)} y2={toY(candle.low * start)} stroke={color} />
+                <rect x={x - candleWidth / 2} y={top} width={candleWidth} height={Math.max(1, bottom - top)} fill={color} />
+              </g>
+            );
+          })}
+
+          <polyline
+            points={drawn.map(point => `${toX(point.x * (SKETCH_COLUMNS - 1))},${toY(point.y)}`).join(' ')}
+            fill="none"
+            stroke="#FFC107"
+            strokeWidth={candles ? 1 : 2}
+            strokeDasharray={candles ? '4 3' : undefined}
+          />
+        </Canvas>
+        <Hint>
+          Draw the price path from left to right; drawing over it replaces that stretch. With a gamepad, the pen
+          sweeps across while the left stick moves it up and down.
+        </Hint>
+
+        <FieldRow>
+          <Field>
+            Name
+            <NameInput type="text" maxLength={40} placeholder="My pattern" value={name} onChange={(e) => setName(e.target.value)} />
+          </Field>
+          <Field>
+            Duration (s)
+            <FieldInput
+              type="number"
+              min={MIN_PATTERN_DURATION / 1000}
+              max={MAX_PATTERN_DURATION / 1000}
+              value={duration / 1000}
+              onChange={(e) => {
+                const seconds = parseFloat(e.target.value);
+                if (!Number.isFinite(seconds)) return;
+                setDuration(Math.min(MAX_PATTERN_DURATION, Math.max(MIN_PATTERN_DURATION, seconds * 1000)));
+                setCandles(null);
+              }}
+            />
+          </Field>
+          <Field>
+            Noise (%)
+            <FieldInput
+              type="number"
+              min={0}
+              step="0.01"
+              value={Number((volatility * 100).toPrecision(6))}
+              onChange={(e) => {
+                const percent = parseFloat(e.target.value);
+                if (!Number.isFinite(percent) || percent < 0) return;
+                setVolatility(percent / 100);
+                setCandles(null);
+              }}
+            />
+          </Field>
+          <Field>
+            Scale (±%)
+            <FieldInput
+              type="number"
+              min={1}
+              step="1"
+              value={Number((range * 100).toPrecision(6))}
+              onChange={(e) => {
+                const percent = parseFloat(e.target.value);
+                if (Number.isFinite(percent) && percent > 0) setRange(percent / 100);
+              }}
+            />
+          </Field>
+        </FieldRow>
+
+        <ButtonRow>
+          <ButtonGroup>
+            <Button
+              onClick={() => {
+                setSketch(new Array<number | null>(SKETCH_COLUMNS).fill(null));
+                setCandles(null);
+              }}
+            >
+              Clear
+            </Button>
+            <Button $variant={gamepadDrawing ? 'active' : undefined} onClick={() => setGamepadDrawing(!gamepadDrawing)}>
+              {gamepadDrawing ? 'Stop Gamepad' : 'Draw with Gamepad'}
+            </Button>
+            <Button disabled={!canSave} onClick={() => setCandles(previewCandles(path(), duration, volatility))}>
+              {candles ? 'Preview Again' : 'Preview'}
+            </Button>
+          </ButtonGroup>
+          <ButtonGroup>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button $variant="primary" disabled={!canSave} onClick={handleSave}>Save Pattern</Button>
+          </ButtonGroup>
+        </ButtonRow>
+      </EditorPanel>
+    </EditorOverlay>
+  );
+};
+
+export default PatternEditor;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import type { PlaybackControls } from '../sources';
+import { PLAYBACK_SPEEDS } from '../sources';
+
+interface PlaybackBarProps {
+  playback: PlaybackControls;
+}
+
+const PlaybackContainer = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  margin-top: 0.5rem;
+  padding: 0.4rem 0.75rem;
+  background-color: ${props => props.theme.colors.chart.background};
+  border-radius: 4px;
+  font-size: 0.8rem;
+  color: ${props => props.theme.colors.chart.text};
+`;
+
+const PlayButton = styled.button`
+  background-color: ${props => props.theme.colors.chart.grid};
+  color: ${props => props.theme.colors.foreground};
+  border: none;
+  border-radius: 4px;
+  width: 2rem;
+  height: 1.6rem;
+  cursor: pointer;
+
+  &:hover {
+    opacity: 0.85;
+  }
+`;
+
+const SeekSlider = styled.input`
+  flex: 1;
+`;
+
+const SpeedSelect = styled.select`
+  background-color: ${props => props.theme.colors.chart.grid};
+  color: ${props => props.theme.colors.foreground};
+  border: none;
+  border-radius: 4px;
+  padding: 0.2rem;
+`;
+
+const TimeDisplay = styled.div`
+  font-family: 'Roboto Mono', monospace;
+  min-width: 7.5rem;
+  text-align: center;
+`;
+
+// m:ss, or h:mm:ss for long sessions
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+const PlaybackBar: React.FC<PlaybackBarProps> = ({ playback }) => {
+  const [state, setState] = useState(() => playback.getState());
+
+  useEffect(() => {
+    setState(playback.getState());
+    return playback.onChange(setState);
+  }, [playback]);
+
+  return (
+    <PlaybackContainer>
+      <PlayButton
+        onClick={() => (state.playing ? playback.pause() : playback.play())}
+        title={state.playing ? 'Pause' : 'Play'}
+      >
+        {state.playing ? '❚❚' : '▶'}
+      </PlayButton>
+      <TimeDisplay>
+        {formatDuration(state.position)} / {formatDuration(state.duration)}
+      </TimeDisplay>
+      <SeekSlider
+        type="range"
+        min={0}
+        max={state.duration}
+        step={100}
+        value={state.position}
+        onChange={(e) => playback.seek(parseFloat(e.target.value))}
+      />
+      <SpeedSelect
+        value={state.speed}
+        onChange={(e) => playback.setSpeed(parseFloat(e.target.value))}
+        title="Playback speed"
+      >
+        {PLAYBACK_SPEEDS.map(speed => (
+          <option key={speed} value={speed}>{speed}x</option>
+        ))}
+      </SpeedSelect>
+      <label>
+        <input
+          type="checkbox"
+          checked={state.loop}
+          onChange={(e) => playback.setLoop(e.target.checked)}
+        />
+        {' '}Loop
+      </label>
+    </PlaybackContainer>
+  );
+};
+
+export default PlaybackBar;
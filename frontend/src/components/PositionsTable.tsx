@@ -0,0 +1,147 @@
+import React from 'react';
+import styled from 'styled-components';
+import { getMarketDataSource } from '../sources';
+import type { PositionRow } from '../utils/portfolio';
+
+interface PositionsTableProps {
+  rows: PositionRow[];
+  cash: number;
+  equity: number;
+  chartedInstrumentId: string;
+}
+
+const PositionsContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  padding: 0.4rem;
+  background-color: ${props => props.theme.colors.chart.background};
+  border-radius: 4px;
+  margin-bottom: 0.25rem;
+`;
+
+const PositionsTitle = styled.h3`
+  margin: 0 0 0.25rem 0;
+  font-size: 0.7rem;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: ${props => props.theme.colors.foreground};
+  border-bottom: 1px solid ${props => props.theme.colors.chart.grid};
+  padding-bottom: 0.2rem;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-family: 'Roboto Mono', monospace;
+  font-size: 0.6rem;
+
+  th {
+    text-align: right;
+    font-weight: 600;
+    color: ${props => props.theme.colors.chart.text};
+    padding: 0.1rem 0.2rem;
+  }
+
+  td {
+    text-align: right;
+    color: ${props => props.theme.colors.foreground};
+    padding: 0.1rem 0.2rem;
+    white-space: nowrap;
+  }
+
+  th:first-child,
+  td:first-child {
+    text-align: left;
+  }
+`;
+
+const Row = styled.tr<{ $charted: boolean }>`
+  background-color: ${props => props.$charted ? 'rgba(33, 150, 243, 0.1)' : 'transparent'};
+`;
+
+const SourceLabel = styled.div`
+  color: ${props => props.theme.colors.chart.text};
+  font-size: 0.55rem;
+`;
+
+const Mark = styled.td<{ $live: boolean }>`
+  opacity: ${props => props.$live ? 1 : 0.6};
+`;
+
+const Pnl = styled.td<{ $value: number | null }>`
+  && {
+    color: ${props => props.$value === null
+      ? props.theme.colors.chart.text
+      : props.$value >= 0 ? props.theme.colors.buy : props.theme.colors.sell};
+  }
+`;
+
+const Totals = styled.div`
+  display: flex;
+  justify-content: space-between;
+  margin-top: 0.25rem;
+  padding-top: 0.2rem;
+  border-top: 1px solid ${props => props.theme.colors.chart.grid};
+  font-family: 'Roboto Mono', monospace;
+  font-size: 0.6rem;
+  color: ${props => props.theme.colors.chart.text};
+`;
+
+const formatPnl = (pnl: number | null) => pnl === null ? '-' : `${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}`;
+
+// When a mark that isn't live was taken, for the tooltip
+const describeMark = (row: PositionRow) => {
+  if (row.live) return 'Live price';
+  if (row.markedAt === null) return 'No price seen yet';
+  return `Last price seen at ${new Date(row.markedAt).toLocaleTimeString()}`;
+};
+
+// Every open position across instruments, with the account's cash and equity
+const PositionsTable: React.FC<PositionsTableProps> = ({ rows, cash, equity, chartedInstrumentId }) => (
+  <PositionsContainer>
+    <PositionsTitle>Positions</PositionsTitle>
+    {rows.length > 0 ? (
+      <Table>
+        <thead>
+          <tr>
+            <th>Instrument</th>
+            <th>Size</th>
+            <th>Avg</th>
+            <th>Mark</th>
+            <th>Open</th>
+            <th>Realized</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <Row key={row.instrumentId} $charted={row.instrumentId === chartedInstrumentId}>
+              <td>
+                {row.symbol.toUpperCase()}
+                <SourceLabel>{getMarketDataSource(row.source)?.label ?? row.source}</SourceLabel>
+              </td>
+              <td>{row.size.toFixed(4)}</td>
+              <td>{row.averageEntry !== null ? row.averageEntry.toFixed(5) : '-'}</td>
+              <Mark $live={row.live} title={describeMark(row)}>
+                {row.markPrice !== null ? row.markPrice.toFixed(5) : '-'}
+              </Mark>
+              <Pnl $value={row.unrealizedPnl}>{formatPnl(row.unrealizedPnl)}</Pnl>
+              <Pnl $value={row.realizedPnl} title={`Net of ${row.costs.toFixed(2)} in fees and funding`}>
+                {formatPnl(row.realizedPnl)}
+              </Pnl>
+            </Row>
+          ))}
+        </tbody>
+      </Table>
+    ) : (
+      <div style={{ textAlign: 'center', padding: '0.5rem', color: '#888', fontSize: '0.65rem' }}>
+        No open positions
+      </div>
+    )}
+    <Totals>
+      <span>Cash ${cash.toFixed(2)}</span>
+      <span>Equity ${equity.toFixed(2)}</span>
+    </Totals>
+  </PositionsContainer>
+);
+
+export default PositionsTable;
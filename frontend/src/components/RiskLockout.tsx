@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { formatCountdown } from '../utils/riskLimits';
+
+interface RiskLockoutProps {
+  lockedUntil: number;
+  reason: string | null;
+}
+
+const LockoutBanner = styled.div`
+  position: fixed;
+  top: 1rem;
+  left: 50%;
+  transform: translateX(-50%);
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 0.2rem;
+  background-color: rgba(244, 67, 54, 0.9);
+  color: white;
+  padding: 0.5rem 1.25rem;
+  border-radius: 4px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+  z-index: 100;
+`;
+
+const Countdown = styled.div`
+  font-size: 1.1rem;
+  font-weight: bold;
+  font-family: 'Roboto Mono', monospace;
+`;
+
+const Reason = styled.div`
+  font-size: 0.85rem;
+`;
+
+const Hint = styled.div`
+  font-size: 0.75rem;
+  opacity: 0.8;
+`;
+
+// Banner counting down a risk lockout; hides itself once the lock is over
+const RiskLockout: React.FC<RiskLockoutProps> = ({ lockedUntil, reason }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  if (now >= lockedUntil) return null;
+
+  return (
+    <LockoutBanner role="status">
+      <Countdown>Trading locked · {formatCountdown(lockedUntil - now)}</Countdown>
+      {reason && <Reason>{reason}</Reason>}
+      <Hint>Trades that reduce your position are still allowed</Hint>
+    </LockoutBanner>
+  );
+};
+
+export default RiskLockout;
@@ -0,0 +1,267 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import styled from 'styled-components';
+import type { RoomControls } from '../sources';
+import { MARKET_PATTERN_PRESETS } from '../utils/marketSimulator';
+import { SCENARIO_PRESETS } from '../utils/scenario';
+
+interface RoomPanelProps {
+  room: RoomControls;
+}
+
+// Presets the backend accepts: a plain random walk plus the simulator's patterns
+const ROOM_PRESETS = ['RANDOM_WALK', ...Object.keys(MARKET_PATTERN_PRESETS)];
+
+const MATCH_LENGTHS = [
+  { label: '1 min', value: 60000 },
+  { label: '2 min', value: 120000 },
+  { label: '5 min', value: 300000 },
+  { label: '10 min', value: 600000 },
+  { label: '15 min', value: 900000 },
+  { label: '30 min', value: 1800000 }
+];
+
+const STATUS_LABELS = {
+  lobby: 'Lobby',
+  running: 'Live',
+  finished: 'Finished'
+};
+
+const RoomContainer = styled.div`
+  display: grid;
+  grid-template-columns: 2fr 1fr;
+  gap: 0.75rem;
+  margin-top: 0.5rem;
+  padding: 0.5rem 0.75rem;
+  background-color: ${props => props.theme.colors.chart.background};
+  border-radius: 4px;
+  font-size: 0.8rem;
+  color: ${props => props.theme.colors.chart.text};
+`;
+
+const RoomHeader = styled.div`
+  grid-column: 1 / span 2;
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+`;
+
+const RoomName = styled.div`
+  font-weight: bold;
+  color: ${props => props.theme.colors.foreground};
+`;
+
+const StatusBadge = styled.span<{ $status: keyof typeof STATUS_LABELS }>`
+  padding: 0.1rem 0.5rem;
+  border-radius: 10px;
+  font-size: 0.7rem;
+  text-transform: uppercase;
+  color: white;
+  background-color: ${props => props.$status === 'running'
+    ? props.theme.colors.buy
+    : props.$status === 'finished' ? props.theme.colors.accent : props.theme.colors.chart.grid};
+`;
+
+const Countdown = styled.div`
+  font-family: 'Roboto Mono', monospace;
+  color: ${props => props.theme.colors.foreground};
+`;
+
+const OwnerControls = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  margin-left: auto;
+`;
+
+const ControlSelect = styled.select`
+  background-color: ${props => props.theme.colors.chart.grid};
+  color: ${props => props.theme.colors.foreground};
+  border: none;
+  border-radius: 4px;
+  padding: 0.2rem;
+`;
+
+const StartButton = styled.button`
+  background-color: ${props => props.theme.colors.primary};
+  color: white;
+  border: none;
+  border-radius: 4px;
+  padding: 0.25rem 0.75rem;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const ErrorText = styled.div`
+  grid-column: 1 / span 2;
+  color: ${props => props.theme.colors.sell};
+`;
+
+const Standings = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-family: 'Roboto Mono', monospace;
+
+  th {
+    text-align: left;
+    font-weight: normal;
+    border-bottom: 1px solid ${props => props.theme.colors.chart.grid};
+  }
+
+  td, th {
+    padding: 0.15rem 0.3rem;
+  }
+`;
+
+const StandingRow = styled.tr<{ $self: boolean; $connected: boolean }>`
+  color: ${props => props.$self ? props.theme.colors.accent : props.theme.colors.foreground};
+  opacity: ${props => props.$connected ? 1 : 0.5};
+`;
+
+const PnlCell = styled.td<{ $value: number }>`
+  color: ${props => props.$value >= 0 ? props.theme.colors.buy : props.theme.colors.sell};
+`;
+
+const FillFeed = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.1rem;
+  max-height: 140px;
+  overflow-y: auto;
+  font-family: 'Roboto Mono', monospace;
+`;
+
+const FillItem = styled.div<{ $side: 'buy' | 'sell' }>`
+  color: ${props => props.$side === 'buy' ? props.theme.colors.buy : props.theme.colors.sell};
+`;
+
+const formatPresetName = (preset: string) =>
+  preset.toLowerCase().split('_').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const RoomPanel: React.FC<RoomPanelProps> = ({ room }) => {
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => room.onChange(refresh), [room]);
+
+  const state = room.getState();
+  const running = state?.status === 'running';
+
+  // Tick the countdown while a match is on
+  useEffect(() => {
+    if (!running) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(intervalId);
+  }, [running]);
+
+  if (!state) {
+    return <RoomContainer>Joining room...</RoomContainer>;
+  }
+
+  const playerId = room.getPlayerId();
+  const isOwner = state.ownerId === playerId;
+  const owner = state.standings.find(standing => standing.playerId === state.ownerId);
+  const error = room.getError();
+  const scenarioKey = Object.entries(SCENARIO_PRESETS).find(([, preset]) => preset.name === state.scenario)?.[0] ?? '';
+
+  return (
+    <RoomContainer>
+      <RoomHeader>
+        <RoomName>Room: {state.name}</RoomName>
+        <StatusBadge $status={state.status}>{STATUS_LABELS[state.status]}</StatusBadge>
+        {running && state.endsAt !== null && (
+          <Countdown title="Time left in the match">{formatRemaining(state.endsAt - now)}</Countdown>
+        )}
+        <div>{state.scenario ?? formatPresetName(state.preset)}</div>
+        {isOwner ? (
+          <OwnerControls>
+            <ControlSelect
+              value={state.preset}
+              disabled={running}
+              onChange={(e) => room.configure({ preset: e.target.value })}
+              title="Market pattern for the match"
+            >
+              {ROOM_PRESETS.map(preset => (
+                <option key={preset} value={preset}>{formatPresetName(preset)}</option>
+              ))}
+            </ControlSelect>
+            <ControlSelect
+              value={scenarioKey}
+              disabled={running}
+              onChange={(e) => room.configure({ scenario: e.target.value === '' ? null : SCENARIO_PRESETS[e.target.value] })}
+              title="Scripted scenario played from the start of the match, instead of the pattern"
+            >
+              <option value="">No scenario</option>
+              {Object.entries(SCENARIO_PRESETS).map(([key, preset]) => (
+                <option key={key} value={key}>{preset.name}</option>
+              ))}
+            </ControlSelect>
+            <ControlSelect
+              value={state.duration}
+              disabled={running}
+              onChange={(e) => room.configure({ duration: parseInt(e.target.value, 10) })}
+              title="Match length"
+            >
+              {MATCH_LENGTHS.map(length => (
+                <option key={length.value} value={length.value}>{length.label}</option>
+              ))}
+            </ControlSelect>
+            <StartButton disabled={running} onClick={() => room.start()}>
+              {state.status === 'finished' ? 'Rematch' : 'Start Match'}
+            </StartButton>
+          </OwnerControls>
+        ) : (
+          !running && <OwnerControls>Waiting for {owner?.name ?? 'the owner'} to start the match</OwnerControls>
+        )}
+      </RoomHeader>
+
+      {error && <ErrorText>{error}</ErrorText>}
+
+      <Standings>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Player</th>
+            <th>Equity</th>
+            <th>P&L</th>
+            <th>Trades</th>
+          </tr>
+        </thead>
+        <tbody>
+          {state.standings.map(standing => (
+            <StandingRow
+              key={standing.playerId}
+              $self={standing.playerId === playerId}
+              $connected={standing.connected}
+            >
+              <td>{standing.rank}</td>
+              <td>{standing.name}{standing.playerId === playerId ? ' (you)' : ''}</td>
+              <td>{standing.equity.toFixed(2)}</td>
+              <PnlCell $value={standing.pnl}>{standing.pnl >= 0 ? '+' : ''}{standing.pnl.toFixed(2)}</PnlCell>
+              <td>{standing.trades}</td>
+            </StandingRow>
+          ))}
+        </tbody>
+      </Standings>
+
+      <FillFeed>
+        {room.getFills().map((fill, index) => (
+          <FillItem key={`${fill.timestamp}-${fill.playerId}-${index}`} $side={fill.side}>
+            {fill.name} {fill.side === 'buy' ? 'bought' : 'sold'} {fill.size.toFixed(2)} @ {fill.price.toFixed(5)}
+          </FillItem>
+        ))}
+        {room.getFills().length === 0 && <div>No fills yet</div>}
+      </FillFeed>
+    </RoomContainer>
+  );
+};
+
+export default RoomPanel;
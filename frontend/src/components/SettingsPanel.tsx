@@ -2,34 +2,10 @@ import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import type { Config } from '../types';
 import { clearAllSavedData } from '../utils/localStorage';
-
-// Market condition presets
-const MARKET_PRESETS = {
-  CHILL: {
-    volatility: 0.0005,
-    spread: 0.0001,
-    updateInterval: 20,
-    maxTradesPerSecond: 5
-  },
-  ON_FIRE: {
-    volatility: 0.01,
-    spread: 0.0005,
-    updateInterval: 10,
-    maxTradesPerSecond: 10
-  },
-  CRAZY: {
-    volatility: 0.05,
-    spread: 0.001,
-    updateInterval: 5,
-    maxTradesPerSecond: 20
-  },
-  EXTREME: {
-    volatility: 0.15,
-    spread: 0.002,
-    updateInterval: 3,
-    maxTradesPerSecond: 30
-  }
-};
+import { getMarketDataSources } from '../sources';
+import { DEFAULT_FEE_SCHEDULE, FEE_MODEL_LABELS } from '../utils/fees';
+import { MARKET_PRESETS } from '../utils/marketSimulator';
+import type { MarketPresetKey } from '../utils/marketSimulator';
 
 interface SettingsPanelProps {
   config: Config;
@@ -137,7 +113,7 @@ const PresetButtonsContainer = styled.div`
   margin-bottom: 0.7rem;
 `;
 
-const PresetButton = styled.button<{ $preset: 'CHILL' | 'ON_FIRE' | 'CRAZY' | 'EXTREME' }>`
+const PresetButton = styled.button<{ $preset: MarketPresetKey }>`
   padding: 0.75rem 1.5rem;
   border: none;
   border-radius: 4px;
@@ -344,7 +320,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, updateConfig }) =
     setFormValues({ ...config });
   };
 
-  const applyPreset = (preset: 'CHILL' | 'ON_FIRE' | 'CRAZY' | 'EXTREME') => {
+  const applyPreset = (preset: MarketPresetKey) => {
     const presetConfig = MARKET_PRESETS[preset];
     const newConfig = { ...formValues, ...presetConfig };
     setFormValues(newConfig);
@@ -395,9 +371,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, updateConfig }) =
             value={formValues.marketDataSource}
             onChange={handleChange}
           >
-            <option value="simulator">Simulator</option>
-            <option value="binance">Binance (Live)</option>
-            <option value="else">Else (WIP)</option>
+            {getMarketDataSources().map(source => (
+              <option key={source.id} value={source.id}>{source.label}</option>
+            ))}
           </Select>
         </FormGroup>
 
@@ -709,6 +685,92 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, updateConfig }) =
           </Select>
         </FormGroup>
 
+        <FormGroup>
+          <Label htmlFor="feeModel">Fee Model</Label>
+          <Select
+            id="feeModel"
+            name="feeModel"
+            value={formValues.feeModel ?? DEFAULT_FEE_SCHEDULE.model}
+            onChange={handleChange}
+          >
+            {(Object.keys(FEE_MODEL_LABELS) as (keyof typeof FEE_MODEL_LABELS)[]).map(model => (
+              <option key={model} value={model}>{FEE_MODEL_LABELS[model]}</option>
+            ))}
+          </Select>
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="makerFee">Maker Fee</Label>
+          <Input
+            id="makerFee"
+            name="makerFee"
+            type="number"
+            step="0.0001"
+            value={formValues.makerFee ?? DEFAULT_FEE_SCHEDULE.makerFee}
+            onChange={handleChange}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="takerFee">Taker Fee</Label>
+          <Input
+            id="takerFee"
+            name="takerFee"
+            type="number"
+            step="0.0001"
+            value={formValues.takerFee ?? DEFAULT_FEE_SCHEDULE.takerFee}
+            onChange={handleChange}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="minCommission">Minimum Commission ($)</Label>
+          <Input
+            id="minCommission"
+            name="minCommission"
+            type="number"
+            step="0.01"
+            value={formValues.minCommission ?? DEFAULT_FEE_SCHEDULE.minCommission}
+            onChange={handleChange}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="fundingLongRate">Funding Rate, Longs</Label>
+          <Input
+            id="fundingLongRate"
+            name="fundingLongRate"
+            type="number"
+            step="0.0001"
+            value={formValues.fundingLongRate ?? DEFAULT_FEE_SCHEDULE.fundingLongRate}
+            onChange={handleChange}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="fundingShortRate">Funding Rate, Shorts</Label>
+          <Input
+            id="fundingShortRate"
+            name="fundingShortRate"
+            type="number"
+            step="0.0001"
+            value={formValues.fundingShortRate ?? DEFAULT_FEE_SCHEDULE.fundingShortRate}
+            onChange={handleChange}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="fundingInterval">Funding Interval (ms)</Label>
+          <Input
+            id="fundingInterval"
+            name="fundingInterval"
+            type="number"
+            step="1000"
+            value={formValues.fundingInterval ?? DEFAULT_FEE_SCHEDULE.fundingInterval}
+            onChange={handleChange}
+          />
+        </FormGroup>
+
         <ButtonContainer>
           <Button type="button" onClick={handleReset}>Reset Form</Button>
           <Button
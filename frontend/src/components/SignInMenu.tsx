@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import type { AuthSession } from '../types';
+import { signIn } from '../utils/api';
+
+interface SignInMenuProps {
+  session: AuthSession | null;
+  onSignIn: (session: AuthSession) => void;
+  onSignOut: () => void;
+}
+
+const MenuContainer = styled.div`
+  position: relative;
+`;
+
+const MenuButton = styled.button`
+  background-color: ${props => props.theme.colors.chart.background};
+  color: ${props => props.theme.colors.foreground};
+  border: 1px solid ${props => props.theme.colors.chart.grid};
+  border-radius: 4px;
+  padding: 0.5rem 1rem;
+  cursor: pointer;
+  transition: all 0.2s;
+
+  &:hover {
+    background-color: ${props => props.theme.colors.chart.grid};
+  }
+`;
+
+const Dropdown = styled.form`
+  position: absolute;
+  top: calc(100% + 0.5rem);
+  right: 0;
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  background-color: #2A2A2A;
+  border-radius: 8px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+  padding: 1rem;
+  z-index: 100;
+  min-width: 220px;
+`;
+
+const DropdownTitle = styled.div`
+  font-weight: bold;
+  color: ${props => props.theme.colors.foreground};
+`;
+
+const TextInput = styled.input`
+  background-color: ${props => props.theme.colors.chart.background};
+  color: ${props => props.theme.colors.foreground};
+  border: 1px solid ${props => props.theme.colors.chart.grid};
+  border-radius: 4px;
+  padding: 0.4rem 0.5rem;
+`;
+
+const SubmitButton = styled.button`
+  background-color: ${props => props.theme.colors.primary};
+  color: white;
+  border: none;
+  border-radius: 4px;
+  padding: 0.5rem;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const ModeToggle = styled.button`
+  background: none;
+  border: none;
+  color: ${props => props.theme.colors.accent};
+  cursor: pointer;
+  font-size: 0.8rem;
+  padding: 0;
+`;
+
+const ErrorText = styled.div`
+  color: ${props => props.theme.colors.sell};
+  font-size: 0.8rem;
+`;
+
+const SignInMenu: React.FC<SignInMenuProps> = ({ session, onSignIn, onSignOut }) => {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (session) {
+    return (
+      <MenuContainer>
+        <MenuButton onClick={onSignOut} title={`Signed in as ${session.user.username}`}>
+          {session.user.username}{session.user.role === 'admin' ? ' (admin)' : ''} · Sign out
+        </MenuButton>
+      </MenuContainer>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending(true);
+    setError(null);
+    try {
+      onSignIn(await signIn(mode, username.trim(), password));
+      setOpen(false);
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <MenuContainer>
+      <MenuButton onClick={() => setOpen(!open)}>Sign in</MenuButton>
+      {open && (
+        <Dropdown onSubmit={handleSubmit}>
+          <DropdownTitle>{mode === 'login' ? 'Sign in to the server' : 'Create an account'}</DropdownTitle>
+          <TextInput
+            type="text"
+            placeholder="Username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <TextInput
+            type="password"
+            placeholder="Password"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {error && <ErrorText>{error}</ErrorText>}
+          <SubmitButton type="submit" disabled={pending || !username.trim() || !password}>
+            {mode === 'login' ? 'Sign in' : 'Register'}
+          </SubmitButton>
+          <ModeToggle type="button" onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}>
+            {mode === 'login' ? 'New here? Create an account' : 'Have an account? Sign in'}
+          </ModeToggle>
+        </Dropdown>
+      )}
+    </MenuContainer>
+  );
+};
+
+export default SignInMenu;
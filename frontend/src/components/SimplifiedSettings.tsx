@@ -1,13 +1,41 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
-import type { Config } from '../types';
-import { MARKET_PATTERN_PRESETS } from '../utils/marketSimulator';
+import type { Config, CostBasisMethod, CustomPattern, FeeModel, PriceModelType } from '../types';
+import { MARKET_PATTERN_PRESETS, MARKET_PRESETS, MARKET_PRESET_LABELS } from '../utils/marketSimulator';
+import type { MarketPresetKey } from '../utils/marketSimulator';
+import { DEFAULT_UNIVERSE, MARKET_UNIVERSES, getMarketUniverse } from '../utils/multiAssetSimulator';
+import { buildCorrelationMatrix, factorCorrelationMatrix, getPairKey } from '../utils/correlation';
+import {
+  DEFAULT_PRICE_MODEL,
+  PRICE_MODEL_DESCRIPTIONS,
+  PRICE_MODEL_LABELS,
+  PRICE_MODEL_PARAMETERS,
+  resolvePriceModelParams
+} from '../utils/priceModels';
+import { SCENARIO_PRESETS, describeSegment, getScenarioDuration, parseScenario } from '../utils/scenario';
+import { parseCustomPattern, serializeCustomPattern } from '../utils/customPatterns';
+import { loadCustomPatterns, saveCustomPatterns } from '../utils/localStorage';
+import { DEFAULT_MARGIN_SETTINGS } from '../utils/margin';
+import { COST_BASIS_LABELS, DEFAULT_COST_BASIS } from '../utils/positionAccounting';
+import { FEE_MODEL_LABELS, getFeeSchedule } from '../utils/fees';
+import { getRiskSettings } from '../utils/riskLimits';
+import {
+  formatCandleInterval,
+  getLoadedFile,
+  getMarketDataSource,
+  getMarketDataSources,
+  parseOhlcvCsv,
+  parseRecording,
+  setLoadedFile
+} from '../sources';
+import PatternEditor from './PatternEditor';
 
 interface SimplifiedSettingsProps {
   config: Config;
   updateConfig: (config: Partial<Config>) => void;
   onClose: () => void;
   unlockedSimulators: string[];
+  serverAccount?: boolean; // The account is held by the server, which charges its own fees
 }
 
 const SettingsContainer = styled.div`
@@ -115,6 +143,26 @@ const PatternDescription = styled.div`
   opacity: 0.8;
 `;
 
+const PatternActions = styled.div`
+  display: flex;
+  gap: 6px;
+  margin-top: 8px;
+`;
+
+const PatternAction = styled.button`
+  background: rgba(255, 255, 255, 0.1);
+  border: none;
+  border-radius: 4px;
+  color: white;
+  font-size: 0.75rem;
+  padding: 3px 8px;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.2);
+  }
+`;
+
 const LockedOverlay = styled.div`
   position: absolute;
   top: 0;
@@ -193,14 +241,99 @@ const SymbolSelector = styled.select`
   margin-top: 5px;
 `;
 
+const SeedInput = styled.input`
+  background-color: rgba(255, 255, 255, 0.1);
+  color: white;
+  border: 1px solid rgba(255, 255, 255, 0.2);
+  border-radius: 4px;
+  padding: 8px;
+  width: 140px;
+  margin-left: 10px;
+`;
+
+const RoomInput = styled(SeedInput)`
+  width: 180px;
+`;
+
+const NumberInput = styled(SeedInput)`
+  width: 90px;
+`;
+
+// Config number typed into a box; `value` is what the config holds and
+// rates are shown in percent
+interface NumberField {
+  name: 'makerFee' | 'takerFee' | 'minCommission' | 'fundingLongRate' | 'fundingShortRate' |
+    'maxPositionSize' | 'maxExposure' | 'dailyLossLimit' | 'sessionLossLimit' | 'maxDrawdown';
+  label: string;
+  value: number;
+  percent: boolean;
+}
+
+// Number typed into a box that isn't a config field of its own
+interface CustomNumberField extends Omit<NumberField, 'name'> {
+  name: string;
+  apply: (value: number) => void;
+}
+
+const FileInput = styled.input`
+  flex: 2;
+  font-size: 0.8rem;
+  color: rgba(255, 255, 255, 0.8);
+  margin-left: 10px;
+`;
+
+const FileStatus = styled.div<{ $error?: boolean }>`
+  font-size: 0.8rem;
+  color: ${props => props.$error ? '#F44336' : 'rgba(255, 255, 255, 0.6)'};
+  margin: -8px 0 15px 0;
+`;
+
+// Sources that play a file chosen here, with how to parse and describe it
+const FILE_SOURCES: Record<string, {
+  label: string;
+  accept: string;
+  hint: string;
+  parse: (text: string) => { content: unknown; summary: string };
+}> = {
+  replay: {
+    label: 'Recording',
+    accept: '.ndjson,.jsonl',
+    hint: 'Record a session from the status bar, then load the .ndjson file here',
+    parse: (text) => {
+      const recording = parseRecording(text);
+      return { content: recording, summary: `${recording.frames.length} frames from ${recording.header.source}` };
+    }
+  },
+  csv: {
+    label: 'CSV File',
+    accept: '.csv,.txt',
+    hint: 'OHLCV with a header row (time, open, high, low, close, volume) or a Binance kline dump',
+    parse: (text) => {
+      const imported = parseOhlcvCsv(text);
+      const warnings = imported.warnings.length > 0 ? ` (${imported.warnings.join('; ')})` : '';
+      return {
+        content: imported,
+        summary: `${imported.candles.length} bars, ${formatCandleInterval(imported.intervalMs)} interval${warnings}`
+      };
+    }
+  }
+};
+
 const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({ 
   config, 
   updateConfig, 
   onClose,
-  unlockedSimulators
+  unlockedSimulators,
+  serverAccount = false
 }) => {
   const [activeTab, setActiveTab] = useState<'general' | 'simulator' | 'advanced'>('general');
   const [selectedPattern, setSelectedPattern] = useState<string | null>(null);
+  const [fileStatus, setFileStatus] = useState<Record<string, { message: string; error: boolean }>>({});
+  const [scenarioFileStatus, setScenarioFileStatus] = useState<{ message: string; error: boolean } | null>(null);
+  const [customPatterns, setCustomPatterns] = useState<CustomPattern[]>(() => loadCustomPatterns());
+  const [patternFileStatus, setPatternFileStatus] = useState<{ message: string; error: boolean } | null>(null);
+  // Pattern open in the editor; null for a new one
+  const [editingPattern, setEditingPattern] = useState<CustomPattern | null | undefined>(undefined);
   
   // Available trading pairs
   const tradingPairs = [
@@ -251,6 +384,236 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
     updateConfig({ [name]: parseFloat(value) });
   };
 
+  // Room changes reconnect, so they apply when editing finishes, not on every keystroke
+  const commitRoom = (value: string) => {
+    const room = value.trim();
+    if (room !== (config.backendRoom ?? '')) {
+      updateConfig({ backendRoom: room === '' ? undefined : room });
+    }
+  };
+
+  // Fee schedule, with the unit each cost field is entered in
+  const feeSchedule = getFeeSchedule(config);
+  const feesInPercent = feeSchedule.model === 'percent';
+  const costFields: NumberField[] = [
+    { name: 'makerFee', label: `Maker Fee (${feesInPercent ? '%' : '$/unit'})`, value: feeSchedule.makerFee, percent: feesInPercent },
+    { name: 'takerFee', label: `Taker Fee (${feesInPercent ? '%' : '$/unit'})`, value: feeSchedule.takerFee, percent: feesInPercent },
+    { name: 'minCommission', label: 'Min. Commission ($)', value: feeSchedule.minCommission, percent: false },
+    { name: 'fundingLongRate', label: 'Funding, Longs (%)', value: feeSchedule.fundingLongRate, percent: true },
+    { name: 'fundingShortRate', label: 'Funding, Shorts (%)', value: feeSchedule.fundingShortRate, percent: true }
+  ];
+
+  const riskSettings = getRiskSettings(config);
+  const riskFields: NumberField[] = [
+    { name: 'maxPositionSize', label: 'Max Position (units)', value: riskSettings.maxPositionSize, percent: false },
+    { name: 'maxExposure', label: 'Max Exposure ($)', value: riskSettings.maxExposure, percent: false },
+    { name: 'dailyLossLimit', label: 'Daily Loss Limit ($)', value: riskSettings.dailyLossLimit, percent: false },
+    { name: 'sessionLossLimit', label: 'Session Loss Limit ($)', value: riskSettings.sessionLossLimit, percent: false },
+    { name: 'maxDrawdown', label: 'Max Drawdown (%)', value: riskSettings.maxDrawdown, percent: true }
+  ];
+
+  // Correlated markets: per-asset volatility and drift, and pairwise correlations
+  const universe = getMarketUniverse(config);
+  const assetFields: CustomNumberField[] = universe.assets.flatMap(asset => [
+    {
+      name: `${asset.symbol}-volatility`,
+      label: `${asset.symbol.toUpperCase()} Volatility (%)`,
+      value: asset.volatility,
+      percent: true,
+      apply: (volatility: number) => updateConfig({
+        assetOverrides: { ...config.assetOverrides, [asset.symbol]: { ...config.assetOverrides?.[asset.symbol], volatility } }
+      })
+    },
+    {
+      name: `${asset.symbol}-drift`,
+      label: `${asset.symbol.toUpperCase()} Drift (%/s)`,
+      value: asset.drift,
+      percent: true,
+      apply: (drift: number) => updateConfig({
+        assetOverrides: { ...config.assetOverrides, [asset.symbol]: { ...config.assetOverrides?.[asset.symbol], drift } }
+      })
+    }
+  ]);
+  const correlationFields: CustomNumberField[] = universe.assets.flatMap((a, i) =>
+    universe.assets.slice(i + 1).map(b => {
+      const pair = getPairKey(a.symbol, b.symbol);
+      return {
+        name: pair,
+        label: `${a.symbol.toUpperCase()} / ${b.symbol.toUpperCase()}`,
+        value: universe.correlations[pair] ?? 0,
+        percent: false,
+        apply: (correlation: number) => updateConfig({
+          correlationOverrides: { ...config.correlationOverrides, [pair]: Math.max(-1, Math.min(1, correlation)) }
+        })
+      };
+    })
+  );
+  const correlationShrinkage = factorCorrelationMatrix(
+    buildCorrelationMatrix(universe.assets.map(asset => asset.symbol), universe.correlations)
+  ).shrinkage;
+
+  // Price models: the simulator runs the selected one, the multi-asset simulator each asset's own
+  const priceModel = config.priceModel ?? DEFAULT_PRICE_MODEL;
+  const priceModelParams = resolvePriceModelParams(config.priceModelParams);
+  const modelsInUse = config.marketDataSource === 'multiAsset'
+    ? [...new Set(universe.assets.map(asset => asset.priceModel))]
+    : [priceModel];
+  const priceModelFields: CustomNumberField[] = modelsInUse.flatMap(model =>
+    PRICE_MODEL_PARAMETERS[model]
+      // Each asset of a universe reverts to its own initial price
+      .filter(parameter => config.marketDataSource !== 'multiAsset' || parameter.key !== 'meanPrice')
+      .map(parameter => ({
+        name: parameter.key,
+        label: parameter.label,
+        value: priceModelParams[parameter.key],
+        percent: parameter.percent,
+        apply: (value: number) => updateConfig({ priceModelParams: { ...config.priceModelParams, [parameter.key]: value } })
+      }))
+  );
+
+  // Sources with a fixed set of symbols chart the first one unless the current one is offered
+  const handleSourceChange = (sourceId: string) => {
+    const symbols = getMarketDataSource(sourceId)?.getSymbols?.(config).map(entry => entry.symbol);
+    updateConfig(symbols && !symbols.includes(config.symbol)
+      ? { marketDataSource: sourceId, symbol: symbols[0] }
+      : { marketDataSource: sourceId });
+  };
+
+  // Like the room, typed numbers apply when editing finishes
+  const commitNumber = (field: NumberField | CustomNumberField, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) return;
+    const next = field.percent ? parsed / 100 : parsed;
+    if (next === field.value) return;
+    if ('apply' in field) {
+      field.apply(next);
+    } else {
+      updateConfig({ [field.name]: next });
+    }
+  };
+
+  const renderNumberFields = (fields: (NumberField | CustomNumberField)[]) => fields.map(field => {
+    const shown = field.percent ? Number((field.value * 100).toPrecision(6)) : field.value;
+    return (
+      <SettingsRow key={field.name}>
+        <SettingsLabel>{field.label}:</SettingsLabel>
+        <NumberInput
+          key={`${field.name}-${shown}`}
+          type="number"
+          step="any"
+          defaultValue={shown}
+          onBlur={(e) => commitNumber(field, e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && commitNumber(field, e.currentTarget.value)}
+        />
+      </SettingsRow>
+    );
+  });
+
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // An empty seed means a fresh random market on every start
+    const value = e.target.value.trim();
+    updateConfig({ seed: value === '' ? undefined : parseInt(value, 10) });
+  };
+
+  const handleSourceFile = async (sourceId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { content, summary } = FILE_SOURCES[sourceId].parse(await file.text());
+      setLoadedFile(sourceId, { name: file.name, content });
+      setFileStatus(prev => ({ ...prev, [sourceId]: { message: `Loaded ${file.name}: ${summary}`, error: false } }));
+    } catch (error) {
+      console.error(`Error loading ${file.name}:`, error);
+      setFileStatus(prev => ({ ...prev, [sourceId]: { message: `${file.name}: ${(error as Error).message}`, error: true } }));
+    }
+  };
+
+  // Scenarios restart the market whenever a new one is set, restarts included
+  const scenarioPreset = Object.entries(SCENARIO_PRESETS).find(([, preset]) => preset.name === config.scenario?.name)?.[0];
+  const handleScenarioSelect = (key: string) => {
+    if (key === 'custom') return;
+    setScenarioFileStatus(null);
+    updateConfig({ scenario: key === '' ? undefined : SCENARIO_PRESETS[key] });
+  };
+
+  const handleScenarioFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const scenario = parseScenario(await file.text());
+      updateConfig({ scenario });
+      setScenarioFileStatus({ message: `Loaded ${file.name}: ${scenario.segments.length} segments`, error: false });
+    } catch (error) {
+      console.error(`Error loading ${file.name}:`, error);
+      setScenarioFileStatus({ message: `${file.name}: ${(error as Error).message}`, error: true });
+    }
+  };
+
+  const storeCustomPatterns = (patterns: CustomPattern[]) => {
+    setCustomPatterns(patterns);
+    saveCustomPatterns(patterns);
+  };
+
+  const handleCustomPatternSelect = (pattern: CustomPattern) => {
+    setSelectedPattern(null);
+    updateConfig({
+      volatility: pattern.volatility,
+      patternType: 'custom',
+      patternDuration: pattern.duration,
+      customPattern: pattern,
+      marketDataSource: 'simulator'
+    });
+  };
+
+  const handleCustomPatternSave = (pattern: CustomPattern) => {
+    const exists = customPatterns.some(saved => saved.id === pattern.id);
+    storeCustomPatterns(exists
+      ? customPatterns.map(saved => (saved.id === pattern.id ? pattern : saved))
+      : [...customPatterns, pattern]);
+    setEditingPattern(undefined);
+
+    // Replay an edited pattern that is running
+    if (config.patternType === 'custom' && config.customPattern?.id === pattern.id) {
+      handleCustomPatternSelect(pattern);
+    }
+  };
+
+  const handleCustomPatternDelete = (pattern: CustomPattern) => {
+    storeCustomPatterns(customPatterns.filter(saved => saved.id !== pattern.id));
+  };
+
+  const handleCustomPatternExport = (pattern: CustomPattern) => {
+    const blob = new Blob([serializeCustomPattern(pattern)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${pattern.name.replace(/[^\w-]+/g, '-')}.pattern.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCustomPatternFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const pattern = parseCustomPattern(await file.text());
+      storeCustomPatterns([...customPatterns, pattern]);
+      setPatternFileStatus({ message: `Imported ${pattern.name} from ${file.name}`, error: false });
+    } catch (error) {
+      console.error(`Error importing ${file.name}:`, error);
+      setPatternFileStatus({ message: `${file.name}: ${(error as Error).message}`, error: true });
+    }
+    e.target.value = '';
+  };
+
+  const fileSource = FILE_SOURCES[config.marketDataSource];
+  const loadedFileName = getLoadedFile(config.marketDataSource)?.name;
+  const currentFileStatus = fileStatus[config.marketDataSource] ??
+    { message: loadedFileName ? `Loaded ${loadedFileName}` : fileSource?.hint, error: false };
+
   return (
     <SettingsContainer>
       <SettingsHeader>
@@ -288,7 +651,7 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
                 <SettingsLabel>Market Data:</SettingsLabel>
                 <select
                   value={config.marketDataSource}
-                  onChange={(e) => updateConfig({ marketDataSource: e.target.value as any })}
+                  onChange={(e) => handleSourceChange(e.target.value)}
                   style={{
                     backgroundColor: 'rgba(255, 255, 255, 0.1)',
                     color: 'white',
@@ -298,8 +661,11 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
                     marginLeft: '10px'
                   }}
                 >
-                  <option value="simulator">Simulator</option>
-                  <option value="binance">Binance (Live)</option>
+                  {getMarketDataSources().map(source => (
+                    <option key={source.id} value={source.id} title={source.description}>
+                      {source.label}
+                    </option>
+                  ))}
                 </select>
               </SettingsRow>
               
@@ -318,8 +684,96 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
                   </SymbolSelector>
                 </SettingsRow>
               )}
+
+              {config.marketDataSource === 'multiAsset' && (
+                <>
+                  <SettingsRow>
+                    <SettingsLabel>Universe:</SettingsLabel>
+                    <SymbolSelector
+                      value={config.universe ?? DEFAULT_UNIVERSE}
+                      onChange={(e) => updateConfig({
+                        universe: e.target.value,
+                        symbol: MARKET_UNIVERSES[e.target.value].assets[0].symbol
+                      })}
+                    >
+                      {Object.entries(MARKET_UNIVERSES).map(([key, option]) => (
+                        <option key={key} value={key} title={option.description}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </SymbolSelector>
+                  </SettingsRow>
+
+                  <SettingsRow>
+                    <SettingsLabel>Charted:</SettingsLabel>
+                    <SymbolSelector
+                      value={config.symbol}
+                      onChange={(e) => updateConfig({ symbol: e.target.value })}
+                    >
+                      {universe.assets.map(asset => (
+                        <option key={asset.symbol} value={asset.symbol}>
+                          {asset.name} ({asset.symbol.toUpperCase()})
+                        </option>
+                      ))}
+                    </SymbolSelector>
+                  </SettingsRow>
+                </>
+              )}
+
+              {config.marketDataSource === 'backend' && (
+                <SettingsRow>
+                  <SettingsLabel>Room:</SettingsLabel>
+                  <RoomInput
+                    key={config.backendRoom ?? ''}
+                    type="text"
+                    placeholder="Private market"
+                    maxLength={64}
+                    title="Traders who enter the same room share one market"
+                    defaultValue={config.backendRoom ?? ''}
+                    onBlur={(e) => commitRoom(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && commitRoom(e.currentTarget.value)}
+                  />
+                </SettingsRow>
+              )}
+
+              {fileSource && (
+                <>
+                  <SettingsRow>
+                    <SettingsLabel>{fileSource.label}:</SettingsLabel>
+                    <FileInput
+                      type="file"
+                      accept={fileSource.accept}
+                      onChange={(e) => handleSourceFile(config.marketDataSource, e)}
+                    />
+                  </SettingsRow>
+                  <FileStatus $error={currentFileStatus.error}>
+                    {currentFileStatus.message}
+                  </FileStatus>
+                </>
+              )}
             </SettingsSection>
             
+            <SettingsSection>
+              <SectionTitle>Market Conditions</SectionTitle>
+              <PatternGrid>
+                {(Object.keys(MARKET_PRESETS) as MarketPresetKey[]).map(key => {
+                  const preset = MARKET_PRESETS[key];
+                  return (
+                    <PatternCard
+                      key={key}
+                      $selected={Object.entries(preset).every(([field, value]) => config[field as keyof Config] === value)}
+                      onClick={() => updateConfig(preset)}
+                    >
+                      <PatternTitle>{MARKET_PRESET_LABELS[key]}</PatternTitle>
+                      <PatternDescription>
+                        Taker fee {((preset.takerFee ?? 0) * 100).toFixed(2)}%, min. ${preset.minCommission ?? 0}
+                      </PatternDescription>
+                    </PatternCard>
+                  );
+                })}
+              </PatternGrid>
+            </SettingsSection>
+
             <SettingsSection>
               <SectionTitle>Game Settings</SectionTitle>
               <SettingsRow>
@@ -349,10 +803,249 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
                 />
                 <SettingsValue>{config.maxTradesPerSecond}/sec</SettingsValue>
               </SettingsRow>
+
+              <SettingsRow>
+                <SettingsLabel>Cost Basis:</SettingsLabel>
+                <SymbolSelector
+                  value={config.costBasis ?? DEFAULT_COST_BASIS}
+                  onChange={(e) => updateConfig({ costBasis: e.target.value as CostBasisMethod })}
+                  title="How closing trades are matched to the lots they close when booking realized P&L"
+                >
+                  {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(method => (
+                    <option key={method} value={method}>
+                      {COST_BASIS_LABELS[method]}
+                    </option>
+                  ))}
+                </SymbolSelector>
+              </SettingsRow>
+
+              <SettingsRow>
+                <SettingsLabel>Margin Trading:</SettingsLabel>
+                <input
+                  type="checkbox"
+                  checked={config.marginTrading ?? false}
+                  onChange={(e) => updateConfig({ marginTrading: e.target.checked })}
+                />
+              </SettingsRow>
+
+              {config.marginTrading && (
+                <>
+                  <SettingsRow>
+                    <SettingsLabel>Leverage:</SettingsLabel>
+                    <Slider
+                      type="range"
+                      name="leverage"
+                      min="1"
+                      max="20"
+                      step="1"
+                      value={config.leverage ?? DEFAULT_MARGIN_SETTINGS.leverage}
+                      onChange={handleSliderChange}
+                    />
+                    <SettingsValue>{config.leverage ?? DEFAULT_MARGIN_SETTINGS.leverage}x</SettingsValue>
+                  </SettingsRow>
+
+                  <SettingsRow>
+                    <SettingsLabel>Maintenance Margin:</SettingsLabel>
+                    <Slider
+                      type="range"
+                      name="maintenanceMargin"
+                      min="0.01"
+                      max="0.25"
+                      step="0.01"
+                      value={config.maintenanceMargin ?? DEFAULT_MARGIN_SETTINGS.maintenanceMargin}
+                      onChange={handleSliderChange}
+                    />
+                    <SettingsValue>{((config.maintenanceMargin ?? DEFAULT_MARGIN_SETTINGS.maintenanceMargin) * 100).toFixed(0)}%</SettingsValue>
+                  </SettingsRow>
+
+                  <SettingsRow>
+                    <SettingsLabel>Borrow Rate:</SettingsLabel>
+                    <Slider
+                      type="range"
+                      name="borrowRate"
+                      min="0"
+                      max="0.5"
+                      step="0.01"
+                      value={config.borrowRate ?? DEFAULT_MARGIN_SETTINGS.borrowRate}
+                      onChange={handleSliderChange}
+                    />
+                    <SettingsValue>{((config.borrowRate ?? DEFAULT_MARGIN_SETTINGS.borrowRate) * 100).toFixed(0)}%/yr</SettingsValue>
+                  </SettingsRow>
+                </>
+              )}
+            </SettingsSection>
+
+            <SettingsSection>
+              <SectionTitle>Trading Costs</SectionTitle>
+              {serverAccount && (
+                <PatternDescription style={{ marginBottom: '10px' }}>
+                  Your account is held by the server, which charges its own fee schedule and no funding. These settings apply to local accounts.
+                </PatternDescription>
+              )}
+              <SettingsRow>
+                <SettingsLabel>Fee Model:</SettingsLabel>
+                <SymbolSelector
+                  value={feeSchedule.model}
+                  onChange={(e) => updateConfig({ feeModel: e.target.value as FeeModel })}
+                >
+                  {(Object.keys(FEE_MODEL_LABELS) as FeeModel[]).map(model => (
+                    <option key={model} value={model}>
+                      {FEE_MODEL_LABELS[model]}
+                    </option>
+                  ))}
+                </SymbolSelector>
+              </SettingsRow>
+
+              {renderNumberFields(costFields)}
+
+              <SettingsRow>
+                <SettingsLabel>Funding Interval:</SettingsLabel>
+                <Slider
+                  type="range"
+                  name="fundingInterval"
+                  min="5000"
+                  max="600000"
+                  step="5000"
+                  value={feeSchedule.fundingInterval}
+                  onChange={handleSliderChange}
+                />
+                <SettingsValue>{formatCandleInterval(feeSchedule.fundingInterval)}</SettingsValue>
+              </SettingsRow>
+            </SettingsSection>
+
+            <SettingsSection>
+              <SectionTitle>Risk Limits</SectionTitle>
+              <PatternDescription style={{ marginBottom: '10px' }}>
+                Set a limit to 0 to turn it off. Hitting a loss limit locks trading; trades that reduce your position are still allowed.
+              </PatternDescription>
+              {renderNumberFields(riskFields)}
+
+              <SettingsRow>
+                <SettingsLabel>Cool-down:</SettingsLabel>
+                <Slider
+                  type="range"
+                  name="riskCooldown"
+                  min="60000"
+                  max="3600000"
+                  step="60000"
+                  value={riskSettings.cooldown}
+                  onChange={handleSliderChange}
+                />
+                <SettingsValue>{formatCandleInterval(riskSettings.cooldown)}</SettingsValue>
+              </SettingsRow>
             </SettingsSection>
           </>
         )}
         
+        {activeTab === 'simulator' && config.marketDataSource === 'multiAsset' && (
+          <SettingsSection>
+            <SectionTitle>Correlated Markets</SectionTitle>
+            <PatternDescription style={{ marginBottom: '10px' }}>
+              {MARKET_UNIVERSES[config.universe ?? DEFAULT_UNIVERSE]?.description}. Each asset cycles through its own patterns.
+            </PatternDescription>
+            {renderNumberFields(assetFields)}
+            {universe.assets.map(asset => (
+              <SettingsRow key={`${asset.symbol}-model`}>
+                <SettingsLabel>{asset.symbol.toUpperCase()} Model:</SettingsLabel>
+                <SymbolSelector
+                  value={asset.priceModel}
+                  onChange={(e) => updateConfig({
+                    assetOverrides: {
+                      ...config.assetOverrides,
+                      [asset.symbol]: { ...config.assetOverrides?.[asset.symbol], priceModel: e.target.value as PriceModelType }
+                    }
+                  })}
+                >
+                  {Object.entries(PRICE_MODEL_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </SymbolSelector>
+              </SettingsRow>
+            ))}
+
+            <SectionTitle style={{ marginTop: '15px' }}>Correlations</SectionTitle>
+            {renderNumberFields(correlationFields)}
+            {correlationShrinkage > 0 && (
+              <FileStatus $error={true}>
+                These correlations can't all hold at once; they are weakened by {(correlationShrinkage * 100).toFixed(0)}% to fit.
+              </FileStatus>
+            )}
+          </SettingsSection>
+        )}
+
+        {activeTab === 'simulator' && (config.marketDataSource === 'simulator' || config.marketDataSource === 'multiAsset') && (
+          <SettingsSection>
+            <SectionTitle>Price Model</SectionTitle>
+            {config.marketDataSource === 'simulator' && (
+              <>
+                <SettingsRow>
+                  <SettingsLabel>Model:</SettingsLabel>
+                  <SymbolSelector
+                    value={priceModel}
+                    onChange={(e) => updateConfig({ priceModel: e.target.value as PriceModelType })}
+                  >
+                    {Object.entries(PRICE_MODEL_LABELS).map(([key, label]) => (
+                      <option key={key} value={key}>{label}</option>
+                    ))}
+                  </SymbolSelector>
+                </SettingsRow>
+                <PatternDescription style={{ marginBottom: '10px' }}>
+                  {PRICE_MODEL_DESCRIPTIONS[priceModel]}.
+                </PatternDescription>
+              </>
+            )}
+            {config.marketDataSource === 'multiAsset' && (
+              <PatternDescription style={{ marginBottom: '10px' }}>
+                Settings of the models the assets run; each asset's model is chosen under Correlated Markets.
+              </PatternDescription>
+            )}
+            {renderNumberFields(priceModelFields)}
+          </SettingsSection>
+        )}
+
+        {activeTab === 'simulator' && config.marketDataSource === 'simulator' && (
+          <SettingsSection>
+            <SectionTitle>Scenario</SectionTitle>
+            <SettingsRow>
+              <SettingsLabel>Scenario:</SettingsLabel>
+              <SymbolSelector
+                value={config.scenario ? scenarioPreset ?? 'custom' : ''}
+                onChange={(e) => handleScenarioSelect(e.target.value)}
+              >
+                <option value="">None</option>
+                {Object.entries(SCENARIO_PRESETS).map(([key, preset]) => (
+                  <option key={key} value={key} title={preset.description}>{preset.name}</option>
+                ))}
+                {config.scenario && !scenarioPreset && (
+                  <option value="custom">{config.scenario.name}</option>
+                )}
+              </SymbolSelector>
+            </SettingsRow>
+            <SettingsRow>
+              <SettingsLabel>Load JSON:</SettingsLabel>
+              <FileInput type="file" accept=".json" onChange={handleScenarioFile} />
+            </SettingsRow>
+            {scenarioFileStatus && (
+              <FileStatus $error={scenarioFileStatus.error}>
+                {scenarioFileStatus.message}
+              </FileStatus>
+            )}
+            {config.scenario && (
+              <>
+                <PatternDescription style={{ marginBottom: '10px' }}>
+                  {config.scenario.description && <>{config.scenario.description}.<br /></>}
+                  {config.scenario.segments.map(describeSegment).join(' → ')}
+                  {' '}({getScenarioDuration(config.scenario)}s, {config.scenario.loop ? 'loops' : 'then ends'}).
+                  The scenario steers the pattern, volatility and spread while it plays.
+                </PatternDescription>
+                <Button onClick={() => config.scenario && updateConfig({ scenario: { ...config.scenario } })}>
+                  Restart Scenario
+                </Button>
+              </>
+            )}
+          </SettingsSection>
+        )}
+
         {activeTab === 'simulator' && (
           <SettingsSection>
             <SectionTitle>Market Patterns</SectionTitle>
@@ -420,6 +1113,49 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
             )}
           </SettingsSection>
         )}
+
+        {activeTab === 'simulator' && (
+          <SettingsSection>
+            <SectionTitle>Custom Patterns</SectionTitle>
+            <p style={{ fontSize: '0.9rem', opacity: 0.8, marginBottom: '15px' }}>
+              Sketch a price path and the simulator will trade along it, noise and all. Export a pattern to share it.
+            </p>
+
+            <PatternGrid>
+              {customPatterns.map(pattern => (
+                <PatternCard
+                  key={pattern.id}
+                  $selected={config.patternType === 'custom' && config.customPattern?.id === pattern.id}
+                  onClick={() => handleCustomPatternSelect(pattern)}
+                >
+                  <PatternTitle>{pattern.name}</PatternTitle>
+                  <PatternDescription>
+                    {pattern.duration / 1000}s · noise {(pattern.volatility * 100).toFixed(2)}%
+                  </PatternDescription>
+                  <PatternActions onClick={(e) => e.stopPropagation()}>
+                    <PatternAction onClick={() => setEditingPattern(pattern)}>Edit</PatternAction>
+                    <PatternAction onClick={() => handleCustomPatternExport(pattern)}>Export</PatternAction>
+                    <PatternAction onClick={() => handleCustomPatternDelete(pattern)}>Delete</PatternAction>
+                  </PatternActions>
+                </PatternCard>
+              ))}
+              <PatternCard $selected={false} onClick={() => setEditingPattern(null)}>
+                <PatternTitle>+ New Pattern</PatternTitle>
+                <PatternDescription>Draw one with the mouse or a gamepad</PatternDescription>
+              </PatternCard>
+            </PatternGrid>
+
+            <SettingsRow style={{ marginTop: '15px' }}>
+              <SettingsLabel>Import:</SettingsLabel>
+              <FileInput type="file" accept=".json" onChange={handleCustomPatternFile} />
+            </SettingsRow>
+            {patternFileStatus && (
+              <FileStatus $error={patternFileStatus.error}>
+                {patternFileStatus.message}
+              </FileStatus>
+            )}
+          </SettingsSection>
+        )}
         
         {activeTab === 'advanced' && (
           <SettingsSection>
@@ -479,6 +1215,73 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
               />
               <SettingsValue>{config.tradeSizeStep}</SettingsValue>
             </SettingsRow>
+
+            <SettingsRow>
+              <SettingsLabel>Market Impact:</SettingsLabel>
+              <input
+                type="checkbox"
+                checked={config.marketImpact ?? false}
+                onChange={(e) => updateConfig({ marketImpact: e.target.checked })}
+              />
+            </SettingsRow>
+
+            {config.marketImpact && (
+              <>
+                <SettingsRow>
+                  <SettingsLabel>Permanent Impact:</SettingsLabel>
+                  <Slider
+                    type="range"
+                    name="permanentImpact"
+                    min="0"
+                    max="0.01"
+                    step="0.0005"
+                    value={config.permanentImpact ?? 0.001}
+                    onChange={handleSliderChange}
+                  />
+                  <SettingsValue>{((config.permanentImpact ?? 0.001) * 100).toFixed(2)}%</SettingsValue>
+                </SettingsRow>
+
+                <SettingsRow>
+                  <SettingsLabel>Temporary Impact:</SettingsLabel>
+                  <Slider
+                    type="range"
+                    name="temporaryImpact"
+                    min="0"
+                    max="0.02"
+                    step="0.0005"
+                    value={config.temporaryImpact ?? 0.002}
+                    onChange={handleSliderChange}
+                  />
+                  <SettingsValue>{((config.temporaryImpact ?? 0.002) * 100).toFixed(2)}%</SettingsValue>
+                </SettingsRow>
+
+                <SettingsRow>
+                  <SettingsLabel>Impact Half-life:</SettingsLabel>
+                  <Slider
+                    type="range"
+                    name="impactDecay"
+                    min="500"
+                    max="30000"
+                    step="500"
+                    value={config.impactDecay ?? 5000}
+                    onChange={handleSliderChange}
+                  />
+                  <SettingsValue>{((config.impactDecay ?? 5000) / 1000).toFixed(1)}s</SettingsValue>
+                </SettingsRow>
+              </>
+            )}
+
+            <SettingsRow>
+              <SettingsLabel>Market Seed:</SettingsLabel>
+              <SeedInput
+                type="number"
+                min="0"
+                step="1"
+                placeholder="Random"
+                value={config.seed ?? ''}
+                onChange={handleSeedChange}
+              />
+            </SettingsRow>
           </SettingsSection>
         )}
         
@@ -487,6 +1290,14 @@ const SimplifiedSettings: React.FC<SimplifiedSettingsProps> = ({
           <Button $variant="primary" onClick={onClose}>Save & Close</Button>
         </ButtonGroup>
       </SettingsContent>
+
+      {editingPattern !== undefined && (
+        <PatternEditor
+          pattern={editingPattern}
+          onSave={handleCustomPatternSave}
+          onClose={() => setEditingPattern(undefined)}
+        />
+      )}
     </SettingsContainer>
   );
 };
@@ -1,9 +1,12 @@
 import React from 'react';
 import styled from 'styled-components';
 import type { Trade } from '../types';
+import type { RoundTrip } from '../utils/positionAccounting';
 
 interface TradeBookProps {
   trades: Trade[];
+  roundTrips?: RoundTrip[]; // Closed round trips, most recent first
+  marketTrades?: Trade[]; // Public trade tape from the market data source
   maxTrades?: number;
 }
 
@@ -72,7 +75,19 @@ const TradeDetails = styled.div`
   letter-spacing: -0.2px;
 `;
 
-const TradeBook: React.FC<TradeBookProps> = ({ trades, maxTrades = 10 }) => {
+const TradeExecution = styled.div`
+  grid-column: 1 / span 3;
+  display: flex;
+  justify-content: space-between;
+  color: ${props => props.theme.colors.chart.text};
+  font-size: 0.55rem;
+`;
+
+const RealizedPnl = styled.span<{ $value: number }>`
+  color: ${props => props.$value >= 0 ? props.theme.colors.buy : props.theme.colors.sell};
+`;
+
+const TradeBook: React.FC<TradeBookProps> = ({ trades, roundTrips = [], marketTrades = [], maxTrades = 10 }) => {
   // Format timestamp - more compact for trading display
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], {
@@ -85,20 +100,45 @@ const TradeBook: React.FC<TradeBookProps> = ({ trades, maxTrades = 10 }) => {
 
   // Get the most recent trades up to maxTrades
   const recentTrades = trades.slice(0, maxTrades);
+  const recentMarketTrades = marketTrades.slice(0, maxTrades);
+  const recentRoundTrips = roundTrips.slice(0, maxTrades);
+
+  const formatPnl = (pnl: number) => `${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}`;
+
+  // Per-level breakdown for the hover tooltip
+  const formatFills = (trade: Trade) => (trade.fills ?? [])
+    .map(fill => `${fill.size.toFixed(4)} @ ${fill.price.toFixed(5)}`)
+    .join('\n');
 
   return (
     <TradeBookContainer>
       <TradeBookTitle>Recent Trades</TradeBookTitle>
       <TradeList>
         {recentTrades.map(trade => (
-          <TradeItem key={trade.id} side={trade.side}>
+          <TradeItem key={trade.id} side={trade.side} title={formatFills(trade)}>
             <TradeTime>{formatTime(trade.timestamp)}</TradeTime>
             <TradeSide side={trade.side}>
-              {trade.side === 'buy' ? 'B' : 'S'} {Math.abs(trade.size).toFixed(2)}
+              {trade.side === 'buy' ? 'B' : 'S'} {Math.abs(trade.size).toFixed(2)}{trade.liquidation ? ' LIQ' : ''}
             </TradeSide>
             <TradeDetails>
-              ${trade.price.toFixed(5)}
+              ${(trade.avgPrice ?? trade.price).toFixed(5)}
             </TradeDetails>
+            {trade.slippage !== undefined && (
+              <TradeExecution>
+                <span>slip {trade.slippage.toFixed(5)}</span>
+                <span>{trade.fills?.length ?? 1} lvl{(trade.fills?.length ?? 1) !== 1 ? 's' : ''}</span>
+              </TradeExecution>
+            )}
+            {(!!trade.fee || trade.realizedPnl !== undefined) && (
+              <TradeExecution>
+                <span>{trade.fee ? `fee ${trade.fee.toFixed(2)}${trade.liquidity ? ` ${trade.liquidity}` : ''}` : ''}</span>
+                {trade.realizedPnl !== undefined && (
+                  <RealizedPnl $value={trade.realizedPnl} title="Realized P&L, net of fees">
+                    {formatPnl(trade.realizedPnl)}
+                  </RealizedPnl>
+                )}
+              </TradeExecution>
+            )}
           </TradeItem>
         ))}
         {recentTrades.length === 0 && (
@@ -107,6 +147,49 @@ const TradeBook: React.FC<TradeBookProps> = ({ trades, maxTrades = 10 }) => {
           </div>
         )}
       </TradeList>
+      {recentRoundTrips.length > 0 && (
+        <>
+          <TradeBookTitle style={{ marginTop: '0.4rem' }}>Closed Trades</TradeBookTitle>
+          <TradeList>
+            {recentRoundTrips.map(trip => (
+              <TradeItem
+                key={trip.id}
+                side={trip.side === 'long' ? 'buy' : 'sell'}
+                title={`${trip.fills} fill${trip.fills !== 1 ? 's' : ''}, opened ${formatTime(trip.openedAt)}`}
+              >
+                <TradeTime>{formatTime(trip.closedAt)}</TradeTime>
+                <TradeSide side={trip.side === 'long' ? 'buy' : 'sell'}>
+                  {trip.side === 'long' ? 'L' : 'S'} {trip.size.toFixed(2)}
+                </TradeSide>
+                <TradeDetails>
+                  <RealizedPnl $value={trip.realizedPnl}>{formatPnl(trip.realizedPnl)}</RealizedPnl>
+                </TradeDetails>
+                <TradeExecution>
+                  <span>{trip.entryPrice.toFixed(5)} → {trip.exitPrice.toFixed(5)}</span>
+                </TradeExecution>
+              </TradeItem>
+            ))}
+          </TradeList>
+        </>
+      )}
+      {recentMarketTrades.length > 0 && (
+        <>
+          <TradeBookTitle style={{ marginTop: '0.4rem' }}>Market Trades</TradeBookTitle>
+          <TradeList>
+            {recentMarketTrades.map(trade => (
+              <TradeItem key={trade.id} side={trade.side}>
+                <TradeTime>{formatTime(trade.timestamp)}</TradeTime>
+                <TradeSide side={trade.side}>
+                  {trade.side === 'buy' ? 'B' : 'S'} {Math.abs(trade.size).toFixed(4)}
+                </TradeSide>
+                <TradeDetails>
+                  ${trade.price.toFixed(5)}
+                </TradeDetails>
+              </TradeItem>
+            ))}
+          </TradeList>
+        </>
+      )}
     </TradeBookContainer>
   );
 };
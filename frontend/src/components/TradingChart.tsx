@@ -14,8 +14,23 @@ interface TradingChartProps {
     title: string;
     lineStyle?: LineStyle;
   }[];
+  orderLines?: OrderLine[];
+  onOrderLineMove?: (orderId: string, field: OrderLine['field'], price: number) => void;
 }
 
+// A working order's price on the chart; dragging it moves `field` of the order
+export interface OrderLine {
+  orderId: string;
+  field: 'price' | 'stopPrice';
+  price: number;
+  color: string;
+  title: string;
+  pending?: boolean; // Bracket exit still waiting for its entry
+}
+
+// How close (in pixels) the pointer must be to grab an order line
+const ORDER_LINE_GRAB_DISTANCE = 6;
+
 const ChartWrapper = styled.div`
   width: 100%;
   height: 100%;
@@ -48,7 +63,7 @@ const TradeCounter = styled.div<{ $type: 'buy' | 'sell'; $active: boolean }>`
   transform: scale(${props => props.$active ? 1.2 : 1});
 `;
 
-const TradingChart: React.FC<TradingChartProps> = ({ marketData, trades, patternLines = [] }) => {
+const TradingChart: React.FC<TradingChartProps> = ({ marketData, trades, patternLines = [], orderLines = [], onOrderLineMove }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
@@ -71,6 +86,17 @@ const TradingChart: React.FC<TradingChartProps> = ({ marketData, trades, pattern
   // Track active pattern lines
   const [activePatternLines, setActivePatternLines] = useState<string[]>([]);
 
+  // Order lines by `${orderId}:${field}`, and the one being dragged
+  const orderPriceLinesRef = useRef<Record<string, IPriceLine>>({});
+  const orderLinesRef = useRef<OrderLine[]>(orderLines);
+  const onOrderLineMoveRef = useRef(onOrderLineMove);
+  const draggingLineRef = useRef<{ line: OrderLine; price: number } | null>(null);
+
+  useEffect(() => {
+    orderLinesRef.current = orderLines;
+    onOrderLineMoveRef.current = onOrderLineMove;
+  });
+
   // Initialize chart
   useEffect(() => {
     if (chartContainerRef.current) {
@@ -308,6 +334,110 @@ const TradingChart: React.FC<TradingChartProps> = ({ marketData, trades, pattern
     setActivePatternLines(patternLines.map(line => `${line.type}-${line.price}`));
   }, [patternLines]);
 
+  // Draw working orders, moving existing lines rather than recreating them
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    if (!series) return;
+
+    const lines = orderPriceLinesRef.current;
+    const wanted = new Set(orderLines.map(line => `${line.orderId}:${line.field}`));
+    Object.keys(lines).forEach(key => {
+      if (!wanted.has(key)) {
+        series.removePriceLine(lines[key]);
+        delete lines[key];
+      }
+    });
+
+    orderLines.forEach(line => {
+      const key = `${line.orderId}:${line.field}`;
+      // Leave the line under the pointer where the drag put it
+      if (draggingLineRef.current && `${draggingLineRef.current.line.orderId}:${draggingLineRef.current.line.field}` === key) return;
+
+      const options = {
+        price: line.price,
+        color: line.color,
+        lineWidth: 2 as const,
+        lineStyle: line.pending ? LineStyle.Dotted : line.field === 'stopPrice' ? LineStyle.Dashed : LineStyle.Solid,
+        axisLabelVisible: true,
+        title: line.title
+      };
+      if (lines[key]) {
+        lines[key].applyOptions(options);
+      } else {
+        lines[key] = series.createPriceLine(options);
+      }
+    });
+  }, [orderLines]);
+
+  // Drag order lines to modify the order; the chart stops panning while a line is held
+  useEffect(() => {
+    const container = chartContainerRef.current;
+    const chart = chartRef.current;
+    const series = candlestickSeriesRef.current;
+    if (!container || !chart || !series) return;
+
+    const pointerY = (e: MouseEvent) => e.clientY - container.getBoundingClientRect().top;
+
+    const lineAt = (y: number): OrderLine | null => {
+      let closest: OrderLine | null = null;
+      let closestDistance = ORDER_LINE_GRAB_DISTANCE;
+      for (const line of orderLinesRef.current) {
+        const lineY = series.priceToCoordinate(line.price);
+        if (lineY === null) continue;
+        const distance = Math.abs(lineY - y);
+        if (distance <= closestDistance) {
+          closest = line;
+          closestDistance = distance;
+        }
+      }
+      return closest;
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!onOrderLineMoveRef.current) return;
+      const line = lineAt(pointerY(e));
+      if (!line) return;
+      draggingLineRef.current = { line, price: line.price };
+      chart.applyOptions({ handleScroll: false, handleScale: false });
+      e.preventDefault();
+      e.stopPropagation();
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const dragging = draggingLineRef.current;
+      if (!dragging) {
+        container.style.cursor = onOrderLineMoveRef.current && lineAt(pointerY(e)) ? 'ns-resize' : '';
+        return;
+      }
+      const price = series.coordinateToPrice(pointerY(e));
+      if (price === null || price <= 0) return;
+      dragging.price = price;
+      orderPriceLinesRef.current[`${dragging.line.orderId}:${dragging.line.field}`]?.applyOptions({ price });
+    };
+
+    const handleMouseUp = () => {
+      const dragging = draggingLineRef.current;
+      if (!dragging) return;
+      draggingLineRef.current = null;
+      chart.applyOptions({ handleScroll: true, handleScale: true });
+      // Snap back; the order's new price comes back through orderLines if the change is accepted
+      orderPriceLinesRef.current[`${dragging.line.orderId}:${dragging.line.field}`]?.applyOptions({ price: dragging.line.price });
+      if (dragging.price !== dragging.line.price) {
+        onOrderLineMoveRef.current?.(dragging.line.orderId, dragging.line.field, dragging.price);
+      }
+    };
+
+    container.addEventListener('mousedown', handleMouseDown, true);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      container.removeEventListener('mousedown', handleMouseDown, true);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, []);
+
   return (
     <ChartWrapper ref={chartContainerRef}>
       <TradeCounters>
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import type { TickerUpdate } from '../sources';
+
+interface WatchlistProps {
+  tickers: TickerUpdate[]; // Latest price of every symbol the source runs
+  names: Record<string, string>; // Display name by symbol
+  chartedSymbol: string;
+  onSelect: (symbol: string) => void;
+}
+
+// One sample per SAMPLE_INTERVAL, MAX_SAMPLES of them, so a sparkline covers 30s
+const SAMPLE_INTERVAL = 250;
+const MAX_SAMPLES = 120;
+
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 20;
+
+const WatchlistContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  padding: 0.4rem;
+  background-color: ${props => props.theme.colors.chart.background};
+  border-radius: 4px;
+  margin-bottom: 0.25rem;
+`;
+
+const WatchlistTitle = styled.h3`
+  margin: 0 0 0.25rem 0;
+  font-size: 0.7rem;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: ${props => props.theme.colors.foreground};
+  border-bottom: 1px solid ${props => props.theme.colors.chart.grid};
+  padding-bottom: 0.2rem;
+`;
+
+const WatchlistItem = styled.button<{ $charted: boolean }>`
+  display: grid;
+  grid-template-columns: 1fr auto auto;
+  align-items: center;
+  gap: 0.4rem;
+  padding: 0.2rem 0.3rem;
+  border: none;
+  border-radius: 2px;
+  background-color: ${props => props.$charted ? 'rgba(33, 150, 243, 0.15)' : 'transparent'};
+  color: ${props => props.theme.colors.foreground};
+  font-family: 'Roboto Mono', monospace;
+  font-size: 0.65rem;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover {
+    background-color: rgba(255, 255, 255, 0.05);
+  }
+`;
+
+const ItemName = styled.div`
+  display: flex;
+  flex-direction: column;
+`;
+
+const ItemSubtitle = styled.span`
+  color: ${props => props.theme.colors.chart.text};
+  font-size: 0.55rem;
+`;
+
+const ItemPrice = styled.div<{ $change: number }>`
+  text-align: right;
+  color: ${props => props.$change >= 0 ? props.theme.colors.buy : props.theme.colors.sell};
+`;
+
+// Polyline points scaling the prices into the sparkline box
+const sparklinePoints = (prices: number[]): string => {
+  const low = Math.min(...prices);
+  const range = Math.max(...prices) - low || 1;
+  const step = SPARKLINE_WIDTH / Math.max(1, MAX_SAMPLES - 1);
+  return prices
+    .map((price, i) => `${(i * step).toFixed(1)},${(SPARKLINE_HEIGHT - ((price - low) / range) * SPARKLINE_HEIGHT).toFixed(1)}`)
+    .join(' ');
+};
+
+// Every symbol of a multi-asset source with a sparkline of the last 30s;
+// clicking one charts it
+const Watchlist: React.FC<WatchlistProps> = ({ tickers, names, chartedSymbol, onSelect }) => {
+  const [history, setHistory] = useState<{ sampledAt: number; prices: Record<string, number[]> }>({ sampledAt: 0, prices: {} });
+
+  useEffect(() => {
+    const now = Date.now();
+    setHistory(current => {
+      if (now - current.sampledAt < SAMPLE_INTERVAL) return current;
+      const prices: Record<string, number[]> = {};
+      for (const ticker of tickers) {
+        prices[ticker.symbol] = [...(current.prices[ticker.symbol] ?? []), ticker.price].slice(-MAX_SAMPLES);
+      }
+      return { sampledAt: now, prices };
+    });
+  }, [tickers]);
+
+  return (
+    <WatchlistContainer>
+      <WatchlistTitle>Watchlist</WatchlistTitle>
+      {tickers.map(ticker => {
+        const prices = history.prices[ticker.symbol] ?? [ticker.price];
+        const change = prices[0] > 0 ? (ticker.price - prices[0]) / prices[0] * 100 : 0;
+        return (
+          <WatchlistItem
+            key={ticker.symbol}
+            $charted={ticker.symbol === chartedSymbol}
+            onClick={() => onSelect(ticker.symbol)}
+            title={`Chart ${ticker.symbol.toUpperCase()}`}
+          >
+            <ItemName>
+              {ticker.symbol.toUpperCase()}
+              <ItemSubtitle>{names[ticker.symbol] ?? ''}</ItemSubtitle>
+            </ItemName>
+            <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT}>
+              <polyline
+                points={sparklinePoints(prices)}
+                fill="none"
+                stroke={change >= 0 ? '#4CAF50' : '#F44336'}
+                strokeWidth="1"
+              />
+            </svg>
+            <ItemPrice $change={change}>
+              {ticker.price.toPrecision(6)}
+              <ItemSubtitle style={{ display: 'block' }}>{change >= 0 ? '+' : ''}{change.toFixed(2)}%</ItemSubtitle>
+            </ItemPrice>
+          </WatchlistItem>
+        );
+      })}
+    </WatchlistContainer>
+  );
+};
+
+export default Watchlist;
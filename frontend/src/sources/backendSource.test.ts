@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Config, MarketData } from '../types';
+import { BackendSource } from './backendSource';
+import type { SocketLike } from './backendSource';
+import { MARKET_DATA_PROTOCOL_VERSION } from './marketDataProtocol';
+import type { MarketDeltaMessage } from './marketDataProtocol';
+import { ManualTimers } from './testing/manualTimers';
+import type { AccountState, TradeResult } from './types';
+
+const config: Config = {
+  initialPrice: 1.1,
+  volatility: 0.0001,
+  spread: 0.0001,
+  updateInterval: 10,
+  orderBookLevels: 5,
+  maxTradeSize: 1,
+  maxTradesPerSecond: 10,
+  tradeSizeStep: 0.1,
+  initialBalance: 10000,
+  candleInterval: 1000,
+  pnlWindowTime: 15000,
+  priceChangeThreshold15s: 0,
+  priceChangeThreshold1m: 0,
+  priceChangeThreshold15m: 0,
+  priceChangeThreshold1h: 0,
+  marketDataSource: 'backend',
+  symbol: 'EURUSD'
+};
+
+const snapshotData: MarketData = {
+  timestamp: 1000,
+  price: 1.1,
+  bid: 1.09995,
+  ask: 1.10005,
+  orderBook: {
+    bids: [{ price: 1.09995, volume: 100000, orders: 1 }],
+    asks: [{ price: 1.10005, volume: 100000, orders: 1 }]
+  },
+  trades: [],
+  candles: [{ timestamp: 1000, open: 1.1, high: 1.1, low: 1.1, close: 1.1, volume: 0 }]
+};
+
+const snapshot = (seq: number, data: MarketData = snapshotData) => ({ v: MARKET_DATA_PROTOCOL_VERSION, seq, data });
+
+// A tick that moves the quote and adds a bid level at the new bid
+const delta = (seq: number, price: number): MarketDeltaMessage => {
+  const bid = Number((price - 0.00005).toFixed(5));
+  return {
+    v: MARKET_DATA_PROTOCOL_VERSION,
+    seq,
+    ts: 1000 + seq * 10,
+    p: price,
+    b: bid,
+    a: Number((price + 0.00005).toFixed(5)),
+    ob: { b: [[bid, 50000, 1]] }
+  };
+};
+
+// Socket.IO client stand-in: records what the source sends and lets the test play the server
+class FakeSocket implements SocketLike {
+  public emitted: { event: string; args: unknown[] }[] = [];
+  public disconnected = false;
+  private listeners = new Map<string, ((...args: unknown[]) => void)[]>();
+
+  public on(event: string, listener: (...args: never[]) => void): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener as (...args: unknown[]) => void]);
+    return this;
+  }
+
+  public emit(event: string, ...args: unknown[]): this {
+    this.emitted.push({ event, args });
+    return this;
+  }
+
+  public disconnect(): this {
+    this.disconnected = true;
+    return this;
+  }
+
+  // Deliver an event from the server
+  public fire(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach(listener => listener(...args));
+  }
+
+  public sent(event: string): unknown[][] {
+    return this.emitted.filter(entry => entry.event === event).map(entry => entry.args);
+  }
+}
+
+describe('BackendSource', () => {
+  let timers: ManualTimers;
+  let socket: FakeSocket;
+  let source: BackendSource;
+  let latest: MarketData | null;
+
+  const connect = () => {
+    source.connect();
+    socket.fire('connect');
+  };
+
+  beforeEach(() => {
+    timers = new ManualTimers();
+    socket = new FakeSocket();
+    latest = null;
+    source = new BackendSource({
+      config,
+      timers,
+      url: 'http://backend',
+      tradeTimeout: 5000,
+      createSocket: () => socket
+    });
+    source.on('data', data => {
+      latest = data;
+    });
+  });
+
+  it('stays connecting until the first snapshot arrives', () => {
+    connect();
+    expect(source.getStatus().status).toBe('connecting');
+
+    socket.fire('marketSnapshot', snapshot(0));
+    expect(source.getStatus().status).toBe('live');
+    expect(latest).toEqual(snapshotData);
+  });
+
+  it('applies deltas on top of the snapshot in sequence', () => {
+    connect();
+    socket.fire('marketSnapshot', snapshot(0));
+    socket.fire('marketDelta', delta(1, 1.2));
+    socket.fire('marketDelta', delta(2, 1.3));
+
+    expect(latest!.price).toBe(1.3);
+    expect(latest!.orderBook.bids.map(level => level.price)).toEqual([1.29995, 1.19995, 1.09995]);
+    expect(latest!.orderBook.asks).toEqual(snapshotData.orderBook.asks);
+    expect(latest!.candles).toEqual(snapshotData.candles);
+  });
+
+  it('asks for a new snapshot once after a missed delta', () => {
+    connect();
+    socket.fire('marketSnapshot', snapshot(0));
+    socket.fire('marketDelta', delta(2, 1.2));
+    socket.fire('marketDelta', delta(3, 1.3));
+
+    expect(socket.sent('resync')).toHaveLength(1);
+    expect(latest!.price).toBe(1.1);
+
+    socket.fire('marketSnapshot', snapshot(3, { ...snapshotData, price: 1.3 }));
+    socket.fire('marketDelta', delta(4, 1.4));
+    expect(latest!.price).toBe(1.4);
+    expect(socket.sent('resync')).toHaveLength(1);
+  });
+
+  it('ignores deltas a newer snapshot already covers', () => {
+    connect();
+    socket.fire('marketSnapshot', snapshot(5));
+    socket.fire('marketDelta', delta(4, 1.2));
+
+    expect(latest!.price).toBe(1.1);
+    expect(socket.sent('resync')).toHaveLength(0);
+  });
+
+  it('refuses snapshots in another protocol version', () => {
+    connect();
+    socket.fire('marketSnapshot', { ...snapshot(0), v: MARKET_DATA_PROTOCOL_VERSION + 1 });
+
+    expect(source.getStatus()).toMatchObject({ status: 'error' });
+    expect(latest).toBeNull();
+  });
+
+  it('matches trade results to their requests and sends the limit price', async () => {
+    connect();
+    const first = source.executeTrade({ side: 'buy', size: 0.5 });
+    const second = source.executeTrade({ side: 'sell', size: 0.2, limitPrice: 1.2 });
+
+    const [[firstRequest], [secondRequest]] = socket.sent('executeTrade') as [{ requestId: string }][];
+    expect(secondRequest).toMatchObject({ side: 'sell', size: 0.2, limitPrice: 1.2 });
+
+    socket.fire('tradeResult', { success: false, message: 'No liquidity within the limit price', requestId: secondRequest.requestId });
+    socket.fire('tradeResult', { success: true, trade: { id: 't1' }, requestId: firstRequest.requestId });
+
+    expect(await second).toEqual({ success: false, message: 'No liquidity within the limit price' });
+    expect(await first).toMatchObject({ success: true, trade: { id: 't1' } });
+    expect(timers.pending()).toBe(0);
+  });
+
+  it('gives up on a trade the server never answers', async () => {
+    connect();
+    const result = source.executeTrade({ side: 'buy', size: 0.5 });
+    timers.advance(5000);
+
+    expect(await result).toEqual({ success: false, message: 'No response from server' });
+  });
+
+  it('fails trades in flight when the connection drops, then waits to reconnect', async () => {
+    connect();
+    const result = source.executeTrade({ side: 'buy', size: 0.5 });
+    socket.fire('disconnect', 'transport close');
+
+    expect(await result).toEqual({ success: false, message: 'Disconnected from server (transport close)' });
+    expect(source.getStatus()).toMatchObject({ status: 'reconnecting', reason: 'Disconnected: transport close' });
+  });
+
+  it('refuses trades while not connected', async () => {
+    source.connect();
+    const result: TradeResult = await source.executeTrade({ side: 'buy', size: 0.5 });
+
+    expect(result).toEqual({ success: false, message: 'Not connected to server' });
+    expect(socket.sent('executeTrade')).toHaveLength(0);
+  });
+
+  it('reports why the server closed the session', () => {
+    connect();
+    socket.fire('sessionError', { message: 'Room is full' });
+    socket.fire('disconnect', 'io server disconnect');
+
+    expect(source.getStatus()).toMatchObject({ status: 'error', reason: 'Room is full' });
+  });
+
+  it('stays down when the server drops the connection on purpose', () => {
+    connect();
+    socket.fire('disconnect', 'io server disconnect');
+
+    expect(source.getStatus()).toMatchObject({ status: 'disconnected', reason: 'Disconnected by the server' });
+  });
+
+  it('passes the ledger account on', () => {
+    const accounts: AccountState[] = [];
+    source.on('account', account => accounts.push(account));
+    const account: AccountState = {
+      id: 'user-1',
+      cash: 9000,
+      realizedPnl: 0,
+      initialBalance: 10000,
+      positions: [{ symbol: 'EURUSD', size: 0.5, avgPrice: 1.1 }],
+      symbol: 'EURUSD',
+      updatedAt: 1000
+    };
+
+    connect();
+    socket.fire('account', account);
+    expect(accounts).toEqual([account]);
+  });
+
+  it('closes the socket on disconnect', () => {
+    connect();
+    source.disconnect();
+
+    expect(socket.disconnected).toBe(true);
+    expect(source.getStatus().status).toBe('disconnected');
+  });
+});
@@ -0,0 +1,252 @@
+import { io } from 'socket.io-client';
+import type { AuthSession, MarketData } from '../types';
+import { getSocketUrl } from '../utils/api';
+import { hasScenarioMoved } from '../utils/scenario';
+import type { ScenarioStatus } from '../utils/scenario';
+import { BaseMarketDataSource } from './baseSource';
+import { applyMarketDelta, MARKET_DATA_PROTOCOL_VERSION } from './marketDataProtocol';
+import type { MarketDeltaMessage, MarketSnapshotMessage } from './marketDataProtocol';
+import { RoomClient } from './roomClient';
+import type { AccountState, MarketDataSourceOptions, RoomControls, RoomFill, RoomState, SourceStatus, TradeRequest, TradeResult } from './types';
+
+// Minimal Socket.IO client surface the adapter needs, so tests can supply a fake
+export interface SocketLike {
+  on(event: string, listener: (...args: never[]) => void): unknown;
+  emit(event: string, ...args: unknown[]): unknown;
+  disconnect(): unknown;
+}
+
+export interface BackendSourceOptions extends MarketDataSourceOptions {
+  createSocket?: (url: string) => SocketLike;
+  url?: string;
+  session?: string; // Backend session (room) to join; a private market when unset
+  auth?: AuthSession | null; // Signed-in user; the server refuses connections without one
+  tradeTimeout?: number; // How long to wait for a tradeResult, in milliseconds
+}
+
+// Summary the backend sends of the session a client joined
+interface SessionInfo {
+  id: string;
+  name: string;
+  kind: 'client' | 'room';
+}
+
+// tradeResult as sent by the backend, tagged with the request it answers
+type TradeResultMessage = TradeResult & { requestId?: string };
+
+interface PendingTrade {
+  resolve: (result: TradeResult) => void;
+  timeoutId: number;
+}
+
+/**
+ * Server simulator source: streams the backend MarketSimulator over Socket.IO
+ * and sends trades to it, so fills, rate limits and size limits are decided
+ * by the server. Market data arrives as a snapshot followed by deltas (see
+ * marketDataProtocol.ts); servers without the protocol send full updates.
+ *
+ * Each connection trades in a backend session: the named room, or a private
+ * market the server creates. Reconnects rejoin the same session, so a dropped
+ * connection comes back to the market it left.
+ *
+ * Connections are made as the signed-in user. Balances are kept by the
+ * server's ledger, which pushes the user's account on connect and after
+ * every fill.
+ */
+export class BackendSource extends BaseMarketDataSource {
+  public readonly id = 'backend';
+
+  protected socket: SocketLike | null = null;
+  private readonly url: string;
+  private readonly createSocket: (url: string) => SocketLike;
+  private readonly tradeTimeout: number;
+  private connected = false;
+  private sessionId: string | null;
+  private readonly token: string | null;
+  private readonly room: RoomClient | null;
+  // Why the server is about to drop us, when it told us first
+  private closeReason: { status: SourceStatus; reason: string } | null = null;
+  private hasConnected = false;
+  private nextRequestId = 1;
+  private marketData: MarketData | null = null;
+  private seq = -1;
+  private resyncRequested = false;
+  private pendingTrades = new Map<string, PendingTrade>();
+  private scenarioStatus: ScenarioStatus | null = null;
+
+  constructor(options: BackendSourceOptions) {
+    super(options.timers);
+    this.url = options.url ?? getSocketUrl();
+    this.sessionId = options.session || null;
+    this.token = options.auth?.token ?? null;
+    this.room = options.session
+      ? new RoomClient(options.auth?.user.id ?? '', (event, payload) => this.socket?.emit(event, payload))
+      : null;
+    this.createSocket = options.createSocket ?? ((url) => io(url, {
+      transports: ['websocket', 'polling'],
+      query: { protocol: MARKET_DATA_PROTOCOL_VERSION },
+      // Read on every (re)connect, so the session the server assigned is rejoined
+      auth: (callback) => callback({
+        ...(this.sessionId ? { session: this.sessionId } : {}),
+        ...(this.token ? { token: this.token } : {})
+      })
+    }));
+    this.tradeTimeout = options.tradeTimeout ?? 5000;
+  }
+
+  public connect(): void {
+    if (this.socket) return;
+
+    this.setStatus('connecting');
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      console.log(`${this.hasConnected ? 'Reconnected' : 'Connected'} to backend simulator`);
+      this.connected = true;
+      this.hasConnected = true;
+      // The server pushes a fresh snapshot on every connection; stay in
+      // 'connecting' until it arrives so stale state isn't shown as live
+      this.marketData = null;
+      this.seq = -1;
+      this.resyncRequested = false;
+      this.setStatus('connecting');
+    });
+    socket.on('session', (session: SessionInfo) => {
+      this.sessionId = session.id;
+      this.closeReason = null;
+      console.log(`Joined ${session.kind === 'room' ? `room ${session.name}` : 'a private market'} on the backend`);
+    });
+    socket.on('sessionClosed', () => {
+      this.closeReason = { status: 'disconnected', reason: 'The session was closed on the server' };
+    });
+    socket.on('sessionError', (error: { message: string }) => {
+      this.closeReason = { status: 'error', reason: error.message };
+    });
+    socket.on('account', (account: AccountState) => {
+      this.emit('account', account);
+    });
+    socket.on('room:state', (state: RoomState) => {
+      this.room?.applyState(state);
+      // A room match can play a scenario; report it like the client simulator does
+      if (hasScenarioMoved(this.scenarioStatus, state.scenarioStatus)) {
+        this.scenarioStatus = state.scenarioStatus;
+        this.emit('scenario', state.scenarioStatus);
+      }
+    });
+    socket.on('room:fill', (fill: RoomFill) => {
+      this.room?.applyFill(fill);
+    });
+    socket.on('roomError', (error: { message: string }) => {
+      this.room?.applyError(error.message);
+    });
+    socket.on('marketSnapshot', (snapshot: MarketSnapshotMessage) => {
+      this.applySnapshot(snapshot);
+    });
+    socket.on('marketDelta', (delta: MarketDeltaMessage) => {
+      this.applyDelta(delta);
+    });
+    // Full updates, from servers that don't speak the incremental protocol
+    socket.on('marketData', (data: MarketData) => {
+      this.publish(data);
+    });
+    socket.on('tradeResult', (result: TradeResultMessage) => {
+      this.settleTrade(result);
+    });
+    socket.on('disconnect', (reason: string) => {
+      this.connected = false;
+      // Results for orders in flight are lost with the connection
+      this.failPendingTrades(`Disconnected from server (${reason})`);
+      if (this.socket !== socket) return;
+      if (this.closeReason) {
+        this.setStatus(this.closeReason.status, this.closeReason.reason);
+      } else if (reason === 'io server disconnect') {
+        // Socket.IO doesn't reconnect when the server dropped us on purpose
+        this.setStatus('disconnected', 'Disconnected by the server');
+      } else {
+        // Socket.IO reconnects on its own unless we closed the connection
+        this.setStatus('reconnecting', `Disconnected: ${reason}`);
+      }
+    });
+    socket.on('connect_error', (error: Error) => {
+      this.setStatus('error', error.message);
+    });
+  }
+
+  public disconnect(): void {
+    this.connected = false;
+    this.failPendingTrades('Disconnected from server');
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.disconnect();
+    }
+    this.setStatus('disconnected');
+  }
+
+  public getRoom(): RoomControls | null {
+    return this.room;
+  }
+
+  public executeTrade(request: TradeRequest): Promise<TradeResult> {
+    if (!this.socket || !this.connected) {
+      return Promise.resolve({ success: false, message: 'Not connected to server' });
+    }
+
+    const requestId = `${Date.now()}-${this.nextRequestId++}`;
+    return new Promise(resolve => {
+      const timeoutId = this.timers.setTimeout(() => {
+        this.pendingTrades.delete(requestId);
+        resolve({ success: false, message: 'No response from server' });
+      }, this.tradeTimeout);
+      this.pendingTrades.set(requestId, { resolve, timeoutId });
+      this.socket!.emit('executeTrade', { ...request, requestId });
+    });
+  }
+
+  private applySnapshot(snapshot: MarketSnapshotMessage): void {
+    if (snapshot.v !== MARKET_DATA_PROTOCOL_VERSION) {
+      this.setStatus('error', `Unsupported market data protocol version ${snapshot.v}`);
+      return;
+    }
+    this.marketData = snapshot.data;
+    this.seq = snapshot.seq;
+    this.resyncRequested = false;
+    this.publish(snapshot.data);
+  }
+
+  private applyDelta(delta: MarketDeltaMessage): void {
+    if (delta.seq <= this.seq) return; // Already covered by a newer snapshot
+
+    // Deltas only make sense on top of the one before; otherwise start over
+    if (!this.marketData || delta.seq !== this.seq + 1) {
+      if (!this.resyncRequested) {
+        this.resyncRequested = true;
+        this.socket?.emit('resync');
+      }
+      return;
+    }
+
+    this.marketData = applyMarketDelta(this.marketData, delta);
+    this.seq = delta.seq;
+    this.publish(this.marketData);
+  }
+
+  private settleTrade(message: TradeResultMessage): void {
+    const { requestId, ...result } = message;
+    const pending = requestId === undefined ? undefined : this.pendingTrades.get(requestId);
+    if (!pending) return; // Already timed out
+
+    this.pendingTrades.delete(requestId!);
+    this.timers.clearTimeout(pending.timeoutId);
+    pending.resolve(result as TradeResult);
+  }
+
+  private failPendingTrades(message: string): void {
+    this.pendingTrades.forEach(pending => {
+      this.timers.clearTimeout(pending.timeoutId);
+      pending.resolve({ success: false, message });
+    });
+    this.pendingTrades.clear();
+  }
+}
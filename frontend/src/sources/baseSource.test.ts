@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { MarketData } from '../types';
+import { BaseMarketDataSource } from './baseSource';
+import { ManualTimers } from './testing/manualTimers';
+import type { SourceStatus, SourceStatusEvent } from './types';
+
+const marketData: MarketData = {
+  timestamp: 1000,
+  price: 100,
+  bid: 99.9,
+  ask: 100.1,
+  orderBook: { bids: [], asks: [] },
+  trades: [],
+  candles: []
+};
+
+// Exposes the protected plumbing so the tests can drive it
+class TestSource extends BaseMarketDataSource {
+  public readonly id = 'test';
+
+  public connect(): void {
+    this.setStatus('connecting');
+  }
+
+  public disconnect(): void {
+    this.setStatus('disconnected');
+  }
+
+  public push(data: MarketData): void {
+    this.publish(data);
+  }
+
+  public fail(status: SourceStatus, reason?: string): void {
+    this.setStatus(status, reason);
+  }
+}
+
+describe('BaseMarketDataSource', () => {
+  let timers: ManualTimers;
+  let source: TestSource;
+  let statuses: SourceStatusEvent[];
+
+  beforeEach(() => {
+    timers = new ManualTimers();
+    source = new TestSource(timers, 5000);
+    statuses = [];
+    source.on('status', status => statuses.push(status));
+  });
+
+  it('starts idle', () => {
+    expect(source.getStatus().status).toBe('idle');
+  });
+
+  it('goes live on the first update and passes data to listeners', () => {
+    const received: MarketData[] = [];
+    source.on('data', data => received.push(data));
+
+    source.connect();
+    source.push(marketData);
+    source.push(marketData);
+
+    expect(statuses.map(status => status.status)).toEqual(['connecting', 'live']);
+    expect(received).toEqual([marketData, marketData]);
+  });
+
+  it('flags the feed stale when updates stop, and live again when they resume', () => {
+    source.push(marketData);
+    timers.advance(4999);
+    expect(source.getStatus().status).toBe('live');
+
+    timers.advance(1);
+    expect(source.getStatus()).toMatchObject({ status: 'stale', reason: 'No updates for 5s' });
+
+    source.push(marketData);
+    expect(source.getStatus().status).toBe('live');
+  });
+
+  it('keeps a steady feed live', () => {
+    for (let i = 0; i < 10; i++) {
+      source.push(marketData);
+      timers.advance(1000);
+    }
+    expect(statuses.map(status => status.status)).toEqual(['live']);
+  });
+
+  it('stops the stale watchdog once the feed is down', () => {
+    source.push(marketData);
+    source.fail('error', 'Boom');
+    timers.advance(10000);
+
+    expect(source.getStatus()).toMatchObject({ status: 'error', reason: 'Boom' });
+    expect(timers.pending()).toBe(0);
+  });
+
+  it('reports a status again only when it or its reason changes', () => {
+    source.fail('reconnecting', 'Dropped');
+    source.fail('reconnecting', 'Dropped');
+    source.fail('reconnecting', 'Dropped again');
+
+    expect(statuses.map(status => status.reason)).toEqual(['Dropped', 'Dropped again']);
+  });
+
+  it('stops calling a listener once it unsubscribes', () => {
+    const received: MarketData[] = [];
+    const unsubscribe = source.on('data', data => received.push(data));
+
+    source.push(marketData);
+    unsubscribe();
+    source.push(marketData);
+
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,94 @@
+import type { MarketData } from '../types';
+import type {
+  MarketDataSource,
+  MarketDataSourceEvents,
+  SourceListener,
+  SourceStatus,
+  SourceStatusEvent,
+  SourceTimers
+} from './types';
+
+export const browserTimers: SourceTimers = {
+  setInterval: (handler, ms) => window.setInterval(handler, ms),
+  clearInterval: (id) => window.clearInterval(id),
+  setTimeout: (handler, ms) => window.setTimeout(handler, ms),
+  clearTimeout: (id) => window.clearTimeout(id)
+};
+
+/**
+ * Shared plumbing for market data sources: listener bookkeeping, status
+ * transitions and a watchdog that flags a live feed as stale when updates
+ * stop arriving.
+ */
+export abstract class BaseMarketDataSource implements MarketDataSource {
+  public abstract readonly id: string;
+
+  protected readonly timers: SourceTimers;
+  private readonly staleAfterMs: number;
+  private listeners: { [K in keyof MarketDataSourceEvents]: Set<SourceListener<K>> } = {
+    data: new Set(),
+    status: new Set(),
+    account: new Set(),
+    tickers: new Set(),
+    scenario: new Set()
+  };
+  private status: SourceStatusEvent = { status: 'idle', timestamp: Date.now() };
+  private staleTimer: number | null = null;
+
+  constructor(timers: SourceTimers = browserTimers, staleAfterMs = 5000) {
+    this.timers = timers;
+    this.staleAfterMs = staleAfterMs;
+  }
+
+  public abstract connect(): void;
+  public abstract disconnect(): void;
+
+  public getStatus(): SourceStatusEvent {
+    return this.status;
+  }
+
+  public on<K extends keyof MarketDataSourceEvents>(event: K, listener: SourceListener<K>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  protected emit<K extends keyof MarketDataSourceEvents>(event: K, payload: MarketDataSourceEvents[K]): void {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+
+  protected setStatus(status: SourceStatus, reason?: string): void {
+    if (status === this.status.status && reason === this.status.reason) return;
+
+    this.status = { status, reason, timestamp: Date.now() };
+    if (status !== 'live' && status !== 'stale') {
+      this.clearStaleTimer();
+    }
+    this.emit('status', this.status);
+  }
+
+  // Publish an update and mark the feed live, re-arming the stale watchdog
+  protected publish(data: MarketData): void {
+    if (this.status.status !== 'live') {
+      this.setStatus('live');
+    }
+    this.armStaleTimer();
+    this.emit('data', data);
+  }
+
+  protected clearStaleTimer(): void {
+    if (this.staleTimer !== null) {
+      this.timers.clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  private armStaleTimer(): void {
+    this.clearStaleTimer();
+    this.staleTimer = this.timers.setTimeout(() => {
+      this.staleTimer = null;
+      this.setStatus('stale', `No updates for ${this.staleAfterMs / 1000}s`);
+    }, this.staleAfterMs);
+  }
+}
@@ -0,0 +1,270 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MockExchange } from './testing/mockExchange';
+import type { MockStreamEvent } from './testing/mockExchange';
+import type { Config, MarketData } from '../types';
+import { BinanceSource } from './binanceSource';
+import type { WebSocketLike } from './binanceSource';
+import { findCandleGap } from './klines';
+import type { SourceTimers } from './types';
+
+const config: Config = {
+  initialPrice: 2000,
+  volatility: 0.0001,
+  spread: 0.0002,
+  updateInterval: 100,
+  orderBookLevels: 10,
+  maxTradeSize: 1,
+  maxTradesPerSecond: 5,
+  tradeSizeStep: 0.01,
+  initialBalance: 10000,
+  candleInterval: 1000,
+  pnlWindowTime: 15000,
+  priceChangeThreshold15s: 0,
+  priceChangeThreshold1m: 0,
+  priceChangeThreshold15m: 0,
+  priceChangeThreshold1h: 0,
+  marketDataSource: 'binance',
+  symbol: 'ethusdt'
+};
+
+// Timers that never fire: reconnects and the stale watchdog stay out of the way
+const idleTimers: SourceTimers = {
+  setInterval: () => 0,
+  clearInterval: () => {},
+  setTimeout: () => 0,
+  clearTimeout: () => {}
+};
+
+class FakeWebSocket implements WebSocketLike {
+  public onopen: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
+  public onclose: ((event: CloseEvent) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public closed = false;
+  public readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  public open(): void {
+    this.onopen?.(new Event('open'));
+  }
+
+  public deliver(events: MockStreamEvent[]): void {
+    events.forEach(event => this.onmessage?.({ data: JSON.stringify(event) } as MessageEvent));
+  }
+
+  public close(): void {
+    this.closed = true;
+  }
+}
+
+// Let resolved fetches reach the source
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('BinanceSource against the mock exchange', () => {
+  let exchange: MockExchange;
+  let now: number;
+  let sockets: FakeWebSocket[];
+  let requested: URL[];
+  let pending: (() => void)[];
+  let latest: MarketData | null;
+  let source: BinanceSource;
+
+  // The exchange answers REST calls when told to, from its state at that
+  // moment, as a real server does with requests that arrive late
+  const respond = async () => {
+    const requests = pending;
+    pending = [];
+    requests.forEach(request => request());
+    await settle();
+  };
+
+  const tick = () => {
+    now += 100;
+    return exchange.tick(now);
+  };
+
+  const depthRequests = (urls: URL[]) => urls.filter(url => url.pathname === '/api/v3/depth').length;
+
+  const expectBookToMatchExchange = () => {
+    const snapshot = exchange.getDepthSnapshot(config.orderBookLevels);
+    const toLevels = (levels: [string, string][]) =>
+      levels.map(([price, quantity]) => ({ price: parseFloat(price), volume: parseFloat(quantity) }));
+
+    expect(latest?.orderBook).toEqual({ bids: toLevels(snapshot.bids), asks: toLevels(snapshot.asks) });
+    expect(latest?.bid).toBe(parseFloat(snapshot.bids[0][0]));
+    expect(latest?.ask).toBe(parseFloat(snapshot.asks[0][0]));
+  };
+
+  const createSource = () => new BinanceSource({
+    config,
+    timers: idleTimers,
+    wsBaseUrl: 'ws://mock-exchange',
+    restBaseUrl: 'http://mock-exchange',
+    createWebSocket: (url) => {
+      const ws = new FakeWebSocket(url);
+      sockets.push(ws);
+      return ws;
+    },
+    fetchJson: (url) => new Promise(resolve => {
+      const parsed = new URL(url);
+      requested.push(parsed);
+      pending.push(() => {
+        const params = parsed.searchParams;
+        if (parsed.pathname === '/api/v3/depth') {
+          resolve(exchange.getDepthSnapshot(Number(params.get('limit'))));
+        } else {
+          resolve(exchange.getKlines({
+            startTime: params.has('startTime') ? Number(params.get('startTime')) : undefined,
+            limit: Number(params.get('limit'))
+          }));
+        }
+      });
+    })
+  });
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    exchange = new MockExchange({ symbol: 'ETHUSDT', seed: 7 });
+    exchange.seedHistory(now, 120, 100);
+    sockets = [];
+    pending = [];
+    requested = [];
+    latest = null;
+    source = createSource();
+    source.on('data', (data) => {
+      latest = data;
+    });
+  });
+
+  it('subscribes to the kline, depth and trade streams', () => {
+    source.connect();
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].url).toBe('ws://mock-exchange/stream?streams=ethusdt@kline_1s/ethusdt@depth@100ms/ethusdt@aggTrade');
+    expect(source.getStatus().status).toBe('connecting');
+  });
+
+  it('syncs the book from a late snapshot and the buffered diffs', async () => {
+    source.connect();
+    const ws = sockets[0];
+    ws.open();
+    expect(depthRequests(requested)).toBe(1);
+
+    // Diffs stream in while the snapshot is on its way; the snapshot then
+    // reflects some of them, so those are stale and the rest must follow on
+    for (let i = 0; i < 5; i++) ws.deliver(tick());
+    const inFlight = [tick(), tick(), tick()];
+    await respond();
+    ws.deliver(inFlight.flat());
+    for (let i = 0; i < 20; i++) ws.deliver(tick());
+
+    expect(depthRequests(requested)).toBe(1);
+    expect(source.getStatus().status).toBe('live');
+    expectBookToMatchExchange();
+    expect(latest!.bid).toBeLessThan(latest!.ask);
+  });
+
+  it('merges aggregate trades, newest first', async () => {
+    source.connect();
+    const ws = sockets[0];
+    ws.open();
+    await respond();
+
+    const trades: { p: string; q: string; m: boolean }[] = [];
+    for (let i = 0; i < 30; i++) {
+      const events = tick();
+      events.filter(event => event.data.e === 'aggTrade').forEach(event => trades.push(event.data as never));
+      ws.deliver(events);
+    }
+
+    expect(trades.length).toBeGreaterThan(0);
+    const last = trades[trades.length - 1];
+    expect(latest!.trades).toHaveLength(trades.length);
+    expect(latest!.trades[0]).toMatchObject({
+      price: parseFloat(last.p),
+      size: parseFloat(last.q),
+      side: last.m ? 'sell' : 'buy'
+    });
+  });
+
+  it('resyncs from a new snapshot after a dropped diff', async () => {
+    exchange.gapRate = 0.2;
+    source.connect();
+    const ws = sockets[0];
+    ws.open();
+    await respond();
+
+    for (let i = 0; i < 50; i++) {
+      ws.deliver(tick());
+      await respond();
+    }
+    expect(depthRequests(requested)).toBeGreaterThan(1);
+
+    // Once nothing is dropped any more the book converges on the exchange's
+    exchange.gapRate = 0;
+    for (let i = 0; i < 3; i++) {
+      ws.deliver(tick());
+      await respond();
+    }
+    expectBookToMatchExchange();
+  });
+
+  it('backfills history and stitches live candles on without gaps or duplicates', async () => {
+    source.connect();
+    const ws = sockets[0];
+    ws.open();
+
+    // Live closes arrive before the backfill does
+    for (let i = 0; i < 25; i++) ws.deliver(tick());
+    await respond();
+    for (let i = 0; i < 25; i++) ws.deliver(tick());
+
+    const candles = latest!.candles;
+    const timestamps = candles.map(candle => candle.timestamp);
+    expect(candles).toHaveLength(100);
+    expect(new Set(timestamps).size).toBe(timestamps.length);
+    expect(findCandleGap(candles, 1000)).toBeNull();
+
+    // The closed candles match the exchange's own history
+    const history = exchange.getKlines({ limit: 1000 });
+    const closed = candles.slice(0, -1);
+    closed.forEach(candle => {
+      const row = history.find(kline => kline[6] === candle.timestamp);
+      expect(candle.close).toBe(parseFloat(row![4]));
+    });
+  });
+
+  it('fills candles missed by a stalled stream from REST', async () => {
+    source.connect();
+    const ws = sockets[0];
+    ws.open();
+    await respond();
+
+    // Five seconds of kline events go missing
+    for (let i = 0; i < 50; i++) {
+      ws.deliver(tick().filter(event => event.data.e !== 'kline'));
+    }
+    for (let i = 0; i < 15; i++) ws.deliver(tick());
+    expect(findCandleGap(latest!.candles, 1000)).not.toBeNull();
+
+    const backfill = requested[requested.length - 1];
+    expect(backfill.searchParams.has('startTime')).toBe(true);
+    await respond();
+    ws.deliver(tick());
+    expect(findCandleGap(latest!.candles, 1000)).toBeNull();
+  });
+
+  it('closes the socket and ignores late responses after disconnecting', async () => {
+    source.connect();
+    const ws = sockets[0];
+    ws.open();
+    source.disconnect();
+    await respond();
+
+    expect(ws.closed).toBe(true);
+    expect(latest).toBeNull();
+    expect(source.getStatus().status).toBe('disconnected');
+  });
+});
@@ -0,0 +1,498 @@
+import type { Candle, Config, Trade } from '../types';
+import { BaseMarketDataSource, browserTimers } from './baseSource';
+import { DepthBook } from './depthBook';
+import type { DepthSnapshot, DepthUpdate } from './depthBook';
+import { mergeCandles, parseKlineRows, toBinanceInterval } from './klines';
+import type { KlineRow } from './klines';
+import type {
+  MarketDataSourceOptions,
+  SourceTimers,
+  TickerFeed,
+  TickerFeedOptions,
+  TickerListener
+} from './types';
+
+// Minimal WebSocket surface the adapter needs, so tests can supply a fake
+export interface WebSocketLike {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+export interface BinanceSourceOptions extends MarketDataSourceOptions {
+  createWebSocket?: (url: string) => WebSocketLike;
+  fetchJson?: (url: string) => Promise<unknown>;
+  wsBaseUrl?: string;
+  restBaseUrl?: string;
+}
+
+// @aggTrade stream event
+interface AggTradeEvent {
+  e: 'aggTrade';
+  a: number; // Aggregate trade ID
+  p: string;
+  q: string;
+  T: number;
+  m: boolean; // Buyer is the maker, i.e. the aggressor sold
+}
+
+// @kline_<interval> stream event
+interface KlineEvent {
+  e: 'kline';
+  k: { o: string; h: string; l: string; c: string; v: string; T: number; x: boolean };
+}
+
+// @miniTicker stream event
+interface MiniTickerEvent {
+  e: '24hrMiniTicker';
+  E: number;
+  s: string;
+  c: string; // Last price
+}
+
+type StreamEvent = DepthUpdate | AggTradeEvent | KlineEvent;
+
+const DEFAULT_WS_BASE_URL = 'wss://stream.binance.com:9443';
+const DEFAULT_REST_BASE_URL = 'https://api.binance.com';
+const MAX_CANDLES = 100;
+const MAX_TRADES = 50;
+const MAX_BUFFERED_DEPTH_UPDATES = 1000;
+const DEPTH_SNAPSHOT_LIMIT = 1000;
+const INITIAL_RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 30000;
+const SNAPSHOT_RETRY_DELAY = 3000;
+
+const defaultFetchJson = async (url: string): Promise<unknown> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Live Binance source. Subscribes to the combined kline, depth and aggTrade
+ * streams, keeps a local order book synced against a REST snapshot, backfills
+ * recent candles over REST and reconnects with exponential backoff when the
+ * socket drops.
+ */
+export class BinanceSource extends BaseMarketDataSource {
+  public readonly id = 'binance';
+
+  private readonly symbol: string;
+  private readonly wsBaseUrl: string;
+  private readonly restBaseUrl: string;
+  private readonly createWebSocket: (url: string) => WebSocketLike;
+  private readonly fetchJson: (url: string) => Promise<unknown>;
+  private orderBookLevels: number;
+  private interval: { interval: string; ms: number };
+  private ws: WebSocketLike | null = null;
+  private reconnectTimeout: number | null = null;
+  private snapshotRetryTimeout: number | null = null;
+  private reconnectDelay = INITIAL_RECONNECT_DELAY;
+  private active = false;
+
+  private depthBook = new DepthBook();
+  private depthBuffer: DepthUpdate[] = [];
+  private snapshotPending = false;
+  private backfillPending = false;
+  private lastPrice: number | null = null;
+  private lastEventTime = 0;
+  private trades: Trade[] = [];
+  private candles: Candle[] = [];
+
+  constructor(options: BinanceSourceOptions) {
+    super(options.timers);
+    this.symbol = options.config.symbol.toLowerCase();
+    this.orderBookLevels = options.config.orderBookLevels;
+    this.interval = toBinanceInterval(options.config.candleInterval);
+    this.wsBaseUrl = options.wsBaseUrl ?? import.meta.env.VITE_BINANCE_WS_URL ?? DEFAULT_WS_BASE_URL;
+    this.restBaseUrl = options.restBaseUrl ?? import.meta.env.VITE_BINANCE_REST_URL ?? DEFAULT_REST_BASE_URL;
+    this.createWebSocket = options.createWebSocket ?? ((url) => new window.WebSocket(url));
+    this.fetchJson = options.fetchJson ?? defaultFetchJson;
+  }
+
+  public connect(): void {
+    if (this.active) return;
+    this.active = true;
+    this.setStatus('connecting');
+    this.open();
+  }
+
+  public disconnect(): void {
+    this.active = false;
+    if (this.reconnectTimeout !== null) {
+      this.timers.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.clearSnapshotRetry();
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+    this.setStatus('disconnected');
+  }
+
+  public updateConfig(config: Config): void {
+    this.orderBookLevels = config.orderBookLevels;
+
+    // A different candle interval needs a different kline stream and fresh history
+    const interval = toBinanceInterval(config.candleInterval);
+    if (interval.interval !== this.interval.interval) {
+      this.interval = interval;
+      this.candles = [];
+      if (this.ws) {
+        const ws = this.ws;
+        this.ws = null;
+        ws.close();
+        this.open();
+      }
+    }
+  }
+
+  private open(): void {
+    const streams = [`${this.symbol}@kline_${this.interval.interval}`, `${this.symbol}@depth@100ms`, `${this.symbol}@aggTrade`];
+    const ws = this.createWebSocket(`${this.wsBaseUrl}/stream?streams=${streams.join('/')}`);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      if (this.ws !== ws) return;
+      this.reconnectDelay = INITIAL_RECONNECT_DELAY;
+      console.log(`Connected to Binance WebSocket for ${this.symbol}`);
+      // Diffs are buffered from here until the snapshot arrives, and candles
+      // closing from here on arrive live, so history fetched now leaves no hole
+      this.resyncDepth();
+      this.backfillCandles();
+    };
+    ws.onmessage = (event) => {
+      if (this.ws !== ws) return;
+      this.handleMessage(event.data);
+    };
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.scheduleReconnect('Connection closed');
+    };
+    ws.onerror = () => {
+      if (this.ws !== ws) return;
+      this.setStatus('error', 'WebSocket error');
+      ws.close();
+    };
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (!this.active) return;
+
+    this.clearSnapshotRetry();
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    this.setStatus('reconnecting', `${reason}, retrying in ${delay / 1000}s`);
+    console.warn(`Binance WebSocket closed, reconnecting in ${delay}ms...`);
+
+    this.reconnectTimeout = this.timers.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.open();
+    }, delay);
+  }
+
+  // Drop the local book and rebuild it from a fresh snapshot
+  private resyncDepth(): void {
+    this.depthBook.reset();
+    this.depthBuffer = [];
+    this.clearSnapshotRetry();
+    this.requestSnapshot();
+  }
+
+  private requestSnapshot(): void {
+    if (this.snapshotPending) return;
+    this.snapshotPending = true;
+
+    const ws = this.ws;
+    const url = `${this.restBaseUrl}/api/v3/depth?symbol=${this.symbol.toUpperCase()}&limit=${DEPTH_SNAPSHOT_LIMIT}`;
+    this.fetchJson(url)
+      .then(snapshot => {
+        this.snapshotPending = false;
+        if (!this.active || this.ws !== ws) return;
+        this.handleSnapshot(snapshot as DepthSnapshot);
+      })
+      .catch((error: Error) => {
+        this.snapshotPending = false;
+        if (!this.active || this.ws !== ws) return;
+        console.error('Error fetching Binance depth snapshot:', error);
+        this.setStatus('error', `Depth snapshot failed: ${error.message}`);
+        this.snapshotRetryTimeout = this.timers.setTimeout(() => {
+          this.snapshotRetryTimeout = null;
+          this.requestSnapshot();
+        }, SNAPSHOT_RETRY_DELAY);
+      });
+  }
+
+  private clearSnapshotRetry(): void {
+    if (this.snapshotRetryTimeout !== null) {
+      this.timers.clearTimeout(this.snapshotRetryTimeout);
+      this.snapshotRetryTimeout = null;
+    }
+  }
+
+  // Fetch recent klines over REST and stitch them under the live candles
+  private backfillCandles(startTime?: number): void {
+    if (this.backfillPending) return;
+    this.backfillPending = true;
+
+    const ws = this.ws;
+    const interval = this.interval;
+    let url = `${this.restBaseUrl}/api/v3/klines?symbol=${this.symbol.toUpperCase()}&interval=${interval.interval}&limit=${MAX_CANDLES}`;
+    if (startTime !== undefined) {
+      url += `&startTime=${startTime}`;
+    }
+
+    this.fetchJson(url)
+      .then(rows => {
+        this.backfillPending = false;
+        if (!this.active || this.ws !== ws || this.interval !== interval) return;
+        // Live candles win over backfilled ones for the same period
+        this.candles = mergeCandles(parseKlineRows(rows as KlineRow[]), this.candles, MAX_CANDLES);
+        this.publishMarketData();
+      })
+      .catch((error: Error) => {
+        this.backfillPending = false;
+        console.error('Error backfilling Binance klines:', error);
+      });
+  }
+
+  private handleSnapshot(snapshot: DepthSnapshot): void {
+    // The snapshot predates the buffered diffs, so they can't be bridged: fetch again
+    const first = this.depthBuffer[0];
+    if (first && snapshot.lastUpdateId < first.U) {
+      this.requestSnapshot();
+      return;
+    }
+
+    this.depthBook.applySnapshot(snapshot);
+    const buffered = this.depthBuffer;
+    this.depthBuffer = [];
+    for (const update of buffered) {
+      if (this.depthBook.applyUpdate(update) === 'gap') {
+        this.handleDepthGap(update);
+        return;
+      }
+    }
+    this.publishMarketData();
+  }
+
+  private handleDepthUpdate(update: DepthUpdate): void {
+    if (!this.depthBook.isSynced()) {
+      this.depthBuffer.push(update);
+      if (this.depthBuffer.length > MAX_BUFFERED_DEPTH_UPDATES) {
+        this.depthBuffer.shift();
+      }
+      return;
+    }
+
+    if (this.depthBook.applyUpdate(update) === 'gap') {
+      this.handleDepthGap(update);
+      return;
+    }
+    this.publishMarketData();
+  }
+
+  private handleDepthGap(update: DepthUpdate): void {
+    console.warn(`Binance depth sequence gap (expected ${(this.depthBook.getLastUpdateId() ?? 0) + 1}, got ${update.U}), resyncing`);
+    this.resyncDepth();
+    // This update is newer than anything we have, so it seeds the new buffer
+    this.depthBuffer.push(update);
+  }
+
+  private handleAggTrade(event: AggTradeEvent): void {
+    const price = parseFloat(event.p);
+    const size = parseFloat(event.q);
+    const trade: Trade = {
+      id: `agg-${event.a}`,
+      timestamp: event.T,
+      side: event.m ? 'sell' : 'buy',
+      size,
+      price,
+      value: price * size
+    };
+
+    this.trades = [trade, ...this.trades].slice(0, MAX_TRADES);
+    this.lastPrice = price;
+    this.lastEventTime = Math.max(this.lastEventTime, event.T);
+    this.publishMarketData();
+  }
+
+  private handleKline(event: KlineEvent): void {
+    this.lastPrice = parseFloat(event.k.c);
+    this.lastEventTime = Math.max(this.lastEventTime, event.k.T);
+
+    // Only add a new candle if kline is closed
+    if (event.k.x) {
+      const newCandle: Candle = {
+        open: parseFloat(event.k.o),
+        high: parseFloat(event.k.h),
+        low: parseFloat(event.k.l),
+        close: parseFloat(event.k.c),
+        volume: parseFloat(event.k.v),
+        timestamp: event.k.T
+      };
+      const previous = this.candles[this.candles.length - 1];
+      this.candles = mergeCandles(this.candles, [newCandle], MAX_CANDLES);
+
+      // Missed closes (e.g. a stalled stream) are filled in from REST
+      if (previous && newCandle.timestamp - previous.timestamp > this.interval.ms) {
+        this.backfillCandles(previous.timestamp + 1);
+      }
+    }
+    this.publishMarketData();
+  }
+
+  private handleMessage(raw: string): void {
+    let msg;
+    try {
+      msg = JSON.parse(raw);
+    } catch (err) {
+      console.error('Error parsing Binance message:', err);
+      return;
+    }
+
+    // Combined streams wrap each payload as { stream, data }
+    const event: StreamEvent | undefined = msg.data ?? msg;
+    switch (event?.e) {
+      case 'depthUpdate':
+        this.lastEventTime = Math.max(this.lastEventTime, event.E);
+        this.handleDepthUpdate(event);
+        break;
+      case 'aggTrade':
+        this.handleAggTrade(event);
+        break;
+      case 'kline':
+        this.handleKline(event);
+        break;
+    }
+  }
+
+  private publishMarketData(): void {
+    const bestBid = this.depthBook.bestBid();
+    const bestAsk = this.depthBook.bestAsk();
+    const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+    const price = this.lastPrice ?? mid;
+    if (price === null) return;
+
+    this.publish({
+      price,
+      timestamp: this.lastEventTime,
+      bid: bestBid ?? price,
+      ask: bestAsk ?? price,
+      orderBook: this.depthBook.getOrderBook(this.orderBookLevels),
+      trades: this.trades,
+      candles: this.candles
+    });
+  }
+}
+
+export interface BinanceTickerFeedOptions extends TickerFeedOptions {
+  createWebSocket?: (url: string) => WebSocketLike;
+  wsBaseUrl?: string;
+}
+
+/**
+ * Last prices for a set of Binance symbols from the combined miniTicker
+ * stream, which pushes each symbol about once a second. Reconnects with
+ * exponential backoff until closed.
+ */
+export class BinanceTickerFeed implements TickerFeed {
+  private readonly symbols: string[];
+  private readonly wsBaseUrl: string;
+  private readonly createWebSocket: (url: string) => WebSocketLike;
+  private readonly timers: SourceTimers;
+  private listeners = new Set<TickerListener>();
+  private ws: WebSocketLike | null = null;
+  private reconnectTimeout: number | null = null;
+  private reconnectDelay = INITIAL_RECONNECT_DELAY;
+  private active = true;
+
+  constructor(options: BinanceTickerFeedOptions) {
+    this.symbols = options.symbols.map(symbol => symbol.toLowerCase());
+    this.wsBaseUrl = options.wsBaseUrl ?? import.meta.env.VITE_BINANCE_WS_URL ?? DEFAULT_WS_BASE_URL;
+    this.createWebSocket = options.createWebSocket ?? ((url) => new window.WebSocket(url));
+    this.timers = options.timers ?? browserTimers;
+    if (this.symbols.length > 0) {
+      this.open();
+    }
+  }
+
+  public onTicker(listener: TickerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public close(): void {
+    this.active = false;
+    this.listeners.clear();
+    if (this.reconnectTimeout !== null) {
+      this.timers.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+  }
+
+  private open(): void {
+    const streams = this.symbols.map(symbol => `${symbol}@miniTicker`);
+    const ws = this.createWebSocket(`${this.wsBaseUrl}/stream?streams=${streams.join('/')}`);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      if (this.ws !== ws) return;
+      this.reconnectDelay = INITIAL_RECONNECT_DELAY;
+    };
+    ws.onmessage = (event) => {
+      if (this.ws !== ws) return;
+      this.handleMessage(event.data);
+    };
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.scheduleReconnect();
+    };
+    ws.onerror = () => {
+      if (this.ws !== ws) return;
+      ws.close();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.active) return;
+
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    console.warn(`Binance ticker stream closed, reconnecting in ${delay}ms...`);
+    this.reconnectTimeout = this.timers.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.open();
+    }, delay);
+  }
+
+  private handleMessage(raw: string): void {
+    let msg;
+    try {
+      msg = JSON.parse(raw);
+    } catch (err) {
+      console.error('Error parsing Binance ticker message:', err);
+      return;
+    }
+
+    const event: MiniTickerEvent | undefined = msg.data ?? msg;
+    if (event?.e !== '24hrMiniTicker') return;
+    const update = { symbol: event.s.toLowerCase(), price: parseFloat(event.c), timestamp: event.E };
+    this.listeners.forEach(listener => listener(update));
+  }
+}
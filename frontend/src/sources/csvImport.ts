@@ -0,0 +1,149 @@
+/**
+ * OHLCV CSV import
+ *
+ * Accepts Binance's public kline dumps (no header; open time, open, high,
+ * low, close, volume, close time, ...) and generic files with a header row
+ * naming time/open/high/low/close[/volume] columns. Times may be ISO dates
+ * or epoch seconds, milliseconds or microseconds.
+ */
+
+import type { Candle } from '../types';
+
+export interface OhlcvImport {
+  candles: Candle[]; // Sorted by open time
+  intervalMs: number;
+  warnings: string[];
+}
+
+const MAX_REPORTED_WARNINGS = 5;
+const MAX_INVALID_SHARE = 0.1; // Give up when more than this share of rows is bad
+
+const TIME_COLUMNS = ['open_time', 'opentime', 'timestamp', 'time', 'date', 'datetime'];
+
+// Epoch values are normalised to milliseconds by magnitude
+const parseTime = (value: string): number => {
+  const trimmed = value.trim();
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    const numeric = parseFloat(trimmed);
+    if (numeric > 1e14) return Math.floor(numeric / 1000); // Microseconds
+    if (numeric < 1e11) return numeric * 1000; // Seconds
+    return numeric;
+  }
+  return Date.parse(trimmed);
+};
+
+export const formatCandleInterval = (ms: number): string => {
+  if (ms % 86400000 === 0) return `${ms / 86400000}d`;
+  if (ms % 3600000 === 0) return `${ms / 3600000}h`;
+  if (ms % 60000 === 0) return `${ms / 60000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+};
+
+// Most common spacing between consecutive bars; gaps and duplicates don't skew it
+export const inferInterval = (candles: Candle[]): number => {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < candles.length; i++) {
+    const diff = candles[i].timestamp - candles[i - 1].timestamp;
+    if (diff > 0) {
+      counts.set(diff, (counts.get(diff) ?? 0) + 1);
+    }
+  }
+
+  let interval = 0;
+  let best = 0;
+  counts.forEach((count, diff) => {
+    if (count > best || (count === best && diff < interval)) {
+      interval = diff;
+      best = count;
+    }
+  });
+  return interval;
+};
+
+// Parse and validate a CSV file. Throws when the file can't be used at all;
+// individual bad rows are skipped and reported as warnings.
+export const parseOhlcvCsv = (text: string): OhlcvImport => {
+  const rows = text.split(/\r?\n/)
+    .map((line, index) => ({ line: index + 1, cells: line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')) }))
+    .filter(row => row.cells.some(cell => cell !== ''));
+  if (rows.length === 0) {
+    throw new Error('File is empty');
+  }
+
+  // A header row is recognised by a non-numeric first cell
+  let columns = { time: 0, open: 1, high: 2, low: 3, close: 4, volume: 5 };
+  if (isNaN(parseFloat(rows[0].cells[0]))) {
+    const header = rows.shift()!.cells.map(cell => cell.toLowerCase());
+    const find = (names: string[]) => header.findIndex(name => names.includes(name));
+    columns = {
+      time: find(TIME_COLUMNS),
+      open: find(['open', 'o']),
+      high: find(['high', 'h']),
+      low: find(['low', 'l']),
+      close: find(['close', 'c']),
+      volume: find(['volume', 'vol', 'v'])
+    };
+
+    const missing = (['time', 'open', 'high', 'low', 'close'] as const).filter(column => columns[column] === -1);
+    if (missing.length > 0) {
+      throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+    }
+  }
+
+  const warnings: string[] = [];
+  let invalidRows = 0;
+  const reject = (line: number, reason: string) => {
+    invalidRows++;
+    if (warnings.length < MAX_REPORTED_WARNINGS) {
+      warnings.push(`Line ${line}: ${reason}`);
+    }
+  };
+
+  const candles: Candle[] = [];
+  for (const { line, cells } of rows) {
+    const timestamp = parseTime(cells[columns.time] ?? '');
+    const open = parseFloat(cells[columns.open]);
+    const high = parseFloat(cells[columns.high]);
+    const low = parseFloat(cells[columns.low]);
+    const close = parseFloat(cells[columns.close]);
+    const volume = columns.volume === -1 ? 0 : parseFloat(cells[columns.volume] ?? '0');
+
+    if (!Number.isFinite(timestamp)) {
+      reject(line, 'invalid time');
+    } else if (![open, high, low, close, volume].every(Number.isFinite)) {
+      reject(line, 'non-numeric price or volume');
+    } else if (low <= 0 || volume < 0) {
+      reject(line, 'prices must be positive and volume non-negative');
+    } else if (high < Math.max(open, close, low) || low > Math.min(open, close)) {
+      reject(line, 'high/low do not contain open and close');
+    } else {
+      candles.push({ timestamp, open, high, low, close, volume });
+    }
+  }
+
+  if (candles.length < 2) {
+    throw new Error(warnings[0] ?? 'Need at least two valid rows');
+  }
+  if (invalidRows > rows.length * MAX_INVALID_SHARE) {
+    throw new Error(`${invalidRows} of ${rows.length} rows are invalid (${warnings[0]})`);
+  }
+
+  // Dumps are usually sorted already; tolerate unsorted files but drop repeated bars
+  candles.sort((a, b) => a.timestamp - b.timestamp);
+  const unique = candles.filter((candle, i) => i === 0 || candle.timestamp !== candles[i - 1].timestamp);
+  if (unique.length < candles.length) {
+    warnings.push(`${candles.length - unique.length} duplicate bar(s) dropped`);
+  }
+
+  const intervalMs = inferInterval(unique);
+  const gaps = unique.filter((candle, i) => i > 0 && candle.timestamp - unique[i - 1].timestamp > intervalMs).length;
+  if (gaps > 0) {
+    warnings.push(`${gaps} gap(s) longer than the ${formatCandleInterval(intervalMs)} interval`);
+  }
+  if (invalidRows > MAX_REPORTED_WARNINGS) {
+    warnings.push(`${invalidRows} invalid rows skipped in total`);
+  }
+
+  return { candles: unique, intervalMs, warnings };
+};
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Config, MarketData } from '../types';
+import { parseOhlcvCsv } from './csvImport';
+import { CsvSource } from './csvSource';
+import { setLoadedFile } from './loadedFiles';
+import { ManualTimers } from './testing/manualTimers';
+
+const config: Config = {
+  initialPrice: 100,
+  volatility: 0.0001,
+  spread: 0.0001,
+  updateInterval: 100,
+  orderBookLevels: 5,
+  maxTradeSize: 1,
+  maxTradesPerSecond: 5,
+  tradeSizeStep: 0.1,
+  initialBalance: 10000,
+  candleInterval: 1000,
+  pnlWindowTime: 15000,
+  priceChangeThreshold15s: 0,
+  priceChangeThreshold1m: 0,
+  priceChangeThreshold15m: 0,
+  priceChangeThreshold1h: 0,
+  marketDataSource: 'csv',
+  symbol: 'BTCUSDT',
+  seed: 3
+};
+
+// Three one-minute bars; each plays in 10 seconds at 1x
+const CSV = [
+  'time,open,high,low,close,volume',
+  '2024-01-01T00:00:00Z,100,104,99,103,120',
+  '2024-01-01T00:01:00Z,103,105,101,102,80',
+  '2024-01-01T00:02:00Z,102,102,96,97,200'
+].join('\n');
+const BAR_PLAYBACK_MS = 10000;
+
+describe('CsvSource', () => {
+  let timers: ManualTimers;
+  let source: CsvSource;
+  let updates: MarketData[];
+  const bars = parseOhlcvCsv(CSV);
+
+  beforeEach(() => {
+    timers = new ManualTimers();
+    updates = [];
+    source = new CsvSource({ config, timers });
+    source.on('data', data => updates.push(data));
+  });
+
+  afterEach(() => {
+    source.disconnect();
+    setLoadedFile('csv', null);
+  });
+
+  const latest = () => updates[updates.length - 1];
+
+  it('reports an error when no file is loaded', () => {
+    source.connect();
+    expect(source.getStatus()).toMatchObject({ status: 'error', reason: 'No CSV file loaded' });
+  });
+
+  it('moves through each bar from its open, within its range, to its close', () => {
+    setLoadedFile('csv', { name: 'bars.csv', content: bars });
+    source.connect();
+    expect(latest().price).toBe(100);
+
+    timers.advance(3 * BAR_PLAYBACK_MS);
+    bars.candles.forEach((bar, index) => {
+      const prices = updates
+        .filter(data => data.candles[data.candles.length - 1].timestamp === bar.timestamp)
+        .map(data => data.price);
+      expect(prices.length).toBeGreaterThan(10);
+      expect(Math.min(...prices)).toBeGreaterThanOrEqual(bar.low);
+      expect(Math.max(...prices)).toBeLessThanOrEqual(bar.high);
+      if (index === bars.candles.length - 1) {
+        expect(prices[prices.length - 1]).toBe(bar.close);
+      }
+    });
+    expect(source.getStatus()).toMatchObject({ status: 'live', reason: 'Playback finished' });
+  });
+
+  it('builds the open candle from the bar so far and keeps the closed ones', () => {
+    setLoadedFile('csv', { name: 'bars.csv', content: bars });
+    source.connect();
+    timers.advance(BAR_PLAYBACK_MS * 1.5);
+
+    const { candles, price } = latest();
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toEqual(bars.candles[0]);
+    expect(candles[1]).toMatchObject({ timestamp: bars.candles[1].timestamp, open: 103, close: price });
+    expect(candles[1].high).toBeLessThanOrEqual(105);
+    expect(candles[1].volume).toBeLessThan(80);
+  });
+
+  it('lands on the same prices when seeking back to a position', () => {
+    setLoadedFile('csv', { name: 'bars.csv', content: bars });
+    source.connect();
+    source.pause();
+    source.seek(15000);
+    const first = latest().price;
+    source.seek(2000);
+    source.seek(15000);
+
+    expect(latest().price).toBe(first);
+  });
+
+  it('quotes a book around the price with the configured depth', () => {
+    setLoadedFile('csv', { name: 'bars.csv', content: bars });
+    source.connect();
+    timers.advance(1000);
+
+    const { orderBook, bid, ask, price } = latest();
+    expect(orderBook.bids).toHaveLength(5);
+    expect(orderBook.asks).toHaveLength(5);
+    expect(bid).toBeLessThan(price);
+    expect(ask).toBeGreaterThan(price);
+
+    source.updateConfig({ ...config, orderBookLevels: 3 });
+    timers.advance(100);
+    expect(latest().orderBook.bids).toHaveLength(3);
+  });
+});
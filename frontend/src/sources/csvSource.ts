@@ -0,0 +1,123 @@
+import type { Candle, Config, MarketData, OrderBook } from '../types';
+import { ohlcPath } from '../utils/brownianBridge';
+import { SeededRandom } from '../utils/random';
+import type { OhlcvImport } from './csvImport';
+import { getLoadedFile, onLoadedFileChange } from './loadedFiles';
+import { PlaybackSource } from './playbackSource';
+import type { MarketDataSourceOptions } from './types';
+
+// Bars longer than this play in this much time at 1x, so daily data stays watchable
+const MAX_BAR_PLAYBACK_MS = 10000;
+// Spacing of interpolated ticks inside a bar at 1x
+const TICK_MS = 50;
+// Synthetic book: spread and level spacing as a share of price
+const RELATIVE_SPREAD = 0.0002;
+const MAX_CANDLES = 500;
+
+/**
+ * Plays imported OHLCV bars. Prices inside each bar follow a seeded Brownian
+ * bridge through open, low/high and close, so the feed moves continuously
+ * instead of jumping once per bar.
+ */
+export class CsvSource extends PlaybackSource {
+  public readonly id = 'csv';
+
+  private data: OhlcvImport | null = null;
+  private barPlaybackMs = 0;
+  private orderBookLevels: number;
+  private seed: number;
+  private barIndex = -1;
+  private barPath: number[] = [];
+  private unsubscribeStore: (() => void) | null = null;
+
+  constructor(options: MarketDataSourceOptions) {
+    super(options.timers);
+    this.orderBookLevels = options.config.orderBookLevels;
+    this.seed = options.config.seed ?? 1;
+  }
+
+  public connect(): void {
+    if (!this.unsubscribeStore) {
+      this.unsubscribeStore = onLoadedFileChange(this.id, () => this.reload());
+    }
+    super.connect();
+  }
+
+  public disconnect(): void {
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    super.disconnect();
+  }
+
+  public updateConfig(config: Config): void {
+    this.orderBookLevels = config.orderBookLevels;
+  }
+
+  protected load(): string | null {
+    const loaded = getLoadedFile<OhlcvImport>(this.id);
+    this.data = null;
+    this.barIndex = -1;
+
+    if (!loaded) return 'No CSV file loaded';
+
+    this.data = loaded.content;
+    this.barPlaybackMs = Math.min(loaded.content.intervalMs, MAX_BAR_PLAYBACK_MS);
+    console.log(`Playing ${loaded.name} (${loaded.content.candles.length} bars)`);
+    return null;
+  }
+
+  protected getDuration(): number {
+    return this.data ? this.data.candles.length * this.barPlaybackMs : 0;
+  }
+
+  protected render(position: number): MarketData | null {
+    if (!this.data) return null;
+    const { candles, intervalMs } = this.data;
+
+    const bar = Math.min(Math.floor(position / this.barPlaybackMs), candles.length - 1);
+    const progress = Math.min(1, (position - bar * this.barPlaybackMs) / this.barPlaybackMs);
+    const candle = candles[bar];
+
+    // Each bar's path is seeded by its index, so seeking lands on the same prices
+    if (bar !== this.barIndex) {
+      const ticks = Math.max(4, Math.round(this.barPlaybackMs / TICK_MS));
+      this.barPath = ohlcPath(candle, ticks, new SeededRandom(this.seed + bar));
+      this.barIndex = bar;
+    }
+
+    const tick = Math.min(this.barPath.length - 1, Math.floor(progress * this.barPath.length));
+    const price = this.barPath[tick];
+    const traded = this.barPath.slice(0, tick + 1);
+    const partial: Candle = {
+      timestamp: candle.timestamp,
+      open: candle.open,
+      high: Math.max(...traded),
+      low: Math.min(...traded),
+      close: price,
+      volume: candle.volume * (tick + 1) / this.barPath.length
+    };
+
+    const halfSpread = price * RELATIVE_SPREAD / 2;
+    return {
+      timestamp: candle.timestamp + Math.floor(progress * intervalMs),
+      price,
+      bid: price - halfSpread,
+      ask: price + halfSpread,
+      orderBook: this.buildOrderBook(price, candle),
+      trades: [],
+      candles: [...candles.slice(Math.max(0, bar - MAX_CANDLES + 1), bar), partial]
+    };
+  }
+
+  // Evenly spaced levels around the price, deeper further out, sized from the bar's volume
+  private buildOrderBook(price: number, candle: Candle): OrderBook {
+    const spacing = price * RELATIVE_SPREAD;
+    const baseVolume = candle.volume > 0 ? candle.volume / this.orderBookLevels : 1;
+    const levels = Array.from({ length: this.orderBookLevels }, (_, i) => i);
+
+    return {
+      bids: levels.map(i => ({ price: price - spacing / 2 - i * spacing, volume: baseVolume * (1 + i * 0.25) })),
+      asks: levels.map(i => ({ price: price + spacing / 2 + i * spacing, volume: baseVolume * (1 + i * 0.25) }))
+    };
+  }
+}
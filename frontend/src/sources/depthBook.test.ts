@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DepthBook } from './depthBook';
+import type { DepthLevel, DepthUpdate } from './depthBook';
+
+const update = (U: number, u: number, b: DepthLevel[] = [], a: DepthLevel[] = []): DepthUpdate => ({
+  e: 'depthUpdate',
+  E: 0,
+  s: 'ETHUSDT',
+  U,
+  u,
+  b,
+  a
+});
+
+describe('DepthBook', () => {
+  let book: DepthBook;
+
+  beforeEach(() => {
+    book = new DepthBook();
+    book.applySnapshot({
+      lastUpdateId: 100,
+      bids: [['99.00', '1.0'], ['98.00', '2.0']],
+      asks: [['101.00', '1.5'], ['102.00', '3.0']]
+    });
+  });
+
+  it('reports a gap for updates before any snapshot', () => {
+    const unsynced = new DepthBook();
+    expect(unsynced.isSynced()).toBe(false);
+    expect(unsynced.applyUpdate(update(1, 5))).toBe('gap');
+  });
+
+  it('drops events the snapshot already covers', () => {
+    expect(book.applyUpdate(update(90, 100, [['99.00', '0']]))).toBe('stale');
+    expect(book.applyUpdate(update(95, 98, [['99.00', '0']]))).toBe('stale');
+    expect(book.bestBid()).toBe(99);
+    expect(book.getLastUpdateId()).toBe(100);
+  });
+
+  it('applies a first event that straddles lastUpdateId + 1', () => {
+    expect(book.applyUpdate(update(95, 105, [['99.50', '4.0']]))).toBe('applied');
+    expect(book.bestBid()).toBe(99.5);
+    expect(book.getLastUpdateId()).toBe(105);
+  });
+
+  it('applies a first event that starts exactly at lastUpdateId + 1', () => {
+    expect(book.applyUpdate(update(101, 101))).toBe('applied');
+    expect(book.getLastUpdateId()).toBe(101);
+  });
+
+  it('reports a gap when the first event starts past lastUpdateId + 1', () => {
+    expect(book.applyUpdate(update(102, 110, [['99.50', '4.0']]))).toBe('gap');
+    expect(book.bestBid()).toBe(99);
+    expect(book.getLastUpdateId()).toBe(100);
+  });
+
+  it('requires each later event to follow the previous one exactly', () => {
+    expect(book.applyUpdate(update(95, 105))).toBe('applied');
+
+    // Once synced, an overlapping event is a sequencing error too, not a straddle
+    expect(book.applyUpdate(update(104, 108))).toBe('gap');
+    expect(book.applyUpdate(update(107, 108))).toBe('gap');
+    expect(book.applyUpdate(update(106, 108))).toBe('applied');
+    expect(book.getLastUpdateId()).toBe(108);
+  });
+
+  it('removes levels updated to a quantity of 0', () => {
+    book.applyUpdate(update(101, 102, [['99.00', '0']], [['101.00', '0.00000000']]));
+    expect(book.bestBid()).toBe(98);
+    expect(book.bestAsk()).toBe(102);
+  });
+
+  it('lists the top levels best first', () => {
+    book.applyUpdate(update(101, 101, [['97.00', '5.0']], [['100.50', '0.5']]));
+    expect(book.getOrderBook(2)).toEqual({
+      bids: [{ price: 99, volume: 1 }, { price: 98, volume: 2 }],
+      asks: [{ price: 100.5, volume: 0.5 }, { price: 101, volume: 1.5 }]
+    });
+  });
+
+  it('starts over from a new snapshot', () => {
+    book.applyUpdate(update(101, 101));
+    book.applySnapshot({ lastUpdateId: 200, bids: [['90.00', '1.0']], asks: [] });
+    expect(book.bestBid()).toBe(90);
+    expect(book.bestAsk()).toBeNull();
+
+    // The straddle rule applies again to the first event after it
+    expect(book.applyUpdate(update(150, 205))).toBe('applied');
+  });
+});
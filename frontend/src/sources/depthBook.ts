@@ -0,0 +1,111 @@
+/**
+ * Local order book kept in sync with Binance's @depth diff stream
+ */
+
+import type { OrderBook } from '../types';
+
+// [price, quantity] as sent by Binance
+export type DepthLevel = [string, string];
+
+// REST /api/v3/depth response
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
+// @depth stream event
+export interface DepthUpdate {
+  e: 'depthUpdate';
+  E: number;
+  s: string;
+  U: number; // First update ID in the event
+  u: number; // Final update ID in the event
+  b: DepthLevel[];
+  a: DepthLevel[];
+}
+
+// stale: already covered by the snapshot, gap: updates were missed and the book must be resynced
+export type DepthApplyResult = 'applied' | 'stale' | 'gap';
+
+/**
+ * Applies the documented sync procedure: load a REST snapshot, drop buffered
+ * events with u <= lastUpdateId, require the first applied event to straddle
+ * lastUpdateId + 1, then require every event's U to follow the previous u.
+ */
+export class DepthBook {
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private lastUpdateId: number | null = null;
+  private expectFirstEvent = false;
+
+  public isSynced(): boolean {
+    return this.lastUpdateId !== null;
+  }
+
+  public getLastUpdateId(): number | null {
+    return this.lastUpdateId;
+  }
+
+  public reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = null;
+    this.expectFirstEvent = false;
+  }
+
+  public applySnapshot(snapshot: DepthSnapshot): void {
+    this.reset();
+    snapshot.bids.forEach(level => this.setLevel(this.bids, level));
+    snapshot.asks.forEach(level => this.setLevel(this.asks, level));
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.expectFirstEvent = true;
+  }
+
+  public applyUpdate(update: DepthUpdate): DepthApplyResult {
+    if (this.lastUpdateId === null) return 'gap';
+    if (update.u <= this.lastUpdateId) return 'stale';
+
+    const nextId = this.lastUpdateId + 1;
+    if (this.expectFirstEvent ? update.U > nextId : update.U !== nextId) {
+      return 'gap';
+    }
+
+    update.b.forEach(level => this.setLevel(this.bids, level));
+    update.a.forEach(level => this.setLevel(this.asks, level));
+    this.lastUpdateId = update.u;
+    this.expectFirstEvent = false;
+    return 'applied';
+  }
+
+  public bestBid(): number | null {
+    return this.bids.size > 0 ? Math.max(...this.bids.keys()) : null;
+  }
+
+  public bestAsk(): number | null {
+    return this.asks.size > 0 ? Math.min(...this.asks.keys()) : null;
+  }
+
+  // Top levels per side, best first
+  public getOrderBook(levels: number): OrderBook {
+    const side = (book: Map<number, number>, descending: boolean) => [...book.entries()]
+      .sort((a, b) => descending ? b[0] - a[0] : a[0] - b[0])
+      .slice(0, levels)
+      .map(([price, volume]) => ({ price, volume }));
+
+    return {
+      bids: side(this.bids, true),
+      asks: side(this.asks, false)
+    };
+  }
+
+  // A quantity of 0 removes the level
+  private setLevel(book: Map<number, number>, [price, quantity]: DepthLevel): void {
+    const volume = parseFloat(quantity);
+    if (volume === 0) {
+      book.delete(parseFloat(price));
+    } else {
+      book.set(parseFloat(price), volume);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Built-in market data sources
+ */
+
+import { registerMarketDataSource } from './registry';
+import { SimulatorSource } from './simulatorSource';
+import { BinanceSource, BinanceTickerFeed } from './binanceSource';
+import { BackendSource } from './backendSource';
+import { ReplaySource } from './replaySource';
+import { CsvSource } from './csvSource';
+import { MultiAssetSource } from './multiAssetSource';
+import { getMarketUniverse } from '../utils/multiAssetSimulator';
+import { loadAuthSession } from '../utils/localStorage';
+
+registerMarketDataSource({
+  id: 'simulator',
+  label: 'Simulator',
+  description: 'Client-side market simulator with pattern presets',
+  create: (options) => new SimulatorSource(options)
+});
+
+registerMarketDataSource({
+  id: 'binance',
+  label: 'Binance (Live)',
+  description: 'Live klines from the Binance WebSocket API',
+  create: (options) => new BinanceSource(options),
+  createTickerFeed: (options) => new BinanceTickerFeed(options)
+});
+
+registerMarketDataSource({
+  id: 'multiAsset',
+  label: 'Multi-Asset Simulator',
+  description: 'Correlated client-side markets that tick together, e.g. BTC, ETH and SOL',
+  create: (options) => new MultiAssetSource(options),
+  switchesSymbols: true,
+  getSymbols: (config) => getMarketUniverse(config).assets.map(asset => ({ symbol: asset.symbol, name: asset.name }))
+});
+
+registerMarketDataSource({
+  id: 'backend',
+  label: 'Server Simulator',
+  description: 'Simulator running on the TradeStick backend, private or in a shared room',
+  create: (options) => new BackendSource({
+    ...options,
+    session: options.config.backendRoom,
+    auth: loadAuthSession()
+  })
+});
+
+registerMarketDataSource({
+  id: 'replay',
+  label: 'Replay Recording',
+  description: 'Play back a recorded session from an NDJSON file',
+  create: (options) => new ReplaySource(options)
+});
+
+registerMarketDataSource({
+  id: 'csv',
+  label: 'Historical CSV',
+  description: 'Play back OHLCV bars from a CSV file (Binance kline dumps supported)',
+  create: (options) => new CsvSource(options)
+});
+
+export {
+  registerMarketDataSource,
+  getMarketDataSources,
+  getMarketDataSource,
+  createMarketDataSource,
+  createTickerFeed
+} from './registry';
+export { MarketDataRecorder, parseRecording, serializeRecording } from './recording';
+export { getLoadedFile, setLoadedFile, onLoadedFileChange } from './loadedFiles';
+export { parseOhlcvCsv, formatCandleInterval } from './csvImport';
+export { PLAYBACK_SPEEDS } from './playbackSource';
+export type * from './types';
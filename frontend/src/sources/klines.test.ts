@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Candle } from '../types';
+import { findCandleGap, mergeCandles, parseKlineRows, toBinanceInterval } from './klines';
+import type { KlineRow } from './klines';
+
+const candle = (timestamp: number, close = 100): Candle => ({
+  timestamp,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1
+});
+
+describe('toBinanceInterval', () => {
+  it('picks the largest interval that fits the candle interval', () => {
+    expect(toBinanceInterval(1000).interval).toBe('1s');
+    expect(toBinanceInterval(5000).interval).toBe('1s');
+    expect(toBinanceInterval(60000).interval).toBe('1m');
+    expect(toBinanceInterval(10 * 60 * 1000).interval).toBe('5m');
+  });
+
+  it('falls back to 1s for sub-second candles', () => {
+    expect(toBinanceInterval(100)).toEqual({ interval: '1s', ms: 1000 });
+  });
+});
+
+describe('parseKlineRows', () => {
+  it('keys candles by close time and parses the price strings', () => {
+    const rows: KlineRow[] = [
+      [1000, '1.5', '2.5', '1.0', '2.0', '10.25', 1999, '20.5', 3, '0', '0', '0'],
+      [2000, '2.0', '2.0', '1.5', '1.75', '0', 2999, '0', 0, '0', '0', '0']
+    ];
+    expect(parseKlineRows(rows)).toEqual([
+      { timestamp: 1999, open: 1.5, high: 2.5, low: 1, close: 2, volume: 10.25 },
+      { timestamp: 2999, open: 2, high: 2, low: 1.5, close: 1.75, volume: 0 }
+    ]);
+  });
+});
+
+describe('mergeCandles', () => {
+  it('stitches live candles after the backfill without duplicates', () => {
+    const backfill = [candle(1999), candle(2999), candle(3999, 101)];
+    const live = [candle(3999, 102), candle(4999)];
+    const merged = mergeCandles(backfill, live, 100);
+
+    expect(merged.map(c => c.timestamp)).toEqual([1999, 2999, 3999, 4999]);
+    // The live close replaces the backfilled partial candle for the same period
+    expect(merged[2].close).toBe(102);
+    expect(findCandleGap(merged, 1000)).toBeNull();
+  });
+
+  it('lets live candles win when the backfill arrives after them', () => {
+    const live = [candle(3999, 102), candle(4999)];
+    const backfill = [candle(2999), candle(3999, 101)];
+    const merged = mergeCandles(backfill, live, 100);
+
+    expect(merged.map(c => c.timestamp)).toEqual([2999, 3999, 4999]);
+    expect(merged[1].close).toBe(102);
+  });
+
+  it('sorts by time and keeps the most recent candles', () => {
+    const merged = mergeCandles([candle(5999), candle(1999)], [candle(3999), candle(2999)], 3);
+    expect(merged.map(c => c.timestamp)).toEqual([2999, 3999, 5999]);
+  });
+});
+
+describe('findCandleGap', () => {
+  it('returns the candle before the first missing interval', () => {
+    expect(findCandleGap([candle(1999), candle(2999), candle(5999), candle(6999)], 1000)).toBe(2999);
+  });
+
+  it('returns null for contiguous or short series', () => {
+    expect(findCandleGap([candle(1999), candle(2999)], 1000)).toBeNull();
+    expect(findCandleGap([candle(1999)], 1000)).toBeNull();
+    expect(findCandleGap([], 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Helpers for Binance klines: interval mapping, REST parsing and stitching
+ * backfilled history onto live candles
+ */
+
+import type { Candle } from '../types';
+
+// Binance kline intervals, shortest first
+export const BINANCE_INTERVALS: { interval: string; ms: number }[] = [
+  { interval: '1s', ms: 1000 },
+  { interval: '1m', ms: 60 * 1000 },
+  { interval: '3m', ms: 3 * 60 * 1000 },
+  { interval: '5m', ms: 5 * 60 * 1000 },
+  { interval: '15m', ms: 15 * 60 * 1000 },
+  { interval: '30m', ms: 30 * 60 * 1000 },
+  { interval: '1h', ms: 60 * 60 * 1000 },
+  { interval: '4h', ms: 4 * 60 * 60 * 1000 },
+  { interval: '1d', ms: 24 * 60 * 60 * 1000 }
+];
+
+// REST /api/v3/klines row: [openTime, open, high, low, close, volume, closeTime, ...]
+export type KlineRow = [number, string, string, string, string, string, number, ...unknown[]];
+
+// Largest Binance interval that fits in the chart's candle interval (1s at minimum)
+export const toBinanceInterval = (candleIntervalMs: number): { interval: string; ms: number } => {
+  let match = BINANCE_INTERVALS[0];
+  for (const candidate of BINANCE_INTERVALS) {
+    if (candidate.ms <= candleIntervalMs) {
+      match = candidate;
+    }
+  }
+  return match;
+};
+
+// Candles are keyed by close time, matching the live stream's k.T
+export const parseKlineRows = (rows: KlineRow[]): Candle[] => rows.map(row => ({
+  timestamp: row[6],
+  open: parseFloat(row[1]),
+  high: parseFloat(row[2]),
+  low: parseFloat(row[3]),
+  close: parseFloat(row[4]),
+  volume: parseFloat(row[5])
+}));
+
+// Merge two candle series by timestamp. Incoming candles replace existing ones
+// with the same timestamp, so a live close overrides a backfilled partial candle.
+export const mergeCandles = (existing: Candle[], incoming: Candle[], maxCandles: number): Candle[] => {
+  const byTimestamp = new Map<number, Candle>();
+  existing.forEach(candle => byTimestamp.set(candle.timestamp, candle));
+  incoming.forEach(candle => byTimestamp.set(candle.timestamp, candle));
+
+  return [...byTimestamp.values()]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-maxCandles);
+};
+
+// Timestamp of the last candle before the first missing one, or null when contiguous
+export const findCandleGap = (candles: Candle[], intervalMs: number): number | null => {
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i].timestamp - candles[i - 1].timestamp > intervalMs) {
+      return candles[i - 1].timestamp;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,36 @@
+/**
+ * Files loaded for playback sources (recordings, imported CSVs), keyed by
+ * source ID. Files are chosen in settings, outside a source's lifecycle, so
+ * sources watch this store and reload when a new file arrives.
+ */
+
+export interface LoadedFile<T> {
+  name: string;
+  content: T;
+}
+
+const files = new Map<string, LoadedFile<unknown>>();
+const listeners = new Map<string, Set<() => void>>();
+
+export const getLoadedFile = <T>(sourceId: string): LoadedFile<T> | null => {
+  return (files.get(sourceId) as LoadedFile<T> | undefined) ?? null;
+};
+
+export const setLoadedFile = <T>(sourceId: string, file: LoadedFile<T> | null): void => {
+  if (file) {
+    files.set(sourceId, file);
+  } else {
+    files.delete(sourceId);
+  }
+  listeners.get(sourceId)?.forEach(listener => listener());
+};
+
+export const onLoadedFileChange = (sourceId: string, listener: () => void): (() => void) => {
+  if (!listeners.has(sourceId)) {
+    listeners.set(sourceId, new Set());
+  }
+  listeners.get(sourceId)!.add(listener);
+  return () => {
+    listeners.get(sourceId)?.delete(listener);
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * Client side of the backend's incremental market data protocol
+ *
+ * The server sends one snapshot with the full MarketData, then a delta per
+ * tick with the quote, the order book levels that changed, new trades and
+ * the candles from the last one the client already has. Sequence numbers
+ * let the client spot a missed delta and ask for a new snapshot.
+ * See backend/src/marketDataProtocol.js for the encoder.
+ */
+
+import type { Candle, MarketData, OrderBookLevel, Trade } from '../types';
+
+export const MARKET_DATA_PROTOCOL_VERSION = 1;
+
+// [price, volume, orders]; zero volume removes the level
+type LevelChange = [number, number, number];
+
+export interface MarketSnapshotMessage {
+  v: number;
+  seq: number;
+  data: MarketData;
+}
+
+export interface MarketDeltaMessage {
+  v: number;
+  seq: number;
+  ts: number;
+  p: number;
+  b: number;
+  a: number;
+  ob?: { b?: LevelChange[]; a?: LevelChange[] };
+  tr?: Trade[]; // Trades new since the previous tick, in feed order
+  tn?: number; // Length of the trade list after appending tr
+  c?: Candle[]; // Candles from the previous last candle onward
+  cn?: number; // Length of the candle history after applying c
+  cr?: 1; // Set when c replaces the candle history instead of extending it
+}
+
+const applyLevels = (
+  levels: OrderBookLevel[],
+  changes: LevelChange[] | undefined,
+  descending: boolean
+): OrderBookLevel[] => {
+  if (!changes) return levels;
+
+  const byPrice = new Map(levels.map(level => [level.price, level]));
+  for (const [price, volume, orders] of changes) {
+    if (volume > 0) {
+      byPrice.set(price, { price, volume, orders });
+    } else {
+      byPrice.delete(price);
+    }
+  }
+  return [...byPrice.values()].sort((x, y) => (descending ? y.price - x.price : x.price - y.price));
+};
+
+const applyCandles = (candles: Candle[], delta: MarketDeltaMessage): Candle[] => {
+  if (!delta.c) return candles;
+  if (delta.cr) return delta.c;
+
+  const firstTimestamp = delta.c[0]?.timestamp;
+  const kept = firstTimestamp === undefined ? candles : candles.filter(candle => candle.timestamp < firstTimestamp);
+  return [...kept, ...delta.c].slice(-(delta.cn ?? Infinity));
+};
+
+// Rebuild the full MarketData after a delta. The caller checks the sequence.
+export const applyMarketDelta = (state: MarketData, delta: MarketDeltaMessage): MarketData => ({
+  timestamp: delta.ts,
+  price: delta.p,
+  bid: delta.b,
+  ask: delta.a,
+  orderBook: delta.ob
+    ? {
+        bids: applyLevels(state.orderBook.bids, delta.ob.b, true),
+        asks: applyLevels(state.orderBook.asks, delta.ob.a, false)
+      }
+    : state.orderBook,
+  trades: delta.tr ? [...state.trades, ...delta.tr].slice(-(delta.tn ?? Infinity)) : state.trades,
+  candles: applyCandles(state.candles, delta)
+});
@@ -0,0 +1,105 @@
+import type { Config, Trade } from '../types';
+import { MultiAssetSimulator, getMarketUniverse } from '../utils/multiAssetSimulator';
+import type { MultiAssetConfig } from '../utils/multiAssetSimulator';
+import { BaseMarketDataSource } from './baseSource';
+import { BOOK_DEPTH_IN_MAX_TRADES } from './simulatorSource';
+import type { MarketDataSourceOptions } from './types';
+
+// Map app settings onto the multi-asset simulator's configuration
+export const toMultiAssetConfig = (config: Config): MultiAssetConfig => {
+  const universe = getMarketUniverse(config);
+  return {
+    assets: universe.assets,
+    correlations: universe.correlations,
+    updateInterval: config.updateInterval,
+    orderBookLevels: config.orderBookLevels,
+    seed: config.seed,
+    priceModelParams: config.priceModelParams,
+    levelVolume: config.maxTradeSize * BOOK_DEPTH_IN_MAX_TRADES,
+    permanentImpact: config.permanentImpact,
+    temporaryImpact: config.temporaryImpact,
+    impactDecay: config.impactDecay
+  };
+};
+
+/**
+ * Client-side multi-asset simulator source: ticks every asset of a universe
+ * together, charts the selected symbol and reports the price of all of them.
+ * Switching to another symbol of the universe keeps the market running.
+ */
+export class MultiAssetSource extends BaseMarketDataSource {
+  public readonly id = 'multiAsset';
+
+  private simulator: MultiAssetSimulator;
+  private config: Config;
+  private intervalId: number | null = null;
+
+  constructor(options: MarketDataSourceOptions) {
+    super(options.timers);
+    this.config = options.config;
+    this.simulator = new MultiAssetSimulator(toMultiAssetConfig(options.config));
+  }
+
+  public connect(): void {
+    if (this.intervalId !== null) return;
+
+    this.setStatus('connecting');
+    this.tick();
+    this.intervalId = this.timers.setInterval(() => this.tick(), this.config.updateInterval);
+  }
+
+  public disconnect(): void {
+    if (this.intervalId !== null) {
+      this.timers.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.setStatus('disconnected');
+  }
+
+  public updateConfig(config: Config): void {
+    const intervalChanged = config.updateInterval !== this.config.updateInterval;
+    const universeChanged = config.universe !== this.config.universe;
+    this.config = config;
+
+    // A different universe is a different market; start it afresh on the same seed
+    if (universeChanged) {
+      this.simulator = new MultiAssetSimulator({ ...toMultiAssetConfig(config), seed: this.simulator.getSeed() });
+    } else {
+      this.simulator.updateConfig(toMultiAssetConfig(config));
+    }
+
+    if (intervalChanged && this.intervalId !== null) {
+      this.timers.clearInterval(this.intervalId);
+      this.intervalId = this.timers.setInterval(() => this.tick(), config.updateInterval);
+    }
+  }
+
+  public onTradeExecuted(trade: Trade, depthConsumed: number): void {
+    const simulator = this.simulator.getSimulator(this.getChartedSymbol());
+    simulator?.addTrade(trade.side, trade.size, trade.price);
+    if (this.config.marketImpact) {
+      simulator?.applyMarketImpact(trade.side, depthConsumed);
+    }
+  }
+
+  public getSeed(): number {
+    return this.simulator.getSeed();
+  }
+
+  // The selected symbol, or the universe's first when it isn't in the universe
+  private getChartedSymbol(): string {
+    const symbols = this.simulator.getSymbols();
+    const symbol = this.config.symbol.toLowerCase();
+    return symbols.includes(symbol) ? symbol : symbols[0];
+  }
+
+  private tick(): void {
+    const markets = this.simulator.generateMarketData();
+    this.emit('tickers', Object.entries(markets).map(([symbol, data]) => ({
+      symbol,
+      price: data.price,
+      timestamp: data.timestamp
+    })));
+    this.publish(markets[this.getChartedSymbol()]);
+  }
+}
@@ -0,0 +1,170 @@
+import type { MarketData } from '../types';
+import { BaseMarketDataSource } from './baseSource';
+import type { PlaybackControls, PlaybackListener, PlaybackState } from './types';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 25, 50, 100];
+export const MIN_PLAYBACK_SPEED = 0.25;
+export const MAX_PLAYBACK_SPEED = 100;
+
+// How often the playback clock advances, in wall-clock milliseconds
+const PLAYBACK_TICK_MS = 50;
+
+/**
+ * Shared transport for sources that play back stored data (recordings,
+ * imported files): a playback clock with play/pause, speed, seek and loop.
+ * Subclasses only have to turn a position on their timeline into MarketData.
+ */
+export abstract class PlaybackSource extends BaseMarketDataSource implements PlaybackControls {
+  private playing = false;
+  private speed = 1;
+  private loop = false;
+  private position = 0;
+  private intervalId: number | null = null;
+  private connected = false;
+  private playbackListeners = new Set<PlaybackListener>();
+
+  // Prepare the data to play; returns an error message when there is nothing to play
+  protected abstract load(): string | null;
+
+  // Length of the timeline in milliseconds
+  protected abstract getDuration(): number;
+
+  // Market state at a position. `restart` is set when the position jumped
+  // backwards or was seeked, so incremental state has to be rebuilt.
+  protected abstract render(position: number, restart: boolean): MarketData | null;
+
+  public connect(): void {
+    if (this.connected) return;
+    this.connected = true;
+    this.setStatus('connecting');
+    this.reload(true);
+  }
+
+  public disconnect(): void {
+    this.connected = false;
+    this.stopClock();
+    this.playing = false;
+    this.setStatus('disconnected');
+    this.notifyPlayback();
+  }
+
+  public getPlayback(): PlaybackControls {
+    return this;
+  }
+
+  public getState(): PlaybackState {
+    return {
+      playing: this.playing,
+      speed: this.speed,
+      loop: this.loop,
+      position: this.position,
+      duration: this.getDuration()
+    };
+  }
+
+  public play(): void {
+    if (!this.connected || this.playing) return;
+
+    // Playing from the end starts over
+    if (this.position >= this.getDuration()) {
+      this.seek(0);
+    }
+    this.playing = true;
+    this.setStatus('live');
+    this.intervalId = this.timers.setInterval(() => this.advance(), PLAYBACK_TICK_MS);
+    this.notifyPlayback();
+  }
+
+  public pause(reason = 'Paused'): void {
+    if (!this.playing) return;
+    this.playing = false;
+    this.stopClock();
+    this.setStatus('live', reason);
+    this.notifyPlayback();
+  }
+
+  public setSpeed(speed: number): void {
+    this.speed = Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, speed));
+    this.notifyPlayback();
+  }
+
+  public setLoop(loop: boolean): void {
+    this.loop = loop;
+    this.notifyPlayback();
+  }
+
+  public seek(position: number): void {
+    this.position = Math.min(this.getDuration(), Math.max(0, position));
+    const data = this.render(this.position, true);
+    if (data) this.publish(data);
+    if (!this.playing) this.clearStaleTimer();
+    this.notifyPlayback();
+  }
+
+  public onChange(listener: PlaybackListener): () => void {
+    this.playbackListeners.add(listener);
+    return () => {
+      this.playbackListeners.delete(listener);
+    };
+  }
+
+  // Load the data again (e.g. after a new file was chosen) and start from the top
+  protected reload(autoplay = this.playing): void {
+    if (!this.connected) return;
+
+    this.stopClock();
+    this.playing = false;
+
+    const error = this.load();
+    if (error) {
+      this.position = 0;
+      this.setStatus('error', error);
+      this.notifyPlayback();
+      return;
+    }
+
+    this.seek(0);
+    if (autoplay) {
+      this.play();
+    } else {
+      this.setStatus('live', 'Paused');
+    }
+  }
+
+  private advance(): void {
+    const duration = this.getDuration();
+    let position = this.position + PLAYBACK_TICK_MS * this.speed;
+    let restart = false;
+
+    if (position >= duration) {
+      if (this.loop && duration > 0) {
+        position = 0;
+        restart = true;
+      } else {
+        this.position = duration;
+        const data = this.render(duration, false);
+        if (data) this.publish(data);
+        this.pause('Playback finished');
+        return;
+      }
+    }
+
+    this.position = position;
+    const data = this.render(position, restart);
+    if (data) this.publish(data);
+    this.notifyPlayback();
+  }
+
+  private stopClock(): void {
+    if (this.intervalId !== null) {
+      this.timers.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.clearStaleTimer();
+  }
+
+  private notifyPlayback(): void {
+    const state = this.getState();
+    this.playbackListeners.forEach(listener => listener(state));
+  }
+}
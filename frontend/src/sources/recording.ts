@@ -0,0 +1,202 @@
+/**
+ * Compact recordings of a MarketData stream, stored as newline-delimited JSON.
+ *
+ * The first line is a header, every following line is a frame. Frames carry
+ * the quote and book in full but only the trades and candles that changed
+ * since the previous frame, so a recording grows with market activity rather
+ * than with the size of the candle history.
+ */
+
+import type { Candle, MarketData, OrderBook, Trade } from '../types';
+
+export const RECORDING_FORMAT = 'tradestick-recording';
+export const RECORDING_VERSION = 1;
+
+// Replayed history is capped like the simulator's
+const MAX_TRADES = 50;
+const MAX_CANDLES = 500;
+
+export interface RecordingHeader {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  source: string; // ID of the source that was recorded
+  symbol: string;
+  startedAt: number;
+}
+
+export interface RecordingFrame {
+  t: number; // Milliseconds since the start of the recording
+  ts: number; // MarketData.timestamp
+  p: number;
+  b: number;
+  a: number;
+  ob: { b: [number, number][]; a: [number, number][] }; // [price, volume] levels
+  tr?: Trade[]; // Trades new since the previous frame, newest first
+  c?: Candle[]; // Candles from the previous frame's last candle onward
+  cr?: 1; // Set when c replaces the candle history instead of extending it
+}
+
+export interface Recording {
+  header: RecordingHeader;
+  frames: RecordingFrame[];
+  duration: number;
+}
+
+const toLevels = (levels: OrderBook['bids']): [number, number][] =>
+  levels.map(level => [level.price, level.volume]);
+
+const fromLevels = (levels: [number, number][]): OrderBook['bids'] =>
+  levels.map(([price, volume]) => ({ price, volume }));
+
+// Candles after the previous frame's last one, or null when history was rewritten
+const candleTail = (previous: Candle[], next: Candle[]): Candle[] | null => {
+  if (previous.length === 0) return null;
+
+  const lastTimestamp = previous[previous.length - 1].timestamp;
+  const start = next.findIndex(candle => candle.timestamp >= lastTimestamp);
+  const head = start === -1 ? next.length : start;
+
+  // Everything before the tail must line up with the end of the previous history
+  const offset = previous.length - 1 - head;
+  if (offset < 0) return null;
+  for (let i = 0; i < head; i++) {
+    if (next[i].timestamp !== previous[offset + i].timestamp) return null;
+  }
+  return next.slice(head);
+};
+
+/**
+ * Collects MarketData updates into a Recording. Updates closer together than
+ * minFrameInterval are folded into the next frame.
+ */
+export class MarketDataRecorder {
+  private readonly header: RecordingHeader;
+  private readonly minFrameInterval: number;
+  private frames: RecordingFrame[] = [];
+  private lastRecorded: MarketData | null = null;
+  private lastFrameTime = -Infinity;
+
+  constructor(source: string, symbol: string, minFrameInterval = 50, startedAt = Date.now()) {
+    this.header = { format: RECORDING_FORMAT, version: RECORDING_VERSION, source, symbol, startedAt };
+    this.minFrameInterval = minFrameInterval;
+  }
+
+  public getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  public record(data: MarketData, now = Date.now()): void {
+    const t = now - this.header.startedAt;
+    if (t - this.lastFrameTime < this.minFrameInterval) return;
+
+    const previous = this.lastRecorded;
+    const frame: RecordingFrame = {
+      t,
+      ts: data.timestamp,
+      p: data.price,
+      b: data.bid,
+      a: data.ask,
+      ob: { b: toLevels(data.orderBook.bids), a: toLevels(data.orderBook.asks) }
+    };
+
+    const knownTradeIds = new Set(previous?.trades.map(trade => trade.id) ?? []);
+    const newTrades = data.trades.filter(trade => !knownTradeIds.has(trade.id));
+    if (newTrades.length > 0) {
+      frame.tr = newTrades;
+    }
+
+    // Candles are copied because sources update the open candle in place
+    const tail = candleTail(previous?.candles ?? [], data.candles);
+    if (tail === null) {
+      if (data.candles.length > 0 || (previous?.candles.length ?? 0) > 0) {
+        frame.c = data.candles.map(candle => ({ ...candle }));
+        frame.cr = 1;
+      }
+    } else if (tail.length > 0) {
+      frame.c = tail.map(candle => ({ ...candle }));
+    }
+
+    this.frames.push(frame);
+    this.lastRecorded = data;
+    this.lastFrameTime = t;
+  }
+
+  public finish(): Recording {
+    const frames = [...this.frames];
+    return {
+      header: this.header,
+      frames,
+      duration: frames.length > 0 ? frames[frames.length - 1].t : 0
+    };
+  }
+}
+
+// Rebuild the MarketData at a frame from the state at the previous frame
+export const applyFrame = (previous: MarketData | null, frame: RecordingFrame): MarketData => {
+  let candles = previous?.candles ?? [];
+  if (frame.c) {
+    if (frame.cr) {
+      candles = frame.c;
+    } else {
+      const firstTimestamp = frame.c[0]?.timestamp;
+      const kept = firstTimestamp === undefined ? candles : candles.filter(candle => candle.timestamp < firstTimestamp);
+      candles = [...kept, ...frame.c].slice(-MAX_CANDLES);
+    }
+  }
+
+  return {
+    timestamp: frame.ts,
+    price: frame.p,
+    bid: frame.b,
+    ask: frame.a,
+    orderBook: { bids: fromLevels(frame.ob.b), asks: fromLevels(frame.ob.a) },
+    trades: frame.tr ? [...frame.tr, ...(previous?.trades ?? [])].slice(0, MAX_TRADES) : previous?.trades ?? [],
+    candles
+  };
+};
+
+export const serializeRecording = (recording: Recording): string => {
+  return [recording.header, ...recording.frames].map(line => JSON.stringify(line)).join('\n') + '\n';
+};
+
+// Parse an NDJSON recording. Throws with the offending line number on bad input.
+export const parseRecording = (text: string): Recording => {
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Recording is empty');
+  }
+
+  const parseLine = (index: number) => {
+    try {
+      return JSON.parse(lines[index]);
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+  };
+
+  const header = parseLine(0) as RecordingHeader;
+  if (header.format !== RECORDING_FORMAT) {
+    throw new Error('Not a TradeStick recording');
+  }
+  if (header.version > RECORDING_VERSION) {
+    throw new Error(`Recording version ${header.version} is newer than supported (${RECORDING_VERSION})`);
+  }
+
+  const frames: RecordingFrame[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const frame = parseLine(i) as RecordingFrame;
+    if (typeof frame.t !== 'number' || typeof frame.p !== 'number' || !frame.ob) {
+      throw new Error(`Line ${i + 1} is not a recording frame`);
+    }
+    if (frames.length > 0 && frame.t < frames[frames.length - 1].t) {
+      throw new Error(`Line ${i + 1} is out of order`);
+    }
+    frames.push(frame);
+  }
+
+  return {
+    header,
+    frames,
+    duration: frames.length > 0 ? frames[frames.length - 1].t : 0
+  };
+};
@@ -0,0 +1,37 @@
+import type {
+  MarketDataSource,
+  MarketDataSourceDefinition,
+  MarketDataSourceOptions,
+  TickerFeed,
+  TickerFeedOptions
+} from './types';
+
+const definitions = new Map<string, MarketDataSourceDefinition>();
+
+// Register a source so it can be selected in settings
+export const registerMarketDataSource = (definition: MarketDataSourceDefinition): void => {
+  definitions.set(definition.id, definition);
+};
+
+// All registered sources, in registration order
+export const getMarketDataSources = (): MarketDataSourceDefinition[] => {
+  return [...definitions.values()];
+};
+
+export const getMarketDataSource = (id: string): MarketDataSourceDefinition | undefined => {
+  return definitions.get(id);
+};
+
+// Create an instance of a registered source
+export const createMarketDataSource = (id: string, options: MarketDataSourceOptions): MarketDataSource => {
+  const definition = definitions.get(id);
+  if (!definition) {
+    throw new Error(`Unknown market data source: ${id}`);
+  }
+  return definition.create(options);
+};
+
+// Create a ticker feed for a source's symbols, or null if it can't price them
+export const createTickerFeed = (id: string, options: TickerFeedOptions): TickerFeed | null => {
+  return definitions.get(id)?.createTickerFeed?.(options) ?? null;
+};
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Config, MarketData } from '../types';
+import { setLoadedFile } from './loadedFiles';
+import { MarketDataRecorder } from './recording';
+import type { Recording } from './recording';
+import { ReplaySource } from './replaySource';
+import { ManualTimers } from './testing/manualTimers';
+
+const config: Config = {
+  initialPrice: 1,
+  volatility: 0.0001,
+  spread: 0.0001,
+  updateInterval: 100,
+  orderBookLevels: 5,
+  maxTradeSize: 1,
+  maxTradesPerSecond: 5,
+  tradeSizeStep: 0.1,
+  initialBalance: 10000,
+  candleInterval: 1000,
+  pnlWindowTime: 15000,
+  priceChangeThreshold15s: 0,
+  priceChangeThreshold1m: 0,
+  priceChangeThreshold15m: 0,
+  priceChangeThreshold1h: 0,
+  marketDataSource: 'replay',
+  symbol: 'EURUSD'
+};
+
+// A second of market, one frame every 100ms: the price counts up from
+// `firstPrice` and every frame adds a trade
+const makeRecording = (firstPrice = 1): Recording => {
+  const recorder = new MarketDataRecorder('simulator', 'EURUSD', 50, 0);
+  const trades: MarketData['trades'] = [];
+  for (let i = 0; i <= 10; i++) {
+    const price = firstPrice + i;
+    trades.unshift({ id: `t${i}`, timestamp: i * 100, side: 'buy', size: 1, price, value: price });
+    recorder.record({
+      timestamp: i * 100,
+      price,
+      bid: price - 0.5,
+      ask: price + 0.5,
+      orderBook: { bids: [{ price: price - 0.5, volume: 1 }], asks: [{ price: price + 0.5, volume: 1 }] },
+      trades: [...trades],
+      candles: [{ timestamp: 0, open: firstPrice, high: price, low: firstPrice, close: price, volume: i }]
+    }, i * 100);
+  }
+  return recorder.finish();
+};
+
+describe('ReplaySource', () => {
+  let timers: ManualTimers;
+  let source: ReplaySource;
+  let latest: MarketData | null;
+
+  beforeEach(() => {
+    timers = new ManualTimers();
+    latest = null;
+    source = new ReplaySource({ config, timers });
+    source.on('data', data => {
+      latest = data;
+    });
+  });
+
+  afterEach(() => {
+    source.disconnect();
+    setLoadedFile('replay', null);
+  });
+
+  it('reports an error when no recording is loaded', () => {
+    source.connect();
+    expect(source.getStatus()).toMatchObject({ status: 'error', reason: 'No recording loaded' });
+    expect(latest).toBeNull();
+  });
+
+  it('plays the recording in real time from its first frame', () => {
+    setLoadedFile('replay', { name: 'one-second.ndjson', content: makeRecording() });
+    source.connect();
+    expect(source.getStatus().status).toBe('live');
+    expect(latest!.price).toBe(1);
+
+    timers.advance(100);
+    expect(latest!.price).toBe(2);
+    expect(latest!.trades.map(trade => trade.id)).toEqual(['t1', 't0']);
+
+    timers.advance(900);
+    expect(latest!.price).toBe(11);
+    expect(latest!.candles).toEqual([{ timestamp: 0, open: 1, high: 11, low: 1, close: 11, volume: 10 }]);
+    expect(source.getStatus()).toMatchObject({ status: 'live', reason: 'Playback finished' });
+    expect(source.getState()).toMatchObject({ playing: false, position: 1000, duration: 1000 });
+  });
+
+  it('plays faster at a higher speed', () => {
+    setLoadedFile('replay', { name: 'one-second.ndjson', content: makeRecording() });
+    source.connect();
+    source.setSpeed(4);
+    timers.advance(100);
+
+    expect(source.getState().position).toBe(400);
+    expect(latest!.price).toBe(5);
+  });
+
+  it('rebuilds the state when seeking backwards', () => {
+    setLoadedFile('replay', { name: 'one-second.ndjson', content: makeRecording() });
+    source.connect();
+    timers.advance(800);
+    source.seek(200);
+
+    expect(latest!.price).toBe(3);
+    expect(latest!.trades.map(trade => trade.id)).toEqual(['t2', 't1', 't0']);
+  });
+
+  it('starts over at the end when looping', () => {
+    setLoadedFile('replay', { name: 'one-second.ndjson', content: makeRecording() });
+    source.connect();
+    source.setLoop(true);
+    timers.advance(1000);
+
+    expect(source.getState().playing).toBe(true);
+    expect(latest!.price).toBe(1);
+    expect(latest!.trades.map(trade => trade.id)).toEqual(['t0']);
+  });
+
+  it('reloads when another recording is chosen', () => {
+    setLoadedFile('replay', { name: 'one-second.ndjson', content: makeRecording() });
+    source.connect();
+    timers.advance(500);
+
+    setLoadedFile('replay', { name: 'later.ndjson', content: makeRecording(100) });
+    expect(latest!.price).toBe(100);
+    expect(source.getState().position).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+import type { MarketData } from '../types';
+import { PlaybackSource } from './playbackSource';
+import { applyFrame } from './recording';
+import type { Recording } from './recording';
+import { getLoadedFile, onLoadedFileChange } from './loadedFiles';
+import type { MarketDataSourceOptions } from './types';
+
+/**
+ * Replays a recorded MarketData stream (see recording.ts)
+ */
+export class ReplaySource extends PlaybackSource {
+  public readonly id = 'replay';
+
+  private recording: Recording | null = null;
+  private frameIndex = 0;
+  private state: MarketData | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+
+  constructor(options: MarketDataSourceOptions) {
+    super(options.timers);
+  }
+
+  public connect(): void {
+    if (!this.unsubscribeStore) {
+      this.unsubscribeStore = onLoadedFileChange(this.id, () => this.reload());
+    }
+    super.connect();
+  }
+
+  public disconnect(): void {
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    super.disconnect();
+  }
+
+  protected load(): string | null {
+    const loaded = getLoadedFile<Recording>(this.id);
+    this.recording = null;
+    this.frameIndex = 0;
+    this.state = null;
+
+    if (!loaded) return 'No recording loaded';
+    if (loaded.content.frames.length === 0) return `${loaded.name} has no frames`;
+
+    this.recording = loaded.content;
+    console.log(`Replaying ${loaded.name} (${loaded.content.header.source}, ${loaded.content.frames.length} frames)`);
+    return null;
+  }
+
+  // The timeline starts at the first frame rather than when recording was switched on
+  protected getDuration(): number {
+    const frames = this.recording?.frames;
+    return frames && frames.length > 0 ? frames[frames.length - 1].t - frames[0].t : 0;
+  }
+
+  protected render(position: number, restart: boolean): MarketData | null {
+    const frames = this.recording?.frames;
+    if (!frames || frames.length === 0) return null;
+
+    if (restart) {
+      this.frameIndex = 0;
+      this.state = null;
+    }
+
+    const time = frames[0].t + position;
+    let applied = false;
+    while (this.frameIndex < frames.length && frames[this.frameIndex].t <= time) {
+      this.state = applyFrame(this.state, frames[this.frameIndex]);
+      this.frameIndex++;
+      applied = true;
+    }
+    return applied || restart ? this.state : null;
+  }
+}
@@ -0,0 +1,78 @@
+import type { MarketScenario } from '../types';
+import type { RoomControls, RoomFill, RoomState } from './types';
+
+// Fills kept for the room's live feed
+const MAX_FILLS = 20;
+
+/**
+ * Client half of a backend trading room: mirrors the state and fills the
+ * server broadcasts and sends the owner's match commands back.
+ */
+export class RoomClient implements RoomControls {
+  private state: RoomState | null = null;
+  private fills: RoomFill[] = [];
+  private error: string | null = null;
+  private listeners = new Set<() => void>();
+  private readonly playerId: string;
+  private readonly send: (event: string, payload?: unknown) => void;
+
+  constructor(playerId: string, send: (event: string, payload?: unknown) => void) {
+    this.playerId = playerId;
+    this.send = send;
+  }
+
+  public getState(): RoomState | null {
+    return this.state;
+  }
+
+  public getPlayerId(): string {
+    return this.playerId;
+  }
+
+  public getFills(): RoomFill[] {
+    return this.fills;
+  }
+
+  public getError(): string | null {
+    return this.error;
+  }
+
+  public configure(options: { preset?: string; scenario?: MarketScenario | null; duration?: number }): void {
+    this.error = null;
+    this.send('room:configure', options);
+    this.notify();
+  }
+
+  public start(): void {
+    this.error = null;
+    this.fills = [];
+    this.send('room:start');
+    this.notify();
+  }
+
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public applyState(state: RoomState): void {
+    this.state = state;
+    this.notify();
+  }
+
+  public applyFill(fill: RoomFill): void {
+    this.fills = [fill, ...this.fills].slice(0, MAX_FILLS);
+    this.notify();
+  }
+
+  public applyError(message: string): void {
+    this.error = message;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
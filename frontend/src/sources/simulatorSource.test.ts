@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Config, MarketData } from '../types';
+import { SimulatorSource } from './simulatorSource';
+import { ManualTimers } from './testing/manualTimers';
+
+const config: Config = {
+  initialPrice: 1.1,
+  volatility: 0.0001,
+  spread: 0.0001,
+  updateInterval: 100,
+  orderBookLevels: 5,
+  maxTradeSize: 1,
+  maxTradesPerSecond: 5,
+  tradeSizeStep: 0.1,
+  initialBalance: 10000,
+  candleInterval: 1000,
+  pnlWindowTime: 15000,
+  priceChangeThreshold15s: 0,
+  priceChangeThreshold1m: 0,
+  priceChangeThreshold15m: 0,
+  priceChangeThreshold1h: 0,
+  marketDataSource: 'simulator',
+  symbol: 'EURUSD',
+  seed: 42
+};
+
+describe('SimulatorSource', () => {
+  let timers: ManualTimers;
+
+  const start = (settings: Config = config) => {
+    const source = new SimulatorSource({ config: settings, timers });
+    const updates: MarketData[] = [];
+    source.on('data', data => updates.push(data));
+    source.connect();
+    return { source, updates };
+  };
+
+  beforeEach(() => {
+    timers = new ManualTimers();
+  });
+
+  it('publishes a tick straight away and then every update interval', () => {
+    const { source, updates } = start();
+    expect(source.getStatus().status).toBe('live');
+    expect(updates).toHaveLength(1);
+
+    timers.advance(1000);
+    expect(updates).toHaveLength(11);
+    expect(updates[10].orderBook.bids).toHaveLength(config.orderBookLevels);
+    expect(updates[10].bid).toBeLessThan(updates[10].ask);
+  });
+
+  it('plays the same market for the same seed', () => {
+    const first = start();
+    const second = start();
+    timers.advance(2000);
+
+    expect(first.source.getSeed()).toBe(42);
+    expect(second.updates.map(data => data.price)).toEqual(first.updates.map(data => data.price));
+  });
+
+  it('ticks on the new interval after a config change', () => {
+    const { source, updates } = start();
+    source.updateConfig({ ...config, updateInterval: 500 });
+    timers.advance(1000);
+
+    expect(updates).toHaveLength(3);
+  });
+
+  it('stops ticking when disconnected', () => {
+    const { source, updates } = start();
+    source.disconnect();
+    timers.advance(1000);
+
+    expect(updates).toHaveLength(1);
+    expect(source.getStatus().status).toBe('disconnected');
+    expect(timers.pending()).toBe(0);
+  });
+
+  it('connects only once', () => {
+    const { source, updates } = start();
+    source.connect();
+    timers.advance(100);
+
+    expect(updates).toHaveLength(2);
+  });
+});
@@ -0,0 +1,106 @@
+import type { Config, Trade } from '../types';
+import { MarketSimulator } from '../utils/marketSimulator';
+import type { SimulatorConfig } from '../utils/marketSimulator';
+import { hasScenarioMoved } from '../utils/scenario';
+import type { ScenarioStatus } from '../utils/scenario';
+import { BaseMarketDataSource } from './baseSource';
+import type { MarketDataSourceOptions } from './types';
+
+// Average size of the best simulated book level, in multiples of maxTradeSize.
+// A plain trade nibbles the top level; gamepad multipliers walk the book.
+export const BOOK_DEPTH_IN_MAX_TRADES = 5;
+
+// Map app settings onto the simulator's configuration
+export const toSimulatorConfig = (config: Config): SimulatorConfig => ({
+  initialPrice: config.initialPrice,
+  volatility: config.volatility,
+  spread: config.spread,
+  updateInterval: config.updateInterval,
+  orderBookLevels: config.orderBookLevels,
+  patternType: config.patternType,
+  patternStrength: config.patternStrength,
+  patternDuration: config.patternDuration,
+  customPath: config.customPattern?.path,
+  seed: config.seed,
+  priceModel: config.priceModel,
+  priceModelParams: config.priceModelParams,
+  levelVolume: config.maxTradeSize * BOOK_DEPTH_IN_MAX_TRADES,
+  permanentImpact: config.permanentImpact,
+  temporaryImpact: config.temporaryImpact,
+  impactDecay: config.impactDecay
+});
+
+/**
+ * Client-side simulator source: ticks a MarketSimulator on an interval,
+ * playing the configured scenario from the start. A different scenario
+ * takes a new source, so a seed and scenario always give the same market.
+ */
+export class SimulatorSource extends BaseMarketDataSource {
+  public readonly id = 'simulator';
+
+  private simulator: MarketSimulator;
+  private config: Config;
+  private intervalId: number | null = null;
+  private scenarioStatus: ScenarioStatus | null = null;
+
+  constructor(options: MarketDataSourceOptions) {
+    super(options.timers);
+    this.config = options.config;
+    this.simulator = new MarketSimulator(toSimulatorConfig(options.config));
+    this.simulator.setScenario(options.config.scenario ?? null);
+  }
+
+  public connect(): void {
+    if (this.intervalId !== null) return;
+
+    this.setStatus('connecting');
+    this.tick();
+    this.intervalId = this.timers.setInterval(() => this.tick(), this.config.updateInterval);
+  }
+
+  public disconnect(): void {
+    if (this.intervalId !== null) {
+      this.timers.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.setStatus('disconnected');
+  }
+
+  public updateConfig(config: Config): void {
+    const intervalChanged = config.updateInterval !== this.config.updateInterval;
+    const patternChanged = config.patternType !== this.config.patternType ||
+      config.customPattern !== this.config.customPattern;
+    this.config = config;
+
+    // Only pass patternType when it changed so the running pattern isn't restarted
+    const { patternType, ...simulatorConfig } = toSimulatorConfig(config);
+    this.simulator.updateConfig(patternChanged ? { ...simulatorConfig, patternType } : simulatorConfig);
+
+    if (intervalChanged && this.intervalId !== null) {
+      this.timers.clearInterval(this.intervalId);
+      this.intervalId = this.timers.setInterval(() => this.tick(), config.updateInterval);
+    }
+  }
+
+  public onTradeExecuted(trade: Trade, depthConsumed: number): void {
+    this.simulator.addTrade(trade.side, trade.size, trade.price);
+    if (this.config.marketImpact) {
+      this.simulator.applyMarketImpact(trade.side, depthConsumed);
+    }
+  }
+
+  public getSeed(): number {
+    return this.simulator.getSeed();
+  }
+
+  private tick(): void {
+    this.publish(this.simulator.generateMarketData());
+
+    // Report the scenario when it moves on to another segment, loops or ends
+    const status = this.simulator.getScenarioStatus();
+    if (hasScenarioMoved(this.scenarioStatus, status)) {
+      this.scenarioStatus = status;
+      this.emit('scenario', status);
+    }
+  }
+}
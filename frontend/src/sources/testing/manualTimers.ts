@@ -0,0 +1,69 @@
+import type { SourceTimers } from '../types';
+
+interface ScheduledTimer {
+  handler: () => void;
+  dueAt: number;
+  every: number | null; // Repeat period for intervals
+}
+
+/**
+ * Timers on a clock the test moves by hand, for the sources' `timers` option.
+ * advance() fires everything that falls due, in order, including intervals
+ * several times over.
+ */
+export class ManualTimers implements SourceTimers {
+  public now = 0;
+  private nextId = 1;
+  private timers = new Map<number, ScheduledTimer>();
+
+  public setInterval(handler: () => void, ms: number): number {
+    return this.schedule(handler, ms, ms);
+  }
+
+  public clearInterval(id: number): void {
+    this.timers.delete(id);
+  }
+
+  public setTimeout(handler: () => void, ms: number): number {
+    return this.schedule(handler, ms, null);
+  }
+
+  public clearTimeout(id: number): void {
+    this.timers.delete(id);
+  }
+
+  // Number of timers still waiting to fire
+  public pending(): number {
+    return this.timers.size;
+  }
+
+  public advance(ms: number): void {
+    const end = this.now + ms;
+    for (;;) {
+      let nextId: number | null = null;
+      let next: ScheduledTimer | null = null;
+      for (const [id, timer] of this.timers) {
+        if (timer.dueAt <= end && (!next || timer.dueAt < next.dueAt)) {
+          nextId = id;
+          next = timer;
+        }
+      }
+      if (nextId === null || !next) break;
+
+      this.now = next.dueAt;
+      if (next.every === null) {
+        this.timers.delete(nextId);
+      } else {
+        next.dueAt += next.every;
+      }
+      next.handler();
+    }
+    this.now = end;
+  }
+
+  private schedule(handler: () => void, ms: number, every: number | null): number {
+    const id = this.nextId++;
+    this.timers.set(id, { handler, dueAt: this.now + ms, every: every !== null ? Math.max(1, every) : null });
+    return id;
+  }
+}
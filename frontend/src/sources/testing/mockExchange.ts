@@ -0,0 +1,321 @@
+import { SeededRandom } from '../../utils/random';
+
+/**
+ * Mock Binance exchange for the source tests
+ *
+ * The market half of backend/src/mockExchange.js, which serves the same
+ * market over HTTP and WebSocket for running the app locally. It reproduces
+ * the public spot market data formats (REST depth snapshot and klines,
+ * @depth diff stream, @aggTrade and @kline_1s) from a seeded random market.
+ * Keep the two in step when the formats change.
+ */
+
+export interface MockExchangeOptions {
+  symbol?: string; // In Binance format, e.g. ETHUSDT
+  initialPrice?: number;
+  tickSize?: number;
+  volatility?: number; // Per-tick log return standard deviation
+  levels?: number; // Price levels quoted on each side
+  tradeRate?: number; // Chance of a trade per tick
+  gapRate?: number; // Chance of dropping a depth update, to test resyncs
+  seed?: number;
+}
+
+// Event as sent on a combined stream
+export interface MockStreamEvent {
+  stream: string;
+  data: { e: string; [field: string]: unknown };
+}
+
+type KlineRow = [number, string, string, string, string, string, number, string, number, string, string, string];
+
+interface KlineState {
+  t: number;
+  T: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  n: number;
+}
+
+export class MockExchange {
+  public readonly symbol: string;
+  public gapRate: number;
+
+  private readonly tickSize: number;
+  private readonly decimals: number;
+  private readonly volatility: number;
+  private readonly levels: number;
+  private readonly tradeRate: number;
+  private readonly random: SeededRandom;
+  private mid: number;
+  private bids = new Map<number, number>(); // tick -> quantity
+  private asks = new Map<number, number>();
+  private lastUpdateId = 1000;
+  private nextTradeId = 1;
+  private kline: KlineState | null = null;
+  private closedKlines: KlineState[] = [];
+
+  constructor({
+    symbol = 'ETHUSDT',
+    initialPrice = 2000,
+    tickSize = 0.01,
+    volatility = 0.00001,
+    levels = 50,
+    tradeRate = 0.3,
+    gapRate = 0,
+    seed = 1
+  }: MockExchangeOptions = {}) {
+    this.symbol = symbol.toUpperCase();
+    this.tickSize = tickSize;
+    this.decimals = Math.max(0, Math.round(-Math.log10(tickSize)));
+    this.volatility = volatility;
+    this.levels = levels;
+    this.tradeRate = tradeRate;
+    this.gapRate = gapRate;
+    this.random = new SeededRandom(seed);
+    this.mid = initialPrice;
+
+    // Quote the full book before the first tick so snapshots are never empty
+    this.requote(new Map(), new Map());
+  }
+
+  // REST depth snapshot in /api/v3/depth format
+  public getDepthSnapshot(limit = 100): { lastUpdateId: number; bids: [string, string][]; asks: [string, string][] } {
+    return {
+      lastUpdateId: this.lastUpdateId,
+      bids: this.sortedLevels(this.bids, 'desc').slice(0, limit),
+      asks: this.sortedLevels(this.asks, 'asc').slice(0, limit)
+    };
+  }
+
+  // 1s klines in /api/v3/klines format, including the open kline; the most
+  // recent `limit` unless startTime is set
+  public getKlines({ startTime, endTime, limit = 500 }: { startTime?: number; endTime?: number; limit?: number } = {}): KlineRow[] {
+    let klines = this.kline ? [...this.closedKlines, this.kline] : [...this.closedKlines];
+    if (startTime !== undefined) {
+      klines = klines.filter(kline => kline.t >= startTime);
+    }
+    if (endTime !== undefined) {
+      klines = klines.filter(kline => kline.t <= endTime);
+    }
+    klines = startTime !== undefined ? klines.slice(0, limit) : klines.slice(-limit);
+
+    return klines.map(kline => [
+      kline.t,
+      kline.o.toFixed(this.decimals),
+      kline.h.toFixed(this.decimals),
+      kline.l.toFixed(this.decimals),
+      kline.c.toFixed(this.decimals),
+      kline.v.toFixed(4),
+      kline.T,
+      (kline.v * kline.c).toFixed(4),
+      kline.n,
+      '0',
+      '0',
+      '0'
+    ]);
+  }
+
+  // Run the market over a past window so REST history is available at startup
+  public seedHistory(now: number, seconds: number, tickInterval: number): void {
+    for (let time = now - seconds * 1000; time < now; time += tickInterval) {
+      this.tick(time);
+    }
+  }
+
+  // Advance the market by one tick; returns stream events in the order they occurred
+  public tick(now: number): MockStreamEvent[] {
+    const events: MockStreamEvent[] = [];
+    const bidChanges = new Map<number, number>();
+    const askChanges = new Map<number, number>();
+
+    // A trade hits the top of the book before the quotes move
+    if (this.random.next() < this.tradeRate) {
+      const trade = this.trade(now, bidChanges, askChanges);
+      if (trade) {
+        events.push({ stream: `${this.symbol.toLowerCase()}@aggTrade`, data: trade });
+      }
+    }
+
+    this.mid *= Math.exp(this.volatility * this.random.normal());
+    this.requote(bidChanges, askChanges);
+
+    if (bidChanges.size > 0 || askChanges.size > 0) {
+      const firstUpdateId = this.lastUpdateId + 1;
+      this.lastUpdateId += bidChanges.size + askChanges.size;
+      const update = {
+        e: 'depthUpdate',
+        E: now,
+        s: this.symbol,
+        U: firstUpdateId,
+        u: this.lastUpdateId,
+        b: this.formatLevels(bidChanges),
+        a: this.formatLevels(askChanges)
+      };
+
+      // Dropped updates leave a hole in the sequence, as a lossy connection would
+      if (this.random.next() >= this.gapRate) {
+        events.push({ stream: `${this.symbol.toLowerCase()}@depth@100ms`, data: update });
+      }
+    }
+
+    events.push(...this.updateKline(now));
+    return events;
+  }
+
+  // Take liquidity from the best bid or ask; null when that side is empty
+  private trade(now: number, bidChanges: Map<number, number>, askChanges: Map<number, number>): MockStreamEvent['data'] | null {
+    const buyerIsMaker = this.random.next() < 0.5;
+    const levels = buyerIsMaker ? this.bids : this.asks;
+    const changes = buyerIsMaker ? bidChanges : askChanges;
+    const ticks = [...levels.keys()];
+    if (ticks.length === 0) {
+      return null;
+    }
+
+    const bestTick = buyerIsMaker ? Math.max(...ticks) : Math.min(...ticks);
+    const available = levels.get(bestTick)!;
+    const quantity = Math.min(available, this.round(0.01 + this.random.next() * 2, 4));
+    const remaining = this.round(available - quantity, 4);
+    if (remaining > 0) {
+      levels.set(bestTick, remaining);
+    } else {
+      levels.delete(bestTick);
+    }
+    changes.set(bestTick, remaining);
+
+    const price = this.toPrice(bestTick);
+    this.recordTrade(price, quantity);
+
+    const tradeId = this.nextTradeId++;
+    return {
+      e: 'aggTrade',
+      E: now,
+      s: this.symbol,
+      a: tradeId,
+      p: price.toFixed(this.decimals),
+      q: quantity.toFixed(4),
+      f: tradeId,
+      l: tradeId,
+      T: now,
+      m: buyerIsMaker,
+      M: true
+    };
+  }
+
+  // Re-quote both sides around the current mid. Levels that would cross the
+  // mid are pulled, missing levels are added and a few resting sizes change.
+  private requote(bidChanges: Map<number, number>, askChanges: Map<number, number>): void {
+    const midTick = this.mid / this.tickSize;
+    const bestBidTick = Math.ceil(midTick) - 1;
+    const bestAskTick = Math.floor(midTick) + 1;
+
+    this.requoteSide(this.bids, bidChanges, bestBidTick, -1);
+    this.requoteSide(this.asks, askChanges, bestAskTick, 1);
+  }
+
+  private requoteSide(levels: Map<number, number>, changes: Map<number, number>, bestTick: number, direction: -1 | 1): void {
+    const worstTick = bestTick + direction * (this.levels - 1);
+    const inRange = (tick: number) => direction < 0
+      ? tick <= bestTick && tick >= worstTick
+      : tick >= bestTick && tick <= worstTick;
+
+    for (const tick of [...levels.keys()]) {
+      if (!inRange(tick)) {
+        levels.delete(tick);
+        changes.set(tick, 0);
+      }
+    }
+
+    for (let i = 0; i < this.levels; i++) {
+      const tick = bestTick + direction * i;
+      if (!levels.has(tick) || this.random.next() < 0.05) {
+        const quantity = this.round(0.1 + this.random.next() * 10 * (1 + i / 10), 4);
+        levels.set(tick, quantity);
+        changes.set(tick, quantity);
+      }
+    }
+  }
+
+  // Fold the latest price into the running 1s kline: a closing event when a
+  // second rolls over, then the open kline
+  private updateKline(now: number): MockStreamEvent[] {
+    const events: MockStreamEvent[] = [];
+    const openTime = Math.floor(now / 1000) * 1000;
+
+    if (this.kline && this.kline.t !== openTime) {
+      this.closedKlines.push(this.kline);
+      if (this.closedKlines.length > 10000) {
+        this.closedKlines.shift();
+      }
+      events.push(this.klineEvent(now, this.kline, true));
+      this.kline = null;
+    }
+
+    if (!this.kline) {
+      const price = this.round(this.mid, this.decimals);
+      this.kline = { t: openTime, T: openTime + 999, o: price, h: price, l: price, c: price, v: 0, n: 0 };
+    }
+
+    events.push(this.klineEvent(now, this.kline, false));
+    return events;
+  }
+
+  private recordTrade(price: number, quantity: number): void {
+    if (!this.kline) return;
+    this.kline.h = Math.max(this.kline.h, price);
+    this.kline.l = Math.min(this.kline.l, price);
+    this.kline.c = price;
+    this.kline.v = this.round(this.kline.v + quantity, 4);
+    this.kline.n += 1;
+  }
+
+  private klineEvent(now: number, kline: KlineState, closed: boolean): MockStreamEvent {
+    return {
+      stream: `${this.symbol.toLowerCase()}@kline_1s`,
+      data: {
+        e: 'kline',
+        E: now,
+        s: this.symbol,
+        k: {
+          t: kline.t,
+          T: kline.T,
+          s: this.symbol,
+          i: '1s',
+          o: kline.o.toFixed(this.decimals),
+          c: kline.c.toFixed(this.decimals),
+          h: kline.h.toFixed(this.decimals),
+          l: kline.l.toFixed(this.decimals),
+          v: kline.v.toFixed(4),
+          n: kline.n,
+          x: closed
+        }
+      }
+    };
+  }
+
+  // Changed levels as [price, quantity] string pairs
+  private formatLevels(levels: Map<number, number>): [string, string][] {
+    return [...levels.entries()].map(([tick, quantity]) => [
+      this.toPrice(tick).toFixed(this.decimals),
+      quantity.toFixed(4)
+    ]);
+  }
+
+  private sortedLevels(levels: Map<number, number>, order: 'asc' | 'desc'): [string, string][] {
+    const ticks = [...levels.keys()].sort((a, b) => order === 'asc' ? a - b : b - a);
+    return this.formatLevels(new Map(ticks.map(tick => [tick, levels.get(tick)!])));
+  }
+
+  private toPrice(tick: number): number {
+    return this.round(tick * this.tickSize, this.decimals);
+  }
+
+  // Round away floating point noise
+  private round(value: number, decimals: number): number {
+    return Number(value.toFixed(decimals));
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Market data source contracts
+ *
+ * A market data source turns some feed (the client simulator, an exchange
+ * WebSocket, the backend, a recording) into a stream of MarketData updates
+ * plus connection status events. Sources register themselves in the
+ * registry so settings can list whatever is available.
+ */
+
+import type { Config, MarketData, MarketScenario, Trade } from '../types';
+import type { ScenarioStatus } from '../utils/scenario';
+
+export type SourceStatus =
+  | 'idle'
+  | 'connecting'
+  | 'live'
+  | 'stale'
+  | 'reconnecting'
+  | 'error'
+  | 'disconnected';
+
+export interface SourceStatusEvent {
+  status: SourceStatus;
+  reason?: string;
+  timestamp: number;
+}
+
+export interface MarketDataSourceEvents {
+  data: MarketData;
+  status: SourceStatusEvent;
+  // Server-side account, from sources whose venue keeps the books
+  account: AccountState;
+  // Price of every symbol, from sources that run several at once
+  tickers: TickerUpdate[];
+  // Where a scripted scenario is up to, from sources that play one; sent when the segment changes
+  scenario: ScenarioStatus | null;
+}
+
+export type SourceListener<K extends keyof MarketDataSourceEvents> = (payload: MarketDataSourceEvents[K]) => void;
+
+export interface MarketDataSource {
+  readonly id: string;
+  connect(): void;
+  disconnect(): void;
+  getStatus(): SourceStatusEvent;
+  on<K extends keyof MarketDataSourceEvents>(event: K, listener: SourceListener<K>): () => void;
+  // Apply settings changes without reconnecting
+  updateConfig?(config: Config): void;
+  // Let the source reflect a trade the player executed locally
+  onTradeExecuted?(trade: Trade, depthConsumed: number): void;
+  // Execute a trade on the source's own venue instead of filling it locally
+  executeTrade?(request: TradeRequest): Promise<TradeResult>;
+  // Seed of a simulated market, for sources that have one
+  getSeed?(): number;
+  // Transport controls, for sources that play back stored data
+  getPlayback?(): PlaybackControls;
+  // Multiplayer match, for sources connected to a shared room
+  getRoom?(): RoomControls | null;
+}
+
+export interface TradeRequest {
+  side: 'buy' | 'sell';
+  size: number;
+  limitPrice?: number; // Worst price to fill at; the venue leaves the rest unfilled
+}
+
+// Outcome of a remotely executed trade; rejections carry the venue's reason
+export type TradeResult =
+  | { success: true; trade: Trade }
+  | { success: false; message: string };
+
+export interface AccountPosition {
+  symbol: string;
+  size: number;
+  avgPrice: number;
+}
+
+// Account as booked by the server's ledger
+export interface AccountState {
+  id: string;
+  cash: number;
+  realizedPnl: number;
+  initialBalance: number;
+  positions: AccountPosition[];
+  symbol: string; // Instrument of the connected market
+  updatedAt: number;
+}
+
+export interface PlaybackState {
+  playing: boolean;
+  speed: number; // Multiple of real time
+  loop: boolean;
+  position: number; // Milliseconds from the start of the timeline
+  duration: number;
+}
+
+export type PlaybackListener = (state: PlaybackState) => void;
+
+export interface PlaybackControls {
+  getState(): PlaybackState;
+  play(): void;
+  pause(): void;
+  setSpeed(speed: number): void;
+  seek(position: number): void;
+  setLoop(loop: boolean): void;
+  onChange(listener: PlaybackListener): () => void;
+}
+
+export type RoomStatus = 'lobby' | 'running' | 'finished';
+
+export interface RoomStanding {
+  rank: number;
+  playerId: string;
+  name: string;
+  equity: number; // Cash plus position marked at the current price
+  pnl: number; // Equity minus the starting balance
+  cash: number;
+  position: number;
+  trades: number;
+  connected: boolean;
+}
+
+// A player's fill, as broadcast to everyone in the room
+export interface RoomFill {
+  playerId: string;
+  name: string;
+  side: 'buy' | 'sell';
+  size: number;
+  price: number;
+  timestamp: number;
+}
+
+export interface RoomState {
+  id: string;
+  name: string;
+  status: RoomStatus;
+  ownerId: string | null;
+  preset: string; // Pattern preset key
+  scenario: string | null; // Name of the scenario the match plays instead of the preset
+  scenarioStatus: ScenarioStatus | null; // Where the room market's scenario is up to
+  duration: number; // Match length in milliseconds
+  startedAt: number | null;
+  endsAt: number | null;
+  standings: RoomStanding[];
+}
+
+export interface RoomControls {
+  getState(): RoomState | null;
+  getPlayerId(): string;
+  getFills(): RoomFill[]; // Newest first
+  getError(): string | null; // Last rejected room action
+  configure(options: { preset?: string; scenario?: MarketScenario | null; duration?: number }): void;
+  start(): void;
+  onChange(listener: () => void): () => void;
+}
+
+// Timer functions, injectable so sources can run against fake clocks
+export interface SourceTimers {
+  setInterval(handler: () => void, ms: number): number;
+  clearInterval(id: number): void;
+  setTimeout(handler: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+}
+
+export interface MarketDataSourceOptions {
+  config: Config;
+  timers?: SourceTimers;
+}
+
+// Last traded price of a symbol
+export interface TickerUpdate {
+  symbol: string;
+  price: number;
+  timestamp: number;
+}
+
+export type TickerListener = (update: TickerUpdate) => void;
+
+export interface TickerFeedOptions {
+  symbols: string[];
+  timers?: SourceTimers;
+}
+
+// Prices only, for instruments that are held but not charted
+export interface TickerFeed {
+  onTicker(listener: TickerListener): () => void;
+  close(): void;
+}
+
+export interface MarketDataSourceDefinition {
+  id: string;
+  label: string;
+  description?: string;
+  create(options: MarketDataSourceOptions): MarketDataSource;
+  // Sources that take symbol changes through updateConfig instead of reconnecting
+  switchesSymbols?: boolean;
+  // Symbols the source offers for a config, for sources with a fixed set
+  getSymbols?(config: Config): { symbol: string; name: string }[];
+  // Sources that can price symbols without charting them
+  createTickerFeed?(options: TickerFeedOptions): TickerFeed;
+}
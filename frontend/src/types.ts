@@ -2,6 +2,7 @@
 export interface OrderBookLevel {
   price: number;
   volume: number;
+  orders?: number; // Resting orders at this level, when the source keeps a real book
 }
 
 export interface OrderBook {
@@ -18,13 +19,97 @@ export interface Candle {
   volume: number;
 }
 
+export interface TradeFill {
+  price: number;
+  size: number;
+}
+
 export interface Trade {
   id: string;
   timestamp: number;
   side: 'buy' | 'sell';
   size: number;
-  price: number;
+  price: number; // Execution price (volume-weighted when filled across levels)
   value: number;
+  avgPrice?: number; // Volume-weighted average fill price
+  slippage?: number; // Adverse distance of avgPrice from the best price at submission
+  fills?: TradeFill[]; // Per-level fill breakdown
+  liquidation?: boolean; // Forced close by the margin engine
+  orderId?: string; // Working order that produced the trade
+  realizedPnl?: number; // P&L booked by closing part of the position, net of fees; unset for fills that only open or add
+  fee?: number; // Commission charged on the fill
+  liquidity?: 'maker' | 'taker'; // Whether the fill rested at a limit price or took liquidity
+}
+
+// How maker and taker fees are quoted (see utils/fees.ts)
+export type FeeModel = 'percent' | 'perLot';
+
+// How closing fills are matched to the lots they close
+export type CostBasisMethod = 'fifo' | 'average';
+
+// How the simulator generates the random part of each price move (see utils/priceModels.ts)
+export type PriceModelType = 'gbm' | 'garch' | 'regimeSwitching' | 'jumpDiffusion' | 'ornsteinUhlenbeck';
+
+export interface PriceModelParams {
+  garchAlpha: number; // GARCH: weight of the last squared move in the variance, per second
+  garchBeta: number; // GARCH: share of the variance carried forward, per second
+  calmDuration: number; // Regimes: mean seconds a calm spell lasts
+  trendDuration: number; // Regimes: mean seconds a trend lasts
+  crashDuration: number; // Regimes: mean seconds a crash lasts
+  trendDrift: number; // Regimes: log drift per second while trending, up or down
+  crashDrift: number; // Regimes: log drift per second during a crash
+  crashVolatility: number; // Regimes: volatility multiple during a crash
+  jumpIntensity: number; // Jumps: expected jumps per second
+  jumpMean: number; // Jumps: mean log size of a jump
+  jumpVolatility: number; // Jumps: standard deviation of the log size of a jump
+  meanReversion: number; // Ornstein-Uhlenbeck: reversion rate per second
+  meanPrice: number; // Ornstein-Uhlenbeck: price reverted to; 0 for the initial price
+}
+
+// Price path sketched in the pattern editor (see utils/customPatterns.ts)
+export interface CustomPattern {
+  id: string;
+  name: string;
+  path: number[]; // Price relative to the start (1 = start), evenly spaced over the duration
+  duration: number; // in milliseconds
+  volatility: number; // Noise around the sketch
+  createdAt: number;
+}
+
+// One stretch of a scripted market (see utils/scenario.ts)
+export interface ScenarioSegment {
+  pattern: Exclude<NonNullable<Config['patternType']>, 'custom'>;
+  duration: number; // Seconds
+  strength?: number; // 0-1; defaults to 0.5
+  volatility?: number; // Defaults to the simulator's volatility
+  spread?: number; // Defaults to the simulator's spread
+}
+
+export interface MarketScenario {
+  name: string;
+  description?: string;
+  loop?: boolean; // Start over after the last segment instead of ending
+  segments: ScenarioSegment[];
+}
+
+export type OrderType = 'limit' | 'stop' | 'stopLimit' | 'takeProfit' | 'trailingStop';
+
+// Order resting with the client-side order manager (see utils/orderManager.ts)
+export interface WorkingOrder {
+  id: string;
+  instrumentId: string; // Instrument the order trades, from getInstrumentId (utils/portfolio.ts)
+  type: OrderType;
+  side: 'buy' | 'sell';
+  size: number;
+  price?: number; // Limit price (limit, stopLimit, takeProfit)
+  stopPrice?: number; // Trigger price (stop, stopLimit); the current stop of a trailing stop
+  trailDistance?: number; // Trailing stops: how far the stop follows behind the best price
+  stopTriggered?: boolean; // Stop-limit whose stop was hit, now resting at its limit price
+  pending?: boolean; // Triggered and sent to the source's venue, waiting for its answer
+  parentId?: string; // Bracket exit that waits for this entry order to fill
+  ocoGroup?: string; // When one order in the group fills, the others are cancelled
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface MarketData {
@@ -38,6 +123,13 @@ export interface MarketData {
 }
 
 // Configuration types
+// Per-asset settings that replace a universe's defaults
+export interface AssetOverride {
+  volatility?: number;
+  drift?: number;
+  priceModel?: PriceModelType;
+}
+
 export interface Config {
   initialPrice: number;
   volatility: number;
@@ -55,17 +147,91 @@ export interface Config {
   priceChangeThreshold1m: number;  // 1-30, default 5
   priceChangeThreshold15m: number; // 5-45, default 5
   priceChangeThreshold1h: number;  // 5-100, default 5
-  marketDataSource: 'simulator' | 'binance' | 'else';
+  marketDataSource: string; // ID of a registered market data source (see sources/)
   symbol: string; // Trading symbol (e.g., 'btcusdt', 'ethusdt')
+  backendRoom?: string; // Backend session to share with others; unset for a private market
   // Pattern simulation options
   patternType?: 'random_walk' | 'uptrend' | 'downtrend' | 'volatile' | 'sideways' |
-               'breakout_up' | 'breakout_down' | 'head_and_shoulders' | 'double_top' | 'double_bottom';
+               'breakout_up' | 'breakout_down' | 'head_and_shoulders' | 'double_top' | 'double_bottom' | 'custom';
   patternStrength?: number; // 0-1, controls how strong the pattern is
   patternDuration?: number; // in milliseconds, how long the pattern lasts
+  customPattern?: CustomPattern; // Sketch the simulator follows while patternType is 'custom'
+  seed?: number; // Simulator PRNG seed; leave unset for a fresh random market
+  priceModel?: PriceModelType; // Defaults to plain geometric Brownian motion
+  priceModelParams?: Partial<PriceModelParams>; // Shared by every simulated asset
+  scenario?: MarketScenario; // Scripted timeline of patterns the simulator plays instead of patternType
+  // Multi-asset simulator (see utils/multiAssetSimulator.ts)
+  universe?: string; // Key of a market universe in MARKET_UNIVERSES
+  assetOverrides?: Record<string, AssetOverride>; // By symbol
+  correlationOverrides?: Record<string, number>; // By pair key, e.g. 'btcusdt/ethusdt'
+  // Market impact of player orders on the simulated price
+  marketImpact?: boolean;
+  permanentImpact?: number; // Relative price move for consuming the whole visible side
+  temporaryImpact?: number; // Additional move that decays away after the trade
+  impactDecay?: number; // Half-life of the temporary impact in milliseconds
+  // Margin account (local accounts only; see utils/margin.ts)
+  marginTrading?: boolean; // Allow leverage and short positions
+  leverage?: number; // Largest position notional as a multiple of equity
+  maintenanceMargin?: number; // Share of notional below which positions are liquidated
+  borrowRate?: number; // Annual rate on borrowed cash and shorted notional
+  costBasis?: CostBasisMethod; // How closing fills are matched to open lots (see utils/positionAccounting.ts)
+  // Trading costs (see utils/fees.ts); server accounts pay the server's fees and no funding
+  feeModel?: FeeModel;
+  makerFee?: number; // Share of value, or cash per unit of size, for fills resting at a limit price
+  takerFee?: number; // Share of value, or cash per unit of size, for fills that take liquidity
+  minCommission?: number; // Smallest fee charged on a fill
+  fundingLongRate?: number; // Share of notional long positions pay each funding interval (negative: receive)
+  fundingShortRate?: number; // Share of notional short positions pay each funding interval (negative: receive)
+  fundingInterval?: number; // Milliseconds between funding charges
+  // Risk guardrails, 0 to turn one off (see utils/riskLimits.ts)
+  maxPositionSize?: number; // Largest position in units
+  maxExposure?: number; // Largest position notional
+  dailyLossLimit?: number; // Equity loss in a day that locks trading until the next
+  sessionLossLimit?: number; // Equity loss in a session that locks trading for the cool-down
+  maxDrawdown?: number; // Fall from peak equity (share of the peak) that locks trading for the cool-down
+  riskCooldown?: number; // Milliseconds trading stays locked
 }
 
 
 
+// Signed-in backend user
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: 'user' | 'admin';
+}
+
+export interface AuthSession {
+  token: string; // Bearer token for the backend API and socket
+  user: AuthUser;
+}
+
+export type LeaderboardPeriod = 'global' | 'weekly' | 'daily';
+// Boards come from the trade ledger; client-reported XP isn't ranked
+export type LeaderboardMetric = 'profit' | 'winRate' | 'streak';
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  value: number; // In the board's metric; win rate is a fraction
+  level: number | null;
+  trades: number; // Closing trades
+  updatedAt: number;
+}
+
+// One page of a backend leaderboard
+export interface LeaderboardPage {
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  symbol: string | null;
+  since: number;
+  total: number;
+  offset: number;
+  entries: LeaderboardEntry[];
+  me: LeaderboardEntry | null; // The signed-in user's own entry, wherever it is
+}
+
 // Gamepad types
 export interface GamepadState {
   connected: boolean;
@@ -2,6 +2,9 @@
  * API utility functions for TradeStick
  */
 
+import type { AuthSession, LeaderboardMetric, LeaderboardPage, LeaderboardPeriod } from '../types';
+import { loadAuthSession } from './localStorage';
+
 // Determine the base API URL based on the environment
 export const getApiBaseUrl = (): string => {
   // In production (Vercel), use relative URLs
@@ -9,13 +12,116 @@ export const getApiBaseUrl = (): string => {
     return '/api';
   }
   
-  // In development, use localhost
+  // In development, use the local backend's API routes
+  return 'http://localhost:3001/api';
+};
+
+// Determine the Socket.IO server URL based on the environment
+export const getSocketUrl = (): string => {
+  // In production the socket server is served from the same origin
+  if (import.meta.env.PROD) {
+    return window.location.origin;
+  }
+
+  // In development, use the local backend
   return 'http://localhost:3001';
 };
 
+// Authorization header for the signed-in user, if any
+export const authHeaders = (): Record<string, string> => {
+  const session = loadAuthSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+// Read the error message the backend sends with a failed request
+const responseError = async (response: Response, fallback: string): Promise<Error> => {
+  try {
+    const body = await response.json();
+    return new Error(body.error || fallback);
+  } catch {
+    return new Error(fallback);
+  }
+};
+
+// Sign in, or register a new user and sign in
+export const signIn = async (mode: 'login' | 'register', username: string, password: string): Promise<AuthSession> => {
+  const response = await fetch(`${getApiBaseUrl()}/auth/${mode}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+
+  if (!response.ok) {
+    throw await responseError(response, mode === 'login' ? 'Failed to sign in' : 'Failed to register');
+  }
+
+  return response.json();
+};
+
+// Get one of the signed-in user's documents (xpProfile, settings); null if never saved
+export const fetchUserData = async <T>(key: string): Promise<T | null> => {
+  const response = await fetch(`${getApiBaseUrl()}/me/data/${key}`, { headers: authHeaders() });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await responseError(response, `Failed to fetch ${key}`);
+  }
+  return (await response.json()).value;
+};
+
+// Save one of the signed-in user's documents
+export const saveUserData = async (key: string, value: unknown): Promise<void> => {
+  const response = await fetch(`${getApiBaseUrl()}/me/data/${key}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ value }),
+  });
+
+  if (!response.ok) {
+    throw await responseError(response, `Failed to save ${key}`);
+  }
+};
+
+// Get a page of a leaderboard; `around: true` centers the page on the signed-in user
+export const fetchLeaderboard = async (query: {
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  symbol?: string;
+  offset?: number;
+  limit?: number;
+  around?: boolean;
+}): Promise<LeaderboardPage> => {
+  const params = new URLSearchParams({ period: query.period, metric: query.metric });
+  if (query.symbol) params.set('symbol', query.symbol);
+  if (query.offset !== undefined) params.set('offset', String(query.offset));
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.around) params.set('around', 'me');
+
+  const response = await fetch(`${getApiBaseUrl()}/leaderboard?${params}`, { headers: authHeaders() });
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to fetch leaderboard');
+  }
+  return response.json();
+};
+
+// Symbols that have per-symbol leaderboards
+export const fetchLeaderboardSymbols = async (): Promise<string[]> => {
+  const response = await fetch(`${getApiBaseUrl()}/leaderboard/symbols`, { headers: authHeaders() });
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to fetch leaderboard symbols');
+  }
+  return response.json();
+};
+
 // Get market data from the API
 export const fetchMarketData = async () => {
-  const response = await fetch(`${getApiBaseUrl()}/market-data`);
+  const response = await fetch(`${getApiBaseUrl()}/market-data`, { headers: authHeaders() });
   if (!response.ok) {
     throw new Error('Failed to fetch market data');
   }
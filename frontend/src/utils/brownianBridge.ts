@@ -0,0 +1,69 @@
+/**
+ * Brownian bridges: random paths pinned at both ends. Used to fill in
+ * continuous prices between known points, e.g. inside an OHLC bar.
+ */
+
+import type { Candle } from '../types';
+import { SeededRandom } from './random';
+
+// Path of steps + 1 points from `from` to `to`. `volatility` is the standard
+// deviation of the free walk over the whole span, before pinning.
+export const brownianBridge = (
+  from: number,
+  to: number,
+  steps: number,
+  volatility: number,
+  random: SeededRandom
+): number[] => {
+  if (steps <= 0) return [to];
+
+  // Free random walk, then subtract the straight line to its endpoint so it ends at 0
+  const stepSize = volatility / Math.sqrt(steps);
+  const walk = [0];
+  for (let i = 1; i <= steps; i++) {
+    walk.push(walk[i - 1] + stepSize * random.normal());
+  }
+  const end = walk[steps];
+
+  return walk.map((w, i) => {
+    const t = i / steps;
+    return from + (to - from) * t + (w - t * end);
+  });
+};
+
+/**
+ * Tick path through a bar that starts at the open, touches the low and high
+ * and finishes at the close. Up bars visit the low first, down bars the high,
+ * and each leg gets a share of the ticks in proportion to the distance it
+ * covers. Every point stays inside the bar's range.
+ */
+export const ohlcPath = (candle: Candle, ticks: number, random: SeededRandom): number[] => {
+  const { open, high, low, close } = candle;
+  const range = high - low;
+  // Too few ticks to visit all four prices: hold the open, then print the close
+  if (ticks < 4 || range <= 0) {
+    return Array.from({ length: Math.max(ticks, 1) }, (_, i) => (i === ticks - 1 ? close : open));
+  }
+
+  const waypoints = close >= open ? [open, low, high, close] : [open, high, low, close];
+  const distances = [1, 2, 3].map(i => Math.abs(waypoints[i] - waypoints[i - 1]));
+  const totalDistance = distances.reduce((sum, distance) => sum + distance, 0);
+
+  // Every leg needs at least one step so the extremes are actually reached
+  const available = ticks - 1;
+  const steps = distances.map(distance => Math.max(1, Math.round(available * distance / totalDistance)));
+  while (steps.reduce((sum, step) => sum + step, 0) > available && Math.max(...steps) > 1) {
+    steps[steps.indexOf(Math.max(...steps))] -= 1;
+  }
+  while (steps.reduce((sum, step) => sum + step, 0) < available) {
+    steps[steps.indexOf(Math.max(...steps))] += 1;
+  }
+
+  const path = [open];
+  for (let leg = 0; leg < 3; leg++) {
+    const volatility = range * 0.25 * Math.sqrt(steps[leg] / available);
+    const points = brownianBridge(waypoints[leg], waypoints[leg + 1], steps[leg], volatility, random);
+    path.push(...points.slice(1).map(price => Math.min(high, Math.max(low, price))));
+  }
+  return path.slice(0, ticks);
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCorrelationMatrix,
+  choleskyDecompose,
+  correlateDraws,
+  factorCorrelationMatrix,
+  getPairKey
+} from './correlation';
+import { SeededRandom } from './random';
+
+// L·Lᵀ
+const reconstruct = (factor: number[][]): number[][] =>
+  factor.map(row => factor.map(other => row.reduce((sum, value, k) => sum + value * other[k], 0)));
+
+const expectMatrixCloseTo = (actual: number[][], expected: number[][]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], 10)));
+};
+
+describe('correlation', () => {
+  it('keys a pair the same whichever order it comes in', () => {
+    expect(getPairKey('ethusdt', 'btcusdt')).toBe('btcusdt/ethusdt');
+    expect(getPairKey('btcusdt', 'ethusdt')).toBe('btcusdt/ethusdt');
+  });
+
+  it('builds a symmetric matrix with unit diagonal, clamping correlations', () => {
+    const matrix = buildCorrelationMatrix(['a', 'b', 'c'], { 'a/b': 0.6, 'b/c': 1.5 });
+
+    expect(matrix).toEqual([
+      [1, 0.6, 0],
+      [0.6, 1, 1],
+      [0, 1, 1]
+    ]);
+  });
+
+  it('factors a valid matrix as it is', () => {
+    const matrix = buildCorrelationMatrix(['a', 'b', 'c'], { 'a/b': 0.8, 'a/c': 0.3, 'b/c': -0.2 });
+    const { factor, shrinkage } = factorCorrelationMatrix(matrix);
+
+    expect(shrinkage).toBe(0);
+    factor.forEach((row, i) => row.forEach((value, j) => {
+      if (j > i) expect(value).toBe(0);
+    }));
+    expectMatrixCloseTo(reconstruct(factor), matrix);
+  });
+
+  it('blends an invalid matrix towards the identity until it is a valid correlation matrix', () => {
+    // a and b move with c but against each other: no such market exists
+    const matrix = buildCorrelationMatrix(['a', 'b', 'c'], { 'a/b': -0.9, 'a/c': 0.9, 'b/c': 0.9 });
+    expect(choleskyDecompose(matrix)).toBeNull();
+
+    const { factor, shrinkage } = factorCorrelationMatrix(matrix);
+    const reconstructed = reconstruct(factor);
+
+    expect(shrinkage).toBeGreaterThan(0);
+    expect(shrinkage).toBeLessThan(1);
+    // Every correlation weakened by the same share, and the diagonal kept at 1
+    expectMatrixCloseTo(reconstructed, matrix.map((row, i) => row.map((value, j) => (i === j ? 1 : value * (1 - shrinkage)))));
+    expect(choleskyDecompose(reconstructed)).not.toBeNull();
+  });
+
+  it('falls back to the identity for a matrix it cannot repair', () => {
+    const { factor, shrinkage } = factorCorrelationMatrix([[1, Infinity], [Infinity, 1]]);
+
+    expect(shrinkage).toBe(1);
+    expect(factor).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it('correlates independent draws by the matrix', () => {
+    const { factor } = factorCorrelationMatrix([[1, 0.7], [0.7, 1]]);
+    const random = new SeededRandom(4);
+    let xy = 0, xx = 0, yy = 0;
+    for (let i = 0; i < 20000; i++) {
+      const [x, y] = correlateDraws(factor, [random.normal(), random.normal()]);
+      xy += x * y;
+      xx += x * x;
+      yy += y * y;
+    }
+
+    expect(xy / Math.sqrt(xx * yy)).toBeCloseTo(0.7, 1);
+  });
+});
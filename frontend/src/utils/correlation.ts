@@ -0,0 +1,73 @@
+/**
+ * Correlated random draws
+ *
+ * A correlation matrix C is factored as C = L·Lᵀ (Cholesky). Multiplying a
+ * vector of independent standard normal draws by L gives draws that are
+ * correlated by C. A matrix typed in by hand may not be a valid correlation
+ * matrix (positive definite); such a matrix is blended towards the identity
+ * until it is, which weakens every correlation by the same share.
+ */
+
+// Largest blend towards the identity, in steps of 1 / SHRINK_STEPS
+const SHRINK_STEPS = 20;
+
+/**
+ * Key for a pair of symbols, the same whichever order they come in
+ */
+export const getPairKey = (a: string, b: string): string => (a < b ? `${a}/${b}` : `${b}/${a}`);
+
+/**
+ * Correlation matrix for symbols from pairwise correlations; pairs not
+ * listed are uncorrelated
+ */
+export const buildCorrelationMatrix = (symbols: string[], correlations: Record<string, number>): number[][] =>
+  symbols.map((a, i) => symbols.map((b, j) => {
+    if (i === j) return 1;
+    return Math.max(-1, Math.min(1, correlations[getPairKey(a, b)] ?? 0));
+  }));
+
+/**
+ * Lower-triangular L with L·Lᵀ = matrix, or null if the matrix isn't positive definite
+ */
+export const choleskyDecompose = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        if (sum <= 1e-12) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+};
+
+/**
+ * Cholesky factor of a correlation matrix, blended towards the identity as
+ * far as needed to make it valid
+ * @returns The factor and the share the correlations were weakened by (0 when valid)
+ */
+export const factorCorrelationMatrix = (matrix: number[][]): { factor: number[][]; shrinkage: number } => {
+  for (let step = 0; step < SHRINK_STEPS; step++) {
+    const shrinkage = step / SHRINK_STEPS;
+    const blended = matrix.map((row, i) => row.map((value, j) => (i === j ? 1 : value * (1 - shrinkage))));
+    const factor = choleskyDecompose(blended);
+    if (factor) return { factor, shrinkage };
+  }
+  // The identity: no correlation at all
+  return { factor: matrix.map((row, i) => row.map((_, j) => (i === j ? 1 : 0))), shrinkage: 1 };
+};
+
+/**
+ * Turn independent standard normal draws into correlated ones
+ */
+export const correlateDraws = (factor: number[][], draws: number[]): number[] =>
+  factor.map(row => row.reduce((sum, weight, k) => sum + weight * draws[k], 0));
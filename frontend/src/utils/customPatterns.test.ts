@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { getGuidedDrift, getSketchLevel, parseCustomPattern, resampleSketch } from './customPatterns';
+import { SeededRandom } from './random';
+
+// Rise 20%, dip below the start, then finish 10% up
+const path = resampleSketch([
+  { x: 0, y: 100 },
+  { x: 0.3, y: 120 },
+  { x: 0.6, y: 95 },
+  { x: 1, y: 110 }
+]);
+const ANCHORS = 8;
+
+// Relative price at each anchor of a guided walk along the sketch, stepping
+// as the simulator does: guided drift plus a diffusion shock each tick
+const walk = (volatility: number, deltaTime: number, duration: number, seed = 1): number[] => {
+  const random = new SeededRandom(seed);
+  const ticksPerAnchor = Math.round(duration / ANCHORS / deltaTime);
+  const atAnchors: number[] = [];
+  let relativePrice = 1;
+  for (let tick = 1; tick <= ticksPerAnchor * ANCHORS; tick++) {
+    const drift = getGuidedDrift(path, tick * deltaTime, deltaTime, duration, relativePrice);
+    relativePrice *= Math.exp(drift * deltaTime + volatility * Math.sqrt(deltaTime) * random.normal());
+    if (tick % ticksPerAnchor === 0) atAnchors.push(relativePrice);
+  }
+  return atAnchors;
+};
+
+describe('custom patterns', () => {
+  it('resamples a sketch relative to its start', () => {
+    expect(path).toHaveLength(64);
+    expect(path[0]).toBe(1);
+    expect(path[path.length - 1]).toBeCloseTo(1.1, 10);
+    expect(getSketchLevel(path, 0.3)).toBeCloseTo(1.2, 2);
+  });
+
+  it('follows the sketch exactly without noise', () => {
+    walk(0, 0.1, 40).forEach((price, i) => {
+      expect(price).toBeCloseTo(getSketchLevel(path, (i + 1) / ANCHORS), 10);
+    });
+  });
+
+  it('lands back on the sketch at each anchor however far the noise took it', () => {
+    const volatility = 0.01;
+    const deltaTime = 0.1;
+    for (const seed of [1, 2, 3]) {
+      walk(volatility, deltaTime, 40, seed).forEach((price, i) => {
+        // Only the last tick's shock is left over at the anchor
+        const deviation = Math.log(price / getSketchLevel(path, (i + 1) / ANCHORS));
+        expect(Math.abs(deviation)).toBeLessThan(4 * volatility * Math.sqrt(deltaTime));
+      });
+    }
+  });
+
+  it('stops steering once the sketch has run out', () => {
+    expect(getGuidedDrift(path, 41, 0.1, 40, 1.3)).toBe(0);
+    expect(getGuidedDrift(path, 1, 0, 40, 1)).toBe(0);
+  });
+
+  it('parses a shared pattern relative to its first level', () => {
+    const pattern = parseCustomPattern(JSON.stringify({ name: ' Rally ', path: [50, 60, 55], duration: 30000, volatility: 0.001 }));
+
+    expect(pattern).toMatchObject({ name: 'Rally', path: [1, 1.2, 1.1], duration: 30000, volatility: 0.001 });
+    expect(() => parseCustomPattern('{"path":[1],"duration":30000,"volatility":0}')).toThrow('at least two positive price levels');
+    expect(() => parseCustomPattern('{"path":[1,2],"duration":1000,"volatility":0}')).toThrow('Duration must be between');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Custom patterns: price paths sketched in the pattern editor
+ *
+ * A sketch is stored as PATH_POINTS price levels relative to where it starts,
+ * evenly spaced over the pattern's duration. The simulator follows it with a
+ * guided Brownian bridge: the log price moves with the sketch's slope, and
+ * its deviation from the sketch is a Brownian bridge pinned back to zero at
+ * ANCHOR_COUNT evenly spaced anchors. Between anchors the market wanders with
+ * the pattern's volatility; at each anchor it is back on the drawn line.
+ *
+ * Patterns are shared as JSON files with the same fields as CustomPattern.
+ */
+
+import type { CustomPattern } from '../types';
+
+export interface SketchPoint {
+  x: number; // Share of the duration, 0-1
+  y: number; // Price relative to the start
+}
+
+export const PATH_POINTS = 64;
+
+// Points the deviation from the sketch is pinned to zero at
+const ANCHOR_COUNT = 8;
+
+// Shortest and longest pattern, in ms
+export const MIN_PATTERN_DURATION = 10000;
+export const MAX_PATTERN_DURATION = 300000;
+
+/**
+ * Sketch resampled to evenly spaced levels, relative to its first point.
+ * Before the first point and after the last the sketch holds level.
+ */
+export const resampleSketch = (points: SketchPoint[], count = PATH_POINTS): number[] => {
+  const sorted = [...points].filter(point => point.y > 0).sort((a, b) => a.x - b.x);
+  if (sorted.length === 0) return new Array<number>(count).fill(1);
+
+  const levels = Array.from({ length: count }, (_, i) => {
+    const x = i / (count - 1);
+    const next = sorted.findIndex(point => point.x >= x);
+    if (next === -1) return sorted[sorted.length - 1].y;
+    if (next === 0) return sorted[0].y;
+    const before = sorted[next - 1];
+    const after = sorted[next];
+    const t = after.x > before.x ? (x - before.x) / (after.x - before.x) : 1;
+    return before.y + (after.y - before.y) * t;
+  });
+  return levels.map(level => level / levels[0]);
+};
+
+/**
+ * Level of the sketch part way through, relative to its start
+ */
+export const getSketchLevel = (path: number[], progress: number): number => {
+  if (path.length === 0) return 1;
+  const position = Math.min(1, Math.max(0, progress)) * (path.length - 1);
+  const index = Math.min(Math.floor(position), path.length - 2);
+  if (index < 0) return path[0];
+  return path[index] + (path[index + 1] - path[index]) * (position - index);
+};
+
+/**
+ * Log drift per second that keeps a price on the guided bridge over one tick
+ * @param elapsed - Seconds since the pattern started, at the end of the tick
+ * @param deltaTime - Tick length in seconds
+ * @param duration - Pattern duration in seconds
+ * @param relativePrice - Price at the start of the tick, relative to the pattern's start
+ * @returns 0 once the sketch has run out
+ */
+export const getGuidedDrift = (
+  path: number[],
+  elapsed: number,
+  deltaTime: number,
+  duration: number,
+  relativePrice: number
+): number => {
+  if (deltaTime <= 0 || duration <= 0 || relativePrice <= 0 || elapsed - deltaTime >= duration) return 0;
+
+  const progress = Math.min(1, elapsed / duration);
+  const start = Math.max(0, (elapsed - deltaTime) / duration);
+  const deviation = Math.log(relativePrice / getSketchLevel(path, start));
+  const nextAnchor = (Math.floor(start * ANCHOR_COUNT) + 1) / ANCHOR_COUNT;
+  const toAnchor = (nextAnchor - start) * duration;
+
+  // Follow the sketch, and close the share of the deviation the bridge
+  // expects to close over this tick
+  const sketchMove = Math.log(getSketchLevel(path, progress) / getSketchLevel(path, start));
+  const pull = deviation * Math.min(1, deltaTime / toAnchor);
+  return (sketchMove - pull) / deltaTime;
+};
+
+export const createCustomPatternId = (): string =>
+  `pattern-${Date.now().toString(36)}-${Math.floor(Math.random() * 0x100000).toString(36)}`;
+
+/**
+ * Pattern as a JSON file to share
+ */
+export const serializeCustomPattern = (pattern: CustomPattern): string => JSON.stringify(pattern, null, 2);
+
+/**
+ * Parse and check a shared pattern file. The pattern gets a fresh ID so
+ * importing it never replaces one of your own.
+ * @throws Error describing the first problem found
+ */
+export const parseCustomPattern = (text: string): CustomPattern => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Pattern is not valid JSON');
+  }
+  const pattern = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+
+  const path = pattern.path;
+  if (!Array.isArray(path) || path.length < 2 || !path.every(level => typeof level === 'number' && Number.isFinite(level) && level > 0)) {
+    throw new Error('Pattern needs a "path" of at least two positive price levels');
+  }
+  if (typeof pattern.duration !== 'number' || pattern.duration < MIN_PATTERN_DURATION || pattern.duration > MAX_PATTERN_DURATION) {
+    throw new Error(`Duration must be between ${MIN_PATTERN_DURATION / 1000} and ${MAX_PATTERN_DURATION / 1000} seconds (in ms)`);
+  }
+  if (typeof pattern.volatility !== 'number' || !Number.isFinite(pattern.volatility) || pattern.volatility < 0) {
+    throw new Error('Volatility must be a non-negative number');
+  }
+
+  return {
+    id: createCustomPatternId(),
+    name: typeof pattern.name === 'string' && pattern.name.trim() !== '' ? pattern.name.trim() : 'Imported pattern',
+    path: path.map(level => level / path[0]),
+    duration: pattern.duration,
+    volatility: pattern.volatility,
+    createdAt: Date.now()
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Order execution against the visible order book
+ */
+
+import type { OrderBook, OrderBookLevel, TradeFill } from '../types';
+
+export interface BookFillResult {
+  fills: TradeFill[];
+  filledSize: number;
+  remainingSize: number;
+  avgPrice: number;
+  referencePrice: number; // Best price on the side we traded against
+  slippage: number; // Adverse distance of avgPrice from referencePrice (price units)
+  depthConsumed: number; // Share of the visible side's volume we took (0-1)
+}
+
+/**
+ * Fill a market order by walking the opposite side of the book level by level.
+ * Buys consume asks, sells consume bids. If the book runs out the order is
+ * only partially filled. When that side of the book is empty (e.g. a feed
+ * without depth) the whole size fills at the fallback price. A limit price
+ * stops the walk at levels worse than it.
+ */
+export const fillAgainstOrderBook = (
+  orderBook: OrderBook,
+  side: 'buy' | 'sell',
+  size: number,
+  fallbackPrice: number,
+  limitPrice?: number
+): BookFillResult => {
+  const levels: OrderBookLevel[] = side === 'buy' ? orderBook.asks : orderBook.bids;
+  const visibleLevels = levels.filter(level => level.volume > 0);
+  const fillableLevels = limitPrice === undefined
+    ? visibleLevels
+    : visibleLevels.filter(level => side === 'buy' ? level.price <= limitPrice : level.price >= limitPrice);
+
+  if (visibleLevels.length === 0) {
+    return {
+      fills: [{ price: fallbackPrice, size }],
+      filledSize: size,
+      remainingSize: 0,
+      avgPrice: fallbackPrice,
+      referencePrice: fallbackPrice,
+      slippage: 0,
+      depthConsumed: 0
+    };
+  }
+
+  const fills: TradeFill[] = [];
+  let remaining = size;
+  let notional = 0;
+
+  for (const level of fillableLevels) {
+    if (remaining <= 0) break;
+    const fillSize = Math.min(remaining, level.volume);
+    fills.push({ price: level.price, size: fillSize });
+    notional += fillSize * level.price;
+    remaining -= fillSize;
+  }
+
+  const filledSize = size - remaining;
+  const referencePrice = visibleLevels[0].price;
+  const avgPrice = filledSize > 0 ? notional / filledSize : referencePrice;
+  const totalVolume = visibleLevels.reduce((sum, level) => sum + level.volume, 0);
+
+  return {
+    fills,
+    filledSize,
+    remainingSize: remaining,
+    avgPrice,
+    referencePrice,
+    slippage: side === 'buy' ? avgPrice - referencePrice : referencePrice - avgPrice,
+    depthConsumed: totalVolume > 0 ? filledSize / totalVolume : 0
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Trading costs
+ *
+ * - Maker and taker fees: orders that rest at a limit price (limit,
+ *   take-profit, triggered stop-limit) pay the maker fee; everything else
+ *   takes liquidity and pays the taker fee. Fees are quoted as a share of the
+ *   trade's value ('percent') or as cash per unit of size ('perLot'), and a
+ *   trade never pays less than the minimum commission.
+ * - Funding: every `fundingInterval` the open position pays its side's rate
+ *   on its notional. A negative rate is received instead, so perpetual-style
+ *   funding is a positive long rate with the matching negative short rate,
+ *   and an overnight swap is a positive rate on both sides.
+ */
+
+import type { Config, FeeModel } from '../types';
+
+export interface FeeSchedule {
+  model: FeeModel;
+  makerFee: number;
+  takerFee: number;
+  minCommission: number;
+  fundingLongRate: number; // Share of notional longs pay each interval
+  fundingShortRate: number; // Share of notional shorts pay each interval
+  fundingInterval: number; // Milliseconds between funding charges
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  model: 'percent',
+  makerFee: 0.0002,
+  takerFee: 0.0005,
+  minCommission: 0,
+  fundingLongRate: 0,
+  fundingShortRate: 0,
+  fundingInterval: 60000
+};
+
+export const FEE_MODEL_LABELS: Record<FeeModel, string> = {
+  percent: 'Percent of value',
+  perLot: 'Per unit of size'
+};
+
+/**
+ * Fee schedule from the config, filling in defaults
+ */
+export const getFeeSchedule = (config: Config): FeeSchedule => ({
+  model: config.feeModel ?? DEFAULT_FEE_SCHEDULE.model,
+  makerFee: config.makerFee ?? DEFAULT_FEE_SCHEDULE.makerFee,
+  takerFee: config.takerFee ?? DEFAULT_FEE_SCHEDULE.takerFee,
+  minCommission: config.minCommission ?? DEFAULT_FEE_SCHEDULE.minCommission,
+  fundingLongRate: config.fundingLongRate ?? DEFAULT_FEE_SCHEDULE.fundingLongRate,
+  fundingShortRate: config.fundingShortRate ?? DEFAULT_FEE_SCHEDULE.fundingShortRate,
+  fundingInterval: config.fundingInterval ?? DEFAULT_FEE_SCHEDULE.fundingInterval
+});
+
+/**
+ * Commission on a fill
+ */
+export const getTradeFee = (
+  schedule: FeeSchedule,
+  size: number,
+  value: number,
+  liquidity: 'maker' | 'taker'
+): number => {
+  const rate = liquidity === 'maker' ? schedule.makerFee : schedule.takerFee;
+  const fee = schedule.model === 'percent' ? Math.abs(value) * rate : Math.abs(size) * rate;
+  return Math.max(fee, schedule.minCommission);
+};
+
+/**
+ * Funding the position pays for one interval; negative when it receives
+ */
+export const getFundingCharge = (schedule: FeeSchedule, position: number, price: number): number => {
+  const notional = Math.abs(position) * price;
+  if (position > 0) return notional * schedule.fundingLongRate;
+  if (position < 0) return notional * schedule.fundingShortRate;
+  return 0;
+};
@@ -2,13 +2,26 @@
  * Utility functions for working with localStorage
  */
 
-import type { Config } from '../types';
+import type { AuthSession, Config, CustomPattern, WorkingOrder } from '../types';
+import { cancelOrder } from './orderManager';
+import { createPositionBook, matchesPosition } from './positionAccounting';
+import type { PositionBook } from './positionAccounting';
+import { createPortfolio } from './portfolio';
+import type { Portfolio } from './portfolio';
+import type { RiskState } from './riskLimits';
 
 // Storage keys
 export const STORAGE_KEYS = {
   CONFIG: 'gamifiedTrade_config',
+  PORTFOLIO: 'gamifiedTrade_portfolio',
+  AUTH: 'gamifiedTrade_auth',
+  ORDERS: 'gamifiedTrade_orders',
+  RISK: 'gamifiedTrade_risk',
+  CUSTOM_PATTERNS: 'gamifiedTrade_customPatterns',
+  // Replaced by the portfolio; read once to migrate
   BALANCE: 'gamifiedTrade_balance',
   ASSET_HOLDINGS: 'gamifiedTrade_assetHoldings',
+  POSITION_BOOK: 'gamifiedTrade_positionBook',
 };
 
 /**
@@ -38,55 +51,185 @@ export const loadConfig = (defaultConfig: Config): Config => {
 };
 
 /**
- * Save balance to localStorage
+ * Save working orders to localStorage
  */
-export const saveBalance = (balance: number): void => {
+export const saveWorkingOrders = (orders: WorkingOrder[]): void => {
   try {
-    localStorage.setItem(STORAGE_KEYS.BALANCE, balance.toString());
+    localStorage.setItem(STORAGE_KEYS.ORDERS, JSON.stringify(orders));
   } catch (error) {
-    console.error('Error saving balance to localStorage:', error);
+    console.error('Error saving orders to localStorage:', error);
   }
 };
 
 /**
- * Load balance from localStorage
+ * Load working orders from localStorage. Versions before orders carried an
+ * instrument only traded the selected one; those go to `legacyInstrumentId`.
+ * Orders still waiting on a venue when the page closed never hear back, so
+ * they are cancelled rather than risk trading twice.
  */
-export const loadBalance = (defaultBalance: number): number => {
+export const loadWorkingOrders = (legacyInstrumentId: string): WorkingOrder[] => {
   try {
-    const savedBalance = localStorage.getItem(STORAGE_KEYS.BALANCE);
-    if (savedBalance) {
-      return parseFloat(savedBalance);
+    const savedOrders = localStorage.getItem(STORAGE_KEYS.ORDERS);
+    if (savedOrders) {
+      const orders = JSON.parse(savedOrders);
+      if (!Array.isArray(orders)) return [];
+      const loaded: WorkingOrder[] = orders.map((order: WorkingOrder) => ({ ...order, instrumentId: order.instrumentId ?? legacyInstrumentId }));
+      return loaded.filter(order => order.pending).reduce((remaining, order) => cancelOrder(remaining, order.id), loaded);
     }
   } catch (error) {
-    console.error('Error loading balance from localStorage:', error);
+    console.error('Error loading orders from localStorage:', error);
   }
-  return defaultBalance;
+  return [];
 };
 
 /**
- * Save asset holdings to localStorage
+ * Save the local account's cash and positions to localStorage
  */
-export const saveAssetHoldings = (holdings: number): void => {
+export const savePortfolio = (portfolio: Portfolio): void => {
   try {
-    localStorage.setItem(STORAGE_KEYS.ASSET_HOLDINGS, holdings.toString());
+    localStorage.setItem(STORAGE_KEYS.PORTFOLIO, JSON.stringify(portfolio));
   } catch (error) {
-    console.error('Error saving asset holdings to localStorage:', error);
+    console.error('Error saving portfolio to localStorage:', error);
   }
 };
 
+// Number saved under a key by versions before the portfolio
+const loadLegacyNumber = (key: string): number | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  const value = parseFloat(saved);
+  return Number.isFinite(value) ? value : null;
+};
+
+// Position book saved by versions before the portfolio
+const loadLegacyPositionBook = (): PositionBook | null => {
+  const saved = localStorage.getItem(STORAGE_KEYS.POSITION_BOOK);
+  if (!saved) return null;
+  const book = JSON.parse(saved);
+  // Books saved before fees were tracked have no cost totals
+  return Array.isArray(book?.lots) && Array.isArray(book?.roundTrips) ? { fees: 0, funding: 0, ...book } : null;
+};
+
+/**
+ * Load the local account's portfolio. Versions before it saved one balance,
+ * one holdings figure and one book, whatever the symbol; those are moved to
+ * `legacyInstrumentId`, the instrument that was selected.
+ */
+export const loadPortfolio = (legacyInstrumentId: string, defaultCash: number): Portfolio => {
+  try {
+    const savedPortfolio = localStorage.getItem(STORAGE_KEYS.PORTFOLIO);
+    if (savedPortfolio) {
+      const portfolio = JSON.parse(savedPortfolio);
+      if (typeof portfolio?.cash === 'number' && portfolio.positions) {
+        return { ...createPortfolio(defaultCash), ...portfolio };
+      }
+    }
+
+    const portfolio = createPortfolio(loadLegacyNumber(STORAGE_KEYS.BALANCE) ?? defaultCash);
+    const book = loadLegacyPositionBook();
+    const holdings = loadLegacyNumber(STORAGE_KEYS.ASSET_HOLDINGS) ?? 0;
+    if (book) {
+      portfolio.positions[legacyInstrumentId] = book;
+    }
+    // Holdings the book didn't see opened are booked once there is a price
+    if (!matchesPosition(book ?? createPositionBook(), holdings)) {
+      portfolio.carriedOver[legacyInstrumentId] = holdings;
+    }
+    return portfolio;
+  } catch (error) {
+    console.error('Error loading portfolio from localStorage:', error);
+  }
+  return createPortfolio(defaultCash);
+};
+
 /**
- * Load asset holdings from localStorage
+ * Save risk baselines and any trading lock, so a reload doesn't lift it
  */
-export const loadAssetHoldings = (defaultHoldings: number = 0): number => {
+export const saveRiskState = (state: RiskState): void => {
   try {
-    const savedHoldings = localStorage.getItem(STORAGE_KEYS.ASSET_HOLDINGS);
-    if (savedHoldings) {
-      return parseFloat(savedHoldings);
+    localStorage.setItem(STORAGE_KEYS.RISK, JSON.stringify(state));
+  } catch (error) {
+    console.error('Error saving risk state to localStorage:', error);
+  }
+};
+
+/**
+ * Load saved risk baselines, or null if none were saved
+ */
+export const loadRiskState = (): RiskState | null => {
+  try {
+    const savedState = localStorage.getItem(STORAGE_KEYS.RISK);
+    if (savedState) {
+      return JSON.parse(savedState);
     }
   } catch (error) {
-    console.error('Error loading asset holdings from localStorage:', error);
+    console.error('Error loading risk state from localStorage:', error);
+  }
+  return null;
+};
+
+/**
+ * Save the patterns drawn in the pattern editor
+ */
+export const saveCustomPatterns = (patterns: CustomPattern[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_PATTERNS, JSON.stringify(patterns));
+  } catch (error) {
+    console.error('Error saving custom patterns to localStorage:', error);
+  }
+};
+
+/**
+ * Load the patterns drawn in the pattern editor
+ */
+export const loadCustomPatterns = (): CustomPattern[] => {
+  try {
+    const savedPatterns = localStorage.getItem(STORAGE_KEYS.CUSTOM_PATTERNS);
+    if (savedPatterns) {
+      const patterns = JSON.parse(savedPatterns);
+      return Array.isArray(patterns) ? patterns : [];
+    }
+  } catch (error) {
+    console.error('Error loading custom patterns from localStorage:', error);
+  }
+  return [];
+};
+
+/**
+ * Save the signed-in backend user and their token
+ */
+export const saveAuthSession = (session: AuthSession): void => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.AUTH, JSON.stringify(session));
+  } catch (error) {
+    console.error('Error saving sign-in to localStorage:', error);
+  }
+};
+
+/**
+ * Load the signed-in backend user, if any
+ */
+export const loadAuthSession = (): AuthSession | null => {
+  try {
+    const savedSession = localStorage.getItem(STORAGE_KEYS.AUTH);
+    if (savedSession) {
+      return JSON.parse(savedSession);
+    }
+  } catch (error) {
+    console.error('Error loading sign-in from localStorage:', error);
+  }
+  return null;
+};
+
+/**
+ * Forget the signed-in backend user
+ */
+export const clearAuthSession = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.AUTH);
+  } catch (error) {
+    console.error('Error clearing sign-in from localStorage:', error);
   }
-  return defaultHoldings;
 };
 
 /**
@@ -95,8 +238,13 @@ export const loadAssetHoldings = (defaultHoldings: number = 0): number => {
 export const clearAllSavedData = (): void => {
   try {
     localStorage.removeItem(STORAGE_KEYS.CONFIG);
+    localStorage.removeItem(STORAGE_KEYS.PORTFOLIO);
     localStorage.removeItem(STORAGE_KEYS.BALANCE);
     localStorage.removeItem(STORAGE_KEYS.ASSET_HOLDINGS);
+    localStorage.removeItem(STORAGE_KEYS.ORDERS);
+    localStorage.removeItem(STORAGE_KEYS.POSITION_BOOK);
+    localStorage.removeItem(STORAGE_KEYS.RISK);
+    localStorage.removeItem(STORAGE_KEYS.CUSTOM_PATTERNS);
   } catch (error) {
     console.error('Error clearing saved data from localStorage:', error);
   }
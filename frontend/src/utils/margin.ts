@@ -0,0 +1,123 @@
+/**
+ * Margin account model
+ *
+ * A margin account holds cash and a signed position: negative cash is money
+ * borrowed to buy, a negative position is a short whose sale proceeds sit in
+ * cash. Equity is cash plus the position marked at the current price.
+ *
+ * - Initial margin: equity must cover notional / leverage (and never less
+ *   than the maintenance margin) after any trade that grows the position.
+ *   Trades that only shrink it are always allowed.
+ * - Maintenance margin: when equity falls below `maintenanceMargin` of the
+ *   notional, the position is liquidated.
+ * - Borrow cost: borrowed cash and shorted notional pay `borrowRate` a year,
+ *   charged continuously.
+ */
+
+import type { Config } from '../types';
+
+export interface MarginSettings {
+  leverage: number; // Largest notional as a multiple of equity
+  maintenanceMargin: number; // Share of notional equity must stay above
+  borrowRate: number; // Annual rate on borrowed cash and shorted notional
+}
+
+export const DEFAULT_MARGIN_SETTINGS: MarginSettings = {
+  leverage: 5,
+  maintenanceMargin: 0.05,
+  borrowRate: 0.08
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface MarginStatus {
+  equity: number;
+  notional: number; // Absolute value of the position at the mark price
+  initialMargin: number; // Equity needed to hold the position
+  maintenanceMargin: number; // Equity below which the position is liquidated
+  marginLevel: number | null; // Equity / maintenance margin; null when flat
+  liquidationPrice: number | null; // Mark price that triggers liquidation; null when flat or unreachable
+}
+
+/**
+ * Margin settings from the config, filling in defaults
+ */
+export const getMarginSettings = (config: Config): MarginSettings => ({
+  leverage: config.leverage ?? DEFAULT_MARGIN_SETTINGS.leverage,
+  maintenanceMargin: config.maintenanceMargin ?? DEFAULT_MARGIN_SETTINGS.maintenanceMargin,
+  borrowRate: config.borrowRate ?? DEFAULT_MARGIN_SETTINGS.borrowRate
+});
+
+/**
+ * Equity, margin requirements and liquidation price of an account at a mark price
+ */
+export const getMarginStatus = (
+  cash: number,
+  position: number,
+  price: number,
+  settings: MarginSettings
+): MarginStatus => {
+  const equity = cash + position * price;
+  const notional = Math.abs(position) * price;
+  const maintenanceMargin = notional * settings.maintenanceMargin;
+
+  // Solve cash + position * p = maintenanceMargin * |position| * p for p
+  let liquidationPrice: number | null = null;
+  if (position > 0) {
+    const solved = -cash / (position * (1 - settings.maintenanceMargin));
+    liquidationPrice = solved > 0 ? solved : null;
+  } else if (position < 0) {
+    const solved = cash / (-position * (1 + settings.maintenanceMargin));
+    liquidationPrice = solved > 0 ? solved : null;
+  }
+
+  return {
+    equity,
+    notional,
+    initialMargin: Math.max(notional / settings.leverage, maintenanceMargin),
+    maintenanceMargin,
+    marginLevel: maintenanceMargin > 0 ? equity / maintenanceMargin : null,
+    liquidationPrice
+  };
+};
+
+/**
+ * Check a fill against the initial margin requirement
+ * @returns Rejection reason, or null if the trade may go ahead
+ */
+export const checkMarginTrade = (
+  cash: number,
+  position: number,
+  side: 'buy' | 'sell',
+  size: number,
+  price: number,
+  settings: MarginSettings
+): string | null => {
+  const newPosition = side === 'buy' ? position + size : position - size;
+  const newCash = side === 'buy' ? cash - size * price : cash + size * price;
+
+  // Reducing (not flipping) a position frees margin
+  if (Math.abs(newPosition) <= Math.abs(position) && Math.sign(newPosition) !== -Math.sign(position)) {
+    return null;
+  }
+
+  const after = getMarginStatus(newCash, newPosition, price, settings);
+  if (after.equity < after.initialMargin) {
+    return `Insufficient margin: equity (${after.equity.toFixed(2)}) below ${after.initialMargin.toFixed(2)} needed for ${after.notional.toFixed(2)} at ${settings.leverage}x`;
+  }
+  return null;
+};
+
+/**
+ * Interest owed on borrowed cash and shorted notional over a period
+ */
+export const getBorrowCost = (
+  cash: number,
+  position: number,
+  price: number,
+  settings: MarginSettings,
+  elapsedMs: number
+): number => {
+  const borrowed = Math.max(0, -cash) + Math.max(0, -position) * price;
+  return borrowed * settings.borrowRate * elapsedMs / YEAR_MS;
+};
@@ -1,4 +1,10 @@
-import type { MarketData, OrderBook, Candle, Trade } from '../types';
+import type { Config, MarketData, OrderBook, Candle, Trade, MarketScenario, PriceModelParams, PriceModelType } from '../types';
+import { DEFAULT_PRICE_MODEL, createPriceModel, resolvePriceModelParams } from './priceModels';
+import type { PriceModel } from './priceModels';
+import { SeededRandom, generateSeed } from './random';
+import { getGuidedDrift } from './customPatterns';
+import { ScenarioTimeline } from './scenario';
+import type { ScenarioStatus } from './scenario';
 
 // Market pattern types
 export type MarketPatternType = 
@@ -11,19 +17,34 @@ export type MarketPatternType =
   | 'breakout_down'
   | 'head_and_shoulders'
   | 'double_top'
-  | 'double_bottom';
+  | 'double_bottom'
+  | 'custom';
 
 export interface SimulatorConfig {
   initialPrice: number;
   volatility: number;
+  drift?: number; // Log drift per second; defaults to a slight upward bias
   spread: number;
   updateInterval: number;
   orderBookLevels: number;
   patternType?: MarketPatternType;
   patternStrength?: number; // 0-1
   patternDuration?: number; // in ms
+  customPath?: number[]; // Sketch followed by the 'custom' pattern (see customPatterns.ts)
+  seed?: number; // PRNG seed; the same seed and config reproduce the same market
+  priceModel?: PriceModelType; // How the random part of each move is generated (see priceModels.ts)
+  priceModelParams?: Partial<PriceModelParams>;
+  levelVolume?: number; // Average volume at the best book level, in trade size units
+  permanentImpact?: number; // Relative price move for consuming the whole visible side
+  temporaryImpact?: number; // Additional move that decays away after the trade
+  impactDecay?: number; // Half-life of the temporary impact in ms
 }
 
+const DEFAULT_DRIFT = 0.0001;
+
+// Settings a scenario segment takes over while it plays
+type SegmentSettings = Pick<SimulatorConfig, 'patternType' | 'patternStrength' | 'patternDuration' | 'volatility' | 'spread'>;
+
 export class MarketSimulator {
   private currentPrice: number;
   private lastUpdateTime: number;
@@ -33,44 +54,70 @@ export class MarketSimulator {
   private patternStartTime: number;
   private patternProgress: number; // 0-1
   private patternBasePrice: number;
+  private random: SeededRandom;
+  private priceModel: PriceModel;
+  private scenario: ScenarioTimeline | null;
+  private clock: number; // Simulated market time in ms
+  private tradeSequence = 0; // Keeps IDs of trades on the same tick apart
+  private temporaryImpact: number; // Decaying log-price offset from recent player orders
 
   constructor(config: SimulatorConfig) {
-    this.config = config;
+    // Always run on a seed so any session can be reproduced later
+    const seed = config.seed ?? generateSeed();
+    this.config = { ...config, seed };
+    this.random = new SeededRandom(seed);
+    this.priceModel = createPriceModel(config.priceModel ?? DEFAULT_PRICE_MODEL, this.random);
     this.currentPrice = config.initialPrice;
-    this.lastUpdateTime = Date.now();
+    // The market advances on a fixed updateInterval clock, aligned to a whole
+    // candle so that candle boundaries fall identically on every run
+    this.clock = Math.floor(Date.now() / 1000) * 1000;
+    this.lastUpdateTime = this.clock;
     this.candles = [];
     this.trades = [];
-    this.patternStartTime = 0;
+    this.patternStartTime = this.clock;
     this.patternProgress = 0;
     this.patternBasePrice = config.initialPrice;
+    this.temporaryImpact = 0;
+    this.scenario = null;
     
     // Initialize with a first candle
-    this.updateCandle(this.lastUpdateTime);
+    this.updateCandle(this.lastUpdateTime, this.currentPrice);
   }
 
-  // Generate next market data update
-  public generateMarketData(): MarketData {
-    const now = Date.now();
+  // Generate next market data update. Simulators driven together pass the
+  // standard normal shock for the price move, so it can be correlated.
+  public generateMarketData(shock?: number): MarketData {
+    this.clock += this.config.updateInterval;
+    const now = this.clock;
     const deltaTime = (now - this.lastUpdateTime) / 1000; // Convert to seconds
     this.lastUpdateTime = now;
 
+    // A scenario moving on to its next segment starts that segment's pattern
+    if (this.scenario?.advance(now)) {
+      this.restartPattern();
+    }
+
     // Update price based on selected pattern
-    this.updatePrice(deltaTime);
+    this.updatePrice(deltaTime, shock ?? this.normalRandom());
+
+    // Quote around the price, displaced by any temporary impact still decaying
+    this.decayImpact(deltaTime);
+    const price = this.currentPrice * Math.exp(this.temporaryImpact);
 
     // Calculate bid and ask prices
-    const halfSpread = this.config.spread / 2;
-    const bidPrice = this.currentPrice - halfSpread;
-    const askPrice = this.currentPrice + halfSpread;
+    const halfSpread = this.activeSettings().spread / 2;
+    const bidPrice = price - halfSpread;
+    const askPrice = price + halfSpread;
 
     // Update candle
-    this.updateCandle(now);
+    this.updateCandle(now, price);
 
     // Generate order book
     const orderBook = this.generateOrderBook(bidPrice, askPrice);
 
     return {
       timestamp: now,
-      price: this.currentPrice,
+      price,
       bid: bidPrice,
       ask: askPrice,
       orderBook,
@@ -79,23 +126,48 @@ export class MarketSimulator {
     };
   }
 
+  // Get the seed driving this simulator
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
   // Update configuration
   public updateConfig(config: Partial<SimulatorConfig>): void {
+    let modelStale = 'priceModel' in config && config.priceModel !== this.config.priceModel;
     this.config = { ...this.config, ...config };
+
+    // A new seed restarts the random sequence, and the price model with it
+    if (config.seed !== undefined && config.seed !== this.random.getSeed()) {
+      this.random = new SeededRandom(config.seed);
+      this.config.seed = this.random.getSeed();
+      modelStale = true;
+    }
+    if (modelStale) {
+      this.priceModel = createPriceModel(this.config.priceModel ?? DEFAULT_PRICE_MODEL, this.random);
+    }
     
-    // If pattern type changed, reset pattern progress
-    if (config.patternType) {
-      this.patternStartTime = Date.now();
-      this.patternProgress = 0;
-      this.patternBasePrice = this.currentPrice;
+    // If pattern type changed, reset pattern progress, unless a scenario is steering the pattern
+    if (config.patternType && !this.scenario?.getSegment()) {
+      this.restartPattern();
     }
   }
 
+  // Play a scenario from its first segment, or stop the one playing
+  public setScenario(scenario: MarketScenario | null): void {
+    this.scenario = scenario && scenario.segments.length > 0 ? new ScenarioTimeline(scenario, this.clock) : null;
+    this.restartPattern();
+  }
+
+  // Where the scenario playing is up to; null without one
+  public getScenarioStatus(): ScenarioStatus | null {
+    return this.scenario?.getStatus() ?? null;
+  }
+
   // Add a trade
   public addTrade(side: 'buy' | 'sell', size: number, price: number): void {
     const trade: Trade = {
-      id: Date.now().toString(),
-      timestamp: Date.now(),
+      id: `${this.clock}-${++this.tradeSequence}`,
+      timestamp: this.clock,
       side,
       size,
       price,
@@ -110,19 +182,46 @@ export class MarketSimulator {
     }
   }
 
+  // Push the price after a player order consumed part of the visible book.
+  // The permanent part shifts the price for good; the temporary part decays
+  // with the configured half-life.
+  public applyMarketImpact(side: 'buy' | 'sell', depthConsumed: number): void {
+    const direction = side === 'buy' ? 1 : -1;
+    const permanent = this.config.permanentImpact ?? 0;
+    const temporary = this.config.temporaryImpact ?? 0;
+
+    this.currentPrice *= Math.exp(direction * permanent * depthConsumed);
+    this.temporaryImpact += direction * temporary * depthConsumed;
+  }
+
   // Private methods
-  private updatePrice(deltaTime: number): void {
-    // Base volatility component (random walk)
-    const volatility = this.config.volatility;
-    const randomComponent = this.normalRandom() * Math.sqrt(deltaTime) * volatility;
+  private decayImpact(deltaTime: number): void {
+    const halfLife = (this.config.impactDecay ?? 5000) / 1000;
+    this.temporaryImpact *= Math.pow(0.5, deltaTime / halfLife);
+  }
+
+  private updatePrice(deltaTime: number, shock: number): void {
+    const settings = this.activeSettings();
+
+    // Random component from the price model
+    const randomComponent = this.priceModel.step(
+      {
+        deltaTime,
+        shock,
+        volatility: settings.volatility,
+        price: this.currentPrice,
+        initialPrice: this.config.initialPrice
+      },
+      resolvePriceModelParams(this.config.priceModelParams)
+    );
     
     // Default drift (slight upward bias)
-    let drift = 0.0001;
+    let drift = this.config.drift ?? DEFAULT_DRIFT;
     
     // If a pattern is active, apply pattern-specific price movement
-    if (this.config.patternType) {
-      const now = Date.now();
-      const patternDuration = this.config.patternDuration || 30000; // Default 30 seconds
+    if (settings.patternType) {
+      const now = this.clock;
+      const patternDuration = settings.patternDuration || 30000; // Default 30 seconds
       
       // Calculate pattern progress (0 to 1)
       this.patternProgress = Math.min(1, (now - this.patternStartTime) / patternDuration);
@@ -139,11 +238,37 @@ export class MarketSimulator {
     this.currentPrice = Math.max(this.currentPrice, 0.00001);
   }
 
+  // Pattern, volatility and spread in force: the scenario segment's while one
+  // plays, otherwise the configured ones
+  private activeSettings(): SegmentSettings {
+    const segment = this.scenario?.getSegment();
+    if (!segment) return this.config;
+    return {
+      patternType: segment.pattern,
+      patternStrength: segment.strength,
+      patternDuration: segment.duration * 1000,
+      volatility: segment.volatility ?? this.config.volatility,
+      spread: segment.spread ?? this.config.spread
+    };
+  }
+
+  private restartPattern(): void {
+    this.patternStartTime = this.clock;
+    this.patternProgress = 0;
+    this.patternBasePrice = this.currentPrice;
+  }
+
+  // Distance from the pattern base price as a share of it
+  private baseDeviation(): number {
+    return (this.patternBasePrice - this.currentPrice) / this.patternBasePrice;
+  }
+
   private getPatternDrift(deltaTime: number): number {
-    const strength = this.config.patternStrength || 0.5;
+    const settings = this.activeSettings();
+    const strength = settings.patternStrength || 0.5;
     const adjustedStrength = strength * 0.01; // Scale down for reasonable movements
     
-    switch (this.config.patternType) {
+    switch (settings.patternType) {
       case 'uptrend':
         return adjustedStrength;
         
@@ -154,13 +279,13 @@ export class MarketSimulator {
         return this.normalRandom() * adjustedStrength * 3;
         
       case 'sideways':
-        // Mean-reverting around pattern base price
-        return (this.patternBasePrice - this.currentPrice) * 0.01 * adjustedStrength;
+        // Mean-reverting around pattern base price, relative so it holds at any price level
+        return this.baseDeviation() * 0.01 * adjustedStrength;
         
       case 'breakout_up':
         // Sideways then sudden upward movement
         if (this.patternProgress < 0.7) {
-          return (this.patternBasePrice - this.currentPrice) * 0.01; // Mean-reversion
+          return this.baseDeviation() * 0.01; // Mean-reversion
         } else {
           return adjustedStrength * 3; // Strong upward movement
         }
@@ -168,7 +293,7 @@ export class MarketSimulator {
       case 'breakout_down':
         // Sideways then sudden downward movement
         if (this.patternProgress < 0.7) {
-          return (this.patternBasePrice - this.currentPrice) * 0.01; // Mean-reversion
+          return this.baseDeviation() * 0.01; // Mean-reversion
         } else {
           return -adjustedStrength * 3; // Strong downward movement
         }
@@ -212,13 +337,24 @@ export class MarketSimulator {
         } else {
           return adjustedStrength * 2; // Final breakout
         }
+
+      case 'custom':
+        // Guided Brownian bridge along the sketch, until the sketch runs out
+        if (!this.config.customPath || this.config.customPath.length < 2) return 0;
+        return getGuidedDrift(
+          this.config.customPath,
+          (this.clock - this.patternStartTime) / 1000,
+          deltaTime,
+          (settings.patternDuration || 30000) / 1000,
+          this.currentPrice / this.patternBasePrice
+        );
         
       default:
         return 0; // Random walk (no drift)
     }
   }
 
-  private updateCandle(timestamp: number): void {
+  private updateCandle(timestamp: number, price: number): void {
     // Determine candle interval (1 second default)
     const interval = 1000;
     const intervalStart = Math.floor(timestamp / interval) * interval;
@@ -228,11 +364,11 @@ export class MarketSimulator {
       // Create a new candle
       const newCandle: Candle = {
         timestamp: intervalStart,
-        open: this.currentPrice,
-        high: this.currentPrice,
-        low: this.currentPrice,
-        close: this.currentPrice,
-        volume: Math.floor(Math.random() * 100) // Random initial volume
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: this.random.int(100) // Random initial volume
       };
       
       this.candles.push(newCandle);
@@ -244,10 +380,14 @@ export class MarketSimulator {
     } else {
       // Update the current candle
       const currentCandle = this.candles[this.candles.length - 1];
-      currentCandle.high = Math.max(currentCandle.high, this.currentPrice);
-      currentCandle.low = Math.min(currentCandle.low, this.currentPrice);
-      currentCandle.close = this.currentPrice;
-      currentCandle.volume += Math.floor(Math.random() * 10); // Increment volume
+      currentCandle.high = Math.max(currentCandle.high, price);
+      currentCandle.low = Math.min(currentCandle.low, price);
+      // Volume picks up with the size of the move, up to five times the usual
+      const move = Math.abs(Math.log(price / currentCandle.close));
+      const typicalMove = this.activeSettings().volatility * Math.sqrt(this.config.updateInterval / 1000);
+      const activity = 1 + (typicalMove > 0 ? Math.min(4, move / typicalMove) : 0);
+      currentCandle.close = price;
+      currentCandle.volume += Math.round(this.random.int(10) * activity);
     }
   }
 
@@ -258,26 +398,32 @@ export class MarketSimulator {
     // Generate bid levels (buy orders)
     for (let i = 0; i < this.config.orderBookLevels; i++) {
       const price = bidPrice * (1 - 0.0001 * (i + 1));
-      const volume = Math.floor(Math.random() * 100) * (this.config.orderBookLevels - i);
+      const volume = this.levelVolume(i);
       bids.push({ price, volume });
     }
     
     // Generate ask levels (sell orders)
     for (let i = 0; i < this.config.orderBookLevels; i++) {
       const price = askPrice * (1 + 0.0001 * (i + 1));
-      const volume = Math.floor(Math.random() * 100) * (this.config.orderBookLevels - i);
+      const volume = this.levelVolume(i);
       asks.push({ price, volume });
     }
     
     return { bids, asks };
   }
 
-  // Standard normal random number generator (Box-Muller transform)
+  // Random resting volume for a book level, thinning out away from the top
+  private levelVolume(level: number): number {
+    const depth = this.random.int(100) * (this.config.orderBookLevels - level);
+    if (this.config.levelVolume === undefined) return depth;
+
+    // Scale so the best level averages levelVolume
+    return depth * this.config.levelVolume / (49.5 * this.config.orderBookLevels);
+  }
+
+  // Standard normal random number from the seeded generator
   private normalRandom(): number {
-    let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
-    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+    return this.random.normal();
   }
 }
 
@@ -353,3 +499,69 @@ export const MARKET_PATTERN_PRESETS: Record<string, {
     description: 'Double bottom reversal pattern'
   }
 };
+
+// Market condition presets, with fee schedules to match
+export type MarketPresetKey = 'CHILL' | 'ON_FIRE' | 'CRAZY' | 'EXTREME';
+
+export const MARKET_PRESET_LABELS: Record<MarketPresetKey, string> = {
+  CHILL: 'Chill Market',
+  ON_FIRE: 'Market on Fire',
+  CRAZY: 'Crazy Market',
+  EXTREME: 'Extreme Market'
+};
+
+export const MARKET_PRESETS: Record<MarketPresetKey, Partial<Config>> = {
+  CHILL: {
+    volatility: 0.0005,
+    spread: 0.0001,
+    updateInterval: 20,
+    maxTradesPerSecond: 5,
+    feeModel: 'percent',
+    makerFee: 0,
+    takerFee: 0.0001,
+    minCommission: 0,
+    fundingLongRate: 0,
+    fundingShortRate: 0,
+    fundingInterval: 60000
+  },
+  ON_FIRE: {
+    volatility: 0.01,
+    spread: 0.0005,
+    updateInterval: 10,
+    maxTradesPerSecond: 10,
+    feeModel: 'percent',
+    makerFee: 0.0002,
+    takerFee: 0.0005,
+    minCommission: 0.1,
+    fundingLongRate: 0.0001,
+    fundingShortRate: -0.0001,
+    fundingInterval: 60000
+  },
+  CRAZY: {
+    volatility: 0.05,
+    spread: 0.001,
+    updateInterval: 5,
+    maxTradesPerSecond: 20,
+    feeModel: 'percent',
+    makerFee: 0.0005,
+    takerFee: 0.001,
+    minCommission: 0.5,
+    fundingLongRate: 0.0005,
+    fundingShortRate: -0.0005,
+    fundingInterval: 30000
+  },
+  EXTREME: {
+    volatility: 0.15,
+    spread: 0.002,
+    updateInterval: 3,
+    maxTradesPerSecond: 30,
+    feeModel: 'percent',
+    makerFee: 0.001,
+    takerFee: 0.0025,
+    minCommission: 1,
+    // Swap-style: both sides pay to hold
+    fundingLongRate: 0.001,
+    fundingShortRate: 0.0005,
+    fundingInterval: 15000
+  }
+};
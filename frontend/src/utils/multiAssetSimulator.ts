@@ -0,0 +1,318 @@
+/**
+ * Multi-asset market simulator
+ *
+ * Runs one MarketSimulator per asset on a shared clock. Each tick draws one
+ * independent normal per asset and correlates them through the Cholesky
+ * factor of the universe's correlation matrix, so assets that share a
+ * factor (BTC and ETH, EUR/USD and GBP/USD) move together. Every asset has
+ * its own volatility, drift, spread, price model and pattern schedule, and
+ * cycles through its patterns independently of the others. Price model
+ * parameters are shared, except that each asset reverts to its own initial
+ * price.
+ */
+
+import type { Config, MarketData, PriceModelType } from '../types';
+import { buildCorrelationMatrix, correlateDraws, factorCorrelationMatrix } from './correlation';
+import { MarketSimulator } from './marketSimulator';
+import type { MarketPatternType, SimulatorConfig } from './marketSimulator';
+import { SeededRandom, generateSeed } from './random';
+
+export interface PatternStep {
+  patternType: MarketPatternType;
+  patternStrength: number;
+  patternDuration: number; // ms
+}
+
+export interface AssetSpec {
+  symbol: string;
+  name: string;
+  initialPrice: number;
+  volatility: number;
+  drift: number; // Log drift per second
+  spread: number;
+  priceModel: PriceModelType;
+  patternSchedule: PatternStep[]; // Cycled in order; empty for a plain random walk
+}
+
+export interface MarketUniverse {
+  name: string;
+  description: string;
+  assets: AssetSpec[];
+  correlations: Record<string, number>; // By pair key; pairs not listed are uncorrelated
+}
+
+// Settings every asset shares
+export type SharedSimulatorConfig = Pick<
+  SimulatorConfig,
+  | 'updateInterval'
+  | 'orderBookLevels'
+  | 'seed'
+  | 'priceModelParams'
+  | 'levelVolume'
+  | 'permanentImpact'
+  | 'temporaryImpact'
+  | 'impactDecay'
+>;
+
+export interface MultiAssetConfig extends SharedSimulatorConfig {
+  assets: AssetSpec[];
+  correlations: Record<string, number>;
+}
+
+export const DEFAULT_UNIVERSE = 'crypto';
+
+export const MARKET_UNIVERSES: Record<string, MarketUniverse> = {
+  crypto: {
+    name: 'Crypto',
+    description: 'BTC, ETH and SOL sharing a market factor',
+    assets: [
+      {
+        symbol: 'btcusdt',
+        name: 'Bitcoin',
+        initialPrice: 65000,
+        volatility: 0.0006,
+        drift: 0,
+        spread: 1,
+        priceModel: 'garch',
+        patternSchedule: [
+          { patternType: 'uptrend', patternStrength: 0.05, patternDuration: 60000 },
+          { patternType: 'sideways', patternStrength: 0.5, patternDuration: 60000 },
+          { patternType: 'downtrend', patternStrength: 0.05, patternDuration: 60000 }
+        ]
+      },
+      {
+        symbol: 'ethusdt',
+        name: 'Ethereum',
+        initialPrice: 3200,
+        volatility: 0.0008,
+        drift: 0,
+        spread: 0.1,
+        priceModel: 'garch',
+        patternSchedule: [
+          { patternType: 'sideways', patternStrength: 0.5, patternDuration: 45000 },
+          { patternType: 'uptrend', patternStrength: 0.08, patternDuration: 45000 },
+          { patternType: 'downtrend', patternStrength: 0.06, patternDuration: 60000 }
+        ]
+      },
+      {
+        symbol: 'solusdt',
+        name: 'Solana',
+        initialPrice: 150,
+        volatility: 0.0012,
+        drift: 0,
+        spread: 0.01,
+        priceModel: 'jumpDiffusion',
+        patternSchedule: [
+          { patternType: 'breakout_up', patternStrength: 0.1, patternDuration: 45000 },
+          { patternType: 'downtrend', patternStrength: 0.08, patternDuration: 60000 }
+        ]
+      }
+    ],
+    correlations: {
+      'btcusdt/ethusdt': 0.8,
+      'btcusdt/solusdt': 0.7,
+      'ethusdt/solusdt': 0.75
+    }
+  },
+  forex: {
+    name: 'Forex',
+    description: 'EUR/USD and GBP/USD moving together, USD/JPY against them',
+    assets: [
+      {
+        symbol: 'eurusd',
+        name: 'Euro',
+        initialPrice: 1.085,
+        volatility: 0.0002,
+        drift: 0,
+        spread: 0.00002,
+        priceModel: 'ornsteinUhlenbeck',
+        patternSchedule: [
+          { patternType: 'sideways', patternStrength: 0.5, patternDuration: 90000 }
+        ]
+      },
+      {
+        symbol: 'gbpusd',
+        name: 'British Pound',
+        initialPrice: 1.27,
+        volatility: 0.00025,
+        drift: 0,
+        spread: 0.00003,
+        priceModel: 'ornsteinUhlenbeck',
+        patternSchedule: [
+          { patternType: 'sideways', patternStrength: 0.5, patternDuration: 60000 },
+          { patternType: 'breakout_down', patternStrength: 0.02, patternDuration: 45000 }
+        ]
+      },
+      {
+        symbol: 'usdjpy',
+        name: 'Japanese Yen',
+        initialPrice: 151.5,
+        volatility: 0.0002,
+        drift: 0,
+        spread: 0.003,
+        priceModel: 'ornsteinUhlenbeck',
+        patternSchedule: [
+          { patternType: 'uptrend', patternStrength: 0.01, patternDuration: 90000 },
+          { patternType: 'sideways', patternStrength: 0.5, patternDuration: 60000 }
+        ]
+      }
+    ],
+    correlations: {
+      'eurusd/gbpusd': 0.85,
+      'eurusd/usdjpy': -0.5,
+      'gbpusd/usdjpy': -0.4
+    }
+  }
+};
+
+/**
+ * The universe the config selects, with its asset and correlation overrides applied
+ */
+export const getMarketUniverse = (config: Config): MarketUniverse => {
+  const universe = MARKET_UNIVERSES[config.universe ?? DEFAULT_UNIVERSE] ?? MARKET_UNIVERSES[DEFAULT_UNIVERSE];
+  return {
+    ...universe,
+    assets: universe.assets.map(asset => {
+      const override = config.assetOverrides?.[asset.symbol];
+      return {
+        ...asset,
+        volatility: override?.volatility ?? asset.volatility,
+        drift: override?.drift ?? asset.drift,
+        priceModel: override?.priceModel ?? asset.priceModel
+      };
+    }),
+    correlations: { ...universe.correlations, ...config.correlationOverrides }
+  };
+};
+
+// Seed of each asset's own simulator (book and volume noise), derived from the shared seed
+const assetSeed = (seed: number, index: number): number => (seed + Math.imul(index + 1, 0x9E3779B9)) >>> 0;
+
+interface ScheduleState {
+  step: number;
+  remaining: number; // ms left in the current step
+}
+
+export class MultiAssetSimulator {
+  private config: MultiAssetConfig;
+  private random: SeededRandom;
+  private simulators: MarketSimulator[];
+  private schedules: ScheduleState[];
+  private factor: number[][];
+  private shrinkage: number;
+
+  constructor(config: MultiAssetConfig) {
+    const seed = config.seed ?? generateSeed();
+    this.config = { ...config, seed };
+    this.random = new SeededRandom(seed);
+
+    const shared = this.sharedConfig();
+    this.simulators = config.assets.map((asset, index) => {
+      const [firstStep] = asset.patternSchedule;
+      return new MarketSimulator({
+        ...shared,
+        initialPrice: asset.initialPrice,
+        volatility: asset.volatility,
+        drift: asset.drift,
+        spread: asset.spread,
+        priceModel: asset.priceModel,
+        ...firstStep,
+        seed: assetSeed(seed, index)
+      });
+    });
+    this.schedules = config.assets.map(asset => ({ step: 0, remaining: asset.patternSchedule[0]?.patternDuration ?? 0 }));
+
+    const { factor, shrinkage } = factorCorrelationMatrix(this.correlationMatrix());
+    this.factor = factor;
+    this.shrinkage = shrinkage;
+  }
+
+  // Advance every asset one tick with correlated shocks
+  // @returns Market data by symbol
+  public generateMarketData(): Record<string, MarketData> {
+    const shocks = correlateDraws(this.factor, this.simulators.map(() => this.random.normal()));
+    this.advanceSchedules();
+
+    const markets: Record<string, MarketData> = {};
+    this.config.assets.forEach((asset, index) => {
+      markets[asset.symbol] = this.simulators[index].generateMarketData(shocks[index]);
+    });
+    return markets;
+  }
+
+  public getSymbols(): string[] {
+    return this.config.assets.map(asset => asset.symbol);
+  }
+
+  // Simulator of one asset, for trades and market impact
+  public getSimulator(symbol: string): MarketSimulator | undefined {
+    const index = this.config.assets.findIndex(asset => asset.symbol === symbol);
+    return index >= 0 ? this.simulators[index] : undefined;
+  }
+
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  // Share the correlations were weakened by to make the matrix valid (0 when it was)
+  public getCorrelationShrinkage(): number {
+    return this.shrinkage;
+  }
+
+  // Apply new shared settings, asset volatility, drift, spread and price model, and
+  // correlations. The assets themselves and the seed are fixed.
+  public updateConfig(config: MultiAssetConfig): void {
+    this.config = {
+      ...config,
+      assets: this.config.assets.map(asset => config.assets.find(next => next.symbol === asset.symbol) ?? asset),
+      seed: this.config.seed
+    };
+
+    const shared = this.sharedConfig();
+    this.config.assets.forEach((asset, index) => {
+      this.simulators[index].updateConfig({
+        ...shared,
+        volatility: asset.volatility,
+        drift: asset.drift,
+        spread: asset.spread,
+        priceModel: asset.priceModel
+      });
+    });
+
+    const { factor, shrinkage } = factorCorrelationMatrix(this.correlationMatrix());
+    this.factor = factor;
+    this.shrinkage = shrinkage;
+  }
+
+  private sharedConfig(): Omit<SharedSimulatorConfig, 'seed'> {
+    return {
+      updateInterval: this.config.updateInterval,
+      orderBookLevels: this.config.orderBookLevels,
+      levelVolume: this.config.levelVolume,
+      permanentImpact: this.config.permanentImpact,
+      temporaryImpact: this.config.temporaryImpact,
+      impactDecay: this.config.impactDecay,
+      priceModelParams: { ...this.config.priceModelParams, meanPrice: 0 }
+    };
+  }
+
+  private correlationMatrix(): number[][] {
+    return buildCorrelationMatrix(this.getSymbols(), this.config.correlations);
+  }
+
+  // Move each asset on to its next pattern when the current one has run its course
+  private advanceSchedules(): void {
+    this.config.assets.forEach((asset, index) => {
+      const schedule = this.schedules[index];
+      if (asset.patternSchedule.length === 0) return;
+
+      schedule.remaining -= this.config.updateInterval;
+      if (schedule.remaining > 0) return;
+
+      schedule.step = (schedule.step + 1) % asset.patternSchedule.length;
+      const step = asset.patternSchedule[schedule.step];
+      schedule.remaining = step.patternDuration;
+      this.simulators[index].updateConfig(step);
+    });
+  }
+}
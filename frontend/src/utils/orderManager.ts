@@ -0,0 +1,294 @@
+/**
+ * Client-side order manager
+ *
+ * Working orders rest in the browser and are checked against every quote.
+ * Buys trigger off the ask and sells off the bid:
+ *
+ * - limit / takeProfit: fill once the market reaches the limit price, never
+ *   at a worse price
+ * - stop: becomes a market order once the market trades through the stop
+ * - stopLimit: once the stop is hit, rests as a limit order at its price
+ * - trailingStop: a stop that follows the best price seen by `trailDistance`
+ *   and never moves back
+ *
+ * Each order trades one instrument and is only checked against its quotes.
+ * Bracket exits carry the entry's ID in `parentId` and wait until it fills.
+ * Orders sharing an `ocoGroup` cancel each other when one of them fills.
+ * An order sent to a venue is marked `pending` until the venue answers; it
+ * and the rest of its OCO group are not checked meanwhile.
+ * The functions here are pure; the app keeps the list in state and executes
+ * whatever `evaluateOrders` says has triggered.
+ */
+
+import type { OrderType, WorkingOrder } from '../types';
+
+export interface Quote {
+  bid: number;
+  ask: number;
+}
+
+// A new order as entered by the player
+export interface OrderDraft {
+  type: OrderType;
+  side: 'buy' | 'sell';
+  size: number;
+  price?: number;
+  stopPrice?: number;
+  trailDistance?: number;
+}
+
+// Exits to attach to an entry or an open position
+export interface BracketExits {
+  takeProfit?: number; // Limit price to take profit at
+  stopLoss?: number; // Stop price to cut the loss at
+}
+
+// A triggered order to execute now
+export interface OrderFill {
+  order: WorkingOrder;
+  limitPrice?: number; // Worst acceptable price; unset for market execution
+}
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  limit: 'Limit',
+  stop: 'Stop',
+  stopLimit: 'Stop-Limit',
+  takeProfit: 'Take-Profit',
+  trailingStop: 'Trailing Stop'
+};
+
+let orderSequence = 0;
+
+const createOrderId = (now: number): string => `order-${now}-${++orderSequence}`;
+
+const isPositive = (value: number | undefined): value is number =>
+  value !== undefined && Number.isFinite(value) && value > 0;
+
+/**
+ * Check a draft has the prices its type needs
+ * @returns Reason the order is invalid, or null
+ */
+export const validateOrderDraft = (draft: OrderDraft): string | null => {
+  if (!isPositive(draft.size)) return 'Order size must be positive';
+  switch (draft.type) {
+    case 'limit':
+    case 'takeProfit':
+      return isPositive(draft.price) ? null : `${ORDER_TYPE_LABELS[draft.type]} orders need a price`;
+    case 'stop':
+      return isPositive(draft.stopPrice) ? null : 'Stop orders need a stop price';
+    case 'stopLimit':
+      return isPositive(draft.stopPrice) && isPositive(draft.price) ? null : 'Stop-limit orders need a stop and a limit price';
+    case 'trailingStop':
+      return isPositive(draft.trailDistance) ? null : 'Trailing stops need a trail distance';
+  }
+};
+
+/**
+ * Create a working order from a draft. Trailing stops start `trailDistance`
+ * away from the current quote.
+ */
+export const createOrder = (
+  draft: OrderDraft,
+  instrumentId: string,
+  quote: Quote,
+  now: number,
+  link: { parentId?: string; ocoGroup?: string } = {}
+): WorkingOrder => {
+  const order: WorkingOrder = {
+    id: createOrderId(now),
+    instrumentId,
+    type: draft.type,
+    side: draft.side,
+    size: draft.size,
+    createdAt: now,
+    updatedAt: now,
+    ...link
+  };
+
+  if (draft.type === 'limit' || draft.type === 'takeProfit' || draft.type === 'stopLimit') {
+    order.price = draft.price;
+  }
+  if (draft.type === 'stop' || draft.type === 'stopLimit') {
+    order.stopPrice = draft.stopPrice;
+  }
+  if (draft.type === 'trailingStop' && draft.trailDistance !== undefined) {
+    order.trailDistance = draft.trailDistance;
+    order.stopPrice = draft.side === 'sell' ? quote.bid - draft.trailDistance : quote.ask + draft.trailDistance;
+  }
+  return order;
+};
+
+/**
+ * Take-profit and stop-loss exits that close `size` on the `exitSide`,
+ * cancelling each other. With a parent they wait for it to fill.
+ */
+export const createBracketExits = (
+  instrumentId: string,
+  exitSide: 'buy' | 'sell',
+  size: number,
+  exits: BracketExits,
+  quote: Quote,
+  now: number,
+  parentId?: string
+): WorkingOrder[] => {
+  const ocoGroup = `oco-${now}-${++orderSequence}`;
+  const orders: WorkingOrder[] = [];
+  if (isPositive(exits.takeProfit)) {
+    orders.push(createOrder({ type: 'takeProfit', side: exitSide, size, price: exits.takeProfit }, instrumentId, quote, now, { parentId, ocoGroup }));
+  }
+  if (isPositive(exits.stopLoss)) {
+    orders.push(createOrder({ type: 'stop', side: exitSide, size, stopPrice: exits.stopLoss }, instrumentId, quote, now, { parentId, ocoGroup }));
+  }
+  // A lone exit has nothing to cancel
+  if (orders.length === 1) {
+    delete orders[0].ocoGroup;
+  }
+  return orders;
+};
+
+/**
+ * Whether an order is live, i.e. not a bracket exit waiting on its entry
+ */
+export const isOrderActive = (order: WorkingOrder, orders: WorkingOrder[]): boolean =>
+  !order.parentId || !orders.some(other => other.id === order.parentId);
+
+/**
+ * Check every live order for an instrument against its quote
+ * @returns Orders with trailing stops and stop-limits updated, and the fills to execute
+ */
+export const evaluateOrders = (
+  orders: WorkingOrder[],
+  instrumentId: string,
+  quote: Quote,
+  now: number
+): { orders: WorkingOrder[]; fills: OrderFill[]; changed: boolean } => {
+  const fills: OrderFill[] = [];
+  let changed = false;
+
+  const pendingGroups = new Set(orders.filter(order => order.pending && order.ocoGroup).map(order => order.ocoGroup));
+
+  const updated = orders.map(order => {
+    if (order.instrumentId !== instrumentId || !isOrderActive(order, orders)) return order;
+    if (order.pending || (order.ocoGroup && pendingGroups.has(order.ocoGroup))) return order;
+
+    const marketPrice = order.side === 'buy' ? quote.ask : quote.bid;
+    const reachedLimit = (price: number) => order.side === 'buy' ? marketPrice <= price : marketPrice >= price;
+    const hitStop = (stop: number) => order.side === 'buy' ? marketPrice >= stop : marketPrice <= stop;
+
+    switch (order.type) {
+      case 'limit':
+      case 'takeProfit':
+        if (order.price !== undefined && reachedLimit(order.price)) {
+          fills.push({ order, limitPrice: order.price });
+        }
+        return order;
+
+      case 'stop':
+        if (order.stopPrice !== undefined && hitStop(order.stopPrice)) {
+          fills.push({ order });
+        }
+        return order;
+
+      case 'stopLimit': {
+        let current = order;
+        if (!order.stopTriggered && order.stopPrice !== undefined && hitStop(order.stopPrice)) {
+          current = { ...order, stopTriggered: true, updatedAt: now };
+          changed = true;
+        }
+        if (current.stopTriggered && current.price !== undefined && reachedLimit(current.price)) {
+          fills.push({ order: current, limitPrice: current.price });
+        }
+        return current;
+      }
+
+      case 'trailingStop': {
+        if (order.stopPrice === undefined || order.trailDistance === undefined) return order;
+        let current = order;
+        const trailed = order.side === 'sell'
+          ? Math.max(order.stopPrice, quote.bid - order.trailDistance)
+          : Math.min(order.stopPrice, quote.ask + order.trailDistance);
+        if (trailed !== order.stopPrice) {
+          current = { ...order, stopPrice: trailed, updatedAt: now };
+          changed = true;
+        }
+        if (hitStop(trailed)) {
+          fills.push({ order: current });
+        }
+        return current;
+      }
+    }
+  });
+
+  return { orders: updated, fills, changed: changed || fills.length > 0 };
+};
+
+/**
+ * Hold a triggered order while its trade is out at the venue. The venue's
+ * answer then completes or cancels it.
+ */
+export const markOrderPending = (orders: WorkingOrder[], orderId: string, now: number): WorkingOrder[] =>
+  orders.map(order => order.id === orderId ? { ...order, pending: true, updatedAt: now } : order);
+
+/**
+ * Remove a filled order: cancel the rest of its OCO group and release the
+ * bracket exits that were waiting on it
+ */
+export const completeOrder = (orders: WorkingOrder[], orderId: string): WorkingOrder[] => {
+  const filled = orders.find(order => order.id === orderId);
+  if (!filled) return orders;
+
+  return orders
+    .filter(order => order.id !== orderId && (!filled.ocoGroup || order.ocoGroup !== filled.ocoGroup))
+    .map(order => order.parentId === orderId ? { ...order, parentId: undefined } : order);
+};
+
+/**
+ * Cancel an order and any bracket exits waiting on it
+ */
+export const cancelOrder = (orders: WorkingOrder[], orderId: string): WorkingOrder[] =>
+  orders.filter(order => order.id !== orderId && order.parentId !== orderId);
+
+/**
+ * Change an order's size or prices. Moving a trailing stop's stop price
+ * changes its trail distance, keeping the best price it has seen.
+ * @returns Updated orders, or a reason the change was refused
+ */
+export const modifyOrder = (
+  orders: WorkingOrder[],
+  orderId: string,
+  changes: Partial<Pick<WorkingOrder, 'size' | 'price' | 'stopPrice' | 'trailDistance'>>,
+  now: number
+): WorkingOrder[] | string => {
+  const order = orders.find(candidate => candidate.id === orderId);
+  if (!order) return 'Order not found';
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (!isPositive(value)) return `${field} must be positive`;
+  }
+
+  const modified: WorkingOrder = { ...order, ...changes, updatedAt: now };
+  if (order.type === 'trailingStop' && changes.stopPrice !== undefined && changes.trailDistance === undefined
+    && order.stopPrice !== undefined && order.trailDistance !== undefined) {
+    const best = order.side === 'sell' ? order.stopPrice + order.trailDistance : order.stopPrice - order.trailDistance;
+    const distance = order.side === 'sell' ? best - changes.stopPrice : changes.stopPrice - best;
+    if (!isPositive(distance)) return 'A trailing stop must stay behind the best price';
+    modified.trailDistance = distance;
+  }
+
+  return orders.map(candidate => candidate.id === orderId ? modified : candidate);
+};
+
+/**
+ * Prices an order shows on the chart; `field` is what dragging the line changes
+ */
+export const getOrderLines = (order: WorkingOrder): { field: 'price' | 'stopPrice'; price: number; title: string }[] => {
+  const label = `${order.side === 'buy' ? 'Buy' : 'Sell'} ${ORDER_TYPE_LABELS[order.type]}`;
+  const lines: { field: 'price' | 'stopPrice'; price: number; title: string }[] = [];
+  if (order.stopPrice !== undefined && !order.stopTriggered) {
+    lines.push({ field: 'stopPrice', price: order.stopPrice, title: order.type === 'stopLimit' ? `${label} (stop)` : label });
+  }
+  if (order.price !== undefined) {
+    lines.push({ field: 'price', price: order.price, title: order.type === 'stopLimit' ? `${label} (limit)` : label });
+  }
+  return lines;
+};
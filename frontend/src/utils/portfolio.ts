@@ -0,0 +1,205 @@
+/**
+ * Multi-instrument portfolio
+ *
+ * The local account holds cash and one position book per instrument. An
+ * instrument is a symbol on a market data source, so the simulator's ETHUSDT
+ * and Binance's are booked apart. Each held instrument is marked at the last
+ * price seen for it: live while it is charted or streamed, otherwise the
+ * price it last had on screen. Equity is cash plus every position marked.
+ *
+ * Holdings carried over from before the portfolio have no lots; they are
+ * booked at the first price seen for their instrument. The functions here are
+ * pure; the app keeps the portfolio in state.
+ */
+
+import type { CostBasisMethod, Trade } from '../types';
+import {
+  applyFill,
+  createPositionBook,
+  getAverageEntry,
+  getPositionSize,
+  getUnrealizedPnl,
+  matchesPosition,
+  recordFunding,
+  seedPosition
+} from './positionAccounting';
+import type { FillOutcome, PositionBook } from './positionAccounting';
+
+export interface InstrumentMark {
+  price: number;
+  timestamp: number;
+}
+
+export interface Portfolio {
+  cash: number;
+  positions: Record<string, PositionBook>; // By instrument ID
+  marks: Record<string, InstrumentMark>; // Last price seen, by instrument ID
+  carriedOver: Record<string, number>; // Holdings without lots, by instrument ID
+}
+
+export interface PositionRow {
+  instrumentId: string;
+  source: string;
+  symbol: string;
+  size: number;
+  averageEntry: number | null;
+  markPrice: number | null; // Null when the instrument has no price yet
+  markedAt: number | null;
+  live: boolean; // Marked at the price on the chart
+  value: number | null;
+  unrealizedPnl: number | null;
+  realizedPnl: number | null; // Null when the account doesn't report it per instrument
+  costs: number; // Fees and funding paid
+}
+
+export const getInstrumentId = (source: string, symbol: string): string =>
+  `${source}:${symbol.toLowerCase()}`;
+
+export const parseInstrumentId = (instrumentId: string): { source: string; symbol: string } => {
+  const separator = instrumentId.indexOf(':');
+  return { source: instrumentId.slice(0, separator), symbol: instrumentId.slice(separator + 1) };
+};
+
+export const createPortfolio = (cash: number): Portfolio => ({
+  cash,
+  positions: {},
+  marks: {},
+  carriedOver: {}
+});
+
+export const getPositionBook = (portfolio: Portfolio, instrumentId: string): PositionBook =>
+  portfolio.positions[instrumentId] ?? createPositionBook();
+
+/**
+ * Signed size held in an instrument, including holdings not yet booked
+ */
+export const getHoldings = (portfolio: Portfolio, instrumentId: string): number =>
+  portfolio.carriedOver[instrumentId] ?? getPositionSize(getPositionBook(portfolio, instrumentId));
+
+/**
+ * Instruments with an open position
+ */
+export const getHeldInstruments = (portfolio: Portfolio): string[] => {
+  const held = new Set(Object.keys(portfolio.carriedOver));
+  for (const [instrumentId, book] of Object.entries(portfolio.positions)) {
+    if (!matchesPosition(book, 0)) held.add(instrumentId);
+  }
+  return [...held].sort();
+};
+
+/**
+ * Book a fill in an instrument: cash moves by the proceeds less the fee, and
+ * the fill price becomes the instrument's mark
+ */
+export const bookTrade = (
+  portfolio: Portfolio,
+  instrumentId: string,
+  trade: Trade,
+  method: CostBasisMethod
+): { portfolio: Portfolio; outcome: FillOutcome } => {
+  const outcome = applyFill(getPositionBook(portfolio, instrumentId), trade, method);
+  const proceeds = trade.side === 'buy' ? -trade.value : trade.value;
+  return {
+    portfolio: {
+      ...portfolio,
+      cash: portfolio.cash + proceeds - (trade.fee ?? 0),
+      positions: { ...portfolio.positions, [instrumentId]: outcome.book },
+      marks: { ...portfolio.marks, [instrumentId]: { price: trade.avgPrice ?? trade.price, timestamp: trade.timestamp } }
+    },
+    outcome
+  };
+};
+
+export const recordMark = (portfolio: Portfolio, instrumentId: string, price: number, timestamp: number): Portfolio => ({
+  ...portfolio,
+  marks: { ...portfolio.marks, [instrumentId]: { price, timestamp } }
+});
+
+/**
+ * Book carried-over holdings as a single lot at a price, keeping the
+ * instrument's realized P&L and round trips
+ */
+export const bookCarriedOver = (portfolio: Portfolio, instrumentId: string, price: number, timestamp: number): Portfolio => {
+  const size = portfolio.carriedOver[instrumentId];
+  if (size === undefined) return portfolio;
+
+  const carriedOver = { ...portfolio.carriedOver };
+  delete carriedOver[instrumentId];
+  return {
+    ...portfolio,
+    positions: { ...portfolio.positions, [instrumentId]: seedPosition(getPositionBook(portfolio, instrumentId), size, price, timestamp) },
+    marks: { ...portfolio.marks, [instrumentId]: { price, timestamp } },
+    carriedOver
+  };
+};
+
+/**
+ * Take funding or swap for an instrument's position out of cash
+ */
+export const chargeFunding = (portfolio: Portfolio, instrumentId: string, amount: number): Portfolio => ({
+  ...portfolio,
+  cash: portfolio.cash - amount,
+  positions: { ...portfolio.positions, [instrumentId]: recordFunding(getPositionBook(portfolio, instrumentId), amount) }
+});
+
+/**
+ * Every open position marked at its live price where there is one, otherwise
+ * at the last price seen
+ */
+export const getPositionRows = (portfolio: Portfolio, livePrices: Record<string, number>): PositionRow[] =>
+  getHeldInstruments(portfolio).map(instrumentId => {
+    const book = getPositionBook(portfolio, instrumentId);
+    const size = getHoldings(portfolio, instrumentId);
+    const live = livePrices[instrumentId] !== undefined;
+    const mark = live ? { price: livePrices[instrumentId], timestamp: Date.now() } : portfolio.marks[instrumentId];
+    const booked = portfolio.carriedOver[instrumentId] === undefined;
+    return {
+      instrumentId,
+      ...parseInstrumentId(instrumentId),
+      size,
+      averageEntry: booked ? getAverageEntry(book) : null,
+      markPrice: mark?.price ?? null,
+      markedAt: mark?.timestamp ?? null,
+      live,
+      value: mark ? size * mark.price : null,
+      unrealizedPnl: mark && booked ? getUnrealizedPnl(book, mark.price) : null,
+      realizedPnl: book.realizedPnl,
+      costs: book.fees + book.funding
+    };
+  });
+
+/**
+ * Cash plus every position that has a price
+ */
+export const getPortfolioEquity = (cash: number, rows: PositionRow[]): number =>
+  rows.reduce((total, row) => total + (row.value ?? 0), cash);
+
+/**
+ * Rows for positions a server ledger books, marked where there is a live price.
+ * The ledger reports realized P&L for the account only, net of the fees it charged.
+ */
+export const getAccountPositionRows = (
+  positions: { symbol: string; size: number; avgPrice: number }[],
+  source: string,
+  livePrices: Record<string, number>
+): PositionRow[] =>
+  positions
+    .filter(position => position.size !== 0)
+    .map(position => {
+      const instrumentId = getInstrumentId(source, position.symbol);
+      const markPrice = livePrices[instrumentId] ?? null;
+      return {
+        instrumentId,
+        source,
+        symbol: position.symbol.toLowerCase(),
+        size: position.size,
+        averageEntry: position.avgPrice,
+        markPrice,
+        markedAt: markPrice !== null ? Date.now() : null,
+        live: markPrice !== null,
+        value: markPrice !== null ? position.size * markPrice : null,
+        unrealizedPnl: markPrice !== null ? (markPrice - position.avgPrice) * position.size : null,
+        realizedPnl: null,
+        costs: 0
+      };
+    });
@@ -0,0 +1,242 @@
+/**
+ * Position accounting
+ *
+ * The open position is kept as lots, and every fill that reduces it books
+ * realized P&L against them:
+ *
+ * - fifo: a closing fill consumes the oldest lots first
+ * - average: lots are merged into one at the average entry price, so every
+ *   closing fill realizes against the average (as the server ledger does)
+ *
+ * A fill's fee is part of its price: it adds to the cost of the lots it opens
+ * and comes off the P&L of the lots it closes, so realized P&L is net of fees.
+ * Unrealized P&L marks the remaining lots to a price. A round trip runs from
+ * flat back to flat; a fill that flips the position closes one trip and
+ * opens the next with the remainder. The functions here are pure; the app
+ * keeps the book in state.
+ */
+
+import type { CostBasisMethod, Trade } from '../types';
+
+export interface PositionLot {
+  size: number; // Signed: positive for long, negative for short
+  price: number;
+  timestamp: number;
+}
+
+// A position opened from flat and closed back to flat
+export interface RoundTrip {
+  id: string;
+  side: 'long' | 'short';
+  size: number; // Total size closed
+  entryPrice: number; // Average price of the opening fills
+  exitPrice: number; // Average price of the closing fills
+  realizedPnl: number; // Net of fees
+  fills: number;
+  openedAt: number;
+  closedAt: number;
+}
+
+// Running totals of the round trip in progress
+export interface OpenRoundTrip {
+  side: 'long' | 'short';
+  entryValue: number;
+  entrySize: number;
+  exitValue: number;
+  exitSize: number;
+  realizedPnl: number;
+  fills: number;
+  openedAt: number;
+}
+
+export interface PositionBook {
+  lots: PositionLot[]; // All on the same side, oldest first
+  realizedPnl: number;
+  fees: number; // Commissions paid
+  funding: number; // Funding and swap paid (negative when received)
+  roundTrips: RoundTrip[]; // Most recent first
+  openTrip: OpenRoundTrip | null;
+}
+
+export interface FillOutcome {
+  book: PositionBook;
+  realizedPnl: number | null; // Null when the fill only opened or added to the position
+  roundTrip: RoundTrip | null; // Round trip the fill completed
+}
+
+// Sizes smaller than this are rounding residue, not a position
+const FLAT = 1e-9;
+
+const MAX_ROUND_TRIPS = 100;
+
+let roundTripSequence = 0;
+
+export const DEFAULT_COST_BASIS: CostBasisMethod = 'fifo';
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  average: 'Average cost'
+};
+
+export const createPositionBook = (): PositionBook => ({
+  lots: [],
+  realizedPnl: 0,
+  fees: 0,
+  funding: 0,
+  roundTrips: [],
+  openTrip: null
+});
+
+/**
+ * Signed size of the position the book holds
+ */
+export const getPositionSize = (book: PositionBook): number =>
+  book.lots.reduce((total, lot) => total + lot.size, 0);
+
+/**
+ * Whether the book holds `size`, give or take rounding
+ */
+export const matchesPosition = (book: PositionBook, size: number): boolean =>
+  Math.abs(getPositionSize(book) - size) < FLAT;
+
+/**
+ * Average entry price of the open lots (including their fees), or null when flat
+ */
+export const getAverageEntry = (book: PositionBook): number | null => {
+  const size = getPositionSize(book);
+  if (Math.abs(size) < FLAT) return null;
+  return book.lots.reduce((total, lot) => total + lot.size * lot.price, 0) / size;
+};
+
+/**
+ * P&L of the open lots marked to a price
+ */
+export const getUnrealizedPnl = (book: PositionBook, price: number): number =>
+  book.lots.reduce((total, lot) => total + (price - lot.price) * lot.size, 0);
+
+/**
+ * Replace the open position with a single lot, e.g. for holdings that predate
+ * the book. Realized P&L and past round trips are kept.
+ */
+export const seedPosition = (book: PositionBook, size: number, price: number, timestamp: number): PositionBook => {
+  if (Math.abs(size) < FLAT) {
+    return { ...book, lots: [], openTrip: null };
+  }
+  return {
+    ...book,
+    lots: [{ size, price, timestamp }],
+    openTrip: {
+      side: size > 0 ? 'long' : 'short',
+      entryValue: Math.abs(size) * price,
+      entrySize: Math.abs(size),
+      exitValue: 0,
+      exitSize: 0,
+      realizedPnl: 0,
+      fills: 1,
+      openedAt: timestamp
+    }
+  };
+};
+
+/**
+ * Book a funding or swap payment against the position
+ */
+export const recordFunding = (book: PositionBook, amount: number): PositionBook => ({
+  ...book,
+  funding: book.funding + amount
+});
+
+const mergeLots = (lots: PositionLot[]): PositionLot[] => {
+  if (lots.length <= 1) return lots;
+  const size = lots.reduce((total, lot) => total + lot.size, 0);
+  const value = lots.reduce((total, lot) => total + lot.size * lot.price, 0);
+  return [{ size, price: value / size, timestamp: lots[0].timestamp }];
+};
+
+/**
+ * Book a fill against the position
+ * @returns The updated book, the P&L the fill realized and the round trip it completed
+ */
+export const applyFill = (book: PositionBook, trade: Trade, method: CostBasisMethod): FillOutcome => {
+  const price = trade.avgPrice ?? trade.price;
+  const fee = trade.fee ?? 0;
+  const feePerUnit = trade.size !== 0 ? fee / Math.abs(trade.size) : 0;
+  let remaining = trade.side === 'buy' ? Math.abs(trade.size) : -Math.abs(trade.size);
+  let lots = method === 'average' ? mergeLots(book.lots) : book.lots;
+  let realized = 0;
+  let closed = 0;
+
+  // Close lots on the other side, oldest first
+  while (Math.abs(remaining) >= FLAT && lots.length > 0 && Math.sign(lots[0].size) === -Math.sign(remaining)) {
+    const lot = lots[0];
+    const direction = Math.sign(lot.size);
+    const matched = Math.min(Math.abs(lot.size), Math.abs(remaining));
+    realized += (price - lot.price) * matched * direction - feePerUnit * matched;
+    closed += matched;
+    remaining += matched * direction;
+    const left = lot.size - matched * direction;
+    lots = Math.abs(left) >= FLAT ? [{ ...lot, size: left }, ...lots.slice(1)] : lots.slice(1);
+  }
+
+  let trip = book.openTrip;
+  let roundTrip: RoundTrip | null = null;
+  if (closed > 0 && trip) {
+    trip = {
+      ...trip,
+      exitValue: trip.exitValue + closed * price,
+      exitSize: trip.exitSize + closed,
+      realizedPnl: trip.realizedPnl + realized,
+      fills: trip.fills + 1
+    };
+    if (lots.length === 0) {
+      roundTrip = {
+        id: `trip-${trade.timestamp}-${++roundTripSequence}`,
+        side: trip.side,
+        size: trip.exitSize,
+        entryPrice: trip.entryValue / trip.entrySize,
+        exitPrice: trip.exitValue / trip.exitSize,
+        realizedPnl: trip.realizedPnl,
+        fills: trip.fills,
+        openedAt: trip.openedAt,
+        closedAt: trade.timestamp
+      };
+      trip = null;
+    }
+  }
+
+  // Whatever is left opens or adds to the position
+  if (Math.abs(remaining) >= FLAT) {
+    const lot = { size: remaining, price: price + feePerUnit * Math.sign(remaining), timestamp: trade.timestamp };
+    lots = method === 'average' ? mergeLots([...lots, lot]) : [...lots, lot];
+    trip = trip
+      ? {
+          ...trip,
+          entryValue: trip.entryValue + Math.abs(remaining) * price,
+          entrySize: trip.entrySize + Math.abs(remaining),
+          fills: closed > 0 ? trip.fills : trip.fills + 1
+        }
+      : {
+          side: remaining > 0 ? 'long' : 'short',
+          entryValue: Math.abs(remaining) * price,
+          entrySize: Math.abs(remaining),
+          exitValue: 0,
+          exitSize: 0,
+          realizedPnl: 0,
+          fills: 1,
+          openedAt: trade.timestamp
+        };
+  }
+
+  return {
+    book: {
+      lots,
+      realizedPnl: book.realizedPnl + realized,
+      fees: book.fees + fee,
+      funding: book.funding,
+      roundTrips: roundTrip ? [roundTrip, ...book.roundTrips].slice(0, MAX_ROUND_TRIPS) : book.roundTrips,
+      openTrip: trip
+    },
+    realizedPnl: closed > 0 ? realized : null,
+    roundTrip
+  };
+};
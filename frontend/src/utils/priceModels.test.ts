@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceModelParams, PriceModelType } from '../types';
+import { createPriceModel, resolvePriceModelParams } from './priceModels';
+import { SeededRandom } from './random';
+import reference from './testing/priceModelReference.json';
+
+// Log-price moves of a model over `ticks` steps, with each shock drawn from
+// the generator the model draws from, as the simulator does
+const runModel = (
+  type: PriceModelType,
+  {
+    seed = 1,
+    ticks,
+    deltaTime,
+    volatility,
+    initialPrice = 100,
+    startPrice = initialPrice,
+    params
+  }: {
+    seed?: number;
+    ticks: number;
+    deltaTime: number;
+    volatility: number;
+    initialPrice?: number;
+    startPrice?: number;
+    params?: Partial<PriceModelParams>;
+  }
+): { moves: number[]; prices: number[] } => {
+  const random = new SeededRandom(seed);
+  const model = createPriceModel(type, random);
+  const resolved = resolvePriceModelParams(params);
+  const moves: number[] = [];
+  const prices: number[] = [];
+  let price = startPrice;
+  for (let i = 0; i < ticks; i++) {
+    const move = model.step({ deltaTime, shock: random.normal(), volatility, price, initialPrice }, resolved);
+    price *= Math.exp(move);
+    moves.push(move);
+    prices.push(price);
+  }
+  return { moves, prices };
+};
+
+// Realized variance per second over a run of moves
+const varianceRate = (moves: number[], deltaTime: number): number =>
+  moves.reduce((sum, move) => sum + move * move, 0) / (moves.length * deltaTime);
+
+describe('price models', () => {
+  it('reproduce the reference paths the server models are checked against', () => {
+    // The server copy (backend/src/priceModels.js) is checked against the
+    // same paths by `npm run check-models` in backend/
+    const types = Object.keys(reference.paths) as PriceModelType[];
+    expect(types).toEqual(['gbm', 'garch', 'regimeSwitching', 'jumpDiffusion', 'ornsteinUhlenbeck']);
+    for (const type of types) {
+      const { moves } = runModel(type, reference);
+      expect(moves, type).toEqual(reference.paths[type]);
+    }
+  });
+
+  describe('garch', () => {
+    const volatility = 0.001;
+    const deltaTime = 0.1;
+
+    it('keeps the variance around the long-run level when α + β is below 1', () => {
+      const { moves } = runModel('garch', {
+        seed: 11,
+        ticks: 50000,
+        deltaTime,
+        volatility,
+        params: { garchAlpha: 0.1, garchBeta: 0.85 }
+      });
+      const longRun = volatility * volatility;
+
+      expect(varianceRate(moves, deltaTime) / longRun).toBeGreaterThan(0.85);
+      expect(varianceRate(moves, deltaTime) / longRun).toBeLessThan(1.15);
+      // Each half of the run settles at the same level, rather than drifting
+      const half = moves.length / 2;
+      const first = varianceRate(moves.slice(0, half), deltaTime);
+      const second = varianceRate(moves.slice(half), deltaTime);
+      expect(second / first).toBeGreaterThan(0.7);
+      expect(second / first).toBeLessThan(1.4);
+    });
+
+    it('clusters large moves', () => {
+      const { moves } = runModel('garch', {
+        seed: 11,
+        ticks: 50000,
+        deltaTime,
+        volatility,
+        params: { garchAlpha: 0.2, garchBeta: 0.75 }
+      });
+      const squares = moves.map(move => move * move);
+      const mean = squares.reduce((sum, square) => sum + square, 0) / squares.length;
+      let covariance = 0;
+      let variance = 0;
+      for (let i = 1; i < squares.length; i++) {
+        covariance += (squares[i] - mean) * (squares[i - 1] - mean);
+        variance += (squares[i] - mean) ** 2;
+      }
+      expect(covariance / variance).toBeGreaterThan(0.05);
+    });
+
+    it('holds the variance within its cap for parameters outside the bounds', () => {
+      const { moves } = runModel('garch', {
+        seed: 5,
+        ticks: 20000,
+        deltaTime,
+        volatility,
+        params: { garchAlpha: 0.6, garchBeta: 0.9 }
+      });
+      const largest = Math.max(...moves.map(Math.abs));
+
+      expect(moves.every(Number.isFinite)).toBe(true);
+      // A move is at most a handful of standard deviations at the capped
+      // variance, 100 times the long-run one
+      expect(largest).toBeLessThan(10 * Math.sqrt(100 * volatility * volatility * deltaTime));
+      expect(varianceRate(moves, deltaTime)).toBeLessThan(100 * volatility * volatility);
+    });
+  });
+
+  describe('ornsteinUhlenbeck', () => {
+    it('reverts a displaced price to the mean', () => {
+      const { prices } = runModel('ornsteinUhlenbeck', {
+        ticks: 200,
+        deltaTime: 0.1,
+        volatility: 0.0005,
+        startPrice: 110,
+        params: { meanReversion: 0.5, meanPrice: 100 }
+      });
+
+      // Twenty seconds is seven half-lives: the 10% gap has all but closed
+      expect(prices[9]).toBeLessThan(110);
+      expect(Math.abs(prices[prices.length - 1] / 100 - 1)).toBeLessThan(0.005);
+    });
+
+    it('reverts to the initial price when no mean is set', () => {
+      const { prices } = runModel('ornsteinUhlenbeck', {
+        ticks: 200,
+        deltaTime: 0.1,
+        volatility: 0,
+        initialPrice: 100,
+        startPrice: 90,
+        params: { meanReversion: 0.5, meanPrice: 0 }
+      });
+
+      // Without noise the log deviation decays exactly by e^(−κt)
+      expect(Math.log(prices[prices.length - 1] / 100)).toBeCloseTo(Math.log(0.9) * Math.exp(-0.5 * 20), 10);
+    });
+
+    it('wanders around the mean over a long run', () => {
+      const { prices } = runModel('ornsteinUhlenbeck', {
+        seed: 3,
+        ticks: 20000,
+        deltaTime: 0.1,
+        volatility: 0.002,
+        params: { meanReversion: 0.2, meanPrice: 0 }
+      });
+      const deviations = prices.map(price => Math.log(price / 100));
+      const mean = deviations.reduce((sum, deviation) => sum + deviation, 0) / deviations.length;
+      const spread = Math.sqrt(deviations.reduce((sum, deviation) => sum + deviation * deviation, 0) / deviations.length);
+
+      // Stationary spread σ/√(2κ)
+      expect(Math.abs(mean)).toBeLessThan(0.002);
+      expect(spread / (0.002 / Math.sqrt(0.4))).toBeGreaterThan(0.85);
+      expect(spread / (0.002 / Math.sqrt(0.4))).toBeLessThan(1.15);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Price models for the market simulator
+ *
+ * A price model turns each tick's standard normal shock into the random part
+ * of the log-price move; the simulator adds its drift and pattern drift on
+ * top. Every model is scaled by the configured `volatility` (per √second), so
+ * switching models keeps the overall level of movement.
+ *
+ * - gbm: geometric Brownian motion. Constant volatility, smooth noise.
+ * - garch: GARCH(1,1) in continuous time. The variance rate h reverts to σ²
+ *   at (1 − α − β) per second, and each tick's shock z moves it by
+ *   α·√dt·(z² − 1)·h, which over a second adds up to the shock term of a
+ *   one-second GARCH(1,1). A large move raises the variance for a while, so
+ *   calm and turbulent stretches cluster.
+ * - regimeSwitching: a Markov chain between calm, trending and crash regimes,
+ *   each with its own volatility and drift. A regime lasts an exponentially
+ *   distributed time with the configured mean, then hands over to the next
+ *   by REGIME_TRANSITIONS. A trend picks its direction when it starts; one
+ *   that follows a crash is a rebound.
+ * - jumpDiffusion: Merton jump-diffusion. Jumps arrive as a Poisson process
+ *   with log-normal sizes on top of the diffusion; the drift is compensated
+ *   so the jumps don't bias the expected price.
+ * - ornsteinUhlenbeck: the log price reverts to a mean level, as exchange
+ *   rates tend to. Stepped with the exact discretization, so any tick length
+ *   is stable.
+ *
+ * The server runs a copy of these models (backend/src/priceModels.js). Both
+ * copies must reproduce the paths in testing/priceModelReference.json; see
+ * backend/src/checkPriceModels.js for how to regenerate them after a change.
+ */
+
+import type { PriceModelParams, PriceModelType } from '../types';
+import type { SeededRandom } from './random';
+
+export type MarketRegime = 'calm' | 'trending' | 'crash';
+
+// What a model needs to know about the tick it steps over
+export interface PriceTick {
+  deltaTime: number; // Seconds since the last tick
+  shock: number; // Standard normal draw for the diffusion
+  volatility: number; // Per √second
+  price: number;
+  initialPrice: number;
+}
+
+export interface PriceModel {
+  // Random log-price move over the tick
+  step(tick: PriceTick, params: PriceModelParams): number;
+}
+
+export const DEFAULT_PRICE_MODEL: PriceModelType = 'gbm';
+
+export const DEFAULT_PRICE_MODEL_PARAMS: PriceModelParams = {
+  garchAlpha: 0.1,
+  garchBeta: 0.85,
+  calmDuration: 60,
+  trendDuration: 40,
+  crashDuration: 8,
+  trendDrift: 0.0005,
+  crashDrift: -0.002,
+  crashVolatility: 3,
+  jumpIntensity: 0.02,
+  jumpMean: -0.001,
+  jumpVolatility: 0.004,
+  meanReversion: 0.02,
+  meanPrice: 0
+};
+
+export const PRICE_MODEL_LABELS: Record<PriceModelType, string> = {
+  gbm: 'Geometric Brownian Motion',
+  garch: 'GARCH(1,1) Volatility Clustering',
+  regimeSwitching: 'Regime Switching',
+  jumpDiffusion: 'Merton Jump-Diffusion',
+  ornsteinUhlenbeck: 'Mean-Reverting (Ornstein-Uhlenbeck)'
+};
+
+export const PRICE_MODEL_DESCRIPTIONS: Record<PriceModelType, string> = {
+  gbm: 'Constant volatility random walk',
+  garch: 'Big moves are followed by big moves: volatility clusters and decays back',
+  regimeSwitching: 'The market switches between calm spells, trends and short crashes',
+  jumpDiffusion: 'A random walk with sudden gaps, like news hitting the market',
+  ornsteinUhlenbeck: 'The price keeps being pulled back to a mean level, like a currency pair'
+};
+
+// Settings of each model, in the units they're entered in
+export const PRICE_MODEL_PARAMETERS: Record<PriceModelType, { key: keyof PriceModelParams; label: string; percent: boolean }[]> = {
+  gbm: [],
+  garch: [
+    { key: 'garchAlpha', label: 'Shock Weight α', percent: false },
+    { key: 'garchBeta', label: 'Persistence β', percent: false }
+  ],
+  regimeSwitching: [
+    { key: 'calmDuration', label: 'Calm Spell (s)', percent: false },
+    { key: 'trendDuration', label: 'Trend (s)', percent: false },
+    { key: 'crashDuration', label: 'Crash (s)', percent: false },
+    { key: 'trendDrift', label: 'Trend Drift (%/s)', percent: true },
+    { key: 'crashDrift', label: 'Crash Drift (%/s)', percent: true },
+    { key: 'crashVolatility', label: 'Crash Volatility (×)', percent: false }
+  ],
+  jumpDiffusion: [
+    { key: 'jumpIntensity', label: 'Jumps per Second', percent: false },
+    { key: 'jumpMean', label: 'Mean Jump (%)', percent: true },
+    { key: 'jumpVolatility', label: 'Jump Size Spread (%)', percent: true }
+  ],
+  ornsteinUhlenbeck: [
+    { key: 'meanReversion', label: 'Reversion Rate (/s)', percent: false },
+    { key: 'meanPrice', label: 'Mean Price (0: initial)', percent: false }
+  ]
+};
+
+// Volatility multiple of each regime, besides the crash one which is configured
+const REGIME_VOLATILITY: Record<Exclude<MarketRegime, 'crash'>, number> = {
+  calm: 0.6,
+  trending: 1
+};
+
+// Chance of moving to each regime when the current one ends
+const REGIME_TRANSITIONS: Record<MarketRegime, [MarketRegime, number][]> = {
+  calm: [['trending', 0.85], ['crash', 0.15]],
+  trending: [['calm', 0.75], ['crash', 0.25]],
+  crash: [['calm', 0.5], ['trending', 0.5]]
+};
+
+// Cap on the GARCH variance as a multiple of the long-run one, so a freak
+// shock can't blow the market up
+const MAX_VARIANCE_MULTIPLE = 100;
+
+// Most jumps counted in one tick
+const MAX_JUMPS_PER_TICK = 10;
+
+/**
+ * Model parameters, filling in defaults
+ */
+export const resolvePriceModelParams = (params?: Partial<PriceModelParams>): PriceModelParams => ({
+  ...DEFAULT_PRICE_MODEL_PARAMS,
+  ...params
+});
+
+class GbmModel implements PriceModel {
+  public step(tick: PriceTick): number {
+    return tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility;
+  }
+}
+
+class GarchModel implements PriceModel {
+  private variance: number | null = null; // Per second; starts at the long-run variance
+
+  public step(tick: PriceTick, params: PriceModelParams): number {
+    const longRun = tick.volatility * tick.volatility;
+    const variance = this.variance ?? longRun;
+    const move = tick.shock * Math.sqrt(variance * tick.deltaTime);
+
+    // Keep the process stationary: α and β non-negative, α + β below 1
+    const alpha = Math.max(0, params.garchAlpha);
+    const beta = Math.max(0, Math.min(params.garchBeta, 0.999 - alpha));
+    const dt = Math.min(tick.deltaTime, 1);
+    const next = variance
+      + (1 - alpha - beta) * dt * (longRun - variance)
+      + alpha * Math.sqrt(dt) * (tick.shock * tick.shock - 1) * variance;
+    this.variance = Math.min(Math.max(next, 0), longRun * MAX_VARIANCE_MULTIPLE);
+    return move;
+  }
+}
+
+class RegimeSwitchingModel implements PriceModel {
+  private random: SeededRandom;
+  private regime: MarketRegime = 'calm';
+  private trendDirection = 1;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  public step(tick: PriceTick, params: PriceModelParams): number {
+    const duration = {
+      calm: params.calmDuration,
+      trending: params.trendDuration,
+      crash: params.crashDuration
+    }[this.regime];
+    if (duration <= 0 || this.random.next() < 1 - Math.exp(-tick.deltaTime / duration)) {
+      this.switchRegime();
+    }
+
+    const diffusion = tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility;
+    switch (this.regime) {
+      case 'calm':
+        return diffusion * REGIME_VOLATILITY.calm;
+      case 'trending':
+        return diffusion * REGIME_VOLATILITY.trending + this.trendDirection * params.trendDrift * tick.deltaTime;
+      case 'crash':
+        return diffusion * params.crashVolatility + params.crashDrift * tick.deltaTime;
+    }
+  }
+
+  private switchRegime(): void {
+    const previous = this.regime;
+    const draw = this.random.next();
+    let cumulative = 0;
+    for (const [regime, probability] of REGIME_TRANSITIONS[this.regime]) {
+      cumulative += probability;
+      if (draw < cumulative) {
+        this.regime = regime;
+        break;
+      }
+    }
+    // A trend out of a crash is the rebound; any other goes either way
+    if (this.regime === 'trending') {
+      this.trendDirection = previous === 'crash' || this.random.next() < 0.5 ? 1 : -1;
+    }
+  }
+}
+
+class JumpDiffusionModel implements PriceModel {
+  private random: SeededRandom;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+  }
+
+  public step(tick: PriceTick, params: PriceModelParams): number {
+    const intensity = Math.max(0, params.jumpIntensity);
+    const { jumpMean, jumpVolatility } = params;
+
+    // Subtract the jumps' expected relative move so they don't bias the price
+    const compensation = intensity * (Math.exp(jumpMean + (jumpVolatility * jumpVolatility) / 2) - 1) * tick.deltaTime;
+    const diffusion = tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility - compensation;
+
+    // Jumps in the tick: Poisson with mean intensity·dt, by inverse transform
+    const expected = intensity * tick.deltaTime;
+    let probability = Math.exp(-expected);
+    let cumulative = probability;
+    const draw = this.random.next();
+    let jumps = 0;
+    while (draw > cumulative && jumps < MAX_JUMPS_PER_TICK) {
+      jumps++;
+      probability *= expected / jumps;
+      cumulative += probability;
+    }
+    if (jumps === 0) return diffusion;
+
+    // The sum of n log-normal jump sizes has mean n·μ and spread √n·σ
+    return diffusion + jumps * jumpMean + Math.sqrt(jumps) * jumpVolatility * this.random.normal();
+  }
+}
+
+class OrnsteinUhlenbeckModel implements PriceModel {
+  public step(tick: PriceTick, params: PriceModelParams): number {
+    const reversion = params.meanReversion;
+    if (reversion <= 0 || tick.price <= 0) {
+      return tick.shock * Math.sqrt(tick.deltaTime) * tick.volatility;
+    }
+
+    const mean = Math.log(params.meanPrice > 0 ? params.meanPrice : tick.initialPrice);
+    const deviation = Math.log(tick.price) - mean;
+    const decay = Math.exp(-reversion * tick.deltaTime);
+    const spread = tick.volatility * Math.sqrt((1 - decay * decay) / (2 * reversion));
+    return -deviation * (1 - decay) + spread * tick.shock;
+  }
+}
+
+/**
+ * New price model of a type. Models that draw their own random numbers
+ * (regimes, jumps) take them from the simulator's generator so a seed
+ * reproduces them.
+ */
+export const createPriceModel = (type: PriceModelType, random: SeededRandom): PriceModel => {
+  switch (type) {
+    case 'garch':
+      return new GarchModel();
+    case 'regimeSwitching':
+      return new RegimeSwitchingModel(random);
+    case 'jumpDiffusion':
+      return new JumpDiffusionModel(random);
+    case 'ornsteinUhlenbeck':
+      return new OrnsteinUhlenbeckModel();
+    default:
+      return new GbmModel();
+  }
+};
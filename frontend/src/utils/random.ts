@@ -0,0 +1,52 @@
+/**
+ * Seedable pseudo-random number generation for the market simulator.
+ *
+ * Every random draw in a simulated market goes through a SeededRandom so
+ * that the same seed (and the same config) reproduces the same market.
+ */
+
+// Generate a fresh 32-bit seed for sessions that don't specify one
+export const generateSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Normalize any numeric seed into an unsigned 32-bit integer
+export const normalizeSeed = (seed: number): number => {
+  if (!Number.isFinite(seed)) return 0;
+  return Math.floor(Math.abs(seed)) >>> 0;
+};
+
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = normalizeSeed(seed);
+    this.state = this.seed;
+  }
+
+  // The seed this generator was created with
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // Uniform random number in [0, 1) (mulberry32)
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Standard normal random number (Box-Muller transform)
+  public normal(): number {
+    let u = 0, v = 0;
+    while (u === 0) u = this.next();
+    while (v === 0) v = this.next();
+    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  }
+
+  // Random integer in [0, max)
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Risk guardrails
+ *
+ * Two kinds of limit, each off when set to 0:
+ *
+ * - Trade limits reject a trade that would take the position past
+ *   `maxPositionSize` units or `maxExposure` of notional.
+ * - Loss limits watch equity: the loss since the day or the session began,
+ *   and the drawdown from the highest equity seen. Breaching one locks
+ *   trading: the daily loss limit until the next day, the others for the
+ *   cool-down. Loss baselines restart when the lock is placed, so the player
+ *   comes back with a fresh allowance.
+ *
+ * Trades that only reduce the position are always allowed, so a locked
+ * player can still get flat. The functions here are pure; the app keeps the
+ * state and checks every trade against it.
+ */
+
+import type { Config } from '../types';
+
+export interface RiskSettings {
+  maxPositionSize: number; // Largest position, in units
+  maxExposure: number; // Largest position notional
+  dailyLossLimit: number; // Largest equity loss since the start of the day
+  sessionLossLimit: number; // Largest equity loss since the session began
+  maxDrawdown: number; // Largest fall from peak equity, as a share of the peak
+  cooldown: number; // Milliseconds trading stays locked after a session or drawdown breach
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  maxPositionSize: 0,
+  maxExposure: 0,
+  dailyLossLimit: 0,
+  sessionLossLimit: 0,
+  maxDrawdown: 0,
+  cooldown: 5 * 60 * 1000
+};
+
+export interface RiskState {
+  accountKey: string; // Account the baselines belong to; switching accounts starts over
+  day: string; // Local date the daily loss counts from
+  dayStartEquity: number;
+  sessionStartEquity: number;
+  peakEquity: number;
+  lockedUntil: number | null;
+  lockReason: string | null;
+}
+
+/**
+ * Risk settings from the config, filling in defaults
+ */
+export const getRiskSettings = (config: Config): RiskSettings => ({
+  maxPositionSize: config.maxPositionSize ?? DEFAULT_RISK_SETTINGS.maxPositionSize,
+  maxExposure: config.maxExposure ?? DEFAULT_RISK_SETTINGS.maxExposure,
+  dailyLossLimit: config.dailyLossLimit ?? DEFAULT_RISK_SETTINGS.dailyLossLimit,
+  sessionLossLimit: config.sessionLossLimit ?? DEFAULT_RISK_SETTINGS.sessionLossLimit,
+  maxDrawdown: config.maxDrawdown ?? DEFAULT_RISK_SETTINGS.maxDrawdown,
+  cooldown: config.riskCooldown ?? DEFAULT_RISK_SETTINGS.cooldown
+});
+
+const localDay = (now: number): string => new Date(now).toDateString();
+
+const nextMidnight = (now: number): number => {
+  const midnight = new Date(now);
+  midnight.setHours(24, 0, 0, 0);
+  return midnight.getTime();
+};
+
+/**
+ * Minutes and seconds (or hours and minutes) left, e.g. 4:05 or 2h 10m
+ */
+export const formatCountdown = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  if (seconds >= 3600) {
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  }
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const createRiskState = (accountKey: string, equity: number, now: number): RiskState => ({
+  accountKey,
+  day: localDay(now),
+  dayStartEquity: equity,
+  sessionStartEquity: equity,
+  peakEquity: equity,
+  lockedUntil: null,
+  lockReason: null
+});
+
+export const isTradingLocked = (state: RiskState, now: number): boolean =>
+  state.lockedUntil !== null && now < state.lockedUntil;
+
+/**
+ * Roll the baselines forward: a new account starts over, a new day restarts
+ * the daily loss, and the peak follows equity up. A lock that is over is
+ * cleared. Returns the same state when nothing changed.
+ */
+export const updateRiskState = (state: RiskState, accountKey: string, equity: number, now: number): RiskState => {
+  if (state.accountKey !== accountKey) {
+    return { ...createRiskState(accountKey, equity, now), lockedUntil: state.lockedUntil, lockReason: state.lockReason };
+  }
+
+  let next = state;
+  if (state.lockedUntil !== null && now >= state.lockedUntil) {
+    next = { ...next, lockedUntil: null, lockReason: null };
+  }
+  if (next.day !== localDay(now)) {
+    next = { ...next, day: localDay(now), dayStartEquity: equity };
+  }
+  if (equity > next.peakEquity) {
+    next = { ...next, peakEquity: equity };
+  }
+  return next;
+};
+
+/**
+ * Pick up saved state when the app starts: the day's baseline, the peak and
+ * any lock carry over, and a new session begins
+ */
+export const startRiskSession = (saved: RiskState | null, accountKey: string, equity: number, now: number): RiskState =>
+  saved
+    ? { ...updateRiskState(saved, accountKey, equity, now), sessionStartEquity: equity }
+    : createRiskState(accountKey, equity, now);
+
+/**
+ * Check equity against the loss limits and lock trading on a breach
+ * @returns The locked state, or the same state when no limit was breached
+ */
+export const checkLossLimits = (state: RiskState, equity: number, settings: RiskSettings, now: number): RiskState => {
+  if (isTradingLocked(state, now)) return state;
+
+  const restart = { sessionStartEquity: equity, peakEquity: equity };
+  const dailyLoss = state.dayStartEquity - equity;
+  if (settings.dailyLossLimit > 0 && dailyLoss >= settings.dailyLossLimit) {
+    return {
+      ...state,
+      ...restart,
+      lockedUntil: nextMidnight(now),
+      lockReason: `Daily loss limit reached (-$${dailyLoss.toFixed(2)} of $${settings.dailyLossLimit.toFixed(2)})`
+    };
+  }
+
+  const sessionLoss = state.sessionStartEquity - equity;
+  if (settings.sessionLossLimit > 0 && sessionLoss >= settings.sessionLossLimit) {
+    return {
+      ...state,
+      ...restart,
+      lockedUntil: now + settings.cooldown,
+      lockReason: `Session loss limit reached (-$${sessionLoss.toFixed(2)} of $${settings.sessionLossLimit.toFixed(2)})`
+    };
+  }
+
+  const drawdown = state.peakEquity > 0 ? (state.peakEquity - equity) / state.peakEquity : 0;
+  if (settings.maxDrawdown > 0 && drawdown >= settings.maxDrawdown) {
+    return {
+      ...state,
+      ...restart,
+      lockedUntil: now + settings.cooldown,
+      lockReason: `Max drawdown reached (${(drawdown * 100).toFixed(1)}% below peak equity of $${state.peakEquity.toFixed(2)})`
+    };
+  }
+
+  return state;
+};
+
+/**
+ * Check a trade against the lock and the position limits
+ * @returns Rejection reason, or null if the trade may go ahead
+ */
+export const checkRiskTrade = (
+  state: RiskState,
+  settings: RiskSettings,
+  position: number,
+  side: 'buy' | 'sell',
+  size: number,
+  price: number,
+  now: number
+): string | null => {
+  const newPosition = side === 'buy' ? position + size : position - size;
+
+  // Reducing (not flipping) a position is always allowed
+  if (Math.abs(newPosition) <= Math.abs(position) && Math.sign(newPosition) !== -Math.sign(position)) {
+    return null;
+  }
+
+  if (isTradingLocked(state, now) && state.lockedUntil !== null) {
+    return `Trading locked for ${formatCountdown(state.lockedUntil - now)}: ${state.lockReason}. Only trades that reduce the position are allowed`;
+  }
+  if (settings.maxPositionSize > 0 && Math.abs(newPosition) > settings.maxPositionSize) {
+    return `Position of ${Math.abs(newPosition).toFixed(4)} would exceed the max position size (${settings.maxPositionSize})`;
+  }
+  const exposure = Math.abs(newPosition) * price;
+  if (settings.maxExposure > 0 && exposure > settings.maxExposure) {
+    return `Exposure of $${exposure.toFixed(2)} would exceed the max exposure ($${settings.maxExposure.toFixed(2)})`;
+  }
+  return null;
+};
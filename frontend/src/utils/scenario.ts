@@ -0,0 +1,207 @@
+/**
+ * Scripted market scenarios
+ *
+ * A scenario is a timeline of segments, each running one pattern for a set
+ * number of seconds with its own strength, volatility and spread. The
+ * simulator plays the segments in order on its market clock, so the same
+ * scenario and seed produce the same market every time: trainers can script
+ * a lesson, and competitors can race on identical markets. After the last
+ * segment a scenario either loops back to the first or ends, handing the
+ * market back to the simulator's own settings.
+ *
+ * Scenarios are written as JSON:
+ *
+ *   {
+ *     "name": "Breakout",
+ *     "loop": false,
+ *     "segments": [
+ *       { "pattern": "sideways", "duration": 60 },
+ *       { "pattern": "breakout_up", "duration": 20, "strength": 0.8 },
+ *       { "pattern": "volatile", "duration": 45, "volatility": 0.002 },
+ *       { "pattern": "double_top", "duration": 90, "spread": 0.0004 }
+ *     ]
+ *   }
+ */
+
+import type { MarketScenario, ScenarioSegment } from '../types';
+
+export interface ScenarioStatus {
+  name: string;
+  segmentIndex: number;
+  segmentCount: number;
+  segment: ScenarioSegment | null; // Null once the scenario has ended
+  segmentEndsAt: number | null; // Market time the segment hands over, in ms
+  loops: number; // Times the scenario has started over
+  finished: boolean;
+}
+
+export const SCENARIO_PATTERNS: ScenarioSegment['pattern'][] = [
+  'random_walk',
+  'uptrend',
+  'downtrend',
+  'volatile',
+  'sideways',
+  'breakout_up',
+  'breakout_down',
+  'head_and_shoulders',
+  'double_top',
+  'double_bottom'
+];
+
+// Built-in scenarios, by key
+export const SCENARIO_PRESETS: Record<string, MarketScenario> = {
+  breakoutLesson: {
+    name: 'Breakout Lesson',
+    description: 'A quiet range breaks out, turns choppy and tops out twice',
+    segments: [
+      { pattern: 'sideways', duration: 60, strength: 0.7, volatility: 0.0003 },
+      { pattern: 'breakout_up', duration: 20, strength: 0.9, volatility: 0.0008 },
+      { pattern: 'volatile', duration: 45, strength: 0.8, volatility: 0.002, spread: 0.0004 },
+      { pattern: 'double_top', duration: 90, strength: 0.8, volatility: 0.0006 }
+    ]
+  },
+  trendCycle: {
+    name: 'Trend Cycle',
+    description: 'Rally, distribution and sell-off, round and round',
+    loop: true,
+    segments: [
+      { pattern: 'uptrend', duration: 60, strength: 0.6, volatility: 0.0005 },
+      { pattern: 'head_and_shoulders', duration: 90, strength: 0.8, volatility: 0.0006 },
+      { pattern: 'downtrend', duration: 60, strength: 0.6, volatility: 0.0005 },
+      { pattern: 'double_bottom', duration: 75, strength: 0.8, volatility: 0.0006 }
+    ]
+  }
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Parse and check a scenario written as JSON
+ * @throws Error describing the first problem found
+ */
+export const parseScenario = (text: string): MarketScenario => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Scenario is not valid JSON');
+  }
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Scenario must be a JSON object');
+  }
+
+  const scenario = raw as Record<string, unknown>;
+  if (!Array.isArray(scenario.segments) || scenario.segments.length === 0) {
+    throw new Error('Scenario needs a non-empty "segments" list');
+  }
+
+  const segments = scenario.segments.map((entry: unknown, index): ScenarioSegment => {
+    const segment = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const where = `Segment ${index + 1}`;
+    if (!SCENARIO_PATTERNS.includes(segment.pattern as ScenarioSegment['pattern'])) {
+      throw new Error(`${where}: unknown pattern "${String(segment.pattern)}"`);
+    }
+    if (!isFiniteNumber(segment.duration) || segment.duration <= 0) {
+      throw new Error(`${where}: duration must be a positive number of seconds`);
+    }
+    if (segment.strength !== undefined && (!isFiniteNumber(segment.strength) || segment.strength < 0 || segment.strength > 1)) {
+      throw new Error(`${where}: strength must be between 0 and 1`);
+    }
+    for (const key of ['volatility', 'spread'] as const) {
+      if (segment[key] !== undefined && (!isFiniteNumber(segment[key]) || segment[key] < 0)) {
+        throw new Error(`${where}: ${key} must be a non-negative number`);
+      }
+    }
+    return {
+      pattern: segment.pattern as ScenarioSegment['pattern'],
+      duration: segment.duration,
+      strength: segment.strength as number | undefined,
+      volatility: segment.volatility as number | undefined,
+      spread: segment.spread as number | undefined
+    };
+  });
+
+  return {
+    name: typeof scenario.name === 'string' && scenario.name.trim() !== '' ? scenario.name.trim() : 'Untitled scenario',
+    description: typeof scenario.description === 'string' ? scenario.description : undefined,
+    loop: scenario.loop === true,
+    segments
+  };
+};
+
+/**
+ * Total length of one pass through a scenario, in seconds
+ */
+export const getScenarioDuration = (scenario: MarketScenario): number =>
+  scenario.segments.reduce((total, segment) => total + segment.duration, 0);
+
+/**
+ * Short label for a segment, e.g. "breakout up 20s"
+ */
+export const describeSegment = (segment: ScenarioSegment): string =>
+  `${segment.pattern.replace(/_/g, ' ')} ${segment.duration}s`;
+
+/**
+ * Whether a scenario moved on to another segment, looped, ended, or started
+ * or stopped playing between two statuses
+ */
+export const hasScenarioMoved = (previous: ScenarioStatus | null, status: ScenarioStatus | null): boolean =>
+  status?.segmentIndex !== previous?.segmentIndex ||
+  status?.loops !== previous?.loops ||
+  status?.finished !== previous?.finished;
+
+/**
+ * Plays a scenario's segments on the market clock
+ */
+export class ScenarioTimeline {
+  private scenario: MarketScenario;
+  private index = 0;
+  private segmentStart: number;
+  private loops = 0;
+  private finished = false;
+
+  constructor(scenario: MarketScenario, startTime: number) {
+    this.scenario = scenario;
+    this.segmentStart = startTime;
+  }
+
+  // Move past every segment that has run out by now
+  // @returns Whether a different segment is playing, or the scenario ended
+  public advance(now: number): boolean {
+    let changed = false;
+    while (!this.finished && now >= this.segmentEndsAt()) {
+      this.segmentStart = this.segmentEndsAt();
+      changed = true;
+      if (this.index + 1 < this.scenario.segments.length) {
+        this.index++;
+      } else if (this.scenario.loop) {
+        this.index = 0;
+        this.loops++;
+      } else {
+        this.finished = true;
+      }
+    }
+    return changed;
+  }
+
+  // Segment playing now; null once the scenario has ended
+  public getSegment(): ScenarioSegment | null {
+    return this.finished ? null : this.scenario.segments[this.index];
+  }
+
+  public getStatus(): ScenarioStatus {
+    return {
+      name: this.scenario.name,
+      segmentIndex: this.index,
+      segmentCount: this.scenario.segments.length,
+      segment: this.getSegment(),
+      segmentEndsAt: this.finished ? null : this.segmentEndsAt(),
+      loops: this.loops,
+      finished: this.finished
+    };
+  }
+
+  private segmentEndsAt(): number {
+    return this.segmentStart + this.scenario.segments[this.index].duration * 1000;
+  }
+}
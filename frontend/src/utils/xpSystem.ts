@@ -45,8 +45,10 @@ export interface XPProfile {
   stats: {
     tradesExecuted: number;
     profitableTrades: number;
+    closedTrades?: number; // Trades that closed part of a position
+    currentStreak?: number; // Consecutive closing trades in profit
     longestStreak: number;
-    totalProfit: number;
+    totalProfit: number; // Net realized P&L
     patternsDetected: number;
     sessionsCompleted: number;
   };
@@ -104,6 +106,8 @@ export const createDefaultProfile = (userId: string, username: string): XPProfil
     stats: {
       tradesExecuted: 0,
       profitableTrades: 0,
+      closedTrades: 0,
+      currentStreak: 0,
       longestStreak: 0,
       totalProfit: 0,
       patternsDetected: 0,
@@ -202,12 +206,12 @@ export const addXP = (
   };
 };
 
-// Process a trade for XP
+// Process a trade for XP. Only fills that close part of the position (and
+// so have a realized P&L) count as wins or losses and move the streak.
 export const processTradeForXP = (
   profile: XPProfile, 
   trade: Trade, 
-  currentPrice: number, 
-  currentStreak: number
+  realizedPnl: number | null
 ): { 
   updatedProfile: XPProfile; 
   xpGained: number; 
@@ -227,23 +231,30 @@ export const processTradeForXP = (
   totalXpGained += tradeResult.xpGained;
   actions.push(updatedProfile.recentActions[0]);
   
-  // Check if trade is profitable
-  const pnl = trade.side === 'buy'
-    ? (currentPrice - trade.price) * Math.abs(trade.size)
-    : (trade.price - currentPrice) * Math.abs(trade.size);
+  if (realizedPnl !== null) {
+    const currentStreak = realizedPnl > 0 ? (profile.stats.currentStreak ?? 0) + 1 : 0;
+    updatedProfile = {
+      ...updatedProfile,
+      stats: {
+        ...updatedProfile.stats,
+        closedTrades: (updatedProfile.stats.closedTrades ?? 0) + 1,
+        totalProfit: updatedProfile.stats.totalProfit + realizedPnl,
+        currentStreak,
+        longestStreak: Math.max(updatedProfile.stats.longestStreak, currentStreak)
+      }
+    };
+  }
   
-  if (pnl > 0) {
-    // XP for profitable trade
-    const profitResult = addXP(updatedProfile, 'profitable_trade');
+  if (realizedPnl !== null && realizedPnl > 0) {
+    // XP for closing at a profit
+    const profitResult = addXP(updatedProfile, 'profitable_trade', undefined, `Closed ${trade.size.toFixed(4)} for +$${realizedPnl.toFixed(2)}`);
     updatedProfile = profitResult.updatedProfile;
     totalXpGained += profitResult.xpGained;
     actions.push(updatedProfile.recentActions[0]);
     
-    // Update total profit stat
-    updatedProfile.stats.totalProfit += pnl;
-    
     // Check for streak milestones
-    if (currentStreak > 0 && currentStreak % 5 === 0 && currentStreak <= 20) {
+    const currentStreak = updatedProfile.stats.currentStreak ?? 0;
+    if (currentStreak % 5 === 0 && currentStreak <= 20) {
       // XP for streak milestone (5, 10, 15, 20)
       const streakResult = addXP(
         updatedProfile, 
@@ -255,11 +266,6 @@ export const processTradeForXP = (
       totalXpGained += streakResult.xpGained;
       actions.push(updatedProfile.recentActions[0]);
     }
-    
-    // Update longest streak stat
-    if (currentStreak > updatedProfile.stats.longestStreak) {
-      updatedProfile.stats.longestStreak = currentStreak;
-    }
   }
   
   // Check if leveled up
@@ -365,12 +371,29 @@ export const saveXPProfile = (profile: XPProfile): void => {
   }
 };
 
+// Profiles saved before closed trades were tracked scored every fill against
+// the mid price; their profit stats mean nothing, so start them over
+export const upgradeXPProfile = (profile: XPProfile): XPProfile => {
+  if (profile.stats.closedTrades !== undefined) return profile;
+  return {
+    ...profile,
+    stats: {
+      ...profile.stats,
+      profitableTrades: 0,
+      closedTrades: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+      totalProfit: 0
+    }
+  };
+};
+
 // Load XP profile from localStorage
 export const loadXPProfile = (userId: string, username: string): XPProfile => {
   try {
     const savedProfile = localStorage.getItem('tradestick_xp_profile');
     if (savedProfile) {
-      return JSON.parse(savedProfile);
+      return upgradeXPProfile(JSON.parse(savedProfile));
     }
   } catch (error) {
     console.error('Error loading XP profile:', error);